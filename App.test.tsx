@@ -1,14 +1,26 @@
-import { render } from '@testing-library/react';
+import { render, act, fireEvent } from '@testing-library/react';
 import { MemoryRouter } from 'react-router-dom';
 import { describe, expect, test, jest, beforeEach } from '@jest/globals';
 import App, { THEME_PRESETS, AppThemeId } from './App';
+import { registerUnsavedForm } from './services/unsavedForms';
+import { hasLockPin, setLockPin } from './services/lockScreen';
 
 // Mock resetData from services/api so we can assert calls & avoid touching real mock DB
 jest.mock('./services/api', () => ({
   resetData: jest.fn(),
+  setApiSession: jest.fn(),
+  getApiSession: jest.fn(() => ({ token: null, user: null })),
+  loadPlayerDirectory: jest.fn(),
+  refreshApiSession: jest.fn(),
+  subscribeToSessionRefresh: jest.fn(() => () => {}),
+  subscribeToSessionExpiry: jest.fn(() => () => {}),
 }));
 
-const { resetData } = jest.requireMock('./services/api') as { resetData: jest.Mock };
+const { resetData, getApiSession, refreshApiSession, subscribeToSessionRefresh, subscribeToSessionExpiry } =
+  jest.requireMock('./services/api') as Record<string, jest.Mock>;
+
+// The listener App registered most recently with one of the session subscribe mocks
+const lastListener = (subscribe: jest.Mock) => subscribe.mock.calls[subscribe.mock.calls.length - 1][0] as (...args: any[]) => any;
 
 // Simple localStorage mock (keeps it explicit and controllable per test file)
 const localStorageMock = (() => {
@@ -43,25 +55,25 @@ beforeAll(() => {
   });
 });
 
-// Mock alert so inactivity timer doesn’t try to show a real alert
-const originalAlert = window.alert;
-
-jest.mock('./pages/Login', () => () => <div>Login Page</div>);
-jest.mock('./pages/Dashboard', () => () => <div>Dashboard Page</div>);
+jest.mock('./pages/Login', () => ({ notice }: { notice?: string | null }) => (
+  <div>
+    <div>Login Page</div>
+    {notice && <p>{notice}</p>}
+  </div>
+));
+jest.mock('./pages/Dashboard', () => () => <div>Dashboard Page<input aria-label="Dashboard search" /></div>);
+jest.mock('./pages/ImportData', () => () => <div>Import Page</div>);
+jest.mock('./pages/CreateItem', () => () => <div>Item Page</div>);
 
 describe('App Integration', () => {
   beforeEach(() => {
     localStorage.clear();
     (resetData as jest.Mock).mockClear();
-    window.alert = jest.fn();
+    refreshApiSession.mockReset();
     document.documentElement.className = '';
     document.documentElement.style.cssText = '';
   });
 
-  afterAll(() => {
-    window.alert = originalAlert;
-  });
-
   test('redirects to login when no user session exists', () => {
     localStorage.removeItem('voiddex_user');
     localStorage.removeItem('voiddex_token');
@@ -88,6 +100,43 @@ describe('App Integration', () => {
     expect(await findByText('Dashboard Page')).toBeTruthy();
   });
 
+  test.each([
+    ['a player', 'player', 'Dashboard Page'],
+    ['a saved session without a role', undefined, 'Dashboard Page'],
+    ['Character Services', 'cs', 'Import Page'],
+  ])('only lets roles that may import reach the import page: %s', async (_, role, expected) => {
+    localStorage.setItem('voiddex_user', JSON.stringify({ id: '123', name: 'Test User', role }));
+    localStorage.setItem('voiddex_token', 'valid-token');
+
+    const { findByText } = render(
+        <MemoryRouter initialEntries={['/import']}>
+          <App />
+        </MemoryRouter>
+    );
+
+    expect(await findByText(expected)).toBeTruthy();
+  });
+
+  test('lets players view records on the create pages but not create them', async () => {
+    localStorage.setItem('voiddex_user', JSON.stringify({ id: '123', name: 'Test User', role: 'player' }));
+    localStorage.setItem('voiddex_token', 'valid-token');
+
+    const view = render(
+        <MemoryRouter initialEntries={[{ pathname: '/create-item', state: { mode: 'view', item: { itin: '1001' } } }]}>
+          <App />
+        </MemoryRouter>
+    );
+    expect(await view.findByText('Item Page')).toBeTruthy();
+    view.unmount();
+
+    const create = render(
+        <MemoryRouter initialEntries={['/create-item']}>
+          <App />
+        </MemoryRouter>
+    );
+    expect(await create.findByText('Dashboard Page')).toBeTruthy();
+  });
+
   test('applies dark theme when localStorage theme is "dark"', () => {
     localStorage.setItem('theme', 'dark');
     localStorage.setItem('voiddex_user', JSON.stringify({ id: '123', name: 'Test User' }));
@@ -122,11 +171,13 @@ describe('App Integration', () => {
     expect(rootStyle.getPropertyValue('--btn-py').trim()).toBe(preset.btnPy);
   });
 
-  test('logs out after inactivity and redirects to login', () => {
+  test('locks after inactivity even without an unlock PIN', async () => {
     jest.useFakeTimers();
 
     localStorage.setItem('voiddex_user', JSON.stringify({ id: '123', name: 'Active User' }));
     localStorage.setItem('voiddex_token', 'valid-token');
+    const saveDraft = jest.fn(async () => {});
+    const unregister = registerUnsavedForm(saveDraft);
 
     const { getByText } = render(
         <MemoryRouter initialEntries={['/']}>
@@ -137,20 +188,136 @@ describe('App Integration', () => {
     // Initially we should see the dashboard
     expect(getByText('Dashboard Page')).toBeTruthy();
 
-    // Advance time by 5 minutes + a tiny buffer
-    jest.advanceTimersByTime(5 * 60 * 1000 + 100);
+    await act(async () => {
+      jest.advanceTimersByTime(5 * 60 * 1000 + 100);
+    });
+
+    // Nobody is signed out behind the user's back; the lock screen only offers signing in again
+    expect(getByText('Locked')).toBeTruthy();
+    expect(getByText(/No unlock PIN is set on this device/)).toBeTruthy();
+    expect(resetData).not.toHaveBeenCalled();
+    expect(localStorage.getItem('voiddex_token')).toBe('valid-token');
+
+    // Signing in again keeps the unsaved form as a draft first
+    await act(async () => {
+      fireEvent.click(getByText('Sign in again'));
+    });
+    expect(saveDraft).toHaveBeenCalled();
+    expect(getByText('Login Page')).toBeTruthy();
+    expect(localStorage.getItem('voiddex_user')).toBeNull();
+    expect(localStorage.getItem('voiddex_token')).toBeNull();
 
-    // resetData should be called on logout due to inactivity
-    expect(resetData).toHaveBeenCalled();
+    unregister();
+    jest.useRealTimers();
+  });
 
-    // Alert should be shown
-    expect(window.alert).toHaveBeenCalled();
-    const alertMsg = (window.alert as jest.Mock).mock.calls[0][0] as string;
-    expect(alertMsg).toContain('logged out due to inactivity');
+  test('asks for an unlock PIN after signing in', () => {
+    localStorage.setItem('voiddex_user', JSON.stringify({ id: '123', name: 'Active User' }));
+    localStorage.setItem('voiddex_token', 'valid-token');
 
-    // User + token removed from storage
-    expect(localStorage.getItem('voiddex_user')).toBeNull();
+    const { getByText, getByPlaceholderText, queryByText } = render(
+        <MemoryRouter initialEntries={['/']}>
+          <App />
+        </MemoryRouter>
+    );
+
+    expect(getByText('Set Unlock PIN')).toBeTruthy();
+    expect(queryByText('Cancel')).toBeNull();
+
+    fireEvent.change(getByPlaceholderText('4 to 8 digits'), { target: { value: '2468' } });
+    fireEvent.change(getByPlaceholderText('Repeat the PIN'), { target: { value: '2468' } });
+    fireEvent.click(getByText('Save PIN'));
+
+    expect(queryByText('Set Unlock PIN')).toBeNull();
+    expect(getByText('Dashboard Page')).toBeTruthy();
+    expect(hasLockPin('123')).toBe(true);
+    expect(localStorage.getItem('voiddex_locked')).toBeNull();
+  });
+
+  test('signs out instead of setting an unlock PIN', () => {
+    localStorage.setItem('voiddex_user', JSON.stringify({ id: '123', name: 'Active User' }));
+    localStorage.setItem('voiddex_token', 'valid-token');
+
+    const { getByText } = render(
+        <MemoryRouter initialEntries={['/']}>
+          <App />
+        </MemoryRouter>
+    );
+
+    localStorage.setItem('voiddex_reserved_ids', JSON.stringify({ owner: 'mock:a|123', ids: { item: ['1026'] } }));
+    fireEvent.click(getByText('Sign Out'));
+
+    expect(getByText('Login Page')).toBeTruthy();
     expect(localStorage.getItem('voiddex_token')).toBeNull();
+    // Reserved IDs are not handed on to whoever signs in next
+    expect(localStorage.getItem('voiddex_reserved_ids')).toBeNull();
+  });
+
+  test('follows logins and logouts made in another tab', async () => {
+    const { findByText } = render(
+        <MemoryRouter initialEntries={['/']}>
+          <App />
+        </MemoryRouter>
+    );
+    expect(await findByText('Login Page')).toBeTruthy();
+
+    // The other tab writes the session, the browser fires a storage event here
+    act(() => {
+      localStorage.setItem('voiddex_user', JSON.stringify({ id: '123', name: 'Test User' }));
+      localStorage.setItem('voiddex_token', 'valid-token');
+      window.dispatchEvent(new StorageEvent('storage', { key: 'voiddex_user' }));
+    });
+    expect(await findByText('Dashboard Page')).toBeTruthy();
+
+    act(() => {
+      localStorage.removeItem('voiddex_user');
+      localStorage.removeItem('voiddex_token');
+      window.dispatchEvent(new StorageEvent('storage', { key: 'voiddex_user' }));
+    });
+    expect(await findByText('Login Page')).toBeTruthy();
+    expect(resetData).toHaveBeenCalled();
+  });
+
+  test('follows theme changes made in another tab', () => {
+    localStorage.setItem('voiddex_user', JSON.stringify({ id: '123', name: 'Test User' }));
+    localStorage.setItem('voiddex_token', 'valid-token');
+
+    render(
+        <MemoryRouter initialEntries={['/']}>
+          <App />
+        </MemoryRouter>
+    );
+    expect(document.documentElement.classList.contains('dark')).toBe(false);
+
+    act(() => {
+      localStorage.setItem('theme', 'dark');
+      localStorage.setItem('appTheme', 'historic');
+      window.dispatchEvent(new StorageEvent('storage', { key: 'theme' }));
+    });
+
+    expect(document.documentElement.classList.contains('dark')).toBe(true);
+    expect(document.documentElement.style.getPropertyValue('--font-display').trim()).toBe(THEME_PRESETS.historic.fontDisplay);
+  });
+
+  test('activity in another tab keeps the session alive', () => {
+    jest.useFakeTimers();
+
+    localStorage.setItem('voiddex_user', JSON.stringify({ id: '123', name: 'Active User' }));
+    localStorage.setItem('voiddex_token', 'valid-token');
+
+    render(
+        <MemoryRouter initialEntries={['/']}>
+          <App />
+        </MemoryRouter>
+    );
+
+    act(() => {
+      jest.advanceTimersByTime(4 * 60 * 1000);
+      window.dispatchEvent(new StorageEvent('storage', { key: 'voiddex_last_activity' }));
+      jest.advanceTimersByTime(4 * 60 * 1000);
+    });
+
+    expect(localStorage.getItem('voiddex_locked')).toBeNull();
 
     jest.useRealTimers();
   });
@@ -168,4 +335,217 @@ describe('App Integration', () => {
     // If JSON parse fails, user should initialize as null → login page
     expect(getByText('Login Page')).toBeTruthy();
   });
+
+  test('renews the token shortly before it expires', () => {
+    jest.useFakeTimers();
+    refreshApiSession.mockImplementation(async () => true);
+
+    localStorage.setItem('voiddex_user', JSON.stringify({ id: '123', name: 'Test User' }));
+    localStorage.setItem('voiddex_token', 'old-token');
+    localStorage.setItem('voiddex_refresh_token', 'refresh-1');
+    localStorage.setItem('voiddex_token_expires_at', String(Date.now() + 3 * 60 * 1000));
+
+    render(
+        <MemoryRouter initialEntries={['/']}>
+          <App />
+        </MemoryRouter>
+    );
+
+    act(() => {
+      jest.advanceTimersByTime(60 * 1000);
+    });
+    expect(refreshApiSession).not.toHaveBeenCalled();
+
+    act(() => {
+      jest.advanceTimersByTime(60 * 1000 + 100);
+    });
+    expect(refreshApiSession).toHaveBeenCalledTimes(1);
+
+    // The data layer hands back the renewed session
+    act(() => {
+      lastListener(subscribeToSessionRefresh)({ token: 'new-token', refreshToken: 'refresh-2', expiresAt: 123456 });
+    });
+    expect(localStorage.getItem('voiddex_token')).toBe('new-token');
+    expect(localStorage.getItem('voiddex_refresh_token')).toBe('refresh-2');
+    expect(localStorage.getItem('voiddex_token_expires_at')).toBe('123456');
+
+    jest.useRealTimers();
+  });
+
+  test('keeps the unsaved form as a draft when the session expires', async () => {
+    localStorage.setItem('voiddex_user', JSON.stringify({ id: '123', name: 'Test User' }));
+    localStorage.setItem('voiddex_token', 'old-token');
+    const saveDraft = jest.fn(async () => {});
+    const unregister = registerUnsavedForm(saveDraft);
+
+    const { findByText } = render(
+        <MemoryRouter initialEntries={['/']}>
+          <App />
+        </MemoryRouter>
+    );
+    expect(await findByText('Dashboard Page')).toBeTruthy();
+
+    await act(async () => {
+      await lastListener(subscribeToSessionExpiry)();
+    });
+
+    expect(saveDraft).toHaveBeenCalled();
+    expect(await findByText('Login Page')).toBeTruthy();
+    expect(localStorage.getItem('voiddex_token')).toBeNull();
+    expect(await findByText('Your session has expired. Your unsaved form was kept as a draft.')).toBeTruthy();
+    unregister();
+  });
+
+  test('adopts the session another tab renewed instead of ending it', async () => {
+    localStorage.setItem('voiddex_user', JSON.stringify({ id: '123', name: 'Test User' }));
+    localStorage.setItem('voiddex_token', 'old-token');
+    localStorage.setItem('voiddex_refresh_token', 'refresh-1');
+
+    const { findByText } = render(
+        <MemoryRouter initialEntries={['/']}>
+          <App />
+        </MemoryRouter>
+    );
+    expect(await findByText('Dashboard Page')).toBeTruthy();
+
+    // This tab tried refresh-1, which the other tab had already traded for refresh-2
+    getApiSession.mockReturnValueOnce({ refreshToken: 'refresh-1' });
+    localStorage.setItem('voiddex_token', 'token-from-other-tab');
+    localStorage.setItem('voiddex_refresh_token', 'refresh-2');
+    await act(async () => {
+      await lastListener(subscribeToSessionExpiry)();
+    });
+
+    expect(await findByText('Dashboard Page')).toBeTruthy();
+    expect(localStorage.getItem('voiddex_token')).toBe('token-from-other-tab');
+  });
+
+  test('warns a minute before the inactivity timeout', () => {
+    jest.useFakeTimers();
+    localStorage.setItem('voiddex_user', JSON.stringify({ id: '123', name: 'Active User' }));
+    localStorage.setItem('voiddex_token', 'valid-token');
+
+    const { getByText, queryByText } = render(
+        <MemoryRouter initialEntries={['/']}>
+          <App />
+        </MemoryRouter>
+    );
+
+    act(() => {
+      jest.advanceTimersByTime(4 * 60 * 1000 + 100);
+    });
+    expect(getByText('Still there?')).toBeTruthy();
+    expect(getByText(/The app locks in \d+ seconds/)).toBeTruthy();
+
+    fireEvent.click(getByText('Keep Working'));
+    expect(queryByText('Still there?')).toBeNull();
+
+    act(() => {
+      jest.advanceTimersByTime(4 * 60 * 1000);
+    });
+    expect(localStorage.getItem('voiddex_locked')).toBeNull();
+
+    jest.useRealTimers();
+  });
+
+  test('unlocks with the PIN, keeping the session and page', async () => {
+    jest.useFakeTimers();
+    localStorage.setItem('voiddex_user', JSON.stringify({ id: '123', name: 'Active User' }));
+    localStorage.setItem('voiddex_token', 'valid-token');
+    setLockPin('123', '2468');
+
+    const { getByText, getByPlaceholderText, queryByText } = render(
+        <MemoryRouter initialEntries={['/']}>
+          <App />
+        </MemoryRouter>
+    );
+
+    await act(async () => {
+      jest.advanceTimersByTime(5 * 60 * 1000 + 100);
+    });
+
+    // Session and page are kept underneath the lock screen
+    expect(getByText('Locked')).toBeTruthy();
+    expect(getByText('Dashboard Page')).toBeTruthy();
+    expect(resetData).not.toHaveBeenCalled();
+    expect(localStorage.getItem('voiddex_token')).toBe('valid-token');
+    expect(localStorage.getItem('voiddex_locked')).toBe('1');
+
+    fireEvent.change(getByPlaceholderText('Enter your PIN'), { target: { value: '1111' } });
+    fireEvent.click(getByText('Unlock'));
+    expect(getByText('Wrong PIN. 4 attempts left.')).toBeTruthy();
+
+    fireEvent.change(getByPlaceholderText('Enter your PIN'), { target: { value: '2468' } });
+    fireEvent.click(getByText('Unlock'));
+    expect(queryByText('Locked')).toBeNull();
+    expect(localStorage.getItem('voiddex_locked')).toBeNull();
+
+    jest.useRealTimers();
+  });
+
+  test('stays locked after a reload', () => {
+    localStorage.setItem('voiddex_user', JSON.stringify({ id: '123', name: 'Active User' }));
+    localStorage.setItem('voiddex_token', 'valid-token');
+    localStorage.setItem('voiddex_locked', '1');
+
+    const { getByText } = render(
+        <MemoryRouter initialEntries={['/']}>
+          <App />
+        </MemoryRouter>
+    );
+
+    expect(getByText('Locked')).toBeTruthy();
+    expect(getByText(/No unlock PIN is set on this device/)).toBeTruthy();
+  });
+
+  test('keeps everything behind the lock screen out of reach', () => {
+    localStorage.setItem('voiddex_user', JSON.stringify({ id: '123', name: 'Active User' }));
+    localStorage.setItem('voiddex_token', 'valid-token');
+    localStorage.setItem('voiddex_locked', '1');
+    setLockPin('123', '2468');
+
+    const { getByLabelText, getByPlaceholderText, getByRole, getByText } = render(
+        <MemoryRouter initialEntries={['/']}>
+          <App />
+        </MemoryRouter>
+    );
+
+    // Everything that could take focus outside an inert subtree belongs to the lock screen
+    const lockScreen = getByRole('dialog', { name: 'App locked' });
+    const focusable = Array.from(document.querySelectorAll<HTMLElement>('input, button, select, textarea, a[href], [tabindex]'))
+        .filter(el => !el.closest('[inert]'));
+    expect(focusable.length).toBeGreaterThan(0);
+    expect(focusable.every(el => lockScreen.contains(el))).toBe(true);
+    expect(getByLabelText('Dashboard search').closest('[inert]')).not.toBeNull();
+
+    fireEvent.change(getByPlaceholderText('Enter your PIN'), { target: { value: '2468' } });
+    fireEvent.click(getByText('Unlock'));
+    expect(getByLabelText('Dashboard search').closest('[inert]')).toBeNull();
+  });
+
+  test('uses the configured inactivity timeout', async () => {
+    jest.useFakeTimers();
+    (globalThis as any).__VOIDDEX_CONFIG__ = { inactivityTimeoutMinutes: 10 };
+    localStorage.setItem('voiddex_user', JSON.stringify({ id: '123', name: 'Active User' }));
+    localStorage.setItem('voiddex_token', 'valid-token');
+
+    render(
+        <MemoryRouter initialEntries={['/']}>
+          <App />
+        </MemoryRouter>
+    );
+
+    await act(async () => {
+      jest.advanceTimersByTime(5 * 60 * 1000 + 100);
+    });
+    expect(localStorage.getItem('voiddex_locked')).toBeNull();
+
+    await act(async () => {
+      jest.advanceTimersByTime(5 * 60 * 1000);
+    });
+    expect(localStorage.getItem('voiddex_locked')).toBe('1');
+
+    delete (globalThis as any).__VOIDDEX_CONFIG__;
+    jest.useRealTimers();
+  });
 });
@@ -1,7 +1,10 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { Routes, Route, Navigate } from 'react-router-dom';
-import { User } from './types';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { Routes, Route, Navigate, useLocation } from 'react-router-dom';
+import { User, AuthResponse } from './types';
 import Navbar from './components/Navbar';
+import LockScreen from './components/LockScreen';
+import LockPinModal from './components/LockPinModal';
+import ConfirmModal from './components/ui/ConfirmModal';
 import Dashboard from './pages/Dashboard';
 import CreateItem from './pages/CreateItem';
 import RechargeItem from './pages/RechargeItem';
@@ -19,7 +22,27 @@ import Scanner from './pages/Scanner';
 import StoredChanges from './pages/StoredChanges';
 import MyNotes from './pages/MyNotes';
 import CreateNote from './pages/CreateNote';
-import { resetData } from './services/api';
+import PlayerProfile from './pages/PlayerProfile';
+import BulkUpdate from './pages/BulkUpdate';
+import ImportData from './pages/ImportData';
+import ExportData from './pages/ExportData';
+import LabelSheet from './pages/LabelSheet';
+import {
+  resetData,
+  setApiSession,
+  getApiSession,
+  loadPlayerDirectory,
+  refreshApiSession,
+  subscribeToSessionRefresh,
+  subscribeToSessionExpiry,
+} from './services/api';
+import { saveUnsavedForms } from './services/unsavedForms';
+import { startOutboxSync, moveOutboxToDrafts } from './services/outbox';
+import { clearReservedIds } from './services/idReservations';
+import { subscribeToStorageKeys } from './services/tabSync';
+import { Permission, hasPermission, isUserRole } from './services/permissions';
+import { getAppConfig } from './services/config';
+import { LOCKED_KEY, isAppLocked, setAppLocked, hasLockPin, setLockPin } from './services/lockScreen';
 
 export type ThemeMode = 'light' | 'dark' | 'system';
 export type AppThemeId = 'futura' | 'modern' | 'historic';
@@ -133,16 +156,22 @@ export const THEME_PRESETS: Record<AppThemeId, ThemeProperties> = {
 };
 
 // --- CONTEXT DEFINITIONS ---
+
+/** How the access token is renewed: from the provider's token response, both optional. */
+export type TokenRenewal = Pick<AuthResponse, 'refreshToken' | 'expiresAt'>;
+
 export const AuthContext = React.createContext<{
   user: User | null;
   token: string | null;
-  login: (user: User, token: string) => void;
+  login: (user: User, token: string, renewal?: TokenRenewal) => void;
   logout: () => void;
+  lock: () => void;
 }>({
   user: null,
   token: null,
   login: () => {},
   logout: () => {},
+  lock: () => {},
 });
 
 export const ThemeContext = React.createContext<{
@@ -157,52 +186,126 @@ export const ThemeContext = React.createContext<{
   setAppTheme: () => {},
 });
 
+// --- SAVED STATE ---
+// Read on startup and again when another tab changes it
+
+const loadSavedUser = (): User | null => {
+  try {
+    const savedUser = localStorage.getItem('voiddex_user');
+    if (!savedUser) return null;
+    const parsed = JSON.parse(savedUser);
+    // Sessions saved before roles existed, or with a role this version does not know, get the least access
+    return { ...parsed, role: isUserRole(parsed.role) ? parsed.role : 'player' };
+  } catch (e) {
+    return null;
+  }
+};
+
+const loadSavedToken = (): string | null => {
+  const savedUser = localStorage.getItem('voiddex_user');
+  if (!savedUser) return null; 
+  return localStorage.getItem('voiddex_token');
+};
+
+const loadSavedRefreshToken = (): string | null => {
+  if (!localStorage.getItem('voiddex_user')) return null;
+  return localStorage.getItem('voiddex_refresh_token');
+};
+
+const loadSavedExpiry = (): number | null => {
+  if (!localStorage.getItem('voiddex_user')) return null;
+  const saved = Number(localStorage.getItem('voiddex_token_expires_at'));
+  return saved > 0 ? saved : null;
+};
+
+const loadSavedTheme = (): ThemeMode => {
+  const saved = localStorage.getItem('theme');
+  if (saved === 'light' || saved === 'dark' || saved === 'system') {
+    return saved as ThemeMode;
+  }
+  return 'system';
+};
+
+const loadSavedAppTheme = (): AppThemeId => {
+  const saved = localStorage.getItem('appTheme');
+  if (saved === 'futura' || saved === 'modern' || saved === 'historic') {
+    return saved as AppThemeId;
+  }
+  return 'modern'; // Default to modern if not set
+};
+
+// Last user activity in any tab, so one tab's inactivity timer does not end a session in use in another
+const ACTIVITY_KEY = 'voiddex_last_activity';
+const ACTIVITY_SHARE_MS = 5 * 1000;
+
+// How long before locking the warning is shown (at most half the timeout)
+const LOCK_WARNING_MS = 60 * 1000;
+
+// Refresh this long before the access token expires; retry this often while the provider is unreachable
+const REFRESH_MARGIN_MS = 60 * 1000;
+const REFRESH_RETRY_MS = 30 * 1000;
+// Longest delay setTimeout supports
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
 const App: React.FC = () => {
   // --- STATE INITIALIZATION ---
-  const [user, setUser] = useState<User | null>(() => {
-    try {
-      const savedUser = localStorage.getItem('voiddex_user');
-      return savedUser ? JSON.parse(savedUser) : null;
-    } catch (e) {
-      return null;
-    }
-  });
+  const [user, setUser] = useState<User | null>(loadSavedUser);
   
-  const [token, setToken] = useState<string | null>(() => {
-    const savedUser = localStorage.getItem('voiddex_user');
-    if (!savedUser) return null; 
-    return localStorage.getItem('voiddex_token');
-  });
+  const [token, setToken] = useState<string | null>(loadSavedToken);
+
+  const [refreshToken, setRefreshToken] = useState<string | null>(loadSavedRefreshToken);
+
+  const [expiresAt, setExpiresAt] = useState<number | null>(loadSavedExpiry);
+
+  const [isLocked, setIsLocked] = useState(() => !!loadSavedUser() && isAppLocked());
+
+  // When the app locks unless there is input first; set while the warning is shown
+  const [lockWarningEndsAt, setLockWarningEndsAt] = useState<number | null>(null);
+  const [now, setNow] = useState(Date.now);
+
+  // The idle lock needs a PIN to get back in, so it is asked for right after signing in
+  const [pinRequired, setPinRequired] = useState(false);
+
+  // Why the user was signed out, shown on the login page
+  const [signedOutNotice, setSignedOutNotice] = useState<string | null>(null);
   
-  const [theme, setTheme] = useState<ThemeMode>(() => {
-    const saved = localStorage.getItem('theme');
-    if (saved === 'light' || saved === 'dark' || saved === 'system') {
-      return saved as ThemeMode;
-    }
-    return 'system';
-  });
+  const [theme, setTheme] = useState<ThemeMode>(loadSavedTheme);
 
-  const [appTheme, setAppTheme] = useState<AppThemeId>(() => {
-    const saved = localStorage.getItem('appTheme');
-    if (saved === 'futura' || saved === 'modern' || saved === 'historic') {
-      return saved as AppThemeId;
-    }
-    return 'modern'; // Default to modern if not set
-  });
+  const [appTheme, setAppTheme] = useState<AppThemeId>(loadSavedAppTheme);
 
   // Track resolved dark mode state to apply correct RGB values
   const [isDarkMode, setIsDarkMode] = useState(false);
 
+  // Hand the session to the data layer during render rather than in an effect:
+  // child pages fire their first requests before the parent's effects run.
+  setApiSession({ token, user, refreshToken, expiresAt });
+
   // --- EFFECTS ---
 
   useEffect(() => {
     if (!user) {
         localStorage.removeItem('voiddex_user');
         localStorage.removeItem('voiddex_token');
+        localStorage.removeItem('voiddex_refresh_token');
+        localStorage.removeItem('voiddex_token_expires_at');
         resetData(); 
     }
   }, []);
 
+  // Pages resolve PLINs to character names synchronously, so load the registry once per session
+  useEffect(() => {
+    if (user) loadPlayerDirectory();
+  }, [user]);
+
+  // Replay changes queued while offline; needs the session, so only while signed in
+  useEffect(() => {
+    if (user) return startOutboxSync();
+  }, [user]);
+
+  useEffect(() => {
+    setPinRequired(!!user && !hasLockPin(user.id));
+  }, [user]);
+
   useEffect(() => {
     if (user) {
       localStorage.setItem('voiddex_user', JSON.stringify(user));
@@ -219,6 +322,19 @@ const App: React.FC = () => {
     }
   }, [token]);
 
+  useEffect(() => {
+    if (refreshToken) {
+      localStorage.setItem('voiddex_refresh_token', refreshToken);
+    } else {
+      localStorage.removeItem('voiddex_refresh_token');
+    }
+    if (expiresAt) {
+      localStorage.setItem('voiddex_token_expires_at', String(expiresAt));
+    } else {
+      localStorage.removeItem('voiddex_token_expires_at');
+    }
+  }, [refreshToken, expiresAt]);
+
   // Apply Theme (Light/Dark)
   useEffect(() => {
     const root = document.documentElement;
@@ -287,34 +403,155 @@ const App: React.FC = () => {
 
   // --- ACTIONS ---
 
-  const login = (userData: User, authToken: string) => {
+  const login = (userData: User, authToken: string, renewal: TokenRenewal = {}) => {
+    setSignedOutNotice(null);
     setUser(userData);
     setToken(authToken);
+    setRefreshToken(renewal.refreshToken || null);
+    setExpiresAt(renewal.expiresAt || null);
   };
 
   const logout = useCallback(() => {
+    // Queued changes must not be replayed by whoever signs in next
+    const signedInUser = getApiSession().user;
+    if (signedInUser) moveOutboxToDrafts(signedInUser.id);
+    clearReservedIds();
     localStorage.removeItem('voiddex_user');
     localStorage.removeItem('voiddex_token');
+    localStorage.removeItem('voiddex_refresh_token');
+    localStorage.removeItem('voiddex_token_expires_at');
+    setAppLocked(false);
     resetData();
     setUser(null);
     setToken(null);
+    setRefreshToken(null);
+    setExpiresAt(null);
+    setIsLocked(false);
+    setLockWarningEndsAt(null);
   }, []);
 
-  // --- INACTIVITY TIMER ---
+  // --- LOCK SCREEN ---
+  // Keeps the session, route and page state; only the PIN is needed to carry on
+
+  const lock = useCallback(() => {
+    setAppLocked(true);
+    setLockWarningEndsAt(null);
+    setIsLocked(true);
+  }, []);
+
+  const unlock = useCallback(() => {
+    setAppLocked(false);
+    setIsLocked(false);
+  }, []);
+
+  // The pages stay mounted under the lock screen; inert keeps focus, typing and clicks out of them
+  const layoutRef = useRef<HTMLDivElement>(null);
+  const showLockScreen = !!user && isLocked;
   useEffect(() => {
-    if (!user) return; 
+    layoutRef.current?.toggleAttribute('inert', showLockScreen);
+  }, [showLockScreen]);
 
-    const TIMEOUT_MS = 5 * 60 * 1000; 
+  // Signing in again leaves the page, so keep the unsaved form as a draft first
+  const signOutFromLock = useCallback(async () => {
+    await saveUnsavedForms();
+    logout();
+  }, [logout]);
+
+  // --- TOKEN EXPIRY ---
+
+  // Renew the access token shortly before it expires (or end the session if it cannot be renewed)
+  useEffect(() => {
+    if (!user || !expiresAt) return;
     let timeoutId: ReturnType<typeof setTimeout>;
 
-    const handleInactive = () => {
-      logout();
-      alert("You have been logged out due to inactivity (5 minutes).");
+    const schedule = (delay: number) => {
+      timeoutId = setTimeout(async () => {
+        // False while the provider is unreachable; an expired session is handled below
+        if (!(await refreshApiSession())) schedule(REFRESH_RETRY_MS);
+      }, Math.min(Math.max(delay, 0), MAX_TIMER_MS));
     };
+    // Without a refresh token there is nothing to renew, so wait for the actual expiry
+    schedule(expiresAt - (refreshToken ? REFRESH_MARGIN_MS : 0) - Date.now());
+
+    return () => clearTimeout(timeoutId);
+  }, [user, expiresAt, refreshToken]);
+
+  useEffect(() => subscribeToSessionRefresh(next => {
+    setToken(next.token);
+    setRefreshToken(next.refreshToken || null);
+    setExpiresAt(next.expiresAt || null);
+  }), []);
+
+  useEffect(() => subscribeToSessionExpiry(async () => {
+    // Another tab may have renewed the session first, using up the refresh token this tab tried
+    const savedRefreshToken = loadSavedRefreshToken();
+    if (savedRefreshToken && savedRefreshToken !== getApiSession().refreshToken) {
+      setToken(loadSavedToken());
+      setRefreshToken(savedRefreshToken);
+      setExpiresAt(loadSavedExpiry());
+      return;
+    }
+
+    const kept = await saveUnsavedForms();
+    logout();
+    setSignedOutNotice(kept > 0
+      ? 'Your session has expired. Your unsaved form was kept as a draft.'
+      : 'Your session has expired. Please sign in again.');
+  }), [logout]);
+
+  // --- CROSS-TAB SYNC ---
+
+  // Follow logins and logouts made in other tabs
+  useEffect(() => subscribeToStorageKeys(['voiddex_user', 'voiddex_token', 'voiddex_refresh_token', 'voiddex_token_expires_at'], () => {
+    const savedUser = loadSavedUser();
+    if (!savedUser) {
+      logout();
+      return;
+    }
+    setUser(current => JSON.stringify(current) === JSON.stringify(savedUser) ? current : savedUser);
+    setToken(loadSavedToken());
+    setRefreshToken(loadSavedRefreshToken());
+    setExpiresAt(loadSavedExpiry());
+  }), [logout]);
+
+  // Every tab locks and unlocks together
+  useEffect(() => subscribeToStorageKeys([LOCKED_KEY], () => {
+    setIsLocked(!!loadSavedUser() && isAppLocked());
+    setLockWarningEndsAt(null);
+  }), []);
+
+  useEffect(() => subscribeToStorageKeys(['theme', 'appTheme'], () => {
+    setTheme(loadSavedTheme());
+    setAppTheme(loadSavedAppTheme());
+  }), []);
+
+  // --- INACTIVITY TIMER ---
+  // Warns a minute before, then locks. Without an unlock PIN the lock screen only offers signing in again
+  useEffect(() => {
+    const timeoutMs = getAppConfig().inactivityTimeoutMinutes * 60 * 1000;
+    if (!user || isLocked || !timeoutMs) return;
+
+    const warningMs = Math.min(LOCK_WARNING_MS, timeoutMs / 2);
+    let warningId: ReturnType<typeof setTimeout>;
+    let timeoutId: ReturnType<typeof setTimeout>;
 
     const resetTimer = () => {
-      if (timeoutId) clearTimeout(timeoutId);
-      timeoutId = setTimeout(handleInactive, TIMEOUT_MS);
+      clearTimeout(warningId);
+      clearTimeout(timeoutId);
+      setLockWarningEndsAt(null);
+      warningId = setTimeout(() => setLockWarningEndsAt(Date.now() + warningMs), timeoutMs - warningMs);
+      timeoutId = setTimeout(lock, timeoutMs);
+    };
+
+    // Share activity with the other tabs (throttled: mousemove fires constantly)
+    let lastShared = 0;
+    const recordActivity = () => {
+      resetTimer();
+      const now = Date.now();
+      if (now - lastShared >= ACTIVITY_SHARE_MS) {
+        lastShared = now;
+        localStorage.setItem(ACTIVITY_KEY, String(now));
+      }
     };
 
     resetTimer();
@@ -322,46 +559,99 @@ const App: React.FC = () => {
     const events = ['mousedown', 'mousemove', 'keydown', 'scroll', 'touchstart', 'click'];
 
     events.forEach(event => {
-      window.addEventListener(event, resetTimer);
+      window.addEventListener(event, recordActivity);
     });
+    const unsubscribeActivity = subscribeToStorageKeys([ACTIVITY_KEY], resetTimer);
 
     return () => {
-      if (timeoutId) clearTimeout(timeoutId);
+      clearTimeout(warningId);
+      clearTimeout(timeoutId);
       events.forEach(event => {
-        window.removeEventListener(event, resetTimer);
+        window.removeEventListener(event, recordActivity);
       });
+      unsubscribeActivity();
     };
-  }, [user, logout]);
+  }, [user, isLocked, lock]);
+
+  // Counts the warning down
+  useEffect(() => {
+    if (!lockWarningEndsAt) return;
+    setNow(Date.now());
+    const intervalId = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(intervalId);
+  }, [lockWarningEndsAt]);
+
+  const secondsUntilLock = lockWarningEndsAt ? Math.max(0, Math.ceil((lockWarningEndsAt - now) / 1000)) : 0;
+
+  // --- ROUTE GUARDS ---
+  // Signed-out users go to the login page; users whose role does not allow the page go to the dashboard
+  const location = useLocation();
+  const isViewing = location.state?.mode === 'view';
+
+  const guard = (element: React.ReactElement, permission?: Permission) => {
+    if (!user) return <Navigate to="/login" />;
+    if (permission && !hasPermission(user, permission)) return <Navigate to="/" replace />;
+    return element;
+  };
+
+  // The create pages also show existing records, which every role may look at
+  const createGuard = (element: React.ReactElement) => guard(element, isViewing ? undefined : 'create-records');
 
   return (
     <ThemeContext.Provider value={{ theme, setTheme, appTheme, setAppTheme }}>
-      <AuthContext.Provider value={{ user, token, login, logout }}>
-        <div className="min-h-screen flex flex-col transition-colors duration-200 font-serif">
+      <AuthContext.Provider value={{ user, token, login, logout, lock }}>
+        <div ref={layoutRef} className="min-h-screen flex flex-col transition-colors duration-200 font-serif" aria-hidden={showLockScreen}>
           <Navbar />
           <main className="flex-grow container mx-auto px-4 py-2">
             <Routes>
-              <Route path="/login" element={!user ? <Login /> : <Navigate to="/" />} />
+              <Route path="/login" element={!user ? <Login notice={signedOutNotice} /> : <Navigate to="/" />} />
               <Route path="/auth/callback" element={<AuthCallback />} />
-              <Route path="/" element={user ? <Dashboard /> : <Navigate to="/login" />} />
-              <Route path="/scan" element={user ? <Scanner /> : <Navigate to="/login" />} />
-              <Route path="/stored-changes" element={user ? <StoredChanges /> : <Navigate to="/login" />} />
-              <Route path="/my-notes" element={user ? <MyNotes /> : <Navigate to="/login" />} />
-              <Route path="/create-note" element={user ? <CreateNote /> : <Navigate to="/login" />} />
-              <Route path="/create-item" element={user ? <CreateItem /> : <Navigate to="/login" />} />
-              <Route path="/recharge-item" element={user ? <RechargeItem /> : <Navigate to="/login" />} />
-              <Route path="/assign-item" element={user ? <AssignItem /> : <Navigate to="/login" />} />
-              <Route path="/create-condition" element={user ? <CreateCondition /> : <Navigate to="/login" />} />
-              <Route path="/extend-condition" element={user ? <ExtendCondition /> : <Navigate to="/login" />} />
-              <Route path="/assign-condition" element={user ? <AssignCondition /> : <Navigate to="/login" />} />
-              <Route path="/create-power" element={user ? <CreatePower /> : <Navigate to="/login" />} />
-              <Route path="/extend-power" element={user ? <ExtendPower /> : <Navigate to="/login" />} />
-              <Route path="/assign-power" element={user ? <AssignPower /> : <Navigate to="/login" />} />
-              <Route path="/items/:id" element={user ? <DeepLinkHandler type="item" /> : <Navigate to="/login" />} />
-              <Route path="/conditions/:id" element={user ? <DeepLinkHandler type="condition" /> : <Navigate to="/login" />} />
-              <Route path="/powers/:id" element={user ? <DeepLinkHandler type="power" /> : <Navigate to="/login" />} />
+              <Route path="/" element={guard(<Dashboard />)} />
+              <Route path="/scan" element={guard(<Scanner />)} />
+              <Route path="/stored-changes" element={guard(<StoredChanges />, 'update-records')} />
+              <Route path="/my-notes" element={guard(<MyNotes />)} />
+              <Route path="/create-note" element={guard(<CreateNote />)} />
+              <Route path="/create-item" element={createGuard(<CreateItem />)} />
+              <Route path="/recharge-item" element={guard(<RechargeItem />, 'update-records')} />
+              <Route path="/assign-item" element={guard(<AssignItem />, 'update-records')} />
+              <Route path="/create-condition" element={createGuard(<CreateCondition />)} />
+              <Route path="/extend-condition" element={guard(<ExtendCondition />, 'update-records')} />
+              <Route path="/assign-condition" element={guard(<AssignCondition />, 'update-records')} />
+              <Route path="/create-power" element={createGuard(<CreatePower />)} />
+              <Route path="/extend-power" element={guard(<ExtendPower />, 'update-records')} />
+              <Route path="/assign-power" element={guard(<AssignPower />, 'update-records')} />
+              <Route path="/items/:id" element={guard(<DeepLinkHandler type="item" />)} />
+              <Route path="/conditions/:id" element={guard(<DeepLinkHandler type="condition" />)} />
+              <Route path="/powers/:id" element={guard(<DeepLinkHandler type="power" />)} />
+              <Route path="/players/:plin" element={guard(<PlayerProfile />)} />
+              <Route path="/bulk-update" element={guard(<BulkUpdate />, 'update-records')} />
+              <Route path="/import" element={guard(<ImportData />, 'import-data')} />
+              <Route path="/export" element={guard(<ExportData />, 'export-data')} />
+              <Route path="/labels" element={guard(<LabelSheet />, 'print-labels')} />
             </Routes>
           </main>
         </div>
+
+        {/* Any input closes the warning, as it restarts the inactivity timer */}
+        <ConfirmModal
+          isOpen={!!user && !isLocked && lockWarningEndsAt !== null}
+          onClose={() => setLockWarningEndsAt(null)}
+          onConfirm={() => setLockWarningEndsAt(null)}
+          title="Still there?"
+          message={`The app locks in ${secondsUntilLock} seconds because of inactivity.`}
+          confirmLabel="Keep Working"
+          confirmVariant="primary"
+        />
+        <LockPinModal
+          isOpen={!!user && !isLocked && pinRequired}
+          required
+          onClose={logout}
+          onSave={(pin) => {
+            if (user) setLockPin(user.id, pin);
+            setPinRequired(false);
+          }}
+        />
+        {user && isLocked && <LockScreen user={user} onUnlock={unlock} onSignOut={signOutFromLock} />}
       </AuthContext.Provider>
     </ThemeContext.Provider>
   );
@@ -1,4 +1,4 @@
-import { render, fireEvent, act } from '@testing-library/react';
+import { render, fireEvent, act, screen } from '@testing-library/react';
 import { MemoryRouter, Route, Routes } from 'react-router-dom';
 import { describe, expect, test, jest, beforeEach } from '@jest/globals';
 import App from './App';
@@ -10,12 +10,18 @@ import * as api from './services/api';
 jest.mock('./services/api', () => ({
   searchGlobal: jest.fn(),
   resetData: jest.fn(),
+  setApiSession: jest.fn(),
+  getApiSession: jest.fn(() => ({ token: null, user: null })),
   getCharacterName: jest.fn(),
+  loadPlayerDirectory: jest.fn(),
+  refreshApiSession: jest.fn(),
+  subscribeToSessionRefresh: jest.fn(() => () => {}),
+  subscribeToSessionExpiry: jest.fn(() => () => {}),
 }));
 
 jest.mock('./services/offlineStorage', () => ({
-  getStoredChanges: jest.fn(() => []),
-  getNotes: jest.fn(() => []),
+  countStoredChanges: jest.fn(() => Promise.resolve(0)),
+  countNotes: jest.fn(() => Promise.resolve(0)),
 }));
 
 // matchMedia mock so the theme effect in App doesn't explode in jsdom
@@ -73,7 +79,7 @@ describe('Security Controls', () => {
     expect(getByText('Sign in with Google')).toBeTruthy();
   });
 
-  test('Inactivity Timeout: auto-logout after 5 minutes of idleness', () => {
+  test('Inactivity Timeout: locks the app after 5 minutes of idleness', async () => {
     jest.useFakeTimers();
 
     // Seed a "logged in" session
@@ -90,19 +96,14 @@ describe('Security Controls', () => {
     expect(store['voiddex_token']).toBeDefined();
 
     // Advance timers beyond the 5-minute inactivity window
-    act(() => {
+    await act(async () => {
       jest.advanceTimersByTime(5 * 60 * 1000 + 1000);
     });
 
-    // Session should be cleared
-    expect(store['voiddex_user']).toBeUndefined();
-    expect(store['voiddex_token']).toBeUndefined();
-
-    // Security-relevant behaviour: backend state reset + user notified
-    expect(api.resetData).toHaveBeenCalled();
-    expect(window.alert).toHaveBeenCalledWith(
-        expect.stringContaining('logged out due to inactivity')
-    );
+    // Locked behind the lock screen; with no unlock PIN the only way back is signing in again
+    expect(store['voiddex_locked']).toBe('1');
+    expect(screen.getByRole('dialog', { name: 'App locked' })).toBeTruthy();
+    expect(screen.queryByPlaceholderText('Enter your PIN')).toBeNull();
 
     jest.useRealTimers();
   });
@@ -0,0 +1,71 @@
+import React from 'react';
+import { Loader2, X, AlertTriangle } from 'lucide-react';
+import { BatchEntry, batchFlags, batchExpiry, batchOwner } from '../services/batchScan';
+import { ID_RANGES } from '../services/idAllocator';
+
+interface BatchScanListProps {
+  entries: BatchEntry[];
+  plin: string;
+  onRemove: (key: string) => void;
+}
+
+/**
+ * Running list of a batch scan, newest first. Each row shows the record's current
+ * expiry and owner and any flags raised for the checked-in PLIN.
+ */
+const BatchScanList: React.FC<BatchScanListProps> = ({ entries, plin, onRemove }) => {
+  if (entries.length === 0) {
+    return (
+      <p className="p-4 text-center text-sm text-gray-500 dark:text-gray-400 font-serif italic">
+        Nothing scanned yet.
+      </p>
+    );
+  }
+
+  return (
+    <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+      {entries.map(entry => {
+        const idText = `${ID_RANGES[entry.type].label} ${entry.id}`;
+        const flags = batchFlags(entry, plin);
+        return (
+          <li key={entry.key} className="py-2 flex items-start gap-2">
+            <div className="min-w-0 flex-1">
+              <div className="flex items-center gap-2">
+                <span className="font-mono text-xs text-gray-500 dark:text-gray-400 shrink-0">{idText}</span>
+                {entry.status === 'loading' ? (
+                  <Loader2 size={12} className="animate-spin text-gray-400" />
+                ) : entry.record && (
+                  <span className="font-serif font-bold text-sm text-gray-900 dark:text-gray-100 truncate">{entry.record.name}</span>
+                )}
+              </div>
+              {entry.record && (
+                <div className="text-xs text-gray-600 dark:text-gray-300 font-serif">
+                  Expires: {batchExpiry(entry.record, plin) || '-'} &middot; {'assignments' in entry.record ? 'Assigned' : 'Owner'}: {batchOwner(entry.record) || '-'}
+                </div>
+              )}
+              {flags.length > 0 && (
+                <div className="mt-1 flex flex-wrap gap-1">
+                  {flags.map(flag => (
+                    <span key={flag} className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] font-bold bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300">
+                      <AlertTriangle size={10} /> {flag}
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+            <button
+              type="button"
+              onClick={() => onRemove(entry.key)}
+              className="text-gray-400 hover:text-red-500 shrink-0"
+              title={`Remove ${idText}`}
+            >
+              <X size={14} />
+            </button>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default BatchScanList;
@@ -0,0 +1,95 @@
+import React from 'react';
+import Button from './ui/Button';
+import { GitMerge } from 'lucide-react';
+import { Item, Condition, Power } from '../types';
+import { buildConflictRows } from '../services/conflicts';
+import { describeField } from '../services/audit';
+
+type VersionedRecord = Item | Condition | Power;
+
+/**
+ * State a page keeps while an update is rejected as stale.
+ * `retry` re-applies the pending change on top of the given current record.
+ */
+export interface ConflictState<T extends VersionedRecord> {
+  base: T;
+  current: T;
+  pending: T;
+  retry: (current: T) => void;
+}
+
+interface ConflictModalProps {
+  conflict: Omit<ConflictState<VersionedRecord>, 'retry'> | null;
+  onMerge: () => void;
+  onAbort: () => void;
+}
+
+const formatValue = (value: string | null) =>
+  value === null ? <span className="italic text-gray-400">none</span> : value;
+
+/**
+ * Shown when an update was rejected because the record changed after the
+ * change was prepared (typically a stored draft).
+ * Lists the snapshot, the current record and the pending change side by side;
+ * "Merge" applies the pending change on top of the current record.
+ */
+const ConflictModal: React.FC<ConflictModalProps> = ({ conflict, onMerge, onAbort }) => {
+  if (!conflict) return null;
+
+  const rows = buildConflictRows(conflict.base, conflict.current, conflict.pending);
+  const hasClash = rows.some(row => row.clash);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-[2px] p-4 animate-in fade-in duration-200">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-2xl max-w-2xl w-full p-6 border border-gray-200 dark:border-gray-700 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center gap-3 text-amber-600 dark:text-amber-500 mb-4">
+          <GitMerge size={24} />
+          <h3 className="text-lg font-bold font-display text-gray-900 dark:text-white">Record Changed</h3>
+        </div>
+        <p className="text-sm text-gray-600 dark:text-gray-300 font-serif mb-4 leading-relaxed">
+          Someone else updated this record after your change was prepared.
+          {hasClash
+            ? ' Highlighted fields were changed on both sides; merging keeps your value.'
+            : ' Merging applies your change on top of the current record.'}
+        </p>
+
+        <div className="overflow-x-auto mb-6">
+          <table className="w-full text-xs font-serif border-collapse">
+            <thead>
+              <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                <th className="py-1 pr-2">Field</th>
+                <th className="py-1 pr-2">Draft Snapshot</th>
+                <th className="py-1 pr-2">Current</th>
+                <th className="py-1">Your Change</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(row => (
+                <tr
+                  key={row.field}
+                  className={`border-b border-gray-100 dark:border-gray-700 text-gray-800 dark:text-gray-200 ${row.clash ? 'bg-amber-50 dark:bg-amber-900/20' : ''}`}
+                >
+                  <td className="py-1 pr-2 font-bold">{describeField(row.field)}</td>
+                  <td className="py-1 pr-2">{formatValue(row.base)}</td>
+                  <td className="py-1 pr-2">{formatValue(row.current)}</td>
+                  <td className="py-1">{formatValue(row.pending)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex justify-end gap-3">
+          <Button variant="secondary" onClick={onAbort}>
+            Abort
+          </Button>
+          <Button onClick={onMerge}>
+            Merge &amp; Update
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConflictModal;
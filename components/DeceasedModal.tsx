@@ -0,0 +1,148 @@
+import React, { useEffect, useState } from 'react';
+import Button from './ui/Button';
+import { Skull } from 'lucide-react';
+import { PlayerAssets, ItemDeathChoice, ItemDisposition } from '../types';
+import { UNTIL_DEATH, hasUntilDeathAssignment, validateDeathChoices } from '../services/characterDeath';
+
+interface DeceasedModalProps {
+  isOpen: boolean;
+  plin: string;
+  characterName: string;
+  assets: PlayerAssets;
+  isSaving: boolean;
+  error?: string;
+  onConfirm: (choices: ItemDeathChoice[]) => void;
+  onCancel: () => void;
+}
+
+const DISPOSITION_LABELS: Record<ItemDisposition, string> = {
+  keep: 'Keep',
+  transfer: 'Transfer',
+  destroy: 'Destroy',
+};
+
+/**
+ * Confirmation step of the character death workflow.
+ * Lists every owned item with a keep/transfer/destroy choice and every
+ * condition/power whose "until death" assignment will end; confirming sends the whole batch.
+ */
+const DeceasedModal: React.FC<DeceasedModalProps> = ({ isOpen, plin, characterName, assets, isSaving, error, onConfirm, onCancel }) => {
+  const [choices, setChoices] = useState<ItemDeathChoice[]>([]);
+  const [validationError, setValidationError] = useState('');
+
+  // Every opening starts from "keep everything"
+  useEffect(() => {
+    if (!isOpen) return;
+    setChoices(assets.items.map(i => ({ itin: i.itin, disposition: 'keep' })));
+    setValidationError('');
+  }, [isOpen, assets]);
+
+  if (!isOpen) return null;
+
+  const inputClasses = "px-2 py-1 border rounded-md shadow-inner font-serif text-xs border-gray-300 focus:border-brand-primary focus:ring-1 focus:ring-brand-primary focus:outline-none bg-white text-gray-900 dark:bg-gray-900 dark:text-white dark:border-gray-600";
+
+  const updateChoice = (itin: string, changes: Partial<ItemDeathChoice>) => {
+    setChoices(prev => prev.map(c => (c.itin === itin ? { ...c, ...changes } : c)));
+    setValidationError('');
+  };
+
+  const handleConfirm = () => {
+    const problem = validateDeathChoices(plin, assets.items, choices);
+    if (problem) {
+      setValidationError(problem);
+      return;
+    }
+    onConfirm(choices);
+  };
+
+  const ending: { label: string, id: string, name: string }[] = [
+    ...assets.conditions.filter(c => hasUntilDeathAssignment(c, plin)).map(c => ({ label: 'COIN', id: c.coin, name: c.name })),
+    ...assets.powers.filter(p => hasUntilDeathAssignment(p, plin)).map(p => ({ label: 'POIN', id: p.poin, name: p.name })),
+  ];
+  const datedCount = [...assets.conditions, ...assets.powers]
+    .filter(r => r.assignments.some(a => a.plin === plin && a.expiryDate !== UNTIL_DEATH)).length;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-[2px] p-4 animate-in fade-in duration-200">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-2xl max-w-2xl w-full p-6 border border-gray-200 dark:border-gray-700 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center gap-3 text-red-600 dark:text-red-500 mb-4">
+          <Skull size={24} />
+          <h3 className="text-lg font-bold font-display text-gray-900 dark:text-white">Mark Character Deceased</h3>
+        </div>
+        <p className="text-sm text-gray-600 dark:text-gray-300 font-serif mb-4 leading-relaxed">
+          {characterName || plin} ({plin}) will be marked dead. Choose what happens to each item;
+          all changes are applied together.
+        </p>
+
+        <h4 className="text-sm font-bold font-display text-entity-item mb-2">Items ({assets.items.length})</h4>
+        {assets.items.length === 0 ? (
+          <p className="text-xs text-gray-500 dark:text-gray-400 font-serif italic mb-4">None</p>
+        ) : (
+          <div className="space-y-2 mb-4">
+            {assets.items.map(item => {
+              const choice = choices.find(c => c.itin === item.itin);
+              return (
+                <div key={item.itin} className="flex flex-wrap items-center justify-between gap-2 p-2 bg-gray-50 dark:bg-gray-700/50 rounded-md border border-gray-200 dark:border-gray-700">
+                  <div className="min-w-0">
+                    <div className="font-serif font-bold text-sm text-gray-900 dark:text-white truncate">{item.name}</div>
+                    <div className="font-mono text-xs text-gray-400">ITIN {item.itin}</div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <select
+                      className={inputClasses}
+                      value={choice?.disposition || 'keep'}
+                      onChange={(e) => updateChoice(item.itin, { disposition: e.target.value as ItemDisposition })}
+                      aria-label={`Disposition for ITIN ${item.itin}`}
+                    >
+                      {(Object.keys(DISPOSITION_LABELS) as ItemDisposition[]).map(d => (
+                        <option key={d} value={d}>{DISPOSITION_LABELS[d]}</option>
+                      ))}
+                    </select>
+                    {choice?.disposition === 'transfer' && (
+                      <input
+                        className={`${inputClasses} w-24`}
+                        value={choice.newOwner || ''}
+                        onChange={(e) => updateChoice(item.itin, { newOwner: e.target.value })}
+                        placeholder="1234#12"
+                        aria-label={`New owner for ITIN ${item.itin}`}
+                      />
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <h4 className="text-sm font-bold font-display text-gray-800 dark:text-gray-200 mb-2">Ending "until death" assignments ({ending.length})</h4>
+        {ending.length === 0 ? (
+          <p className="text-xs text-gray-500 dark:text-gray-400 font-serif italic mb-4">None</p>
+        ) : (
+          <ul className="mb-4 text-sm font-serif text-gray-800 dark:text-gray-200 list-disc list-inside">
+            {ending.map(e => <li key={`${e.label}-${e.id}`}>{e.name} <span className="font-mono text-xs text-gray-400">{e.label} {e.id}</span></li>)}
+          </ul>
+        )}
+        {datedCount > 0 && (
+          <p className="text-xs text-gray-500 dark:text-gray-400 font-serif mb-4">
+            {datedCount} dated assignment(s) keep their expiry date.
+          </p>
+        )}
+
+        {(validationError || error) && (
+          <p className="mb-4 text-sm text-red-600 dark:text-red-400 font-serif">{validationError || error}</p>
+        )}
+
+        <div className="flex justify-end gap-3">
+          <Button variant="secondary" onClick={onCancel} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button variant="danger" onClick={handleConfirm} isLoading={isSaving}>
+            Confirm Death
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DeceasedModal;
@@ -0,0 +1,74 @@
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { describe, expect, test, jest, beforeEach } from '@jest/globals';
+import HistoryPanel from './HistoryPanel';
+// @ts-ignore – module is mocked below
+import * as api from '../services/api';
+
+jest.mock('../services/api', () => ({
+  getHistory: jest.fn(),
+}));
+
+const apiMock = api as jest.Mocked<typeof api>;
+
+describe('HistoryPanel Component', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('stays collapsed and does not load history until opened', () => {
+    render(<HistoryPanel type="item" id="1001" />);
+
+    expect(screen.getByText('History')).toBeTruthy();
+    expect(apiMock.getHistory).not.toHaveBeenCalled();
+  });
+
+  test('loads and renders audit entries when opened', async () => {
+    apiMock.getHistory.mockResolvedValue({
+      success: true,
+      data: [
+        {
+          id: 'a2',
+          entityType: 'item',
+          entityId: '1001',
+          action: 'recharge',
+          actor: { id: 'u1', name: 'Referee Rita' },
+          timestamp: Date.now(),
+          changes: [{ field: 'expiryDate', before: '31/12/2025', after: '31/12/2026' }],
+        },
+        {
+          id: 'a1',
+          entityType: 'item',
+          entityId: '1001',
+          action: 'create',
+          actor: null,
+          timestamp: Date.now() - 1000,
+          changes: [],
+        },
+      ],
+    });
+
+    render(<HistoryPanel type="item" id="1001" />);
+    fireEvent.click(screen.getByText('History'));
+
+    expect(await screen.findByText('Recharged')).toBeTruthy();
+    expect(apiMock.getHistory).toHaveBeenCalledWith('item', '1001');
+    expect(screen.getByText(/by Referee Rita/)).toBeTruthy();
+    expect(screen.getByText('31/12/2025')).toBeTruthy();
+    expect(screen.getByText(/31\/12\/2026/)).toBeTruthy();
+    expect(screen.getByText('Created')).toBeTruthy();
+    expect(screen.getByText(/by Unknown user/)).toBeTruthy();
+  });
+
+  test('shows an empty state and errors', async () => {
+    apiMock.getHistory.mockResolvedValueOnce({ success: true, data: [] });
+    const { unmount } = render(<HistoryPanel type="power" id="5001" />);
+    fireEvent.click(screen.getByText('History'));
+    expect(await screen.findByText('No changes recorded yet.')).toBeTruthy();
+    unmount();
+
+    apiMock.getHistory.mockResolvedValueOnce({ success: false, error: 'Not found', status: 404 });
+    render(<HistoryPanel type="condition" id="8001" />);
+    fireEvent.click(screen.getByText('History'));
+    await waitFor(() => expect(screen.getByText('Not found')).toBeTruthy());
+  });
+});
@@ -0,0 +1,122 @@
+import React, { useEffect, useState } from 'react';
+import { History, ChevronDown, ChevronUp, Loader2 } from 'lucide-react';
+import { getHistory } from '../services/api';
+import { describeField } from '../services/audit';
+import { AuditAction, AuditEntry, EntityType } from '../types';
+
+interface HistoryPanelProps {
+  type: EntityType;
+  id: string;
+}
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  create: 'Created',
+  recharge: 'Recharged',
+  assign: 'Assigned',
+  extend: 'Extended',
+  unassign: 'Unassigned',
+  death: 'Character Died',
+  update: 'Updated',
+};
+
+/**
+ * Collapsible change history (audit trail) for a single record.
+ * History is only fetched once the panel is opened.
+ */
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ type, id }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [entries, setEntries] = useState<AuditEntry[] | null>(null);
+  const [error, setError] = useState('');
+
+  // Record changed (e.g. navigating between view pages): drop the stale history
+  useEffect(() => {
+    setEntries(null);
+    setIsOpen(false);
+  }, [type, id]);
+
+  useEffect(() => {
+    if (!isOpen || entries !== null) return;
+
+    let isCurrent = true;
+    const load = async () => {
+      setIsLoading(true);
+      setError('');
+      try {
+        const result = await getHistory(type, id);
+        if (!isCurrent) return;
+        if (result.success && result.data) {
+          setEntries(result.data);
+        } else {
+          setError(result.error || 'Could not load history.');
+        }
+      } catch (e) {
+        if (isCurrent) setError('Could not load history.');
+      } finally {
+        if (isCurrent) setIsLoading(false);
+      }
+    };
+
+    load();
+    return () => { isCurrent = false; };
+  }, [isOpen, entries, type, id]);
+
+  return (
+    <div className="mt-4 border-t border-gray-200 dark:border-gray-700 pt-3">
+      <button
+        type="button"
+        onClick={() => setIsOpen(prev => !prev)}
+        className="w-full flex items-center justify-between text-sm font-bold font-serif text-gray-700 dark:text-gray-200 hover:text-brand-primary transition-colors"
+        aria-expanded={isOpen}
+      >
+        <span className="flex items-center gap-2">
+          <History size={16} /> History
+        </span>
+        {isOpen ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+      </button>
+
+      {isOpen && (
+        <div className="mt-2 space-y-2">
+          {isLoading && (
+            <div className="flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400 font-serif">
+              <Loader2 size={14} className="animate-spin" /> Loading history...
+            </div>
+          )}
+
+          {error && <p className="text-xs text-red-600 dark:text-red-400 font-serif">{error}</p>}
+
+          {entries && entries.length === 0 && (
+            <p className="text-xs text-gray-500 dark:text-gray-400 font-serif italic">No changes recorded yet.</p>
+          )}
+
+          {entries && entries.map(entry => (
+            <div key={entry.id} className="p-2 rounded-md border border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-700/50">
+              <div className="flex justify-between items-baseline gap-2 text-xs">
+                <span className="font-bold text-gray-800 dark:text-gray-100">
+                  {ACTION_LABELS[entry.action]}
+                  <span className="font-normal text-gray-500 dark:text-gray-400"> by {entry.actor?.name || 'Unknown user'}</span>
+                </span>
+                <span className="text-gray-400 shrink-0">{new Date(entry.timestamp).toLocaleString()}</span>
+              </div>
+              {entry.changes.length > 0 && (
+                <ul className="mt-1 space-y-0.5 text-xs font-serif text-gray-600 dark:text-gray-300">
+                  {entry.changes.map(change => (
+                    <li key={change.field} className="break-words">
+                      <span className="font-bold">{describeField(change.field)}:</span>{' '}
+                      {change.before !== null && entry.action !== 'create' && (
+                        <><span className="line-through text-gray-400">{change.before}</span> → </>
+                      )}
+                      {change.after !== null ? change.after : <span className="italic">removed</span>}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HistoryPanel;
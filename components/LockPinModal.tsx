@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { Lock } from 'lucide-react';
+import Input from './ui/Input';
+import Button from './ui/Button';
+import { isValidPin } from '../services/lockScreen';
+
+interface LockPinModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: (pin: string) => void;
+  // Asked for after signing in without a PIN: the only way out is signing out (onClose)
+  required?: boolean;
+}
+
+/**
+ * Asks for the PIN that unlocks the app on this device, entered twice.
+ */
+const LockPinModal: React.FC<LockPinModalProps> = ({ isOpen, onClose, onSave, required = false }) => {
+  const [pin, setPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+  const [error, setError] = useState('');
+
+  if (!isOpen) return null;
+
+  const reset = () => {
+    setPin('');
+    setConfirmPin('');
+    setError('');
+  };
+
+  const close = () => {
+    reset();
+    onClose();
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValidPin(pin)) {
+      setError('The PIN must be 4 to 8 digits.');
+    } else if (pin !== confirmPin) {
+      setError('The PINs do not match.');
+    } else {
+      reset();
+      onSave(pin);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-[2px] p-4 animate-in fade-in duration-200">
+      <form
+        onSubmit={handleSubmit}
+        className="bg-white dark:bg-gray-800 rounded-lg shadow-2xl max-w-sm w-full p-6 border border-gray-200 dark:border-gray-700"
+      >
+        <div className="flex items-center gap-3 text-brand-primary mb-4">
+          <Lock size={24} />
+          <h3 className="text-lg font-bold font-display text-gray-900 dark:text-white">Set Unlock PIN</h3>
+        </div>
+        <p className="text-sm text-gray-600 dark:text-gray-300 font-serif mb-4 leading-relaxed">
+          {required
+            ? 'The app locks when left idle. Choose a PIN to unlock it on this device; without one, you have to sign in again.'
+            : 'The app locks when left idle or when you lock it. Choose a PIN to unlock it on this device without signing in again.'}
+        </p>
+        <Input
+          label="PIN"
+          type="password"
+          inputMode="numeric"
+          autoComplete="off"
+          value={pin}
+          onChange={(e) => setPin(e.target.value)}
+          placeholder="4 to 8 digits"
+        />
+        <Input
+          label="Repeat PIN"
+          type="password"
+          inputMode="numeric"
+          autoComplete="off"
+          value={confirmPin}
+          onChange={(e) => setConfirmPin(e.target.value)}
+          placeholder="Repeat the PIN"
+          error={error}
+        />
+        <div className="flex justify-end gap-3">
+          <Button type="button" variant="secondary" onClick={close}>
+            {required ? 'Sign Out' : 'Cancel'}
+          </Button>
+          <Button type="submit">
+            {required ? 'Save PIN' : 'Save and Lock'}
+          </Button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default LockPinModal;
@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { Lock, LogOut } from 'lucide-react';
+import Input from './ui/Input';
+import Button from './ui/Button';
+import Logo from './Logo';
+import { User } from '../types';
+import { checkLockPin, hasLockPin } from '../services/lockScreen';
+
+interface LockScreenProps {
+  user: User;
+  onUnlock: () => void;
+  onSignOut: () => void;
+}
+
+/**
+ * Covers the app while it is locked. The pages stay mounted underneath (inert, see App), so
+ * the route and any form in progress are still there after unlocking with the PIN. Without a
+ * PIN (never set, or forgotten after too many wrong attempts) the only way back in is to sign
+ * in again.
+ */
+const LockScreen: React.FC<LockScreenProps> = ({ user, onUnlock, onSignOut }) => {
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState('');
+  // 'forgotten' once too many wrong PINs were entered
+  const [pinState, setPinState] = useState<'set' | 'unset' | 'forgotten'>(() => (hasLockPin(user.id) ? 'set' : 'unset'));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const attemptsLeft = checkLockPin(user.id, pin);
+    setPin('');
+    if (attemptsLeft === null) {
+      onUnlock();
+    } else if (attemptsLeft === 0) {
+      setPinState('forgotten');
+    } else {
+      setError(`Wrong PIN. ${attemptsLeft} ${attemptsLeft === 1 ? 'attempt' : 'attempts'} left.`);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-[60] flex items-center justify-center bg-gray-100 dark:bg-gray-900 p-4"
+      role="dialog"
+      aria-modal="true"
+      aria-label="App locked"
+    >
+      <div className="bg-white dark:bg-gray-800 p-6 rounded-2xl shadow-xl w-full max-w-sm text-center border border-gray-100 dark:border-gray-700">
+        <div className="flex justify-center mb-4">
+          <Logo className="w-12 h-12 drop-shadow-md" />
+        </div>
+        <h2 className="text-xl font-display font-bold text-gray-800 dark:text-white mb-1 flex items-center justify-center gap-2">
+          <Lock size={18} /> Locked
+        </h2>
+        <p className="text-gray-500 dark:text-gray-400 mb-4 font-serif text-sm">Signed in as {user.name}</p>
+
+        {pinState === 'set' ? (
+          <form onSubmit={handleSubmit}>
+            <Input
+              label="PIN"
+              type="password"
+              inputMode="numeric"
+              autoComplete="off"
+              autoFocus
+              value={pin}
+              onChange={(e) => setPin(e.target.value)}
+              placeholder="Enter your PIN"
+              error={error}
+            />
+            <Button type="submit" className="w-full" disabled={!pin}>
+              Unlock
+            </Button>
+          </form>
+        ) : (
+          <p className="text-sm text-gray-600 dark:text-gray-300 font-serif mb-2">
+            {pinState === 'forgotten'
+              ? 'Too many wrong PINs. Sign in again to continue.'
+              : 'No unlock PIN is set on this device. Sign in again to continue.'}
+            {' '}Your unsaved form will be kept as a draft.
+          </p>
+        )}
+
+        <button
+          type="button"
+          onClick={onSignOut}
+          className="mt-4 inline-flex items-center gap-1 text-xs font-bold text-gray-500 dark:text-gray-400 hover:text-red-600 dark:hover:text-red-400 font-serif"
+        >
+          <LogOut size={14} /> Sign in again
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default LockScreen;
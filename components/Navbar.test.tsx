@@ -1,8 +1,17 @@
-import { render, fireEvent } from '@testing-library/react';
+import { render, fireEvent, act } from '@testing-library/react';
 import { MemoryRouter } from 'react-router-dom';
 import { describe, expect, test, jest, beforeEach } from '@jest/globals';
 import Navbar from './Navbar';
 import { AuthContext, ThemeContext, AppThemeId } from '../App';
+import { subscribeToUpdates, applyUpdate } from '../services/serviceWorker';
+import { User } from '../types';
+import { hasLockPin, setLockPin } from '../services/lockScreen';
+
+jest.mock('../services/serviceWorker', () => ({
+  isUpdateAvailable: jest.fn(() => false),
+  subscribeToUpdates: jest.fn(() => () => {}),
+  applyUpdate: jest.fn(),
+}));
 
 type ThemeContextValue = {
   theme: 'system' | 'light' | 'dark';
@@ -12,14 +21,16 @@ type ThemeContextValue = {
 };
 
 type AuthContextValue = {
-  user: { id: string; name: string; email: string; avatar: string } | null;
+  user: User | null;
   token: string | null;
   login: jest.Mock;
   logout: jest.Mock;
+  lock: jest.Mock;
 };
 
 describe('Navbar Component', () => {
   const mockLogout = jest.fn();
+  const mockLock = jest.fn();
   const mockSetTheme = jest.fn();
   const mockSetAppTheme = jest.fn();
 
@@ -28,6 +39,7 @@ describe('Navbar Component', () => {
     name: 'Test',
     email: 't@t.com',
     avatar: '',
+    role: 'cs',
   };
 
   const baseThemeCtx: ThemeContextValue = {
@@ -42,6 +54,7 @@ describe('Navbar Component', () => {
     token: 'abc',
     login: jest.fn(),
     logout: mockLogout,
+    lock: mockLock,
   };
 
   const renderNavbar = (
@@ -64,6 +77,7 @@ describe('Navbar Component', () => {
 
   beforeEach(() => {
     jest.clearAllMocks();
+    localStorage.clear();
   });
 
   test('does not render anything when no user is logged in', () => {
@@ -93,6 +107,34 @@ describe('Navbar Component', () => {
     expect(mockLogout).toHaveBeenCalledTimes(1);
   });
 
+  test('asks for an unlock PIN the first time the app is locked', () => {
+    const { getByTitle, getByPlaceholderText, getByText } = renderNavbar();
+
+    fireEvent.click(getByTitle('Lock'));
+    fireEvent.change(getByPlaceholderText('4 to 8 digits'), { target: { value: '2468' } });
+    fireEvent.change(getByPlaceholderText('Repeat the PIN'), { target: { value: '2486' } });
+    fireEvent.click(getByText('Save and Lock'));
+
+    expect(getByText('The PINs do not match.')).toBeTruthy();
+    expect(mockLock).not.toHaveBeenCalled();
+
+    fireEvent.change(getByPlaceholderText('Repeat the PIN'), { target: { value: '2468' } });
+    fireEvent.click(getByText('Save and Lock'));
+
+    expect(hasLockPin(mockUser.id)).toBe(true);
+    expect(mockLock).toHaveBeenCalledTimes(1);
+  });
+
+  test('locks straight away once a PIN is set', () => {
+    setLockPin(mockUser.id, '2468');
+    const { getByTitle, queryByText } = renderNavbar();
+
+    fireEvent.click(getByTitle('Lock'));
+
+    expect(mockLock).toHaveBeenCalledTimes(1);
+    expect(queryByText('Set Unlock PIN')).toBeNull();
+  });
+
   test('cycles theme from light → dark', () => {
     const { getByTitle } = renderNavbar(
         { user: mockUser },
@@ -171,4 +213,31 @@ describe('Navbar Component', () => {
     // Menu should disappear -> "Style" no longer present
     expect(queryByText('Style')).toBeNull();
   });
+
+  test('shows an offline indicator while the network is down', () => {
+    const { queryByText } = renderNavbar();
+    expect(queryByText('Offline')).toBeNull();
+
+    act(() => {
+      window.dispatchEvent(new Event('offline'));
+    });
+    expect(queryByText('Offline')).toBeTruthy();
+
+    act(() => {
+      window.dispatchEvent(new Event('online'));
+    });
+    expect(queryByText('Offline')).toBeNull();
+  });
+
+  test('prompts to reload when a new version is available', () => {
+    const { getByText, queryByText } = renderNavbar();
+    expect(queryByText(/new version/)).toBeNull();
+
+    const listener = (subscribeToUpdates as jest.Mock).mock.calls[0][0] as (available: boolean) => void;
+    act(() => listener(true));
+
+    expect(getByText('A new version of VoidDex is available.')).toBeTruthy();
+    fireEvent.click(getByText('Reload'));
+    expect(applyUpdate).toHaveBeenCalled();
+  });
 });
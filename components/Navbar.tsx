@@ -1,15 +1,21 @@
 import React, { useContext, useState, useRef, useEffect } from 'react';
 import { Link } from 'react-router-dom';
 import { AuthContext, ThemeContext, THEME_PRESETS, AppThemeId } from '../App';
-import { LogOut, Sun, Moon, Laptop, Palette, Check } from 'lucide-react';
+import { LogOut, Sun, Moon, Laptop, Palette, Check, WifiOff, RefreshCw, Lock } from 'lucide-react';
 import Logo from './Logo';
+import LockPinModal from './LockPinModal';
+import { isUpdateAvailable, subscribeToUpdates, applyUpdate } from '../services/serviceWorker';
+import { hasLockPin, setLockPin } from '../services/lockScreen';
 
 const Navbar: React.FC = () => {
-    const { user, logout } = useContext(AuthContext);
+    const { user, logout, lock } = useContext(AuthContext);
     const { theme, setTheme, appTheme, setAppTheme } = useContext(ThemeContext);
 
     const [showThemeMenu, setShowThemeMenu] = useState(false);
     const themeMenuRef = useRef<HTMLDivElement>(null);
+    const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+    const [updateAvailable, setUpdateAvailable] = useState(isUpdateAvailable);
+    const [showPinSetup, setShowPinSetup] = useState(false);
 
     useEffect(() => {
         const handleClickOutside = (event: MouseEvent) => {
@@ -21,6 +27,19 @@ const Navbar: React.FC = () => {
         return () => document.removeEventListener('mousedown', handleClickOutside);
     }, []);
 
+    useEffect(() => {
+        const handleOnline = () => setIsOnline(true);
+        const handleOffline = () => setIsOnline(false);
+        window.addEventListener('online', handleOnline);
+        window.addEventListener('offline', handleOffline);
+        return () => {
+            window.removeEventListener('online', handleOnline);
+            window.removeEventListener('offline', handleOffline);
+        };
+    }, []);
+
+    useEffect(() => subscribeToUpdates(setUpdateAvailable), []);
+
     if (!user) return null;
 
     // Tri-state toggle: System -> Light -> Dark
@@ -65,6 +84,17 @@ const Navbar: React.FC = () => {
 
                     {/* User Controls - Pinned to Right */}
                     <div className="absolute right-0 top-1/2 transform -translate-y-1/2 flex items-center space-x-2 z-20">
+                        {/* Offline Indicator */}
+                        {!isOnline && (
+                            <div
+                                className="flex items-center gap-1 px-2 py-1 rounded-lg bg-amber-100 dark:bg-amber-900/40 text-amber-800 dark:text-amber-300 text-xs font-bold"
+                                title="No network connection. The app keeps running from its offline copy."
+                            >
+                                <WifiOff size={14} />
+                                <span className="hidden sm:inline">Offline</span>
+                            </div>
+                        )}
+
                         <div className="flex items-center bg-gray-50 dark:bg-gray-700/50 rounded-lg p-1 border border-gray-200 dark:border-gray-600 transition-colors relative backdrop-blur-sm">
 
                             {/* Theme Preset Dropdown */}
@@ -116,6 +146,16 @@ const Navbar: React.FC = () => {
 
                             <div className="w-px h-4 bg-gray-300 dark:bg-gray-600 mx-1"></div>
 
+                            {/* Lock (asks for an unlock PIN the first time) */}
+                            <button
+                                type="button"
+                                onClick={() => (hasLockPin(user.id) ? lock() : setShowPinSetup(true))}
+                                className="p-1.5 text-gray-500 dark:text-gray-400 hover:bg-white dark:hover:bg-gray-600 rounded-md transition-colors"
+                                title="Lock"
+                            >
+                                <Lock size={18} />
+                            </button>
+
                             {/* Logout */}
                             <button
                                 type="button"
@@ -132,6 +172,30 @@ const Navbar: React.FC = () => {
                     </div>
                 </div>
             </header>
+
+            <LockPinModal
+                isOpen={showPinSetup}
+                onClose={() => setShowPinSetup(false)}
+                onSave={(pin) => {
+                    setLockPin(user.id, pin);
+                    setShowPinSetup(false);
+                    lock();
+                }}
+            />
+
+            {/* Update Prompt */}
+            {updateAvailable && (
+                <div className="bg-brand-primary text-white text-sm px-4 py-2 flex items-center justify-center gap-3 z-30 relative" role="status">
+                    <span>A new version of VoidDex is available.</span>
+                    <button
+                        type="button"
+                        onClick={applyUpdate}
+                        className="flex items-center gap-1 px-2 py-0.5 rounded-md bg-white/20 hover:bg-white/30 font-bold transition-colors"
+                    >
+                        <RefreshCw size={14} /> Reload
+                    </button>
+                </div>
+            )}
         </>
     );
 };
@@ -0,0 +1,57 @@
+import { fireEvent, screen } from '@testing-library/react';
+import { describe, expect, test, jest, beforeEach } from '@jest/globals';
+import ScanHistoryPanel from './ScanHistoryPanel';
+import { addScanRecord, getScanHistory } from '../services/scanHistory';
+import { renderWithRouter } from '../testUtils';
+
+const mockNavigate = jest.fn();
+jest.mock('react-router-dom', () => ({
+  ...(jest.requireActual('react-router-dom') as any),
+  useNavigate: () => mockNavigate,
+}));
+
+describe('ScanHistoryPanel', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    localStorage.clear();
+    addScanRecord({ rawText: 'https://voiddex.app/items/1001', source: 'camera', type: 'item', entityId: '1001', name: 'Plasma Rifle', result: 'found' });
+    addScanRecord({ rawText: 'https://voiddex.app/powers/5001?exp=&sig=00', source: 'image', type: 'power', entityId: '5001', result: 'forged' });
+  });
+
+  test('lists scans newest first and filters them', () => {
+    renderWithRouter(<ScanHistoryPanel />);
+    fireEvent.click(screen.getByText('Scan History'));
+
+    const labels = screen.getAllByText(/^(ITIN|POIN) \d{4}$/).map(el => el.textContent);
+    expect(labels).toEqual(['POIN 5001', 'ITIN 1001 Plasma Rifle']);
+    expect(screen.getByText('Forged')).toBeTruthy();
+    expect(screen.getByText('Plasma Rifle')).toBeTruthy();
+
+    fireEvent.change(screen.getByLabelText('Filter scan history'), { target: { value: 'rifle' } });
+    expect(screen.queryByText('POIN 5001')).toBeNull();
+    expect(screen.getByText('ITIN 1001')).toBeTruthy();
+  });
+
+  test('re-opens a scan and attaches it to a note', () => {
+    renderWithRouter(<ScanHistoryPanel />);
+    fireEvent.click(screen.getByText('Scan History'));
+
+    fireEvent.click(screen.getByTitle('Re-open ITIN 1001'));
+    expect(mockNavigate).toHaveBeenCalledWith('/items/1001', { state: { skipScanLog: true } });
+
+    fireEvent.click(screen.getByTitle('Attach POIN 5001 to note'));
+    expect(mockNavigate).toHaveBeenCalledWith('/create-note', {
+      state: expect.objectContaining({ title: 'Scan of POIN 5001', linkedIds: ['POIN:5001'] }),
+    });
+  });
+
+  test('clears the history after confirmation', () => {
+    renderWithRouter(<ScanHistoryPanel />);
+    fireEvent.click(screen.getByText('Scan History'));
+
+    fireEvent.click(screen.getByTitle('Clear scan history'));
+    fireEvent.click(screen.getByText('Clear'));
+    expect(getScanHistory()).toEqual([]);
+    expect(screen.getByText('No scans recorded yet.')).toBeTruthy();
+  });
+});
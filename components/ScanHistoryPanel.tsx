@@ -0,0 +1,169 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { History, ChevronDown, ChevronUp, ExternalLink, StickyNote, Trash2 } from 'lucide-react';
+import ConfirmModal from './ui/ConfirmModal';
+import { getScanHistory, clearScanHistory, ScanRecord, ScanResult, ScanSource } from '../services/scanHistory';
+import { ID_RANGES } from '../services/idAllocator';
+import { deepLinkPath } from '../services/qrCode';
+
+const RESULT_LABELS: Record<ScanResult, string> = {
+  found: 'Found',
+  'not-found': 'Not found',
+  forged: 'Forged',
+  outdated: 'Outdated',
+  unsigned: 'Unsigned',
+  unverified: 'Not verified',
+  error: 'Error',
+};
+
+const RESULT_STYLES: Record<ScanResult, string> = {
+  found: 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300',
+  'not-found': 'bg-gray-200 text-gray-700 dark:bg-gray-700 dark:text-gray-300',
+  forged: 'bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300',
+  outdated: 'bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300',
+  unsigned: 'bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300',
+  unverified: 'bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300',
+  error: 'bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300',
+};
+
+const SOURCE_LABELS: Record<ScanSource, string> = {
+  camera: 'Camera',
+  image: 'Image',
+  manual: 'Typed',
+  batch: 'Batch',
+  link: 'Link',
+};
+
+const idText = (record: ScanRecord) =>
+  record.type && record.entityId ? `${ID_RANGES[record.type].label} ${record.entityId}` : '';
+
+/**
+ * Collapsible log of past scans on this device, newest first, so referees can
+ * reconstruct what they checked. Entries can be re-opened or attached to a new note.
+ */
+const ScanHistoryPanel: React.FC = () => {
+  const navigate = useNavigate();
+  const [isOpen, setIsOpen] = useState(false);
+  const [history, setHistory] = useState<ScanRecord[]>([]);
+  const [filter, setFilter] = useState('');
+  const [showClearConfirm, setShowClearConfirm] = useState(false);
+
+  const toggle = () => {
+    // Re-read on every open: scans are logged by DeepLinkHandler as well
+    if (!isOpen) setHistory(getScanHistory());
+    setIsOpen(prev => !prev);
+  };
+
+  const reopen = (record: ScanRecord) => {
+    navigate(deepLinkPath(record.type!, record.entityId!), { state: { skipScanLog: true } });
+  };
+
+  const attachToNote = (record: ScanRecord) => {
+    const ref = idText(record);
+    navigate('/create-note', {
+      state: {
+        title: `Scan of ${ref}`,
+        content: `Scanned ${new Date(record.timestamp).toLocaleString()} (${RESULT_LABELS[record.result]}): ${record.rawText}`,
+        linkedIds: [ref.replace(' ', ':')],
+      },
+    });
+  };
+
+  const query = filter.trim().toLowerCase();
+  const visible = query
+    ? history.filter(r => [idText(r), r.name || '', r.rawText].some(text => text.toLowerCase().includes(query)))
+    : history;
+
+  return (
+    <div className="w-full max-w-md mt-4 bg-white dark:bg-gray-800 rounded-lg shadow-panel border border-gray-300 dark:border-gray-600 p-3">
+      <button
+        type="button"
+        onClick={toggle}
+        className="w-full flex items-center justify-between text-sm font-bold font-serif text-gray-700 dark:text-gray-200 hover:text-brand-primary transition-colors"
+        aria-expanded={isOpen}
+      >
+        <span className="flex items-center gap-2">
+          <History size={16} /> Scan History
+        </span>
+        {isOpen ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+      </button>
+
+      {isOpen && (
+        <div className="mt-2 space-y-2">
+          {history.length === 0 ? (
+            <p className="text-xs text-gray-500 dark:text-gray-400 font-serif italic">No scans recorded yet.</p>
+          ) : (
+            <>
+              <div className="flex gap-2">
+                <input
+                  value={filter}
+                  onChange={(e) => setFilter(e.target.value)}
+                  placeholder="Filter by ID, name or code"
+                  aria-label="Filter scan history"
+                  className="flex-1 min-w-0 px-2 py-1 text-xs rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                />
+                <button
+                  type="button"
+                  onClick={() => setShowClearConfirm(true)}
+                  className="text-gray-400 hover:text-red-500"
+                  title="Clear scan history"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+
+              {visible.map(record => (
+                <div key={record.id} className="p-2 rounded-md border border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-700/50">
+                  <div className="flex justify-between items-baseline gap-2 text-xs">
+                    <span className="font-bold text-gray-800 dark:text-gray-100 truncate">
+                      {idText(record) || 'Unknown code'}
+                      {record.name && <span className="font-normal text-gray-600 dark:text-gray-300"> {record.name}</span>}
+                    </span>
+                    <span className="text-gray-400 shrink-0">{new Date(record.timestamp).toLocaleString()}</span>
+                  </div>
+                  <div className="mt-1 flex items-center gap-2">
+                    <span className={`px-1.5 py-0.5 rounded text-[10px] font-bold ${RESULT_STYLES[record.result]}`}>
+                      {RESULT_LABELS[record.result]}
+                    </span>
+                    <span className="text-[10px] text-gray-500 dark:text-gray-400">{SOURCE_LABELS[record.source]}</span>
+                    <span className="flex-1 min-w-0 font-mono text-[10px] text-gray-500 dark:text-gray-400 truncate" title={record.rawText}>
+                      {record.rawText}
+                    </span>
+                    {record.type && record.entityId && (
+                      <>
+                        <button type="button" onClick={() => reopen(record)} className="text-gray-500 hover:text-brand-primary" title={`Re-open ${idText(record)}`}>
+                          <ExternalLink size={14} />
+                        </button>
+                        <button type="button" onClick={() => attachToNote(record)} className="text-gray-500 hover:text-brand-primary" title={`Attach ${idText(record)} to note`}>
+                          <StickyNote size={14} />
+                        </button>
+                      </>
+                    )}
+                  </div>
+                </div>
+              ))}
+              {visible.length === 0 && (
+                <p className="text-xs text-gray-500 dark:text-gray-400 font-serif italic">No scans match this filter.</p>
+              )}
+            </>
+          )}
+        </div>
+      )}
+
+      <ConfirmModal
+        isOpen={showClearConfirm}
+        onClose={() => setShowClearConfirm(false)}
+        onConfirm={() => {
+          clearScanHistory();
+          setHistory([]);
+          setShowClearConfirm(false);
+        }}
+        title="Clear Scan History?"
+        message="All recorded scans on this device will be removed."
+        confirmLabel="Clear"
+      />
+    </div>
+  );
+};
+
+export default ScanHistoryPanel;
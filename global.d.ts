@@ -1,4 +1,24 @@
 // global.d.ts
 import '@testing-library/jest-dom';
 
+declare global {
+  // Build-time configuration injected by Vite (see vite.config.ts). Undefined under Jest.
+  const __VOIDDEX_CONFIG__: {
+    dataSource?: string;
+    apiBaseUrl?: string;
+    appUrl?: string;
+    labelSigning?: boolean;
+    serviceWorker?: boolean;
+    authProvider?: string;
+    oidcAuthorizationUrl?: string;
+    oidcTokenUrl?: string;
+    oidcClientId?: string;
+    oidcScope?: string;
+    oidcRedirectUrl?: string;
+    oidcRoleClaim?: string;
+    oidcPlinClaim?: string;
+    inactivityTimeoutMinutes?: number;
+  } | undefined;
+}
+
 export {};
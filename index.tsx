@@ -2,6 +2,7 @@ import React from 'react';
 import ReactDOM from 'react-dom/client';
 import { createMemoryRouter, RouterProvider } from 'react-router-dom';
 import App from './App';
+import { registerServiceWorker } from './services/serviceWorker';
 
 // Your route setup
 const routes = [
@@ -11,7 +12,17 @@ const routes = [
     },
 ];
 
+// The app keeps its routes in memory, so the one page load that needs the browser URL is the
+// OIDC provider redirecting back with the authorization code
+const isAuthRedirect = window.location.pathname === '/auth/callback';
+const initialEntries = [isAuthRedirect ? `/auth/callback${window.location.search}` : '/'];
+if (isAuthRedirect) {
+    // Keep the code and state out of the address bar and history
+    window.history.replaceState(null, '', '/');
+}
+
 const router = createMemoryRouter(routes, {
+    initialEntries,
     future: {
         // @ts-ignore
         v7_startTransition: true
@@ -28,3 +39,5 @@ ReactDOM.createRoot(rootElement).render(
         <RouterProvider router={router} />
     </React.StrictMode>
 );
+
+registerServiceWorker();
@@ -1,6 +1,9 @@
 import { jest } from '@jest/globals';
 import '@testing-library/jest-dom';
+// In-memory IndexedDB (offlineStorage); jsdom has none
+import 'fake-indexeddb/auto';
 import { TextEncoder, TextDecoder } from 'util';
+import { serialize, deserialize } from 'v8';
 import { configure } from '@testing-library/react';
 
 // Configure RTL to not dump the whole DOM on errors
@@ -29,17 +32,24 @@ configure({
 // Mock global TextEncoder/Decoder often needed by JSDOM
 Object.assign(globalThis, { TextEncoder, TextDecoder });
 
-// Mock matchMedia for ThemeContext
-Object.defineProperty(window, 'matchMedia', {
-    writable: true,
-    value: (query: any) => ({
-        matches: false,
-        media: query,
-        onchange: null,
-        addListener: jest.fn(), // Deprecated
-        removeListener: jest.fn(), // Deprecated
-        addEventListener: jest.fn(),
-        removeEventListener: jest.fn(),
-        dispatchEvent: jest.fn(),
-    }),
-});
+// JSDOM has no structuredClone; fake-indexeddb uses it to store records
+if (typeof globalThis.structuredClone === 'undefined') {
+    globalThis.structuredClone = <T>(value: T): T => deserialize(serialize(value));
+}
+
+// Mock matchMedia for ThemeContext (skipped for suites running in the node environment)
+if (typeof window !== 'undefined') {
+    Object.defineProperty(window, 'matchMedia', {
+        writable: true,
+        value: (query: any) => ({
+            matches: false,
+            media: query,
+            onchange: null,
+            addListener: jest.fn(), // Deprecated
+            removeListener: jest.fn(), // Deprecated
+            addEventListener: jest.fn(),
+            removeEventListener: jest.fn(),
+            dispatchEvent: jest.fn(),
+        }),
+    });
+}
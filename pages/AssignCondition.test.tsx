@@ -187,6 +187,7 @@ describe('AssignCondition Page', () => {
                         expect.objectContaining({ plin: '8888#88' }),
                     ]),
                 }),
+                { expectedVersion: undefined },
             );
         });
 
@@ -248,7 +249,7 @@ describe('AssignCondition Page', () => {
         await waitFor(() => {
             expect(apiMock.updateCondition).toHaveBeenCalledWith('9001', {
                 assignments: [],
-            });
+            }, { expectedVersion: undefined });
         });
     });
 
@@ -311,4 +312,40 @@ describe('AssignCondition Page', () => {
             }),
         );
     });
+
+    test('merges a stale versioned draft onto the current assignments', async () => {
+        const draftCondition = { ...mockCondition, version: 2 };
+        const currentCondition = {
+            ...mockCondition,
+            version: 3,
+            assignments: [...mockCondition.assignments, { plin: '7777#77', expiryDate: '01/01/2031' }],
+        };
+        apiMock.updateCondition
+            .mockResolvedValueOnce({ success: false, error: 'Stale', status: 409, conflict: currentCondition })
+            .mockResolvedValueOnce({ success: true, data: currentCondition });
+
+        renderWithRouter(<AssignCondition />, '/assign-condition', {
+            initialData: { condition: draftCondition, newOwner: '8888#88', newExpiry: '01/01/2030', selectedRemovePlins: [] },
+            draftId: 'draft-9',
+        });
+
+        fireEvent.click(screen.getByText('Assign'));
+
+        expect(await screen.findByText('Record Changed')).toBeTruthy();
+        expect(screen.getByText('Assignment 7777#77')).toBeTruthy();
+        expect(screen.getByText('Assignment 8888#88')).toBeTruthy();
+        expect(screen.queryByText('Process Draft?')).toBeNull();
+
+        fireEvent.click(screen.getByText('Merge & Update'));
+
+        await waitFor(() => {
+            expect(apiMock.updateCondition).toHaveBeenLastCalledWith('9001', {
+                assignments: [
+                    ...currentCondition.assignments,
+                    { plin: '8888#88', expiryDate: '01/01/2030' },
+                ],
+            }, { expectedVersion: 3 });
+        });
+        expect(offlineMock.deleteStoredChange).toHaveBeenCalledWith('draft-9');
+    });
 });
@@ -3,8 +3,12 @@ import { useNavigate, useLocation } from 'react-router-dom';
 import Input from '../components/ui/Input';
 import Button from '../components/ui/Button';
 import ConfirmModal from '../components/ui/ConfirmModal';
-import { searchConditionByCoin, updateCondition, getCharacterName } from '../services/api';
-import { saveStoredChange, deleteStoredChange } from '../services/offlineStorage';
+import ConflictModal, { ConflictState } from '../components/ConflictModal';
+import { searchConditionByCoin, getCharacterName } from '../services/api';
+import { saveStoredChange, deleteStoredChange, NewStoredChange } from '../services/offlineStorage';
+import { registerUnsavedForm } from '../services/unsavedForms';
+import { ConditionAssignData } from '../services/draftSchema';
+import { submitChange, QUEUED_MESSAGE } from '../services/outbox';
 import { Condition, Assignment } from '../types';
 import { Search, Home, ArrowLeft, UserMinus, UserPlus, ChevronDown, CheckSquare, Square, X, FileText } from 'lucide-react';
 
@@ -43,6 +47,7 @@ const AssignCondition: React.FC = () => {
   const [pendingAction, setPendingAction] = useState<(() => void) | null>(null);
   const [draftId, setDraftId] = useState<string | null>(() => location.state?.draftId || null);
   const [draftTimestamp, setDraftTimestamp] = useState<number | null>(() => location.state?.draftTimestamp || null);
+  const [conflict, setConflict] = useState<ConflictState<Condition> | null>(null);
 
   const newOwnerName = getCharacterName(newOwner);
   // Baseline to track unsaved changes
@@ -80,6 +85,11 @@ const AssignCondition: React.FC = () => {
     return () => window.removeEventListener('beforeunload', handleBeforeUnload);
   }, [isUnsaved]);
 
+  // Kept as a draft if the session expires before the form is saved
+  useEffect(() => {
+    if (isUnsaved) return registerUnsavedForm(handleSaveDraft);
+  });
+
   // Click outside to close dropdown
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -109,22 +119,19 @@ const AssignCondition: React.FC = () => {
     if (location.state) {
         if (location.state.initialData) {
              // Load Draft
-             const { condition: savedCondition, newOwner: savedNewOwner, newExpiry: savedNewExpiry, selectedRemovePlins: savedRemovePlins } = location.state.initialData;
+             const { condition: savedCondition, newOwner: savedNewOwner, newExpiry: savedNewExpiry, selectedRemovePlins: savedRemovePlins } = location.state.initialData as ConditionAssignData;
              setCondition(savedCondition);
              setCoinSearch(savedCondition.coin);
-             setCurrentAssignments(savedCondition.assignments || []);
+             setCurrentAssignments(savedCondition.assignments);
              setNewOwner(savedNewOwner);
              setNewExpiry(savedNewExpiry);
-             
-             // Safe default for potentially undefined array from old drafts
-             const safeRemovePlins = savedRemovePlins || [];
-             setSelectedRemovePlins(new Set(safeRemovePlins));
+             setSelectedRemovePlins(new Set(savedRemovePlins));
              
              // Set baseline from draft
              setBaselineJson(JSON.stringify({
                  newOwner: savedNewOwner,
                  newExpiry: savedNewExpiry,
-                 selectedRemovePlins: safeRemovePlins.sort()
+                 selectedRemovePlins: [...savedRemovePlins].sort()
              }));
              if (location.state.draftId) setDraftId(location.state.draftId);
              if (location.state.draftTimestamp) setDraftTimestamp(location.state.draftTimestamp);
@@ -204,19 +211,21 @@ const AssignCondition: React.FC = () => {
     }
   };
 
-  const handleSaveDraft = () => {
+  const toDraft = (base: Condition, id: string, timestamp: number): NewStoredChange => ({
+    id: id,
+    type: 'condition',
+    action: 'assign',
+    data: { condition: base, newOwner, newExpiry, selectedRemovePlins: Array.from(selectedRemovePlins) },
+    timestamp: timestamp,
+    title: base.name || 'Unknown Condition',
+    subtitle: `Assign COIN: ${base.coin}`
+  });
+
+  const handleSaveDraft = async () => {
     if (!condition) return;
     const id = draftId || `draft-${Date.now()}`;
     const now = Date.now();
-    saveStoredChange({
-      id: id,
-      type: 'condition',
-      action: 'assign',
-      data: { condition, newOwner, newExpiry, selectedRemovePlins: Array.from(selectedRemovePlins) },
-      timestamp: now,
-      title: condition.name || 'Unknown Condition',
-      subtitle: `Assign COIN: ${condition.coin}`
-    });
+    await saveStoredChange(toDraft(condition, id, now));
     setDraftId(id);
     setDraftTimestamp(now);
     setBaselineJson(getCurrentStateString()); // Update baseline
@@ -313,23 +322,31 @@ const AssignCondition: React.FC = () => {
   
   const isAllFilteredRemoveSelected = filteredRemoveAssignments.length > 0 && filteredRemoveAssignments.every(a => selectedRemovePlins.has(a.plin));
 
-  const executeAddPlayer = async () => {
+  // `base` is the record the change is applied to; after a merge it is the current server record
+  const executeAddPlayer = async (base: Condition = condition!) => {
     setIsUpdating(true);
     setStatusMessage(null);
 
     try {
-      const updatedAssignments = [...currentAssignments, { plin: newOwner, expiryDate: newExpiry }];
-      const result = await updateCondition(condition!.coin, { assignments: updatedAssignments });
+      const updatedAssignments = [
+        ...base.assignments.filter(a => a.plin !== newOwner),
+        { plin: newOwner, expiryDate: newExpiry }
+      ];
+      const result = await submitChange<Condition>(
+        { type: 'condition', id: base.coin, changes: { assignments: updatedAssignments }, expectedVersion: base.version },
+        toDraft(base, draftId || `draft-${Date.now()}`, Date.now())
+      );
       
-      if (result.success) {
+      if (result.success || result.queued) {
         if (draftId) {
-            deleteStoredChange(draftId);
+            await deleteStoredChange(draftId);
             setDraftId(null);
             setDraftTimestamp(null);
         }
-        setStatusMessage({ type: 'success', text: `Assigned ${newOwner}` });
-        setCondition({ ...condition!, assignments: updatedAssignments }); 
-        setCurrentAssignments(updatedAssignments);
+        setStatusMessage({ type: 'success', text: result.queued ? QUEUED_MESSAGE : `Assigned ${newOwner}` });
+        const saved = result.data || { ...base, assignments: updatedAssignments };
+        setCondition(saved);
+        setCurrentAssignments(saved.assignments);
         setNewOwner('');
         setNewExpiry(getDefaultExpiry());
         // Reset baseline for next action
@@ -338,6 +355,8 @@ const AssignCondition: React.FC = () => {
             newExpiry: getDefaultExpiry(),
             selectedRemovePlins: []
         }));
+      } else if (result.status === 409 && result.conflict) {
+        setConflict({ base, current: result.conflict, pending: { ...base, assignments: updatedAssignments }, retry: executeAddPlayer });
       } else {
         setStatusMessage({ type: 'error', text: 'Failed to assign.' });
       }
@@ -372,7 +391,8 @@ const AssignCondition: React.FC = () => {
         return;
     }
 
-    if (draftId) {
+    // Drafts stored before records were versioned cannot be checked for conflicts
+    if (draftId && condition.version === undefined) {
         setConfirmTitle("Process Draft?");
         setConfirmMessage("The object may have been changed since this draft was stored. Proceed?");
         setConfirmLabel("Process");
@@ -385,24 +405,28 @@ const AssignCondition: React.FC = () => {
     executeAddPlayer();
   };
 
-  const executeRemovePlayers = async () => {
+  const executeRemovePlayers = async (base: Condition = condition!) => {
     setIsUpdating(true);
     setStatusMessage(null);
 
     try {
-        const updatedAssignments = currentAssignments.filter(a => !selectedRemovePlins.has(a.plin));
-        const result = await updateCondition(condition!.coin, { assignments: updatedAssignments });
+        const updatedAssignments = base.assignments.filter(a => !selectedRemovePlins.has(a.plin));
+        const result = await submitChange<Condition>(
+            { type: 'condition', id: base.coin, changes: { assignments: updatedAssignments }, expectedVersion: base.version },
+            toDraft(base, draftId || `draft-${Date.now()}`, Date.now())
+        );
 
-        if (result.success) {
+        if (result.success || result.queued) {
             if (draftId) {
-                deleteStoredChange(draftId);
+                await deleteStoredChange(draftId);
                 setDraftId(null);
                 setDraftTimestamp(null);
             }
             const removedPlinsStr = Array.from(selectedRemovePlins).join(', ');
-            setStatusMessage({ type: 'success', text: `Unassigned: ${removedPlinsStr}` });
-            setCondition({ ...condition!, assignments: updatedAssignments });
-            setCurrentAssignments(updatedAssignments);
+            setStatusMessage({ type: 'success', text: result.queued ? QUEUED_MESSAGE : `Unassigned: ${removedPlinsStr}` });
+            const saved = result.data || { ...base, assignments: updatedAssignments };
+            setCondition(saved);
+            setCurrentAssignments(saved.assignments);
             setSelectedRemovePlins(new Set());
             setRemoveFilter('');
             // Reset baseline
@@ -411,6 +435,8 @@ const AssignCondition: React.FC = () => {
                 newExpiry: getDefaultExpiry(),
                 selectedRemovePlins: []
             }));
+        } else if (result.status === 409 && result.conflict) {
+            setConflict({ base, current: result.conflict, pending: { ...base, assignments: updatedAssignments }, retry: executeRemovePlayers });
         } else {
             setStatusMessage({ type: 'error', text: 'Failed to unassign.' });
         }
@@ -429,7 +455,8 @@ const AssignCondition: React.FC = () => {
         return;
     }
 
-    if (draftId) {
+    // Drafts stored before records were versioned cannot be checked for conflicts
+    if (draftId && condition.version === undefined) {
         setConfirmTitle("Process Draft?");
         setConfirmMessage("The object may have been changed since this draft was stored. Proceed?");
         setConfirmLabel("Process");
@@ -442,6 +469,17 @@ const AssignCondition: React.FC = () => {
     executeRemovePlayers();
   };
 
+  const handleMergeConflict = () => {
+    if (!conflict) return;
+    setConflict(null);
+    conflict.retry(conflict.current);
+  };
+
+  const handleAbortConflict = () => {
+    setConflict(null);
+    setStatusMessage({ type: 'error', text: 'Update aborted. The record was not changed.' });
+  };
+
   const getAssignedPlayersDisplay = () => {
       if (currentAssignments.length === 0) return 'None';
       return currentAssignments.map(a => {
@@ -465,6 +503,13 @@ const AssignCondition: React.FC = () => {
            setPendingAction(null);
          }}
       />
+
+      <ConflictModal
+         conflict={conflict}
+         onMerge={handleMergeConflict}
+         onAbort={handleAbortConflict}
+      />
+
       <div className="mb-3 flex flex-wrap items-center justify-between gap-2">
          <div className="flex gap-2">
             {(returnQuery || returnTo) && (
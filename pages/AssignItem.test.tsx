@@ -189,12 +189,12 @@ describe('AssignItem Page', () => {
     await waitFor(() => {
       expect(apiMock.updateItem).toHaveBeenCalledWith('1234', {
         owner: '9999#11',
-      });
+      }, { expectedVersion: undefined });
     });
 
     // Success message for reassign
     expect(
-        screen.getByText('Unassigned 1234#12, Assigned 9999#11'),
+        await screen.findByText('Unassigned 1234#12, Assigned 9999#11'),
     ).toBeTruthy();
 
     // After success, action buttons disappear (isSuccess === true)
@@ -230,11 +230,11 @@ describe('AssignItem Page', () => {
     fireEvent.click(confirmBtn);
 
     await waitFor(() => {
-      expect(apiMock.updateItem).toHaveBeenCalledWith('1234', { owner: '' });
+      expect(apiMock.updateItem).toHaveBeenCalledWith('1234', { owner: '' }, { expectedVersion: undefined });
     });
   });
 
-  test('processes existing draft via confirmation modal', async () => {
+  test('processes existing unversioned draft via confirmation modal', async () => {
     apiMock.updateItem.mockResolvedValue({
       success: true,
       data: { ...mockItemData, owner: '9999#11' },
@@ -271,8 +271,36 @@ describe('AssignItem Page', () => {
     await waitFor(() => {
       expect(apiMock.updateItem).toHaveBeenCalledWith('1234', {
         owner: '9999#11',
-      });
+      }, { expectedVersion: undefined });
       expect(offlineMock.deleteStoredChange).toHaveBeenCalledWith('draft-1');
     });
   });
+
+  test('merges a stale versioned draft onto the current record', async () => {
+    const currentItem = { ...mockItemData, owner: '5555#55', version: 8 };
+    apiMock.updateItem
+      .mockResolvedValueOnce({ success: false, error: 'Stale', status: 409, conflict: currentItem })
+      .mockResolvedValueOnce({ success: true, data: { ...currentItem, owner: '9999#11', version: 9 } });
+
+    renderWithRouter(<AssignItem />, '/assign-item', {
+      initialData: { item: { ...mockItemData, version: 7 }, owner: '9999#11' },
+      draftId: 'draft-3',
+      draftTimestamp: Date.now(),
+    });
+
+    fireEvent.click(screen.getByText('Assign'));
+
+    expect(await screen.findByText('Record Changed')).toBeTruthy();
+    // Both sides changed the owner: snapshot, current and pending values are all listed
+    expect(screen.getByText('5555#55')).toBeTruthy();
+    expect(screen.getAllByText('9999#11').length).toBeGreaterThan(0);
+
+    fireEvent.click(screen.getByText('Merge & Update'));
+
+    await waitFor(() => {
+      expect(apiMock.updateItem).toHaveBeenLastCalledWith('1234', { owner: '9999#11' }, { expectedVersion: 8 });
+      expect(offlineMock.deleteStoredChange).toHaveBeenCalledWith('draft-3');
+    });
+    expect(screen.getByText('Unassigned 5555#55, Assigned 9999#11')).toBeTruthy();
+  });
 });
@@ -1,16 +1,23 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useContext } from 'react';
 import { useNavigate, useLocation } from 'react-router-dom';
 import Input from '../components/ui/Input';
 import Button from '../components/ui/Button';
 import ConfirmModal from '../components/ui/ConfirmModal';
-import { searchItemByItin, updateItem, getCharacterName } from '../services/api';
-import { saveStoredChange, deleteStoredChange } from '../services/offlineStorage';
+import ConflictModal, { ConflictState } from '../components/ConflictModal';
+import { AuthContext } from '../App';
+import { searchItemByItin, getCharacterName } from '../services/api';
+import { hasPermission } from '../services/permissions';
+import { saveStoredChange, deleteStoredChange, NewStoredChange } from '../services/offlineStorage';
+import { registerUnsavedForm } from '../services/unsavedForms';
+import { ItemAssignData } from '../services/draftSchema';
+import { submitChange, QUEUED_MESSAGE } from '../services/outbox';
 import { Item } from '../types';
 import { Search, Home, AlertTriangle, ArrowLeft, Save, FileText } from 'lucide-react';
 
 const AssignItem: React.FC = () => {
   const navigate = useNavigate();
   const location = useLocation();
+  const { user } = useContext(AuthContext);
   
   // Search state
   const [itinSearch, setItinSearch] = useState('');
@@ -37,6 +44,7 @@ const AssignItem: React.FC = () => {
   const [pendingAction, setPendingAction] = useState<(() => void) | null>(null);
   const [draftId, setDraftId] = useState<string | null>(() => location.state?.draftId || null);
   const [draftTimestamp, setDraftTimestamp] = useState<number | null>(() => location.state?.draftTimestamp || null);
+  const [conflict, setConflict] = useState<ConflictState<Item> | null>(null);
 
   // Baseline for navigation warning (matches last saved or loaded state)
   const [baselineOwner, setBaselineOwner] = useState('');
@@ -59,6 +67,11 @@ const AssignItem: React.FC = () => {
     return () => window.removeEventListener('beforeunload', handleBeforeUnload);
   }, [isUnsaved]);
 
+  // Kept as a draft if the session expires before the form is saved
+  useEffect(() => {
+    if (isUnsaved) return registerUnsavedForm(handleSaveDraft);
+  });
+
   const confirmAction = (action: () => void) => {
     if (isUnsaved) {
       setConfirmTitle("Discard Changes?");
@@ -76,7 +89,7 @@ const AssignItem: React.FC = () => {
   useEffect(() => {
     if (location.state) {
         if (location.state.initialData) {
-             const { item: savedItem, owner: savedOwner } = location.state.initialData;
+             const { item: savedItem, owner: savedOwner } = location.state.initialData as ItemAssignData;
              setItem(savedItem);
              setItinSearch(savedItem.itin);
              setOwner(savedOwner);
@@ -131,19 +144,21 @@ const AssignItem: React.FC = () => {
     }
   };
 
-  const handleSaveDraft = () => {
+  const toDraft = (base: Item, id: string, timestamp: number): NewStoredChange => ({
+    id: id,
+    type: 'item',
+    action: 'assign',
+    data: { item: base, owner },
+    timestamp: timestamp,
+    title: base.name || 'Unknown Item',
+    subtitle: `Assign ITIN: ${base.itin}`
+  });
+
+  const handleSaveDraft = async () => {
     if (!item) return;
     const id = draftId || `draft-${Date.now()}`;
     const now = Date.now();
-    saveStoredChange({
-      id: id,
-      type: 'item',
-      action: 'assign',
-      data: { item, owner },
-      timestamp: now,
-      title: item.name || 'Unknown Item',
-      subtitle: `Assign ITIN: ${item.itin}`
-    });
+    await saveStoredChange(toDraft(item, id, now));
     setDraftId(id);
     setDraftTimestamp(now);
     setBaselineOwner(owner);
@@ -170,8 +185,9 @@ const AssignItem: React.FC = () => {
     setOwner(formatPLIN(e.target.value));
   };
 
-  const executeUpdate = async () => {
-    if (!item) return;
+  // `base` is the record the change is applied to; after a merge it is the current server record
+  const executeUpdate = async (base: Item | null = item) => {
+    if (!base) return;
     
     if (owner.trim().length > 0 && !/^\d{1,4}#\d{1,2}$/.test(owner)) {
         setStatusMessage({ type: 'error', text: 'Player PLIN must be format 1234#12 or 12#1' });
@@ -181,11 +197,14 @@ const AssignItem: React.FC = () => {
     setIsUpdating(true);
     setConfirmUnassign(false);
     try {
-      const oldOwner = item.owner;
-      const result = await updateItem(item.itin, { owner });
-      if (result.success) {
+      const oldOwner = base.owner;
+      const result = await submitChange<Item>(
+        { type: 'item', id: base.itin, changes: { owner }, expectedVersion: base.version },
+        toDraft(base, draftId || `draft-${Date.now()}`, Date.now())
+      );
+      if (result.success || result.queued) {
         if (draftId) {
-            deleteStoredChange(draftId);
+            await deleteStoredChange(draftId);
             setDraftId(null);
             setDraftTimestamp(null);
         }
@@ -200,9 +219,11 @@ const AssignItem: React.FC = () => {
              msg = `Assignment updated to ${owner}`;
         }
         
-        setStatusMessage({ type: 'success', text: msg });
-        setItem({ ...item, owner }); 
+        setStatusMessage({ type: 'success', text: result.queued ? QUEUED_MESSAGE : msg });
+        setItem(result.data || { ...base, owner });
         setBaselineOwner(owner);
+      } else if (result.status === 409 && result.conflict) {
+        setConflict({ base, current: result.conflict, pending: { ...base, owner }, retry: executeUpdate });
       } else {
         setStatusMessage({ type: 'error', text: 'Failed.' });
       }
@@ -221,7 +242,8 @@ const AssignItem: React.FC = () => {
         return;
     }
 
-    if (draftId) {
+    // Drafts stored before records were versioned cannot be checked for conflicts
+    if (draftId && item.version === undefined) {
         setConfirmTitle("Process Draft?");
         setConfirmMessage("The object may have been changed since this draft was stored. Proceed?");
         setConfirmLabel("Process");
@@ -234,6 +256,17 @@ const AssignItem: React.FC = () => {
     executeUpdate();
   };
 
+  const handleMergeConflict = () => {
+    if (!conflict) return;
+    setConflict(null);
+    conflict.retry(conflict.current);
+  };
+
+  const handleAbortConflict = () => {
+    setConflict(null);
+    setStatusMessage({ type: 'error', text: 'Update aborted. The record was not changed.' });
+  };
+
   const getDisplayValue = () => {
     if (isSuccess && characterName) {
         return `${owner} ${characterName}`;
@@ -257,6 +290,12 @@ const AssignItem: React.FC = () => {
          }}
       />
 
+      <ConflictModal
+         conflict={conflict}
+         onMerge={handleMergeConflict}
+         onAbort={handleAbortConflict}
+      />
+
       <div className="mb-3 flex flex-wrap items-center justify-between gap-2">
          <div className="flex gap-2">
             {(returnQuery || returnTo) && (
@@ -350,7 +389,9 @@ const AssignItem: React.FC = () => {
                 <Input label="Name" value={item.name} readOnly />
                 <Input label="Description" value={item.description} readOnly multiline rows={3} />
                 <Input label="Remarks" value={item.remarks || ''} readOnly multiline rows={3} />
-                <Input label="CS Remarks" value={item.csRemarks || ''} readOnly multiline rows={3} />
+                {hasPermission(user, 'cs-remarks') && (
+                  <Input label="CS Remarks" value={item.csRemarks || ''} readOnly multiline rows={3} />
+                )}
 
                 {!isSuccess && (
                     <div className="pt-4 border-t border-gray-200 dark:border-gray-700 flex justify-end gap-2">
@@ -179,6 +179,7 @@ describe('AssignPower Page', () => {
               expect.objectContaining({ plin: '8888#88' }),
             ]),
           }),
+          { expectedVersion: undefined },
       );
     });
 
@@ -240,7 +241,7 @@ describe('AssignPower Page', () => {
     await waitFor(() => {
       expect(apiMock.updatePower).toHaveBeenCalledWith('6001', {
         assignments: [],
-      });
+      }, { expectedVersion: undefined });
     });
   });
 
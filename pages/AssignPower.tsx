@@ -3,8 +3,12 @@ import { useNavigate, useLocation } from 'react-router-dom';
 import Input from '../components/ui/Input';
 import Button from '../components/ui/Button';
 import ConfirmModal from '../components/ui/ConfirmModal';
-import { searchPowerByPoin, updatePower, getCharacterName } from '../services/api';
-import { saveStoredChange, deleteStoredChange } from '../services/offlineStorage';
+import ConflictModal, { ConflictState } from '../components/ConflictModal';
+import { searchPowerByPoin, getCharacterName } from '../services/api';
+import { saveStoredChange, deleteStoredChange, NewStoredChange } from '../services/offlineStorage';
+import { registerUnsavedForm } from '../services/unsavedForms';
+import { PowerAssignData } from '../services/draftSchema';
+import { submitChange, QUEUED_MESSAGE } from '../services/outbox';
 import { Power, Assignment } from '../types';
 import { Search, Home, ArrowLeft, UserMinus, UserPlus, ChevronDown, CheckSquare, Square, X, FileText } from 'lucide-react';
 
@@ -43,6 +47,7 @@ const AssignPower: React.FC = () => {
   const [pendingAction, setPendingAction] = useState<(() => void) | null>(null);
   const [draftId, setDraftId] = useState<string | null>(() => location.state?.draftId || null);
   const [draftTimestamp, setDraftTimestamp] = useState<number | null>(() => location.state?.draftTimestamp || null);
+  const [conflict, setConflict] = useState<ConflictState<Power> | null>(null);
 
   const newOwnerName = getCharacterName(newOwner);
 
@@ -81,6 +86,11 @@ const AssignPower: React.FC = () => {
     return () => window.removeEventListener('beforeunload', handleBeforeUnload);
   }, [isUnsaved]);
 
+  // Kept as a draft if the session expires before the form is saved
+  useEffect(() => {
+    if (isUnsaved) return registerUnsavedForm(handleSaveDraft);
+  });
+
   // Click outside to close dropdown
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -110,22 +120,19 @@ const AssignPower: React.FC = () => {
     if (location.state) {
         if (location.state.initialData) {
              // Load Draft
-             const { power: savedPower, newOwner: savedNewOwner, newExpiry: savedNewExpiry, selectedRemovePlins: savedRemovePlins } = location.state.initialData;
+             const { power: savedPower, newOwner: savedNewOwner, newExpiry: savedNewExpiry, selectedRemovePlins: savedRemovePlins } = location.state.initialData as PowerAssignData;
              setPower(savedPower);
              setPoinSearch(savedPower.poin);
-             setCurrentAssignments(savedPower.assignments || []);
+             setCurrentAssignments(savedPower.assignments);
              setNewOwner(savedNewOwner);
              setNewExpiry(savedNewExpiry);
-             
-             // Safe default for potentially undefined array from old drafts
-             const safeRemovePlins = savedRemovePlins || [];
-             setSelectedRemovePlins(new Set(safeRemovePlins));
+             setSelectedRemovePlins(new Set(savedRemovePlins));
              
              // Set baseline from draft
              setBaselineJson(JSON.stringify({
                  newOwner: savedNewOwner,
                  newExpiry: savedNewExpiry,
-                 selectedRemovePlins: safeRemovePlins.sort()
+                 selectedRemovePlins: [...savedRemovePlins].sort()
              }));
              if (location.state.draftId) setDraftId(location.state.draftId);
              if (location.state.draftTimestamp) setDraftTimestamp(location.state.draftTimestamp);
@@ -205,19 +212,21 @@ const AssignPower: React.FC = () => {
     }
   };
 
-  const handleSaveDraft = () => {
+  const toDraft = (base: Power, id: string, timestamp: number): NewStoredChange => ({
+    id: id,
+    type: 'power',
+    action: 'assign',
+    data: { power: base, newOwner, newExpiry, selectedRemovePlins: Array.from(selectedRemovePlins) },
+    timestamp: timestamp,
+    title: base.name || 'Unknown Power',
+    subtitle: `Assign POIN: ${base.poin}`
+  });
+
+  const handleSaveDraft = async () => {
     if (!power) return;
     const id = draftId || `draft-${Date.now()}`;
     const now = Date.now();
-    saveStoredChange({
-      id: id,
-      type: 'power',
-      action: 'assign',
-      data: { power, newOwner, newExpiry, selectedRemovePlins: Array.from(selectedRemovePlins) },
-      timestamp: now,
-      title: power.name || 'Unknown Power',
-      subtitle: `Assign POIN: ${power.poin}`
-    });
+    await saveStoredChange(toDraft(power, id, now));
     setDraftId(id);
     setDraftTimestamp(now);
     setBaselineJson(getCurrentStateString()); // Update baseline
@@ -314,23 +323,31 @@ const AssignPower: React.FC = () => {
   
   const isAllFilteredRemoveSelected = filteredRemoveAssignments.length > 0 && filteredRemoveAssignments.every(a => selectedRemovePlins.has(a.plin));
 
-  const executeAddPlayer = async () => {
+  // `base` is the record the change is applied to; after a merge it is the current server record
+  const executeAddPlayer = async (base: Power = power!) => {
     setIsUpdating(true);
     setStatusMessage(null);
 
     try {
-      const updatedAssignments = [...currentAssignments, { plin: newOwner, expiryDate: newExpiry }];
-      const result = await updatePower(power!.poin, { assignments: updatedAssignments });
+      const updatedAssignments = [
+        ...base.assignments.filter(a => a.plin !== newOwner),
+        { plin: newOwner, expiryDate: newExpiry }
+      ];
+      const result = await submitChange<Power>(
+        { type: 'power', id: base.poin, changes: { assignments: updatedAssignments }, expectedVersion: base.version },
+        toDraft(base, draftId || `draft-${Date.now()}`, Date.now())
+      );
       
-      if (result.success) {
+      if (result.success || result.queued) {
         if (draftId) {
-            deleteStoredChange(draftId);
+            await deleteStoredChange(draftId);
             setDraftId(null);
             setDraftTimestamp(null);
         }
-        setStatusMessage({ type: 'success', text: `Assigned ${newOwner}` });
-        setPower({ ...power!, assignments: updatedAssignments }); 
-        setCurrentAssignments(updatedAssignments);
+        setStatusMessage({ type: 'success', text: result.queued ? QUEUED_MESSAGE : `Assigned ${newOwner}` });
+        const saved = result.data || { ...base, assignments: updatedAssignments };
+        setPower(saved);
+        setCurrentAssignments(saved.assignments);
         setNewOwner('');
         setNewExpiry(getDefaultExpiry());
         // Reset baseline for next action
@@ -339,6 +356,8 @@ const AssignPower: React.FC = () => {
             newExpiry: getDefaultExpiry(),
             selectedRemovePlins: []
         }));
+      } else if (result.status === 409 && result.conflict) {
+        setConflict({ base, current: result.conflict, pending: { ...base, assignments: updatedAssignments }, retry: executeAddPlayer });
       } else {
         setStatusMessage({ type: 'error', text: 'Failed to assign.' });
       }
@@ -373,7 +392,8 @@ const AssignPower: React.FC = () => {
         return;
     }
 
-    if (draftId) {
+    // Drafts stored before records were versioned cannot be checked for conflicts
+    if (draftId && power.version === undefined) {
         setConfirmTitle("Process Draft?");
         setConfirmMessage("The object may have been changed since this draft was stored. Proceed?");
         setConfirmLabel("Process");
@@ -386,24 +406,28 @@ const AssignPower: React.FC = () => {
     executeAddPlayer();
   };
 
-  const executeRemovePlayers = async () => {
+  const executeRemovePlayers = async (base: Power = power!) => {
     setIsUpdating(true);
     setStatusMessage(null);
 
     try {
-        const updatedAssignments = currentAssignments.filter(a => !selectedRemovePlins.has(a.plin));
-        const result = await updatePower(power!.poin, { assignments: updatedAssignments });
+        const updatedAssignments = base.assignments.filter(a => !selectedRemovePlins.has(a.plin));
+        const result = await submitChange<Power>(
+            { type: 'power', id: base.poin, changes: { assignments: updatedAssignments }, expectedVersion: base.version },
+            toDraft(base, draftId || `draft-${Date.now()}`, Date.now())
+        );
 
-        if (result.success) {
+        if (result.success || result.queued) {
             if (draftId) {
-                deleteStoredChange(draftId);
+                await deleteStoredChange(draftId);
                 setDraftId(null);
                 setDraftTimestamp(null);
             }
             const removedPlinsStr = Array.from(selectedRemovePlins).join(', ');
-            setStatusMessage({ type: 'success', text: `Unassigned: ${removedPlinsStr}` });
-            setPower({ ...power!, assignments: updatedAssignments });
-            setCurrentAssignments(updatedAssignments);
+            setStatusMessage({ type: 'success', text: result.queued ? QUEUED_MESSAGE : `Unassigned: ${removedPlinsStr}` });
+            const saved = result.data || { ...base, assignments: updatedAssignments };
+            setPower(saved);
+            setCurrentAssignments(saved.assignments);
             setSelectedRemovePlins(new Set());
             setRemoveFilter('');
             // Reset baseline
@@ -412,6 +436,8 @@ const AssignPower: React.FC = () => {
                 newExpiry: getDefaultExpiry(),
                 selectedRemovePlins: []
             }));
+        } else if (result.status === 409 && result.conflict) {
+            setConflict({ base, current: result.conflict, pending: { ...base, assignments: updatedAssignments }, retry: executeRemovePlayers });
         } else {
             setStatusMessage({ type: 'error', text: 'Failed to unassign.' });
         }
@@ -430,7 +456,8 @@ const AssignPower: React.FC = () => {
         return;
     }
 
-    if (draftId) {
+    // Drafts stored before records were versioned cannot be checked for conflicts
+    if (draftId && power.version === undefined) {
         setConfirmTitle("Process Draft?");
         setConfirmMessage("The object may have been changed since this draft was stored. Proceed?");
         setConfirmLabel("Process");
@@ -443,6 +470,17 @@ const AssignPower: React.FC = () => {
     executeRemovePlayers();
   };
 
+  const handleMergeConflict = () => {
+    if (!conflict) return;
+    setConflict(null);
+    conflict.retry(conflict.current);
+  };
+
+  const handleAbortConflict = () => {
+    setConflict(null);
+    setStatusMessage({ type: 'error', text: 'Update aborted. The record was not changed.' });
+  };
+
   const getAssignedPlayersDisplay = () => {
       if (currentAssignments.length === 0) return 'None';
       return currentAssignments.map(a => {
@@ -466,6 +504,13 @@ const AssignPower: React.FC = () => {
            setPendingAction(null);
          }}
       />
+
+      <ConflictModal
+         conflict={conflict}
+         onMerge={handleMergeConflict}
+         onAbort={handleAbortConflict}
+      />
+
       <div className="mb-3 flex flex-wrap items-center justify-between gap-2">
          <div className="flex gap-2">
             {(returnQuery || returnTo) && (
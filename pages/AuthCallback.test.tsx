@@ -9,12 +9,12 @@ import { AuthContext } from '../App';
 
 jest.mock('../services/auth', () => ({
   authService: {
-    exchangeCodeForToken: jest.fn(),
+    completeLogin: jest.fn(),
   },
 }));
 
-const exchangeMock = authService.exchangeCodeForToken as unknown as jest.MockedFunction<
-    (code: string) => Promise<{ user: { id: string; name: string }; token: string }>
+const completeLoginMock = authService.completeLogin as unknown as jest.MockedFunction<
+    (code: string, state: string | null) => Promise<{ user: { id: string; name: string }; token: string; refreshToken?: string; expiresAt?: number }>
 >;
 
 
@@ -34,7 +34,7 @@ describe('AuthCallback Page', () => {
   const renderComponent = (searchString = '') => {
     return render(
         <AuthContext.Provider
-            value={{ user: null, token: null, login: mockLogin, logout: jest.fn() }}
+            value={{ user: null, token: null, login: mockLogin, logout: jest.fn(), lock: jest.fn() }}
         >
           <React.StrictMode>
             <MemoryRouter initialEntries={[`/auth/callback${searchString}`]}>
@@ -53,7 +53,7 @@ describe('AuthCallback Page', () => {
     renderComponent('');
 
     // No API call
-    expect(authService.exchangeCodeForToken).not.toHaveBeenCalled();
+    expect(authService.completeLogin).not.toHaveBeenCalled();
     // Redirect straight to login (no replace flag in this branch)
     expect(mockNavigate).toHaveBeenCalledWith('/login');
   });
@@ -61,22 +61,24 @@ describe('AuthCallback Page', () => {
   test('exchanges code for token and logs in successfully, calling API only once', async () => {
     const mockUser = { id: '1', name: 'Test User' };
     const mockToken = 'abc-123';
-    exchangeMock.mockResolvedValue({
+    completeLoginMock.mockResolvedValue({
       user: mockUser,
       token: mockToken,
+      refreshToken: 'refresh-1',
+      expiresAt: 5000,
     });
-    renderComponent('?code=valid_code');
+    renderComponent('?code=valid_code&state=abc');
 
     // Loader text should be visible while authenticating
     expect(screen.getByText('Authenticating...')).toBeTruthy();
 
     await waitFor(() => {
       // Code is exchanged exactly once, even with StrictMode double effect
-      expect(authService.exchangeCodeForToken).toHaveBeenCalledWith('valid_code');
-      expect(authService.exchangeCodeForToken).toHaveBeenCalledTimes(1);
+      expect(authService.completeLogin).toHaveBeenCalledWith('valid_code', 'abc');
+      expect(authService.completeLogin).toHaveBeenCalledTimes(1);
 
       // Context login called with user & token
-      expect(mockLogin).toHaveBeenCalledWith(mockUser, mockToken);
+      expect(mockLogin).toHaveBeenCalledWith(mockUser, mockToken, { refreshToken: 'refresh-1', expiresAt: 5000 });
 
       // Redirect to dashboard with replace:true
       expect(mockNavigate).toHaveBeenCalledWith('/', { replace: true });
@@ -84,13 +86,13 @@ describe('AuthCallback Page', () => {
   });
 
   test('handles auth error, alerts user and redirects to login', async () => {
-    exchangeMock.mockRejectedValue(new Error('Invalid code'));
+    completeLoginMock.mockRejectedValue(new Error('Invalid code'));
     const alertSpy = jest.spyOn(window, 'alert').mockImplementation(() => {});
-    renderComponent('?code=bad_code');
+    renderComponent('?code=bad_code&state=abc');
 
     await waitFor(() => {
       // API was called with the bad code
-      expect(authService.exchangeCodeForToken).toHaveBeenCalledWith('bad_code');
+      expect(authService.completeLogin).toHaveBeenCalledWith('bad_code', 'abc');
 
       // User is informed
       expect(alertSpy).toHaveBeenCalledWith(
@@ -103,4 +105,31 @@ describe('AuthCallback Page', () => {
 
     alertSpy.mockRestore();
   });
+
+  test('passes a missing state on so the login is rejected', async () => {
+    completeLoginMock.mockRejectedValue(new Error('Login state does not match'));
+    const alertSpy = jest.spyOn(window, 'alert').mockImplementation(() => {});
+    renderComponent('?code=valid_code');
+
+    await waitFor(() => {
+      expect(authService.completeLogin).toHaveBeenCalledWith('valid_code', null);
+      expect(mockLogin).not.toHaveBeenCalled();
+      expect(mockNavigate).toHaveBeenCalledWith('/login', { replace: true });
+    });
+
+    alertSpy.mockRestore();
+  });
+
+  test('treats an error from the provider as a failed login', async () => {
+    const alertSpy = jest.spyOn(window, 'alert').mockImplementation(() => {});
+    renderComponent('?error=access_denied&state=abc');
+
+    await waitFor(() => {
+      expect(alertSpy).toHaveBeenCalledWith('Authentication failed. Please try again.');
+      expect(mockNavigate).toHaveBeenCalledWith('/login', { replace: true });
+    });
+    expect(authService.completeLogin).not.toHaveBeenCalled();
+
+    alertSpy.mockRestore();
+  });
 });
@@ -20,18 +20,24 @@ const AuthCallback: React.FC = () => {
       processingRef.current = true;
 
       const code = searchParams.get('code');
-      
-      if (!code) {
+      // Set by the provider when the user denied access or the request was rejected
+      const providerError = searchParams.get('error');
+
+      if (!code && !providerError) {
         navigate('/login');
         return;
       }
 
       try {
-        // Exchange code for token
-        const response = await authService.exchangeCodeForToken(code);
+        if (providerError || !code) {
+          throw new Error(`Provider returned ${providerError}: ${searchParams.get('error_description') || 'no details'}`);
+        }
+
+        // Check the state and exchange the code for tokens
+        const response = await authService.completeLogin(code, searchParams.get('state'));
         
         // Securely log in (store token in memory via Context)
-        login(response.user, response.token);
+        login(response.user, response.token, { refreshToken: response.refreshToken, expiresAt: response.expiresAt });
         
         // Redirect to dashboard
         // Use replace: true to replace the /auth/callback entry in history to prevent back-button loops
@@ -53,7 +59,7 @@ const AuthCallback: React.FC = () => {
       <div className="bg-white dark:bg-gray-800 p-6 rounded-xl shadow-lg border border-gray-100 dark:border-gray-700 flex flex-col items-center">
         <Loader2 className="animate-spin text-indigo-600 dark:text-indigo-400 mb-4" size={32} />
         <h2 className="text-lg font-semibold text-gray-800 dark:text-gray-200">Authenticating...</h2>
-        <p className="text-gray-500 dark:text-gray-400 mt-2 text-sm">Verifying credentials with Google</p>
+        <p className="text-gray-500 dark:text-gray-400 mt-2 text-sm">Verifying your sign-in</p>
       </div>
     </div>
   );
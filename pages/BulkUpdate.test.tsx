@@ -0,0 +1,174 @@
+import { fireEvent, screen } from '@testing-library/react';
+import { describe, expect, test, jest, beforeEach } from '@jest/globals';
+import BulkUpdate from './BulkUpdate';
+// @ts-ignore – module is mocked below
+import * as api from '../services/api';
+import { Item, Condition } from '../types';
+import { renderWithRouter } from '../testUtils';
+import { getOutbox } from '../services/outbox';
+import { setApiSession } from '../services/session';
+
+jest.mock('../services/api', () => ({
+  searchItemByItin: jest.fn(),
+  searchConditionByCoin: jest.fn(),
+  searchPowerByPoin: jest.fn(),
+  updateItem: jest.fn(),
+  updateCondition: jest.fn(),
+  updatePower: jest.fn(),
+}));
+
+const mockNavigate = jest.fn();
+jest.mock('react-router-dom', () => ({
+  ...(jest.requireActual('react-router-dom') as any),
+  useNavigate: () => mockNavigate,
+}));
+
+const apiMock = api as jest.Mocked<typeof api>;
+
+const mockItem: Item = {
+  itin: '1001',
+  name: 'Plasma Rifle',
+  description: '',
+  owner: '1001#01',
+  expiryDate: '15/05/2025',
+  version: 2,
+};
+
+const mockCondition: Condition = {
+  coin: '8001',
+  name: 'Radiation Poisoning',
+  description: '',
+  assignments: [
+    { plin: '1001#01', expiryDate: '01/01/2026' },
+    { plin: '1002#01', expiryDate: 'until death' },
+  ],
+  version: 5,
+};
+
+describe('BulkUpdate Page', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    localStorage.clear();
+  });
+
+  test('previews +1 year per row and reports each row\'s result', async () => {
+    apiMock.updateItem.mockResolvedValue({ success: true, data: { ...mockItem, expiryDate: '01/06/2026', version: 3 } });
+    apiMock.updateCondition.mockResolvedValue({ success: false, error: 'Stale', status: 409 });
+
+    renderWithRouter(<BulkUpdate />, '/bulk-update', { targets: [mockItem, mockCondition], returnQuery: 'q=1001' });
+
+    expect(screen.getByText('2 Selected')).toBeTruthy();
+    expect(screen.getByText('01/06/2026')).toBeTruthy();
+    expect(screen.getByText('01/01/2027')).toBeTruthy();
+    // "until death" assignments are not part of the batch
+    expect(screen.queryByText('1002#01')).toBeNull();
+
+    fireEvent.click(screen.getByText('Update 2 Object(s)'));
+    expect(screen.getByText('You are about to update 2 expiry date(s) on 2 record(s). Do you want to proceed?')).toBeTruthy();
+    fireEvent.click(screen.getByText('Update'));
+
+    expect(await screen.findByText('1 updated, 1 failed.')).toBeTruthy();
+    expect(apiMock.updateItem).toHaveBeenCalledWith('1001', { expiryDate: '01/06/2026' }, { expectedVersion: 2 });
+    expect(apiMock.updateCondition).toHaveBeenCalledWith('8001', {
+      assignments: [
+        { plin: '1001#01', expiryDate: '01/01/2027' },
+        { plin: '1002#01', expiryDate: 'until death' },
+      ],
+    }, { expectedVersion: 5 });
+    expect(screen.getByText('Updated')).toBeTruthy();
+    expect(screen.getByText('Changed by someone else. Remove and re-add to retry.')).toBeTruthy();
+    // Only the failed row is left to send
+    expect(screen.getByText('Update 1 Object(s)')).toBeTruthy();
+  });
+
+  test('queues rows for sync when the server cannot be reached', async () => {
+    apiMock.updateItem.mockResolvedValue({ success: false, error: 'Service unavailable', status: 503 });
+    apiMock.updateCondition.mockResolvedValue({ success: true, data: mockCondition });
+
+    setApiSession({ token: 't', user: { id: 'ref-1', name: 'Referee Rita', email: 'rita@example.com', avatar: '', role: 'referee' } });
+    renderWithRouter(<BulkUpdate />, '/bulk-update', { targets: [mockItem, mockCondition] });
+
+    fireEvent.click(screen.getByText('Update 2 Object(s)'));
+    fireEvent.click(screen.getByText('Update'));
+
+    // Once one row is queued the rest queue behind it, so they replay in order
+    expect(await screen.findByText('0 updated, 2 queued for sync.')).toBeTruthy();
+    expect(screen.getAllByText('Saved offline, will sync')).toHaveLength(2);
+    expect(getOutbox().map(e => e.operation)).toEqual([
+      { type: 'item', id: '1001', changes: { expiryDate: '01/06/2026' }, expectedVersion: 2 },
+      {
+        type: 'condition',
+        id: '8001',
+        changes: { assignments: [{ plin: '1001#01', expiryDate: '01/01/2027' }, { plin: '1002#01', expiryDate: 'until death' }] },
+        expectedVersion: 5,
+      },
+    ]);
+    expect(getOutbox()[1].draft).toMatchObject({
+      type: 'condition',
+      action: 'extend',
+      data: { expiryDate: '01/01/2027', selectedPlins: ['1001#01'] },
+    });
+    expect(screen.getByText('Update 0 Object(s)')).toBeTruthy();
+  });
+
+  test('applies a fixed date limited to one player', async () => {
+    apiMock.updateItem.mockResolvedValue({ success: true, data: mockItem });
+    apiMock.updateCondition.mockResolvedValue({ success: true, data: mockCondition });
+
+    renderWithRouter(<BulkUpdate />, '/bulk-update', { targets: [mockItem, mockCondition] });
+
+    fireEvent.click(screen.getByRole('radio', { name: 'New expiry date' }));
+    fireEvent.change(screen.getByRole('textbox', { name: 'New expiry date' }), { target: { value: '01012030' } });
+    fireEvent.change(screen.getByLabelText('Only for PLIN'), { target: { value: '1002#01' } });
+
+    expect(screen.getByText('Not owned by 1002#01')).toBeTruthy();
+    expect(screen.getByText('No dated assignment for 1002#01')).toBeTruthy();
+    expect((screen.getByText('Update 0 Object(s)').closest('button') as HTMLButtonElement).disabled).toBe(true);
+
+    fireEvent.change(screen.getByLabelText('Only for PLIN'), { target: { value: '1001#01' } });
+    fireEvent.click(screen.getByText('Update 2 Object(s)'));
+    fireEvent.click(screen.getByText('Update'));
+
+    expect(await screen.findByText('2 updated.')).toBeTruthy();
+    expect(apiMock.updateItem).toHaveBeenCalledWith('1001', { expiryDate: '01/01/2030' }, { expectedVersion: 2 });
+    expect(apiMock.updateCondition).toHaveBeenCalledWith('8001', {
+      assignments: [
+        { plin: '1001#01', expiryDate: '01/01/2030' },
+        { plin: '1002#01', expiryDate: 'until death' },
+      ],
+    }, { expectedVersion: 5 });
+  });
+
+  test('adds objects by prefixed ID and rejects duplicates', async () => {
+    apiMock.searchConditionByCoin.mockResolvedValue({ success: true, data: mockCondition });
+
+    renderWithRouter(<BulkUpdate />, '/bulk-update');
+    expect(screen.getByText(/No objects selected/)).toBeTruthy();
+
+    const input = screen.getByPlaceholderText('ITIN 1234 / COIN 8001 / POIN 5001');
+    fireEvent.change(input, { target: { value: '8001' } });
+    fireEvent.click(screen.getByTitle('Add'));
+    expect(screen.getByText('Enter e.g. ITIN 1234, COIN 8001 or POIN 5001.')).toBeTruthy();
+
+    fireEvent.change(input, { target: { value: 'COIN 8001' } });
+    fireEvent.click(screen.getByTitle('Add'));
+    expect(await screen.findByText('Radiation Poisoning')).toBeTruthy();
+    expect(apiMock.searchConditionByCoin).toHaveBeenCalledWith('8001');
+
+    fireEvent.change(input, { target: { value: 'coin 8001' } });
+    fireEvent.click(screen.getByTitle('Add'));
+    expect(screen.getByText('COIN 8001 is already selected.')).toBeTruthy();
+  });
+
+  test('adds a code handed back by the scanner and sends the selection along when scanning again', async () => {
+    apiMock.searchItemByItin.mockResolvedValue({ success: true, data: mockItem });
+
+    renderWithRouter(<BulkUpdate />, '/bulk-update', { targets: [mockCondition], scanned: { type: 'item', id: '1001' } });
+
+    expect(await screen.findByText('Plasma Rifle')).toBeTruthy();
+    fireEvent.click(screen.getByTitle('Scan to add'));
+    expect(mockNavigate).toHaveBeenCalledWith('/scan', {
+      state: { collectFor: '/bulk-update', targets: [mockCondition, mockItem], returnQuery: undefined },
+    });
+  });
+});
@@ -0,0 +1,376 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useNavigate, useLocation } from 'react-router-dom';
+import Input from '../components/ui/Input';
+import Button from '../components/ui/Button';
+import ConfirmModal from '../components/ui/ConfirmModal';
+import { searchItemByItin, searchConditionByCoin, searchPowerByPoin } from '../services/api';
+import { validateExpiryDate } from '../services/expiry';
+import {
+  BulkTarget, BulkExpiryMode, BulkPreviewRow,
+  planBulkUpdate, parseTargetRef, targetKey, getTargetId, getTargetType, bulkRowOperation, bulkRowDraft
+} from '../services/bulkUpdate';
+import { submitChange } from '../services/outbox';
+import { ApiResult, EntityType } from '../types';
+import { Home, ArrowLeft, Plus, QrCode, X, Save, CheckCircle2, XCircle } from 'lucide-react';
+
+// Outcome of one written row, with the changes that were sent
+type RowResult = { success: boolean, queued?: boolean, text: string, row: BulkPreviewRow };
+
+const TYPE_LABELS: Record<EntityType, string> = { item: 'ITIN', condition: 'COIN', power: 'POIN' };
+
+const fetchTarget = (type: EntityType, id: string): Promise<ApiResult<BulkTarget>> => {
+  if (type === 'condition') return searchConditionByCoin(id);
+  if (type === 'power') return searchPowerByPoin(id);
+  return searchItemByItin(id);
+};
+
+/**
+ * Writes one preview row through the outbox, so rows are queued like any other change while offline.
+ */
+const commitRow = (target: BulkTarget, row: BulkPreviewRow) => {
+  const timestamp = Date.now();
+  return submitChange<BulkTarget>(bulkRowOperation(target, row), bulkRowDraft(target, row, `draft-${timestamp}-${row.id}`, timestamp));
+};
+
+const formatDate = (val: string) => {
+  const clean = val.replace(/\D/g, '');
+  let res = clean.slice(0, 2);
+  if (clean.length >= 3) res += `/${clean.slice(2, 4)}`;
+  if (clean.length >= 5) res += `/${clean.slice(4, 8)}`;
+  return res;
+};
+
+/**
+ * Bulk recharge/extend (/bulk-update).
+ * Records arrive from Dashboard multi-select (`state.targets`), from the scanner
+ * (`state.scanned`, or a whole batch scan with `state.plin`) or are added by ID. A before/after preview is shown for either a fixed
+ * expiry or "+1 year and round" per row; rows are then written one by one and each
+ * reports its own success or failure.
+ */
+const BulkUpdate: React.FC = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const returnQuery = location.state?.returnQuery;
+
+  const [targets, setTargets] = useState<BulkTarget[]>(() => location.state?.targets || []);
+  const [refInput, setRefInput] = useState('');
+  const [addError, setAddError] = useState('');
+  const [isAdding, setIsAdding] = useState(false);
+
+  const [modeKind, setModeKind] = useState<BulkExpiryMode['kind']>('addYear');
+  const [expiryDate, setExpiryDate] = useState('');
+  const [plinFilter, setPlinFilter] = useState<string>(() => location.state?.plin || '');
+
+  const [results, setResults] = useState<Record<string, RowResult>>({});
+  const [isApplying, setIsApplying] = useState(false);
+  const [statusMessage, setStatusMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null);
+  const [showConfirm, setShowConfirm] = useState(false);
+
+  const inputClasses = "w-full px-3 py-2 border rounded-md shadow-inner font-serif text-sm border-gray-300 focus:border-brand-primary focus:ring-1 focus:ring-brand-primary focus:outline-none bg-white text-gray-900 dark:bg-gray-900 dark:text-white dark:border-gray-600";
+
+  const addTarget = async (type: EntityType, id: string) => {
+    setAddError('');
+    if (targets.some(t => targetKey(t) === `${type}:${id}`)) {
+      setAddError(`${TYPE_LABELS[type]} ${id} is already selected.`);
+      return;
+    }
+    setIsAdding(true);
+    try {
+      const result = await fetchTarget(type, id);
+      if (result.success && result.data) {
+        const found = result.data;
+        setTargets(prev => prev.some(t => targetKey(t) === targetKey(found)) ? prev : [...prev, found]);
+        setRefInput('');
+      } else {
+        setAddError(`${TYPE_LABELS[type]} ${id} not found.`);
+      }
+    } catch (err) {
+      setAddError('Error');
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  // Coming back from the scanner with a freshly scanned code
+  useEffect(() => {
+    const scanned = location.state?.scanned;
+    if (scanned) addTarget(scanned.type, scanned.id);
+  }, []);
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    const ref = parseTargetRef(refInput);
+    if (!ref) {
+      setAddError('Enter e.g. ITIN 1234, COIN 8001 or POIN 5001.');
+      return;
+    }
+    addTarget(ref.type, ref.id);
+  };
+
+  const changeSettings = (apply: () => void) => {
+    apply();
+    setResults({});
+    setStatusMessage(null);
+  };
+
+  const removeTarget = (key: string) => {
+    setTargets(prev => prev.filter(t => targetKey(t) !== key));
+    setResults(prev => {
+      const { [key]: _removed, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  const dateError = modeKind === 'set' && expiryDate ? validateExpiryDate(expiryDate) : null;
+
+  // No preview until a fixed date is complete and valid
+  const preview = useMemo(() => {
+    if (modeKind === 'set' && (!expiryDate || validateExpiryDate(expiryDate))) return [];
+    const mode: BulkExpiryMode = modeKind === 'set' ? { kind: 'set', expiryDate } : { kind: 'addYear' };
+    return planBulkUpdate(targets, mode, plinFilter.trim());
+  }, [targets, modeKind, expiryDate, plinFilter]);
+  // Rows already written successfully are not sent again until the settings change
+  const pendingRows = preview.filter(row => !row.skipped && !results[`${row.type}:${row.id}`]?.success);
+  const changeCount = pendingRows.reduce((sum, row) => sum + row.changes.length, 0);
+
+  const executeBulk = async () => {
+    setIsApplying(true);
+    setStatusMessage(null);
+    const nextResults: Record<string, RowResult> = {};
+    const updated = new Map<string, BulkTarget>();
+
+    for (const row of pendingRows) {
+      const key = `${row.type}:${row.id}`;
+      const target = targets.find(t => targetKey(t) === key);
+      if (!target) continue;
+      try {
+        const result = await commitRow(target, row);
+        if (result.queued) {
+          nextResults[key] = { success: true, queued: true, text: 'Saved offline, will sync', row };
+        } else if (result.success) {
+          nextResults[key] = { success: true, text: 'Updated', row };
+          if (result.data) updated.set(key, result.data);
+        } else if (result.status === 409) {
+          nextResults[key] = { success: false, text: 'Changed by someone else. Remove and re-add to retry.', row };
+        } else {
+          nextResults[key] = { success: false, text: result.error || 'Failed.', row };
+        }
+      } catch (err) {
+        nextResults[key] = { success: false, text: 'Error', row };
+      }
+      setResults(prev => ({ ...prev, [key]: nextResults[key] }));
+    }
+
+    setTargets(prev => prev.map(t => updated.get(targetKey(t)) || t));
+    const failed = Object.values(nextResults).filter(r => !r.success).length;
+    const queued = Object.values(nextResults).filter(r => r.queued).length;
+    const succeeded = Object.values(nextResults).length - failed - queued;
+    const parts = [`${succeeded} updated`];
+    if (queued > 0) parts.push(`${queued} queued for sync`);
+    if (failed > 0) parts.push(`${failed} failed`);
+    setStatusMessage({ type: failed > 0 ? 'error' : 'success', text: `${parts.join(', ')}.` });
+    setIsApplying(false);
+  };
+
+  const handleApply = () => {
+    if (pendingRows.length === 0) return;
+    setShowConfirm(true);
+  };
+
+  const goToScanner = () => {
+    navigate('/scan', { state: { collectFor: '/bulk-update', targets, returnQuery } });
+  };
+
+  return (
+    <div className="mx-auto mt-2 px-2 w-full landscape:w-9/12">
+      <ConfirmModal
+         isOpen={showConfirm}
+         onClose={() => setShowConfirm(false)}
+         title="Apply Bulk Update?"
+         message={`You are about to update ${changeCount} expiry date(s) on ${pendingRows.length} record(s). Do you want to proceed?`}
+         confirmLabel="Update"
+         confirmVariant="primary"
+         onConfirm={() => {
+           setShowConfirm(false);
+           executeBulk();
+         }}
+      />
+
+      <div className="mb-3 flex flex-wrap items-center justify-between gap-2">
+         <div className="flex gap-2">
+            {returnQuery && (
+              <Button variant="secondary" type="button" onClick={() => navigate(`/?${returnQuery}`)} title="Back">
+                <ArrowLeft size={16} />
+              </Button>
+            )}
+            <Button variant="secondary" type="button" onClick={() => navigate('/')} title="Dashboard">
+              <Home size={16} />
+            </Button>
+         </div>
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-panel border border-gray-300 dark:border-gray-600 overflow-hidden">
+        <div className="bg-gray-100 dark:bg-gray-700 px-4 py-2 border-b border-gray-300 dark:border-gray-600 flex justify-between items-center gap-2">
+          <h2 className="text-lg font-display font-bold text-gray-800 dark:text-gray-100 truncate">Bulk Recharge / Extend</h2>
+          <span className="text-xs text-gray-500 dark:text-gray-400 shrink-0">{targets.length} Selected</span>
+        </div>
+
+        <div className="p-4 space-y-4">
+          {statusMessage && (
+            <div className={`p-2 rounded border text-sm font-serif ${
+              statusMessage.type === 'success'
+                ? 'bg-green-50 border-green-300 text-green-800 dark:bg-green-900/30 dark:border-green-800 dark:text-green-300'
+                : 'bg-red-50 border-red-300 text-red-800 dark:bg-red-900/30 dark:border-red-800 dark:text-red-300'
+            }`}>
+              {statusMessage.text}
+            </div>
+          )}
+
+          {/* Selection */}
+          <form onSubmit={handleAdd} className="flex gap-2 items-end">
+            <div className="flex-1 min-w-0">
+              <Input
+                label="Add by ID"
+                value={refInput}
+                onChange={(e) => setRefInput(e.target.value)}
+                placeholder="ITIN 1234 / COIN 8001 / POIN 5001"
+                error={addError}
+                className="mb-0"
+              />
+            </div>
+            <div className="flex gap-2 mb-4">
+              <Button type="submit" isLoading={isAdding} disabled={!refInput.trim()} title="Add">
+                <Plus size={16} />
+              </Button>
+              <Button type="button" variant="secondary" onClick={goToScanner} title="Scan to add">
+                <QrCode size={16} />
+              </Button>
+            </div>
+          </form>
+
+          {/* Expiry choice */}
+          <div className="p-4 rounded-lg bg-gray-50 dark:bg-gray-700/30 border border-gray-200 dark:border-gray-700 space-y-3">
+            <div className="flex flex-wrap gap-4 text-sm font-serif text-gray-800 dark:text-gray-200">
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input type="radio" name="bulk-mode" checked={modeKind === 'addYear'} onChange={() => changeSettings(() => setModeKind('addYear'))} />
+                +1 Year (Round to 1st)
+              </label>
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input type="radio" name="bulk-mode" checked={modeKind === 'set'} onChange={() => changeSettings(() => setModeKind('set'))} />
+                New expiry date
+              </label>
+            </div>
+            {modeKind === 'set' && (
+              <div>
+                <input
+                  type="text"
+                  className={inputClasses}
+                  value={expiryDate}
+                  onChange={(e) => changeSettings(() => setExpiryDate(e.target.value.length < expiryDate.length ? e.target.value : formatDate(e.target.value)))}
+                  placeholder="dd/mm/yyyy"
+                  aria-label="New expiry date"
+                />
+                {dateError && <p className="mt-1 text-xs text-red-600 dark:text-red-400 font-serif">{dateError}</p>}
+              </div>
+            )}
+            <input
+              type="text"
+              className={inputClasses}
+              value={plinFilter}
+              onChange={(e) => changeSettings(() => setPlinFilter(e.target.value))}
+              placeholder="Only for PLIN (optional, e.g. 1234#12)"
+              aria-label="Only for PLIN"
+            />
+          </div>
+
+          {/* Preview */}
+          {targets.length === 0 ? (
+            <p className="p-6 text-center text-sm text-gray-500 dark:text-gray-400 font-serif italic">
+              No objects selected. Select results on the Dashboard, scan codes or add IDs above.
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs font-serif border-collapse">
+                <thead>
+                  <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                    <th className="py-1 pr-2">Object</th>
+                    <th className="py-1 pr-2">PLIN</th>
+                    <th className="py-1 pr-2">Current</th>
+                    <th className="py-1 pr-2">New</th>
+                    <th className="py-1 pr-2">Result</th>
+                    <th className="py-1"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {targets.map(target => {
+                    const key = targetKey(target);
+                    const result = results[key];
+                    // Written rows keep showing what was sent
+                    const row = result ? result.row : preview.find(r => `${r.type}:${r.id}` === key);
+                    const changes = row && !row.skipped ? row.changes : [];
+                    const span = Math.max(changes.length, 1);
+                    const label = `${TYPE_LABELS[getTargetType(target)]} ${getTargetId(target)}`;
+
+                    const objectCell = (
+                      <td rowSpan={span} className="py-1 pr-2 align-top">
+                        <div className="font-bold text-gray-900 dark:text-white">{target.name}</div>
+                        <div className="font-mono text-gray-400">{label}</div>
+                      </td>
+                    );
+                    const resultCell = (
+                      <td rowSpan={span} className="py-1 pr-2 align-top">
+                        {result ? (
+                          <span className={`flex items-center gap-1 ${result.success ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                            {result.success ? <CheckCircle2 size={12} /> : <XCircle size={12} />} {result.text}
+                          </span>
+                        ) : row?.skipped ? (
+                          <span className="italic text-gray-400">{row.skipped}</span>
+                        ) : null}
+                      </td>
+                    );
+                    const removeCell = (
+                      <td rowSpan={span} className="py-1 align-top">
+                        <button type="button" onClick={() => removeTarget(key)} className="text-gray-400 hover:text-red-500" title={`Remove ${label}`}>
+                          <X size={14} />
+                        </button>
+                      </td>
+                    );
+
+                    if (changes.length === 0) {
+                      return (
+                        <tr key={key} className="border-b border-gray-100 dark:border-gray-700 text-gray-800 dark:text-gray-200">
+                          {objectCell}
+                          <td className="py-1 pr-2" colSpan={3}></td>
+                          {resultCell}
+                          {removeCell}
+                        </tr>
+                      );
+                    }
+                    return changes.map((change, i) => (
+                      <tr key={`${key}-${change.plin}`} className={`text-gray-800 dark:text-gray-200 ${i === changes.length - 1 ? 'border-b border-gray-100 dark:border-gray-700' : ''}`}>
+                        {i === 0 && objectCell}
+                        <td className="py-1 pr-2 font-mono">{change.plin}</td>
+                        <td className="py-1 pr-2 font-mono">{change.before}</td>
+                        <td className="py-1 pr-2 font-mono font-bold">{change.after}</td>
+                        {i === 0 && resultCell}
+                        {i === 0 && removeCell}
+                      </tr>
+                    ));
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div className="pt-4 border-t border-gray-200 dark:border-gray-700 flex justify-end gap-2">
+            <Button type="button" onClick={handleApply} isLoading={isApplying} disabled={pendingRows.length === 0}>
+              <Save size={16} className="mr-2" /> Update {pendingRows.length} Object(s)
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BulkUpdate;
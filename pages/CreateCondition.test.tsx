@@ -207,7 +207,7 @@ describe('CreateCondition Page', () => {
     });
 
     expect(
-        screen.getByText('Condition Created! COIN: 7777'),
+        await screen.findByText('Condition Created! COIN: 7777'),
     ).toBeTruthy();
   });
 
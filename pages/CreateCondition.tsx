@@ -1,11 +1,19 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useContext } from 'react';
 import { useNavigate, useLocation } from 'react-router-dom';
 import Input from '../components/ui/Input';
 import Button from '../components/ui/Button';
 import ConfirmModal from '../components/ui/ConfirmModal';
-import { createCondition, getCharacterName } from '../services/api';
+import HistoryPanel from '../components/HistoryPanel';
+import { AuthContext } from '../App';
+import { getCharacterName } from '../services/api';
+import { hasPermission } from '../services/permissions';
 import { saveStoredChange, deleteStoredChange } from '../services/offlineStorage';
-import { Home, FilePlus, ArrowLeft, Save, CalendarClock, FileText, ChevronDown, X, Check } from 'lucide-react';
+import { registerUnsavedForm } from '../services/unsavedForms';
+import { ConditionCreateData } from '../services/draftSchema';
+import { submitChange, QUEUED_MESSAGE } from '../services/outbox';
+import { takeReservedId, topUpReservedIds } from '../services/idReservations';
+import { labelFor, printLabels } from '../services/labels';
+import { Home, FilePlus, ArrowLeft, Save, CalendarClock, FileText, ChevronDown, X, Check, Printer } from 'lucide-react';
 import { Condition, Assignment } from '../types';
 
 const UserPlusMinus = ({ size = 24, className = "" }: { size?: number | string, className?: string }) => (
@@ -32,6 +40,7 @@ const UserPlusMinus = ({ size = 24, className = "" }: { size?: number | string,
 const CreateCondition: React.FC = () => {
   const navigate = useNavigate();
   const location = useLocation();
+  const { user } = useContext(AuthContext);
   
   const [isLoading, setIsLoading] = useState(false);
   const [isReadOnly, setIsReadOnly] = useState(false);
@@ -44,6 +53,8 @@ const CreateCondition: React.FC = () => {
   const [pendingAction, setPendingAction] = useState<(() => void) | null>(null);
   const [draftId, setDraftId] = useState<string | null>(() => location.state?.draftId || null);
   const [draftTimestamp, setDraftTimestamp] = useState<number | null>(() => location.state?.draftTimestamp || null);
+  // COIN reserved for this draft, so it can be created later without colliding
+  const [reservedId, setReservedId] = useState<string | null>(null);
   
   // Dropdown Logic for View Mode
   const [originalAssignments, setOriginalAssignments] = useState<Assignment[]>([]);
@@ -90,6 +101,11 @@ const CreateCondition: React.FC = () => {
     return () => window.removeEventListener('beforeunload', handleBeforeUnload);
   }, [isDirty]);
 
+  // Kept as a draft if the session expires before the form is saved
+  useEffect(() => {
+    if (isDirty) return registerUnsavedForm(handleSaveDraft);
+  });
+
   // Click outside to close dropdown
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -101,6 +117,11 @@ const CreateCondition: React.FC = () => {
     return () => document.removeEventListener('mousedown', handleClickOutside);
   }, []);
 
+  // Keep a few COINs in reserve so drafts saved offline can carry one
+  useEffect(() => {
+    topUpReservedIds('condition');
+  }, []);
+
   const confirmAction = (action: () => void) => {
     if (isDirty) {
       setPendingAction(() => action);
@@ -153,12 +174,14 @@ const CreateCondition: React.FC = () => {
           setIsViewMode(true);
           setStatusMessage(null);
         } else if (location.state.initialData) {
+            const { coin: savedCoin, ...draftFields } = location.state.initialData as ConditionCreateData;
             const data = {
                 ...formData,
-                ...location.state.initialData
+                ...draftFields
             };
             setFormData(data);
             setInitialState(data);
+            setReservedId(savedCoin || null);
             if (location.state.draftId) {
                 setDraftId(location.state.draftId);
             }
@@ -189,9 +212,16 @@ const CreateCondition: React.FC = () => {
     setIsLoading(false);
     setDraftId(null);
     setDraftTimestamp(null);
+    setReservedId(null);
     navigate('/create-condition', { replace: true, state: {} });
   };
 
+  const handlePrintLabel = async () => {
+    const record = { coin: viewCoin, name: formData.name, description: formData.description, assignments: originalAssignments };
+    const error = await printLabels([labelFor(record)]);
+    if (error) setStatusMessage({ type: 'error', text: error });
+  };
+
   const handleNavigateWithState = (path: string) => {
     const assignments = formData.owner.split(',').filter(s=>s.trim()).map(s => ({
         plin: s.trim(),
@@ -256,20 +286,22 @@ const CreateCondition: React.FC = () => {
     setFormData(prev => ({ ...prev, [name]: newValue }));
   };
 
-  const handleSaveDraft = () => {
+  const handleSaveDraft = async () => {
     const id = draftId || `draft-${Date.now()}`;
     const now = Date.now();
-    saveStoredChange({
+    const draftCoin = reservedId || takeReservedId('condition');
+    await saveStoredChange({
       id: id,
       type: 'condition',
       action: 'create',
-      data: formData,
+      data: draftCoin ? { ...formData, coin: draftCoin } : formData,
       timestamp: now,
       title: formData.name || 'Untitled Condition',
       subtitle: 'Draft Condition'
     });
     setDraftId(id);
     setDraftTimestamp(now);
+    setReservedId(draftCoin);
     setInitialState(formData); 
     setStatusMessage({ type: 'success', text: 'Draft saved successfully.' });
     setTimeout(() => {
@@ -302,17 +334,38 @@ const CreateCondition: React.FC = () => {
       const expiryToSave = formData.expiryDate.trim() === '' ? 'until death' : formData.expiryDate;
       const assignments = formData.owner.trim() ? [{ plin: formData.owner, expiryDate: expiryToSave }] : [];
       
-      const result = await createCondition({
-        name: formData.name,
-        description: formData.description,
-        assignments: assignments,
-        remarks: formData.remarks,
-        csRemarks: formData.csRemarks
+      const result = await submitChange<Condition>({
+        type: 'condition',
+        changes: {
+          name: formData.name,
+          description: formData.description,
+          assignments: assignments,
+          remarks: formData.remarks,
+          csRemarks: formData.csRemarks,
+          ...(reservedId ? { coin: reservedId } : {})
+        }
+      }, {
+        id: draftId || `draft-${Date.now()}`,
+        type: 'condition',
+        action: 'create',
+        data: reservedId ? { ...formData, coin: reservedId } : formData,
+        timestamp: Date.now(),
+        title: formData.name || 'Untitled Condition',
+        subtitle: 'Draft Condition'
       });
 
-      if (result.success && result.data) {
+      if (result.queued) {
+        if (draftId) {
+            await deleteStoredChange(draftId);
+            setDraftId(null);
+            setDraftTimestamp(null);
+        }
+        setStatusMessage({ type: 'success', text: QUEUED_MESSAGE });
+        setIsReadOnly(true);
+        setInitialState(formData);
+      } else if (result.success && result.data) {
         if (draftId) {
-            deleteStoredChange(draftId);
+            await deleteStoredChange(draftId);
             setDraftId(null);
             setDraftTimestamp(null);
         }
@@ -486,17 +539,28 @@ const CreateCondition: React.FC = () => {
             </Button>
          </div>
          <div className="flex gap-2">
-            <Button variant="secondary" type="button" onClick={() => confirmAction(handleReset)} title="Create New">
-                 <FilePlus size={16} />
-            </Button>
+            {hasPermission(user, 'create-records') && (
+              <Button variant="secondary" type="button" onClick={() => confirmAction(handleReset)} title="Create New">
+                   <FilePlus size={16} />
+              </Button>
+            )}
             {isViewMode && (
               <>
-                <Button variant="secondary" type="button" onClick={() => handleNavigateWithState('/extend-condition')} title="Extend Condition">
-                  <CalendarClock size={16} />
-                </Button>
-                <Button variant="secondary" type="button" onClick={() => handleNavigateWithState('/assign-condition')} title="Assign Condition">
-                  <UserPlusMinus size={16} />
-                </Button>
+                {hasPermission(user, 'update-records') && (
+                  <>
+                    <Button variant="secondary" type="button" onClick={() => handleNavigateWithState('/extend-condition')} title="Extend Condition">
+                      <CalendarClock size={16} />
+                    </Button>
+                    <Button variant="secondary" type="button" onClick={() => handleNavigateWithState('/assign-condition')} title="Assign Condition">
+                      <UserPlusMinus size={16} />
+                    </Button>
+                  </>
+                )}
+                {hasPermission(user, 'print-labels') && (
+                  <Button variant="secondary" type="button" onClick={handlePrintLabel} title="Print label">
+                    <Printer size={16} />
+                  </Button>
+                )}
               </>
             )}
          </div>
@@ -545,7 +609,9 @@ const CreateCondition: React.FC = () => {
             ) : expiryInput}
 
             <Input label="Remarks" name="remarks" value={formData.remarks} onChange={handleChange} readOnly={isReadOnly} placeholder="Remarks" multiline rows={4} />
-            <Input label="CS Remarks" name="csRemarks" value={formData.csRemarks} onChange={handleChange} readOnly={isReadOnly} placeholder="CS Remarks" multiline rows={4} />
+            {hasPermission(user, 'cs-remarks') && (
+              <Input label="CS Remarks" name="csRemarks" value={formData.csRemarks} onChange={handleChange} readOnly={isReadOnly} placeholder="CS Remarks" multiline rows={4} />
+            )}
 
             {!isReadOnly && !isViewMode && (
               <div className="pt-4 flex justify-end gap-2 border-t border-gray-200 dark:border-gray-700 mt-2">
@@ -559,6 +625,8 @@ const CreateCondition: React.FC = () => {
               </div>
             )}
           </form>
+
+          {isViewMode && viewCoin && hasPermission(user, 'view-all-records') && <HistoryPanel type="condition" id={viewCoin} />}
         </div>
       </div>
     </div>
@@ -5,7 +5,9 @@ import CreateItem from './CreateItem';
 import * as api from '../services/api';
 // @ts-ignore
 import * as offlineStorage from '../services/offlineStorage';
-import { renderWithRouter } from '../testUtils';
+// @ts-ignore
+import * as idReservations from '../services/idReservations';
+import { renderWithRouter, TEST_USER } from '../testUtils';
 
 jest.mock('../services/api', () => ({
   createItem: jest.fn(),
@@ -20,6 +22,11 @@ jest.mock('../services/offlineStorage', () => ({
   deleteStoredChange: jest.fn(),
 }));
 
+jest.mock('../services/idReservations', () => ({
+  takeReservedId: jest.fn(() => null),
+  topUpReservedIds: jest.fn(),
+}));
+
 const mockNavigate = jest.fn();
 jest.mock('react-router-dom', () => ({
   ...jest.requireActual('react-router-dom') as any,
@@ -28,6 +35,7 @@ jest.mock('react-router-dom', () => ({
 
 const apiMock = api as jest.Mocked<typeof api>;
 const offlineMock = offlineStorage as jest.Mocked<typeof offlineStorage>;
+const reservationsMock = idReservations as jest.Mocked<typeof idReservations>;
 
 describe('CreateItem Page', () => {
   beforeEach(() => {
@@ -136,6 +144,50 @@ describe('CreateItem Page', () => {
     );
   });
 
+  test('shows players their own item read-only, without actions, history or CS remarks', () => {
+    const itemData = { itin: '9999', name: 'View Item', owner: '1234#12', expiryDate: '01/01/2030', description: 'Desc' };
+    const player = { ...TEST_USER, role: 'player' as const, plins: ['1234#12'] };
+
+    const { getByText, queryByTitle, queryByText } = renderWithRouter(
+        <CreateItem />, '/create-item', { mode: 'view', item: itemData }, player,
+    );
+
+    expect(getByText('Item Properties')).toBeTruthy();
+    expect(queryByTitle('New Item')).toBeNull();
+    expect(queryByTitle('Recharge')).toBeNull();
+    expect(queryByTitle('Assign')).toBeNull();
+    expect(queryByTitle('Print label')).toBeNull();
+    expect(queryByText('History')).toBeNull();
+    expect(queryByText(/CS Remarks/)).toBeNull();
+    expect(getByText('Remarks:')).toBeTruthy();
+  });
+
+  test('prints a QR label from View Mode', async () => {
+    const printWindow = { document: { open: jest.fn(), write: jest.fn(), close: jest.fn() }, focus: jest.fn(), print: jest.fn() };
+    const openSpy = jest.spyOn(window, 'open').mockReturnValue(printWindow as unknown as Window);
+    const itemData = {
+      itin: '9999',
+      name: 'View Item',
+      owner: '1234#12',
+      expiryDate: '01/01/2030',
+      description: 'Desc',
+    };
+
+    const { getByTitle, findByText } = renderWithRouter(<CreateItem />, '/create-item', { mode: 'view', item: itemData });
+
+    fireEvent.click(getByTitle('Print label'));
+    await waitFor(() => expect(printWindow.print).toHaveBeenCalled());
+    const html = printWindow.document.write.mock.calls[0][0] as string;
+    expect(html).toContain('ITIN 9999');
+    expect(html).toContain('Exp. 01/01/2030');
+    expect(html).toContain('<svg');
+
+    openSpy.mockReturnValue(null);
+    fireEvent.click(getByTitle('Print label'));
+    expect(await findByText('Pop-up blocked. Allow pop-ups to print the label.')).toBeTruthy();
+    openSpy.mockRestore();
+  });
+
   test('handles Back button logic with returnTo + state when not dirty', () => {
     const { getByTitle } = renderWithRouter(
         <CreateItem />,
@@ -366,4 +418,49 @@ describe('CreateItem Page', () => {
     const nameInput = getByPlaceholderText('Item Name') as HTMLInputElement;
     expect(nameInput.value).toBe('');
   });
+
+  test('tops up the reserved ITIN pool on load', () => {
+    renderWithRouter(<CreateItem />, '/create-item');
+    expect(reservationsMock.topUpReservedIds).toHaveBeenCalledWith('item');
+  });
+
+  test('attaches a reserved ITIN when saving a draft', () => {
+    reservationsMock.takeReservedId.mockReturnValueOnce('1026');
+
+    const { getByText, getByPlaceholderText } = renderWithRouter(<CreateItem />, '/create-item');
+    fireEvent.change(getByPlaceholderText('Item Name'), { target: { value: 'Offline Item' } });
+    fireEvent.click(getByText('Save Draft'));
+
+    expect(reservationsMock.takeReservedId).toHaveBeenCalledWith('item');
+    expect(offlineMock.saveStoredChange).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ name: 'Offline Item', itin: '1026' }),
+        }),
+    );
+  });
+
+  test('creates the item with the ITIN reserved by its draft', async () => {
+    apiMock.createItem.mockResolvedValue({ success: true, data: { itin: '1026' } as any });
+    const draftData = {
+      itin: '1026',
+      name: 'Offline Item',
+      description: 'Made in the field',
+      owner: '1234#12',
+      expiryDate: '01/01/2030',
+      remarks: '',
+      csRemarks: '',
+    };
+
+    const { container, findByText } = renderWithRouter(<CreateItem />, '/create-item', {
+      initialData: draftData,
+      draftId: 'draft-offline',
+    });
+    fireEvent.submit(container.querySelector('form')!);
+
+    await waitFor(() => {
+      expect(apiMock.createItem).toHaveBeenCalledWith({ ...draftData });
+    });
+    expect(await findByText(/Item Created! ITIN: 1026/i)).toBeTruthy();
+    expect(reservationsMock.takeReservedId).not.toHaveBeenCalled();
+  });
 });
@@ -1,11 +1,19 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useContext } from 'react';
 import { useNavigate, useLocation } from 'react-router-dom';
 import Input from '../components/ui/Input';
 import Button from '../components/ui/Button';
 import ConfirmModal from '../components/ui/ConfirmModal';
-import { createItem, getCharacterName } from '../services/api';
+import HistoryPanel from '../components/HistoryPanel';
+import { AuthContext } from '../App';
+import { getCharacterName } from '../services/api';
+import { hasPermission } from '../services/permissions';
 import { saveStoredChange, deleteStoredChange } from '../services/offlineStorage';
-import { Home, FilePlus, BatteryCharging, ArrowLeft, Save, FileText } from 'lucide-react';
+import { registerUnsavedForm } from '../services/unsavedForms';
+import { ItemCreateData } from '../services/draftSchema';
+import { submitChange, QUEUED_MESSAGE } from '../services/outbox';
+import { takeReservedId, topUpReservedIds } from '../services/idReservations';
+import { labelFor, printLabels } from '../services/labels';
+import { Home, FilePlus, BatteryCharging, ArrowLeft, Save, FileText, Printer } from 'lucide-react';
 import { Item } from '../types';
 
 const UserPlusMinus = ({ size = 24, className = "" }: { size?: number | string, className?: string }) => (
@@ -32,6 +40,7 @@ const UserPlusMinus = ({ size = 24, className = "" }: { size?: number | string,
 const CreateItem: React.FC = () => {
   const navigate = useNavigate();
   const location = useLocation();
+  const { user } = useContext(AuthContext);
   
   const [isLoading, setIsLoading] = useState(false);
   const [isReadOnly, setIsReadOnly] = useState(false);
@@ -44,6 +53,8 @@ const CreateItem: React.FC = () => {
   const [pendingAction, setPendingAction] = useState<(() => void) | null>(null);
   const [draftId, setDraftId] = useState<string | null>(() => location.state?.draftId || null);
   const [draftTimestamp, setDraftTimestamp] = useState<number | null>(() => location.state?.draftTimestamp || null);
+  // ITIN reserved for this draft, so it can be created later without colliding
+  const [reservedId, setReservedId] = useState<string | null>(null);
   
   const returnQuery = location.state?.returnQuery;
   const returnTo = location.state?.returnTo;
@@ -83,6 +94,16 @@ const CreateItem: React.FC = () => {
     return () => window.removeEventListener('beforeunload', handleBeforeUnload);
   }, [isDirty]);
 
+  // Kept as a draft if the session expires before the form is saved
+  useEffect(() => {
+    if (isDirty) return registerUnsavedForm(handleSaveDraft);
+  });
+
+  // Keep a few ITINs in reserve so drafts saved offline can carry one
+  useEffect(() => {
+    topUpReservedIds('item');
+  }, []);
+
   const confirmAction = (action: () => void) => {
     if (isDirty) {
       setPendingAction(() => action);
@@ -117,12 +138,14 @@ const CreateItem: React.FC = () => {
           setIsViewMode(true);
           setStatusMessage(null);
         } else if (location.state.initialData) {
+            const { itin: savedItin, ...draftFields } = location.state.initialData as ItemCreateData;
             const data = {
                 ...formData, 
-                ...location.state.initialData
+                ...draftFields
             };
             setFormData(data);
             setInitialState(data);
+            setReservedId(savedItin || null);
             if (location.state.draftId) {
                 setDraftId(location.state.draftId);
             }
@@ -151,6 +174,7 @@ const CreateItem: React.FC = () => {
     setIsLoading(false);
     setDraftId(null);
     setDraftTimestamp(null);
+    setReservedId(null);
     navigate('/create-item', { replace: true, state: {} });
   };
 
@@ -172,6 +196,12 @@ const CreateItem: React.FC = () => {
     });
   };
 
+  const handlePrintLabel = async () => {
+    const item = { itin: viewItin, name: formData.name, description: formData.description, owner: formData.owner, expiryDate: formData.expiryDate };
+    const error = await printLabels([labelFor(item)]);
+    if (error) setStatusMessage({ type: 'error', text: error });
+  };
+
   const formatPLIN = (val: string) => {
     const clean = val.replace(/[^0-9#]/g, '');
     if (clean.includes('#')) {
@@ -227,20 +257,22 @@ const CreateItem: React.FC = () => {
     setFormData(prev => ({ ...prev, [name]: newValue }));
   };
 
-  const handleSaveDraft = () => {
+  const handleSaveDraft = async () => {
     const id = draftId || `draft-${Date.now()}`;
     const now = Date.now();
-    saveStoredChange({
+    const draftItin = reservedId || takeReservedId('item');
+    await saveStoredChange({
       id: id,
       type: 'item',
       action: 'create',
-      data: formData,
+      data: draftItin ? { ...formData, itin: draftItin } : formData,
       timestamp: now,
       title: formData.name || 'Untitled Item',
       subtitle: 'Draft Item'
     });
     setDraftId(id);
     setDraftTimestamp(now);
+    setReservedId(draftItin);
     setInitialState(formData); 
     setStatusMessage({ type: 'success', text: 'Draft saved successfully.' });
     setTimeout(() => {
@@ -275,22 +307,34 @@ const CreateItem: React.FC = () => {
     }
     setIsLoading(true);
     try {
-      const result = await createItem({
-        name: formData.name,
-        description: formData.description,
-        owner: formData.owner,
-        expiryDate: formData.expiryDate,
-        remarks: formData.remarks,
-        csRemarks: formData.csRemarks
+      const result = await submitChange<Item>({
+        type: 'item',
+        changes: {
+          name: formData.name,
+          description: formData.description,
+          owner: formData.owner,
+          expiryDate: formData.expiryDate,
+          remarks: formData.remarks,
+          csRemarks: formData.csRemarks,
+          ...(reservedId ? { itin: reservedId } : {})
+        }
+      }, {
+        id: draftId || `draft-${Date.now()}`,
+        type: 'item',
+        action: 'create',
+        data: reservedId ? { ...formData, itin: reservedId } : formData,
+        timestamp: Date.now(),
+        title: formData.name || 'Untitled Item',
+        subtitle: 'Draft Item'
       });
 
-      if (result.success) {
+      if (result.success || result.queued) {
         if (draftId) {
-            deleteStoredChange(draftId);
+            await deleteStoredChange(draftId);
             setDraftId(null);
             setDraftTimestamp(null);
         }
-        setStatusMessage({ type: 'success', text: `Item Created! ITIN: ${result.data?.itin}` });
+        setStatusMessage({ type: 'success', text: result.queued ? QUEUED_MESSAGE : `Item Created! ITIN: ${result.data?.itin}` });
         setIsReadOnly(true);
         setInitialState(formData);
       } else {
@@ -360,18 +404,29 @@ const CreateItem: React.FC = () => {
          </div>
 
          <div className="flex gap-2">
-            <Button variant="secondary" type="button" onClick={() => confirmAction(handleReset)} title="New Item">
-                 <FilePlus size={16} />
-            </Button>
+            {hasPermission(user, 'create-records') && (
+              <Button variant="secondary" type="button" onClick={() => confirmAction(handleReset)} title="New Item">
+                   <FilePlus size={16} />
+              </Button>
+            )}
 
             {isViewMode && (
               <>
-                <Button variant="secondary" type="button" onClick={() => handleNavigateWithState('/recharge-item')} title="Recharge">
-                  <BatteryCharging size={16} />
-                </Button>
-                <Button variant="secondary" type="button" onClick={() => handleNavigateWithState('/assign-item')} title="Assign">
-                  <UserPlusMinus size={16} />
-                </Button>
+                {hasPermission(user, 'update-records') && (
+                  <>
+                    <Button variant="secondary" type="button" onClick={() => handleNavigateWithState('/recharge-item')} title="Recharge">
+                      <BatteryCharging size={16} />
+                    </Button>
+                    <Button variant="secondary" type="button" onClick={() => handleNavigateWithState('/assign-item')} title="Assign">
+                      <UserPlusMinus size={16} />
+                    </Button>
+                  </>
+                )}
+                {hasPermission(user, 'print-labels') && (
+                  <Button variant="secondary" type="button" onClick={handlePrintLabel} title="Print label">
+                    <Printer size={16} />
+                  </Button>
+                )}
               </>
             )}
          </div>
@@ -453,16 +508,18 @@ const CreateItem: React.FC = () => {
               rows={4}
             />
 
-            <Input
-              label="CS Remarks"
-              name="csRemarks"
-              value={formData.csRemarks}
-              onChange={handleChange}
-              readOnly={isReadOnly}
-              placeholder="CS Remarks"
-              multiline
-              rows={4}
-            />
+            {hasPermission(user, 'cs-remarks') && (
+              <Input
+                label="CS Remarks"
+                name="csRemarks"
+                value={formData.csRemarks}
+                onChange={handleChange}
+                readOnly={isReadOnly}
+                placeholder="CS Remarks"
+                multiline
+                rows={4}
+              />
+            )}
 
             {!isReadOnly && !isViewMode && (
               <div className="pt-4 flex justify-end gap-2 border-t border-gray-200 dark:border-gray-700 mt-2">
@@ -477,6 +534,8 @@ const CreateItem: React.FC = () => {
               </div>
             )}
           </form>
+
+          {isViewMode && viewItin && hasPermission(user, 'view-all-records') && <HistoryPanel type="item" id={viewItin} />}
         </div>
       </div>
     </div>
@@ -6,6 +6,7 @@ import * as offlineStorage from '../services/offlineStorage';
 // @ts-ignore
 import * as api from '../services/api';
 import { renderWithRouter } from '../testUtils';
+import { saveUnsavedForms } from '../services/unsavedForms';
 
 jest.mock('../services/offlineStorage', () => ({
   saveNote: jest.fn(),
@@ -77,6 +78,40 @@ describe('CreateNote Page', () => {
     });
   });
 
+  test('starts a new note pre-linked to the given records', () => {
+    const { getByPlaceholderText, getByText } = renderWithRouter(
+        <CreateNote />,
+        '/create-note',
+        { title: 'Check-in 1001#01', linkedIds: ['PLIN:1001#01', 'ITIN:1234'] }
+    );
+
+    expect((getByPlaceholderText('Note Title') as HTMLInputElement).value).toBe('Check-in 1001#01');
+    fireEvent.click(getByText('Save Note'));
+
+    expect(offlineStorage.saveNote).toHaveBeenCalledWith(
+        expect.objectContaining({
+          id: expect.stringMatching(/^note-/),
+          title: 'Check-in 1001#01',
+          linkedIds: ['PLIN:1001#01', 'ITIN:1234'],
+        })
+    );
+  });
+
+  test('keeps an unsaved note when the session expires', async () => {
+    const { getByPlaceholderText } = renderWithRouter(<CreateNote />, '/create-note');
+    expect(await saveUnsavedForms()).toBe(0);
+
+    fireEvent.change(getByPlaceholderText('Write your note here...'), {
+      target: { value: 'Half written' },
+    });
+
+    expect(await saveUnsavedForms()).toBe(1);
+    expect(offlineStorage.saveNote).toHaveBeenCalledWith(
+        expect.objectContaining({ title: 'Untitled Note', content: 'Half written' })
+    );
+    await waitFor(() => expect(saveUnsavedForms()).resolves.toBe(0));
+  });
+
   test('deletes existing note after confirmation', async () => {
     const existingNote = {
       id: 'note-1',
@@ -104,7 +139,7 @@ describe('CreateNote Page', () => {
     fireEvent.click(getByText('Delete'));
 
     expect(offlineStorage.deleteNote).toHaveBeenCalledWith('note-1');
-    expect(mockNavigate).toHaveBeenCalledWith('/my-notes');
+    await waitFor(() => expect(mockNavigate).toHaveBeenCalledWith('/my-notes'));
   });
 
   test('detects link type and formats input', () => {
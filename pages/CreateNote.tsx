@@ -6,6 +6,7 @@ import Button from '../components/ui/Button';
 import ConfirmModal from '../components/ui/ConfirmModal';
 import { saveNote, deleteNote } from '../services/offlineStorage';
 import { searchItemByItin, searchConditionByCoin, searchPowerByPoin } from '../services/api';
+import { registerUnsavedForm } from '../services/unsavedForms';
 import { Note } from '../types';
 
 const CreateNote: React.FC = () => {
@@ -70,39 +71,53 @@ const CreateNote: React.FC = () => {
         setTimestamp(n.timestamp);
         setIsPinned(!!n.isPinned);
         setInitialState(JSON.stringify({ title: n.title, content: n.content, linkedIds: (n.linkedIds || []).sort(), isPinned: !!n.isPinned }));
+    } else if (location.state && location.state.linkedIds) {
+        // New note pre-linked to a set of records (e.g. from a batch scan); unsaved until the user saves it
+        setTitle(location.state.title || '');
+        setContent(location.state.content || '');
+        setLinkedIds(location.state.linkedIds);
+        setInitialState(JSON.stringify({ title: '', content: '', linkedIds: [], isPinned: false }));
     } else {
         setInitialState(JSON.stringify({ title: '', content: '', linkedIds: [], isPinned: false }));
     }
   }, [location.state]);
 
-  const handleSave = () => {
-      if (!title.trim()) {
-          setStatusMessage({ type: 'error', text: 'Title is required.' });
-          return;
-      }
-
+  const keepNote = async (noteTitle: string) => {
       const id = noteId || `note-${Date.now()}`;
       const noteToSave: Note = {
           id,
-          title,
+          title: noteTitle,
           content,
           linkedIds,
           timestamp: Date.now(),
           isPinned
       };
 
-      saveNote(noteToSave);
+      await saveNote(noteToSave);
       setNoteId(id);
       setTimestamp(noteToSave.timestamp);
       setInitialState(getCurrentStateString());
-      
+  };
+
+  const handleSave = async () => {
+      if (!title.trim()) {
+          setStatusMessage({ type: 'error', text: 'Title is required.' });
+          return;
+      }
+
+      await keepNote(title);
       setStatusMessage({ type: 'success', text: 'Note Saved!' });
       setTimeout(() => setStatusMessage(null), 2000);
   };
 
-  const handleDelete = () => {
+  // Kept (even without a title) if the session expires before the note is saved
+  useEffect(() => {
+    if (isDirty) return registerUnsavedForm(() => keepNote(title.trim() || 'Untitled Note'));
+  });
+
+  const handleDelete = async () => {
       if (noteId) {
-          deleteNote(noteId);
+          await deleteNote(noteId);
           navigate('/my-notes');
       }
   };
@@ -1,11 +1,19 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useContext } from 'react';
 import { useNavigate, useLocation } from 'react-router-dom';
 import Input from '../components/ui/Input';
 import Button from '../components/ui/Button';
 import ConfirmModal from '../components/ui/ConfirmModal';
-import { createPower, getCharacterName } from '../services/api';
+import HistoryPanel from '../components/HistoryPanel';
+import { AuthContext } from '../App';
+import { getCharacterName } from '../services/api';
+import { hasPermission } from '../services/permissions';
 import { saveStoredChange, deleteStoredChange } from '../services/offlineStorage';
-import { Home, FilePlus, ArrowLeft, Save, CalendarClock, FileText, ChevronDown, X, Check } from 'lucide-react';
+import { registerUnsavedForm } from '../services/unsavedForms';
+import { PowerCreateData } from '../services/draftSchema';
+import { submitChange, QUEUED_MESSAGE } from '../services/outbox';
+import { takeReservedId, topUpReservedIds } from '../services/idReservations';
+import { labelFor, printLabels } from '../services/labels';
+import { Home, FilePlus, ArrowLeft, Save, CalendarClock, FileText, ChevronDown, X, Check, Printer } from 'lucide-react';
 import { Power, Assignment } from '../types';
 
 const UserPlusMinus = ({ size = 24, className = "" }: { size?: number | string, className?: string }) => (
@@ -32,6 +40,7 @@ const UserPlusMinus = ({ size = 24, className = "" }: { size?: number | string,
 const CreatePower: React.FC = () => {
   const navigate = useNavigate();
   const location = useLocation();
+  const { user } = useContext(AuthContext);
   
   const [isLoading, setIsLoading] = useState(false);
   const [isReadOnly, setIsReadOnly] = useState(false);
@@ -44,6 +53,8 @@ const CreatePower: React.FC = () => {
   const [pendingAction, setPendingAction] = useState<(() => void) | null>(null);
   const [draftId, setDraftId] = useState<string | null>(() => location.state?.draftId || null);
   const [draftTimestamp, setDraftTimestamp] = useState<number | null>(() => location.state?.draftTimestamp || null);
+  // POIN reserved for this draft, so it can be created later without colliding
+  const [reservedId, setReservedId] = useState<string | null>(null);
   
   // Dropdown Logic for View Mode
   const [originalAssignments, setOriginalAssignments] = useState<Assignment[]>([]);
@@ -90,6 +101,11 @@ const CreatePower: React.FC = () => {
     return () => window.removeEventListener('beforeunload', handleBeforeUnload);
   }, [isDirty]);
 
+  // Kept as a draft if the session expires before the form is saved
+  useEffect(() => {
+    if (isDirty) return registerUnsavedForm(handleSaveDraft);
+  });
+
   // Click outside to close dropdown
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -101,6 +117,11 @@ const CreatePower: React.FC = () => {
     return () => document.removeEventListener('mousedown', handleClickOutside);
   }, []);
 
+  // Keep a few POINs in reserve so drafts saved offline can carry one
+  useEffect(() => {
+    topUpReservedIds('power');
+  }, []);
+
   const confirmAction = (action: () => void) => {
     if (isDirty) {
       setPendingAction(() => action);
@@ -152,12 +173,14 @@ const CreatePower: React.FC = () => {
           setIsViewMode(true);
           setStatusMessage(null);
         } else if (location.state.initialData) {
+            const { poin: savedPoin, ...draftFields } = location.state.initialData as PowerCreateData;
             const data = {
                 ...formData,
-                ...location.state.initialData
+                ...draftFields
             };
             setFormData(data);
             setInitialState(data);
+            setReservedId(savedPoin || null);
             if (location.state.draftId) {
                 setDraftId(location.state.draftId);
             }
@@ -188,9 +211,16 @@ const CreatePower: React.FC = () => {
     setIsLoading(false);
     setDraftId(null);
     setDraftTimestamp(null);
+    setReservedId(null);
     navigate('/create-power', { replace: true, state: {} });
   };
 
+  const handlePrintLabel = async () => {
+    const record = { poin: viewPoin, name: formData.name, description: formData.description, assignments: originalAssignments };
+    const error = await printLabels([labelFor(record)]);
+    if (error) setStatusMessage({ type: 'error', text: error });
+  };
+
   const handleNavigateWithState = (path: string) => {
     const assignments = formData.owner.split(',').filter(s=>s.trim()).map(s => ({
         plin: s.trim(),
@@ -253,20 +283,22 @@ const CreatePower: React.FC = () => {
     setFormData(prev => ({ ...prev, [name]: newValue }));
   };
 
-  const handleSaveDraft = () => {
+  const handleSaveDraft = async () => {
     const id = draftId || `draft-${Date.now()}`;
     const now = Date.now();
-    saveStoredChange({
+    const draftPoin = reservedId || takeReservedId('power');
+    await saveStoredChange({
       id: id,
       type: 'power',
       action: 'create',
-      data: formData,
+      data: draftPoin ? { ...formData, poin: draftPoin } : formData,
       timestamp: now,
       title: formData.name || 'Untitled Power',
       subtitle: 'Draft Power'
     });
     setDraftId(id);
     setDraftTimestamp(now);
+    setReservedId(draftPoin);
     setInitialState(formData); 
     setStatusMessage({ type: 'success', text: 'Draft saved successfully.' });
     setTimeout(() => {
@@ -298,17 +330,38 @@ const CreatePower: React.FC = () => {
     try {
       const expiryToSave = formData.expiryDate.trim() === '' ? 'until death' : formData.expiryDate;
       const assignments = formData.owner.trim() ? [{ plin: formData.owner, expiryDate: expiryToSave }] : [];
-      const result = await createPower({
-        name: formData.name,
-        description: formData.description,
-        assignments: assignments,
-        remarks: formData.remarks,
-        csRemarks: formData.csRemarks
+      const result = await submitChange<Power>({
+        type: 'power',
+        changes: {
+          name: formData.name,
+          description: formData.description,
+          assignments: assignments,
+          remarks: formData.remarks,
+          csRemarks: formData.csRemarks,
+          ...(reservedId ? { poin: reservedId } : {})
+        }
+      }, {
+        id: draftId || `draft-${Date.now()}`,
+        type: 'power',
+        action: 'create',
+        data: reservedId ? { ...formData, poin: reservedId } : formData,
+        timestamp: Date.now(),
+        title: formData.name || 'Untitled Power',
+        subtitle: 'Draft Power'
       });
 
-      if (result.success && result.data) {
+      if (result.queued) {
+        if (draftId) {
+            await deleteStoredChange(draftId);
+            setDraftId(null);
+            setDraftTimestamp(null);
+        }
+        setStatusMessage({ type: 'success', text: QUEUED_MESSAGE });
+        setIsReadOnly(true);
+        setInitialState(formData);
+      } else if (result.success && result.data) {
         if (draftId) {
-            deleteStoredChange(draftId);
+            await deleteStoredChange(draftId);
             setDraftId(null);
             setDraftTimestamp(null);
         }
@@ -482,17 +535,28 @@ const CreatePower: React.FC = () => {
             </Button>
          </div>
          <div className="flex gap-2">
-            <Button variant="secondary" type="button" onClick={() => confirmAction(handleReset)} title="Create New">
-                 <FilePlus size={16} />
-            </Button>
+            {hasPermission(user, 'create-records') && (
+              <Button variant="secondary" type="button" onClick={() => confirmAction(handleReset)} title="Create New">
+                   <FilePlus size={16} />
+              </Button>
+            )}
             {isViewMode && (
               <>
-                <Button variant="secondary" type="button" onClick={() => handleNavigateWithState('/extend-power')} title="Extend Power">
-                  <CalendarClock size={16} />
-                </Button>
-                <Button variant="secondary" type="button" onClick={() => handleNavigateWithState('/assign-power')} title="Assign Power">
-                  <UserPlusMinus size={16} />
-                </Button>
+                {hasPermission(user, 'update-records') && (
+                  <>
+                    <Button variant="secondary" type="button" onClick={() => handleNavigateWithState('/extend-power')} title="Extend Power">
+                      <CalendarClock size={16} />
+                    </Button>
+                    <Button variant="secondary" type="button" onClick={() => handleNavigateWithState('/assign-power')} title="Assign Power">
+                      <UserPlusMinus size={16} />
+                    </Button>
+                  </>
+                )}
+                {hasPermission(user, 'print-labels') && (
+                  <Button variant="secondary" type="button" onClick={handlePrintLabel} title="Print label">
+                    <Printer size={16} />
+                  </Button>
+                )}
               </>
             )}
          </div>
@@ -541,7 +605,9 @@ const CreatePower: React.FC = () => {
             ) : expiryInput}
 
             <Input label="Remarks" name="remarks" value={formData.remarks} onChange={handleChange} readOnly={isReadOnly} placeholder="Remarks" multiline rows={4} />
-            <Input label="CS Remarks" name="csRemarks" value={formData.csRemarks} onChange={handleChange} readOnly={isReadOnly} placeholder="CS Remarks" multiline rows={4} />
+            {hasPermission(user, 'cs-remarks') && (
+              <Input label="CS Remarks" name="csRemarks" value={formData.csRemarks} onChange={handleChange} readOnly={isReadOnly} placeholder="CS Remarks" multiline rows={4} />
+            )}
 
             {!isReadOnly && !isViewMode && (
               <div className="pt-4 flex justify-end gap-2 border-t border-gray-200 dark:border-gray-700 mt-2">
@@ -555,6 +621,8 @@ const CreatePower: React.FC = () => {
               </div>
             )}
           </form>
+
+          {isViewMode && viewPoin && hasPermission(user, 'view-all-records') && <HistoryPanel type="power" id={viewPoin} />}
         </div>
       </div>
     </div>
@@ -1,20 +1,30 @@
-import { fireEvent, waitFor } from '@testing-library/react';
+import { fireEvent, waitFor, act } from '@testing-library/react';
 import { describe, expect, test, jest, beforeEach } from '@jest/globals';
 import Dashboard from './Dashboard';
 // @ts-ignore
 import * as api from '../services/api';
 // @ts-ignore
 import * as offlineStorage from '../services/offlineStorage';
-import { renderWithRouter } from '../testUtils';
+// @ts-ignore
+import * as dataExport from '../services/dataExport';
+import { renderWithRouter, TEST_USER } from '../testUtils';
+import { enqueueChange } from '../services/outbox';
+import { NewStoredChange } from '../services/offlineStorage';
 
 jest.mock('../services/api', () => ({
   searchGlobal: jest.fn(),
+  searchPlayers: jest.fn(),
   getCharacterName: jest.fn((plin: string) => (plin === '1001#12' ? 'John Doe' : '')),
 }));
 
 jest.mock('../services/offlineStorage', () => ({
-  getStoredChanges: jest.fn(() => []),
-  getNotes: jest.fn(() => []),
+  countStoredChanges: jest.fn(() => Promise.resolve(0)),
+  countNotes: jest.fn(() => Promise.resolve(0)),
+}));
+
+jest.mock('../services/dataExport', () => ({
+  ...(jest.requireActual('../services/dataExport') as any),
+  downloadFile: jest.fn(),
 }));
 
 const mockNavigate = jest.fn();
@@ -25,6 +35,7 @@ jest.mock('react-router-dom', () => ({
 
 const apiMock = api as jest.Mocked<typeof api>;
 const offlineMock = offlineStorage as jest.Mocked<typeof offlineStorage>;
+const exportMock = dataExport as jest.Mocked<typeof dataExport>;
 
 const mockData = [
   {
@@ -64,6 +75,56 @@ describe('Dashboard Page', () => {
     expect(getByText('Create Power')).toBeTruthy();
   });
 
+  test('only shows the tiles the signed-in role may use', () => {
+    const { getByText, queryByText } = renderWithRouter(<Dashboard />, '/', null, { ...TEST_USER, role: 'referee' });
+
+    expect(getByText('Create Item')).toBeTruthy();
+    expect(getByText('Labels')).toBeTruthy();
+    expect(queryByText('Import')).toBeNull();
+  });
+
+  test('shows players only the tools that do not change records', () => {
+    const { getByText, queryByText, queryByTitle } = renderWithRouter(<Dashboard />, '/', null, { ...TEST_USER, role: 'player' });
+
+    expect(getByText('Scan Code')).toBeTruthy();
+    expect(queryByText('Create Item')).toBeNull();
+    expect(queryByText('Recharge Item')).toBeNull();
+    expect(queryByText('Bulk Update')).toBeNull();
+    expect(queryByTitle('My Stored Changes')).toBeNull();
+    expect(queryByTitle('My Notes')).toBeTruthy();
+  });
+
+  test('links players to the profiles of the characters they play', () => {
+    const player = { ...TEST_USER, role: 'player' as const, plins: ['1001#12', '2002#01'] };
+    const { getByText } = renderWithRouter(<Dashboard />, '/', null, player);
+
+    fireEvent.click(getByText('John Doe'));
+    expect(mockNavigate).toHaveBeenCalledWith('/players/1001%2312');
+    expect(getByText('PLIN 2002#01')).toBeTruthy();
+  });
+
+  test('tells players without a linked character who can link one', () => {
+    const { getByText } = renderWithRouter(<Dashboard />, '/', null, { ...TEST_USER, role: 'player' });
+
+    expect(getByText(/not linked to a character yet/)).toBeTruthy();
+  });
+
+  test('shows changes waiting to sync on their tiles', () => {
+    const rifle = { itin: '1111', name: 'Rifle', description: '', owner: '', expiryDate: '01/01/2025' };
+    const draft: NewStoredChange = { id: 'd1', type: 'item', action: 'recharge', data: { item: rifle, expiryDate: '01/01/2030' }, timestamp: 1, title: 'Rifle', subtitle: '' };
+    enqueueChange({ type: 'item', id: '1111', changes: { expiryDate: '01/01/2030' } }, draft);
+    enqueueChange({ type: 'item', id: '1112', changes: { expiryDate: '01/01/2030' } }, { ...draft, id: 'd2' });
+
+    const { getByTitle, queryAllByTitle } = renderWithRouter(<Dashboard />);
+    expect(getByTitle('2 waiting to sync')).toBeTruthy();
+
+    act(() => {
+      const fields = { name: 'Warp', description: '', owner: '', expiryDate: '', remarks: '', csRemarks: '' };
+      enqueueChange({ type: 'power', changes: fields }, { id: 'd3', type: 'power', action: 'create', data: fields, timestamp: 1, title: 'Warp', subtitle: '' });
+    });
+    expect(queryAllByTitle(/waiting to sync/)).toHaveLength(2);
+  });
+
   test('navigates to specific pages when grid buttons clicked', () => {
     const { getByText } = renderWithRouter(<Dashboard />);
 
@@ -96,52 +157,11 @@ describe('Dashboard Page', () => {
     expect(mockNavigate).toHaveBeenCalledWith('/my-notes');
   });
 
-  test('shows draft and note badges based on offline storage', () => {
-    offlineMock.getStoredChanges.mockReturnValue([
-      {
-        id: 'draft-1',
-        type: 'item',
-        action: 'create',
-        data: {},
-        timestamp: 0,
-        title: 'Draft 1',
-        subtitle: 'Draft Item',
-      },
-      {
-        id: 'draft-2',
-        type: 'item',
-        action: 'create',
-        data: {},
-        timestamp: 0,
-        title: 'Draft 2',
-        subtitle: 'Draft Item',
-      },
-    ]);
-    offlineMock.getNotes.mockReturnValue([
-      {
-        id: 'note-1',
-        title: 'Note 1',
-        content: '',
-        linkedIds: [],
-        timestamp: 0,
-      },
-      {
-        id: 'note-2',
-        title: 'Note 2',
-        content: '',
-        linkedIds: [],
-        timestamp: 0,
-      },
-      {
-        id: 'note-3',
-        title: 'Note 3',
-        content: '',
-        linkedIds: [],
-        timestamp: 0,
-      },
-    ]);
+  test('shows draft and note badges based on offline storage', async () => {
+    offlineMock.countStoredChanges.mockResolvedValue(2);
+    offlineMock.countNotes.mockResolvedValue(3);
 
-    const { getByTitle, getAllByText } = renderWithRouter(<Dashboard />);
+    const { getByTitle, findAllByText } = renderWithRouter(<Dashboard />);
 
     const draftsBtn = getByTitle('My Stored Changes');
     const notesBtn = getByTitle('My Notes');
@@ -150,8 +170,8 @@ describe('Dashboard Page', () => {
     expect(notesBtn).toBeTruthy();
 
     // Badge text "2" for drafts and "3" for notes should exist
-    expect(getAllByText('2').length).toBeGreaterThan(0);
-    expect(getAllByText('3').length).toBeGreaterThan(0);
+    expect((await findAllByText('2')).length).toBeGreaterThan(0);
+    expect((await findAllByText('3')).length).toBeGreaterThan(0);
   });
 
   test('performs search and shows mixed results', async () => {
@@ -185,6 +205,67 @@ describe('Dashboard Page', () => {
     });
   });
 
+  test('smart search: a complete PLIN opens the player profile', () => {
+    const { getByPlaceholderText } = renderWithRouter(<Dashboard />);
+
+    const searchInput = getByPlaceholderText('Search...') as HTMLInputElement;
+    fireEvent.change(searchInput, { target: { value: 'PLIN 1001#12' } });
+    fireEvent.submit(searchInput.closest('form')!);
+
+    expect(mockNavigate).toHaveBeenCalledWith('/players/1001%2312');
+  });
+
+  test('PLIN filter links matching players to their profile', async () => {
+    apiMock.searchGlobal.mockResolvedValue({ success: true, data: mockData });
+    apiMock.searchPlayers.mockResolvedValue({
+      success: true,
+      data: [{ plin: '1001#12', characterName: 'John Doe', playerName: 'Jan', status: 'alive' }],
+    });
+
+    const { findByTitle } = renderWithRouter(<Dashboard />, '/?q=1001&filter=owner');
+
+    fireEvent.click(await findByTitle('Open player profile'));
+
+    expect(apiMock.searchPlayers).toHaveBeenCalledWith('1001');
+    expect(mockNavigate).toHaveBeenCalledWith('/players/1001%2312');
+  });
+
+  test('multi-selects results and opens them in bulk update', async () => {
+    apiMock.searchGlobal.mockResolvedValue({ success: true, data: mockData });
+
+    const { findByText, getByTitle, getByText } = renderWithRouter(<Dashboard />, '/?q=1001');
+    await findByText('Laser Pistol');
+
+    fireEvent.click(getByTitle('Select for bulk update'));
+    fireEvent.click(getByText('Laser Pistol'));
+    fireEvent.click(getByText('Super Strength'));
+    // Selecting does not open the record
+    expect(mockNavigate).not.toHaveBeenCalled();
+
+    fireEvent.click(getByText('Bulk Update (2)'));
+    expect(mockNavigate).toHaveBeenCalledWith('/bulk-update', {
+      state: { targets: [mockData[0], mockData[2]], returnQuery: 'q=1001' },
+    });
+
+    fireEvent.click(getByText('Labels (2)'));
+    expect(mockNavigate).toHaveBeenCalledWith('/labels', {
+      state: { targets: [mockData[0], mockData[2]], returnQuery: 'q=1001' },
+    });
+  });
+
+  test('exports the listed results as CSV', async () => {
+    apiMock.searchGlobal.mockResolvedValue({ success: true, data: mockData });
+
+    const { findByText, getByTitle } = renderWithRouter(<Dashboard />, '/?q=1001');
+    await findByText('Laser Pistol');
+
+    fireEvent.click(getByTitle('Export results as CSV'));
+    const [fileName, csv, mimeType] = exportMock.downloadFile.mock.calls[0];
+    expect(fileName).toMatch(/^voiddex-results-\d{4}-\d{2}-\d{2}\.csv$/);
+    expect(mimeType).toBe('text/csv');
+    expect(csv).toContain('Item,1111,Laser Pistol,A small energy weapon.,1001#12,01/01/2025');
+  });
+
   test('displays "No results" when search returns empty', async () => {
     apiMock.searchGlobal.mockResolvedValue({ success: true, data: [] });
 
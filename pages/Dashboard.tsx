@@ -1,10 +1,17 @@
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useContext } from 'react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
-import { BatteryCharging, Search, X, PlusSquare, CalendarClock, ClipboardList, StickyNote, ArrowUpAZ, ArrowDownAZ, Calendar, ArrowUp, ArrowDown, ArrowLeft, User, Zap, Activity, Box, QrCode, LayoutGrid, List } from 'lucide-react';
+import { BatteryCharging, Search, X, PlusSquare, CalendarClock, ClipboardList, StickyNote, ArrowUpAZ, ArrowDownAZ, Calendar, ArrowUp, ArrowDown, ArrowLeft, User, Zap, Activity, Box, QrCode, LayoutGrid, List, ChevronRight, ListChecks, CheckSquare, Square, Upload, Download, Printer, CloudUpload } from 'lucide-react';
 import Button from '../components/ui/Button';
-import { searchGlobal, getCharacterName } from '../services/api';
-import { getStoredChanges, getNotes } from '../services/offlineStorage';
-import { Item, Condition, Power, Assignment } from '../types';
+import { AuthContext } from '../App';
+import { searchGlobal, searchPlayers, getCharacterName } from '../services/api';
+import { countStoredChanges, countNotes } from '../services/offlineStorage';
+import { subscribeToTabChanges } from '../services/tabSync';
+import { getPendingCounts, subscribeToOutbox } from '../services/outbox';
+import { targetKey } from '../services/bulkUpdate';
+import { Permission, hasPermission } from '../services/permissions';
+import { detectSmartPrefix, SmartPrefix } from '../services/smartSearch';
+import { searchResultsToCsv, exportFileName, downloadFile } from '../services/dataExport';
+import { Item, Condition, Power, Assignment, Player } from '../types';
 
 // Custom Icon: User with Plus and Minus to indicate Assignment/Unassignment
 const UserPlusMinus = ({ size = 24, className = "" }: { size?: number | string, className?: string }) => (
@@ -33,8 +40,16 @@ type SortField = 'DATE' | 'NAME';
 type SortDirection = 'ASC' | 'DESC';
 type ViewMode = 'grid' | 'list';
 
+const FULL_PLIN_PATTERN = /^\d{1,4}#\d{1,2}$/;
+
+const PREFIX_FILTERS: Record<SmartPrefix, FilterType> = { POIN: 'power', COIN: 'coin', ITIN: 'itin', PLIN: 'owner' };
+
 const Dashboard: React.FC = () => {
     const navigate = useNavigate();
+    const { user } = useContext(AuthContext);
+    const can = (permission: Permission) => hasPermission(user, permission);
+    const canSelect = can('update-records') || can('print-labels');
+    const ownPlins = user?.plins ?? [];
     const [searchParams, setSearchParams] = useSearchParams();
 
     // View Mode State (Persisted)
@@ -60,8 +75,15 @@ const Dashboard: React.FC = () => {
     const [query, setQuery] = useState(urlQuery);
     const [isSearching, setIsSearching] = useState(false);
     const [searchResults, setSearchResults] = useState<(Item | Condition | Power)[] | null>(null);
+    const [playerMatches, setPlayerMatches] = useState<Player[]>([]);
     const [draftCount, setDraftCount] = useState(0);
     const [noteCount, setNoteCount] = useState(0);
+    // Offline changes waiting to sync, per tile ("item-recharge", ...)
+    const [pendingCounts, setPendingCounts] = useState<Record<string, number>>(() => getPendingCounts());
+
+    // Multi-select for bulk update (keys from targetKey)
+    const [isSelecting, setIsSelecting] = useState(false);
+    const [selectedKeys, setSelectedKeys] = useState<Set<string>>(new Set());
 
     // Sort State
     const [sortField, setSortField] = useState<SortField>('NAME');
@@ -100,15 +122,50 @@ const Dashboard: React.FC = () => {
 
     useEffect(() => {
         setQuery(searchParams.get('q') || '');
+        setSelectedKeys(new Set());
+    }, [searchParams]);
+
+    // --- PLAYER PROFILE LINKS (PLIN filter) ---
+    useEffect(() => {
+        const currentQ = searchParams.get('q');
+        if (!currentQ || searchParams.get('filter') !== 'owner') {
+            setPlayerMatches([]);
+            return;
+        }
+
+        let isCurrent = true;
+        const findPlayers = async () => {
+            try {
+                const result = await searchPlayers(currentQ);
+                if (isCurrent) setPlayerMatches(result.success && result.data ? result.data : []);
+            } catch (error) {
+                if (isCurrent) setPlayerMatches([]);
+            }
+        };
+        findPlayers();
+        return () => { isCurrent = false; };
     }, [searchParams]);
 
     useEffect(() => {
-        const changes = getStoredChanges();
-        setDraftCount(changes.length);
-        const notes = getNotes();
-        setNoteCount(notes.length);
+        const loadDraftCount = () => countStoredChanges().then(setDraftCount);
+        const loadNoteCount = () => countNotes().then(setNoteCount);
+        loadDraftCount();
+        loadNoteCount();
+        // Keep the badges current while drafts and notes change in other tabs
+        const unsubscribeDrafts = subscribeToTabChanges('drafts', loadDraftCount);
+        const unsubscribeNotes = subscribeToTabChanges('notes', loadNoteCount);
+        return () => {
+            unsubscribeDrafts();
+            unsubscribeNotes();
+        };
     }, []);
 
+    useEffect(() => subscribeToOutbox(entries => {
+        setPendingCounts(getPendingCounts(entries));
+        // Changes the server rejected come back as drafts
+        countStoredChanges().then(setDraftCount);
+    }), []);
+
     const handleSearch = (e: React.FormEvent) => {
         e.preventDefault();
         const rawQuery = query.trim();
@@ -118,35 +175,17 @@ const Dashboard: React.FC = () => {
         let nextFilter = activeFilter;
 
         // --- SMART SEARCH DETECTION ---
-        const match = rawQuery.match(/^(POIN|COIN|ITIN|PLIN)(\s*)(.*)/i);
-
-        if (match) {
-            const prefix = match[1].toUpperCase();
-            const separator = match[2];
-            const rest = match[3];
-
-            const isCompact = separator.length === 0;
-            const isValidTrigger = !isCompact || /^[\d#]/.test(rest);
-
-            if (isValidTrigger) {
-                const value = rest.trim();
-                if (value) {
-                    nextQuery = value;
-                    switch (prefix) {
-                        case 'POIN':
-                            nextFilter = 'power';
-                            break;
-                        case 'COIN':
-                            nextFilter = 'coin';
-                            break;
-                        case 'ITIN':
-                            nextFilter = 'itin';
-                            break;
-                        case 'PLIN':
-                            nextFilter = 'owner';
-                            break;
-                    }
-                }
+        const detected = detectSmartPrefix(rawQuery);
+
+        if (detected) {
+            const { prefix, value } = detected;
+            nextQuery = value;
+            nextFilter = PREFIX_FILTERS[prefix];
+
+            // A complete PLIN goes straight to that player's profile
+            if (prefix === 'PLIN' && FULL_PLIN_PATTERN.test(value)) {
+                navigate(`/players/${encodeURIComponent(value)}`);
+                return;
             }
         }
 
@@ -278,6 +317,28 @@ const Dashboard: React.FC = () => {
         }
     };
 
+    const toggleSelected = (item: Item | Condition | Power) => {
+        const key = targetKey(item);
+        setSelectedKeys(prev => {
+            const next = new Set(prev);
+            if (next.has(key)) next.delete(key);
+            else next.add(key);
+            return next;
+        });
+    };
+
+    const openWithSelection = (path: string) => {
+        const targets = displayedResults.filter(item => selectedKeys.has(targetKey(item)));
+        navigate(path, { state: { targets, returnQuery: searchParams.toString() } });
+    };
+
+    // Exports exactly what is listed: current filter and sort order
+    const exportResults = (format: 'csv' | 'json') => {
+        const fileName = `${exportFileName('results')}.${format}`;
+        if (format === 'csv') downloadFile(fileName, searchResultsToCsv(displayedResults), 'text/csv');
+        else downloadFile(fileName, JSON.stringify(displayedResults, null, 2), 'application/json');
+    };
+
     const formatOwner = (plin: string) => {
         const name = getCharacterName(plin);
         return name ? `${plin} ${name}` : plin;
@@ -289,7 +350,7 @@ const Dashboard: React.FC = () => {
         return `${assignments[0].plin}, +${assignments.length - 1} Players`;
     };
 
-    const GridAction = ({ icon: Icon, title, onClick, type, className = '' }: { icon: any, title: string, onClick: () => void, type: 'item'|'condition'|'power'|'scan', className?: string }) => {
+    const GridAction = ({ icon: Icon, title, onClick, type, pending = 0, className = '' }: { icon: any, title: string, onClick: () => void, type: 'item'|'condition'|'power'|'scan', pending?: number, className?: string }) => {
         const isGrid = viewMode === 'grid';
         const [isHovered, setIsHovered] = useState(false);
 
@@ -329,8 +390,16 @@ const Dashboard: React.FC = () => {
                     boxShadow: isHovered && type !== 'scan' ? `0 0 15px -2px rgba(var(${glowColorVar}), 0.4)` : '',
                     borderColor: isHovered && type !== 'scan' ? `rgba(var(${glowColorVar}), 0.5)` : ''
                 }}
-                className={`flex ${isGrid ? 'flex-col items-center justify-center p-2 sm:p-2 aspect-square' : 'flex-row items-center p-1.5'} w-full bg-white dark:bg-gray-800 border border-gray-100 dark:border-gray-700/50 shadow-sm rounded-xl hover:bg-gray-50 dark:hover:bg-gray-750 transition-all duration-300 active:scale-[0.98] group cursor-pointer select-none ${className}`}
+                className={`relative flex ${isGrid ? 'flex-col items-center justify-center p-2 sm:p-2 aspect-square' : 'flex-row items-center p-1.5'} w-full bg-white dark:bg-gray-800 border border-gray-100 dark:border-gray-700/50 shadow-sm rounded-xl hover:bg-gray-50 dark:hover:bg-gray-750 transition-all duration-300 active:scale-[0.98] group cursor-pointer select-none ${className}`}
             >
+                {pending > 0 && (
+                    <span
+                        className="absolute top-1.5 right-1.5 flex items-center gap-0.5 px-1.5 py-0.5 rounded-full bg-amber-100 dark:bg-amber-900/50 text-amber-800 dark:text-amber-300 text-[10px] font-bold"
+                        title={`${pending} waiting to sync`}
+                    >
+                        <CloudUpload size={10} /> {pending}
+                    </span>
+                )}
                 <div className={`${isGrid ? 'p-3 sm:p-4 mb-2' : 'p-1.5 mr-2'} rounded-xl transition-colors duration-300 ${colorClass}`}>
                     <Icon strokeWidth={1.5} size={isGrid ? 32 : 18} className={isGrid ? "sm:w-10 sm:h-10" : ""} />
                 </div>
@@ -374,21 +443,23 @@ const Dashboard: React.FC = () => {
             {/* 2. Controls Row */}
             <div className="w-full flex justify-between items-center mt-4 mb-2 px-0.5">
                 <div className="flex gap-1">
-                    <Button
-                        type="button"
-                        variant="secondary"
-                        onClick={() => navigate('/stored-changes')}
-                        className="relative px-3 h-[38px] z-10 text-entity-draft dark:text-entity-draft bg-entity-draft/5 dark:bg-entity-draft/10 border-entity-draft/30 dark:border-entity-draft/30 hover:bg-entity-draft/10 dark:hover:bg-entity-draft/20"
-                        title="My Stored Changes"
-                    >
-                        <ClipboardList size={18} />
-                        {draftCount > 0 && (
-                            // Updated Badge to use RED (Notification Style)
-                            <span className="absolute -top-2 -right-2 flex h-5 w-5 items-center justify-center rounded-full bg-red-600 text-white text-[10px] font-bold shadow-sm ring-1 ring-white dark:ring-gray-800">
-                   {draftCount}
-                 </span>
-                        )}
-                    </Button>
+                    {can('update-records') && (
+                        <Button
+                            type="button"
+                            variant="secondary"
+                            onClick={() => navigate('/stored-changes')}
+                            className="relative px-3 h-[38px] z-10 text-entity-draft dark:text-entity-draft bg-entity-draft/5 dark:bg-entity-draft/10 border-entity-draft/30 dark:border-entity-draft/30 hover:bg-entity-draft/10 dark:hover:bg-entity-draft/20"
+                            title="My Stored Changes"
+                        >
+                            <ClipboardList size={18} />
+                            {draftCount > 0 && (
+                                // Updated Badge to use RED (Notification Style)
+                                <span className="absolute -top-2 -right-2 flex h-5 w-5 items-center justify-center rounded-full bg-red-600 text-white text-[10px] font-bold shadow-sm ring-1 ring-white dark:ring-gray-800">
+                       {draftCount}
+                     </span>
+                            )}
+                        </Button>
+                    )}
                     <Button
                         type="button"
                         variant="secondary"
@@ -466,6 +537,39 @@ const Dashboard: React.FC = () => {
                         {displayedResults.length} Found
                     </span>
                             <div className="flex gap-2">
+                                {canSelect && <button
+                                    onClick={() => {
+                                        setIsSelecting(prev => !prev);
+                                        setSelectedKeys(new Set());
+                                    }}
+                                    className={`flex items-center gap-1 px-2 py-1 rounded text-[10px] font-bold border transition-colors ${
+                                        isSelecting
+                                            ? 'bg-brand-primary/10 text-brand-primary border-brand-primary/30'
+                                            : 'text-gray-500 border-transparent hover:bg-gray-50 dark:hover:bg-gray-700'
+                                    }`}
+                                    title="Select for bulk update"
+                                >
+                                    <ListChecks size={12} />
+                                    Select
+                                </button>}
+                                <button
+                                    onClick={() => exportResults('csv')}
+                                    disabled={displayedResults.length === 0}
+                                    className="flex items-center gap-1 px-2 py-1 rounded text-[10px] font-bold border border-transparent text-gray-500 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+                                    title="Export results as CSV"
+                                >
+                                    <Download size={12} />
+                                    CSV
+                                </button>
+                                <button
+                                    onClick={() => exportResults('json')}
+                                    disabled={displayedResults.length === 0}
+                                    className="flex items-center gap-1 px-2 py-1 rounded text-[10px] font-bold border border-transparent text-gray-500 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+                                    title="Export results as JSON"
+                                >
+                                    <Download size={12} />
+                                    JSON
+                                </button>
                                 <button
                                     onClick={() => handleSortToggle('DATE')}
                                     className={`flex items-center gap-1 px-2 py-1 rounded text-[10px] font-bold border transition-colors ${
@@ -493,6 +597,54 @@ const Dashboard: React.FC = () => {
                             </div>
                         </div>
 
+                        {activeFilter === 'owner' && playerMatches.length > 0 && (
+                            <div className="mb-2 space-y-1">
+                                {playerMatches.map(player => (
+                                    <button
+                                        key={player.plin}
+                                        type="button"
+                                        onClick={() => navigate(`/players/${encodeURIComponent(player.plin)}`)}
+                                        className="w-full flex items-center justify-between p-2 rounded-md border border-brand-primary/30 bg-brand-primary/5 hover:bg-brand-primary/10 text-left transition-colors"
+                                        title="Open player profile"
+                                    >
+                                        <span className="flex items-center gap-2 min-w-0 text-sm font-serif text-gray-800 dark:text-gray-100">
+                                            <User size={14} className="shrink-0" />
+                                            <span className="font-mono text-xs text-gray-500 dark:text-gray-400">{player.plin}</span>
+                                            <span className="font-bold truncate">{player.characterName}</span>
+                                        </span>
+                                        <ChevronRight size={16} className="text-gray-400 shrink-0" />
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+
+                        {isSelecting && (
+                            <div className="mb-2 flex items-center justify-between gap-2 px-1">
+                                <button
+                                    type="button"
+                                    onClick={() => setSelectedKeys(
+                                        selectedKeys.size === displayedResults.length ? new Set() : new Set(displayedResults.map(targetKey))
+                                    )}
+                                    className="text-xs font-bold text-gray-600 dark:text-gray-300 flex items-center gap-1"
+                                >
+                                    {selectedKeys.size > 0 && selectedKeys.size === displayedResults.length ? <CheckSquare size={14} /> : <Square size={14} />}
+                                    {selectedKeys.size > 0 && selectedKeys.size === displayedResults.length ? 'Deselect All' : 'Select All'}
+                                </button>
+                                <div className="flex gap-2">
+                                    {can('print-labels') && (
+                                        <Button type="button" variant="secondary" onClick={() => openWithSelection('/labels')} disabled={selectedKeys.size === 0} className="h-[30px] text-xs">
+                                            <Printer size={14} className="mr-1" /> Labels ({selectedKeys.size})
+                                        </Button>
+                                    )}
+                                    {can('update-records') && (
+                                        <Button type="button" onClick={() => openWithSelection('/bulk-update')} disabled={selectedKeys.size === 0} className="h-[30px] text-xs">
+                                            <CalendarClock size={14} className="mr-1" /> Bulk Update ({selectedKeys.size})
+                                        </Button>
+                                    )}
+                                </div>
+                            </div>
+                        )}
+
                         {displayedResults.length === 0 ? (
                             <div className="p-8 text-center text-gray-500 dark:text-gray-400 font-serif italic text-sm">
                                 No results match your search.
@@ -550,12 +702,23 @@ const Dashboard: React.FC = () => {
                                         }
                                     }
 
+                                    const isSelected = selectedKeys.has(targetKey(item));
+
                                     return (
                                         <div
                                             key={idx}
-                                            onClick={() => handleItemClick(item)}
-                                            className="flex items-center p-3 bg-gray-50 dark:bg-gray-700/50 rounded-md border border-gray-200 dark:border-gray-700 hover:border-gray-400 dark:hover:border-gray-500 cursor-pointer transition-all active:scale-[0.99]"
+                                            onClick={() => isSelecting ? toggleSelected(item) : handleItemClick(item)}
+                                            className={`flex items-center p-3 rounded-md border cursor-pointer transition-all active:scale-[0.99] ${
+                                                isSelected
+                                                    ? 'bg-brand-primary/5 border-brand-primary/40'
+                                                    : 'bg-gray-50 dark:bg-gray-700/50 border-gray-200 dark:border-gray-700 hover:border-gray-400 dark:hover:border-gray-500'
+                                            }`}
                                         >
+                                            {isSelecting && (
+                                                <div className={`mr-2 ${isSelected ? 'text-brand-primary' : 'text-gray-400'}`} aria-label={isSelected ? 'Selected' : 'Not selected'}>
+                                                    {isSelected ? <CheckSquare size={18} /> : <Square size={18} />}
+                                                </div>
+                                            )}
                                             <div className={`p-2 rounded-full mr-3 ${iconTextClass} ${iconBgClass}`}>
                                                 <Icon size={20} />
                                             </div>
@@ -588,26 +751,49 @@ const Dashboard: React.FC = () => {
                 </>
             ) : (
                 <div className="w-full animate-in fade-in slide-in-from-bottom-4 duration-500">
+                    {/* Characters the user plays: their own items, conditions and powers are on the profile */}
+                    {!can('view-all-records') && ownPlins.length === 0 && (
+                        <p className="mb-4 p-3 text-center text-sm text-gray-600 dark:text-gray-300 font-serif italic">
+                            Your account is not linked to a character yet. Ask Character Services to add your PLIN.
+                        </p>
+                    )}
+                    {ownPlins.length > 0 && (
+                        <div className={viewMode === 'grid' ? "grid grid-cols-3 gap-3 mb-4" : "flex flex-col gap-2 mb-4"}>
+                            {ownPlins.map(plin => (
+                                <GridAction
+                                    key={plin}
+                                    type="scan"
+                                    icon={User}
+                                    title={getCharacterName(plin) || `PLIN ${plin}`}
+                                    onClick={() => navigate(`/players/${encodeURIComponent(plin)}`)}
+                                />
+                            ))}
+                        </div>
+                    )}
+
                     {/* Dashboard Grid Logic with Entity Colors */}
                     <div className={viewMode === 'grid' ? "grid grid-cols-3 gap-3 mb-4" : "flex flex-col gap-2 mb-4"}>
                         {/* Items */}
-                        <GridAction type="item" icon={PlusSquare} title="Create Item" onClick={() => navigate('/create-item')} />
-                        <GridAction type="item" icon={BatteryCharging} title="Recharge Item" onClick={() => navigate('/recharge-item')} />
-                        <GridAction type="item" icon={UserPlusMinus} title="Assign Item" onClick={() => navigate('/assign-item')} />
+                        {can('create-records') && <GridAction type="item" icon={PlusSquare} title="Create Item" pending={pendingCounts['item-create']} onClick={() => navigate('/create-item')} />}
+                        {can('update-records') && <GridAction type="item" icon={BatteryCharging} title="Recharge Item" pending={pendingCounts['item-recharge']} onClick={() => navigate('/recharge-item')} />}
+                        {can('update-records') && <GridAction type="item" icon={UserPlusMinus} title="Assign Item" pending={pendingCounts['item-assign']} onClick={() => navigate('/assign-item')} />}
 
                         {/* Conditions */}
-                        <GridAction type="condition" icon={Activity} title="Create Condition" onClick={() => navigate('/create-condition')} />
-                        <GridAction type="condition" icon={CalendarClock} title="Extend Condition" onClick={() => navigate('/extend-condition')} />
-                        <GridAction type="condition" icon={UserPlusMinus} title="Assign Condition" onClick={() => navigate('/assign-condition')} />
+                        {can('create-records') && <GridAction type="condition" icon={Activity} title="Create Condition" pending={pendingCounts['condition-create']} onClick={() => navigate('/create-condition')} />}
+                        {can('update-records') && <GridAction type="condition" icon={CalendarClock} title="Extend Condition" pending={pendingCounts['condition-extend']} onClick={() => navigate('/extend-condition')} />}
+                        {can('update-records') && <GridAction type="condition" icon={UserPlusMinus} title="Assign Condition" pending={pendingCounts['condition-assign']} onClick={() => navigate('/assign-condition')} />}
 
                         {/* Powers */}
-                        <GridAction type="power" icon={Zap} title="Create Power" onClick={() => navigate('/create-power')} />
-                        <GridAction type="power" icon={CalendarClock} title="Extend Power" onClick={() => navigate('/extend-power')} />
-                        <GridAction type="power" icon={UserPlusMinus} title="Assign Power" onClick={() => navigate('/assign-power')} />
+                        {can('create-records') && <GridAction type="power" icon={Zap} title="Create Power" pending={pendingCounts['power-create']} onClick={() => navigate('/create-power')} />}
+                        {can('update-records') && <GridAction type="power" icon={CalendarClock} title="Extend Power" pending={pendingCounts['power-extend']} onClick={() => navigate('/extend-power')} />}
+                        {can('update-records') && <GridAction type="power" icon={UserPlusMinus} title="Assign Power" pending={pendingCounts['power-assign']} onClick={() => navigate('/assign-power')} />}
 
                         {/* Tools */}
-                        {viewMode === 'grid' && <div />}
+                        {can('update-records') && <GridAction type="scan" icon={ListChecks} title="Bulk Update" onClick={() => navigate('/bulk-update')} />}
                         <GridAction type="scan" icon={QrCode} title="Scan Code" onClick={() => navigate('/scan')} />
+                        {can('import-data') && <GridAction type="scan" icon={Upload} title="Import" onClick={() => navigate('/import')} />}
+                        {can('export-data') && <GridAction type="scan" icon={Download} title="Export" onClick={() => navigate('/export')} />}
+                        {can('print-labels') && <GridAction type="scan" icon={Printer} title="Labels" onClick={() => navigate('/labels')} />}
                     </div>
                 </div>
             )}
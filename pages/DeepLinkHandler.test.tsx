@@ -3,6 +3,7 @@ import { render, waitFor } from '@testing-library/react';
 import { MemoryRouter } from 'react-router-dom';
 import { describe, expect, test, jest, beforeEach } from '@jest/globals';
 import DeepLinkHandler from './DeepLinkHandler';
+import { getScanHistory } from '../services/scanHistory';
 // @ts-ignore
 import * as api from '../services/api';
 
@@ -34,6 +35,7 @@ describe('DeepLinkHandler', () => {
     beforeEach(() => {
         jest.clearAllMocks();
         mockParams = { id: '1234' }; // default for tests that don't override
+        localStorage.clear();
     });
 
     test('redirects to dashboard if id is missing', async () => {
@@ -178,4 +180,43 @@ describe('DeepLinkHandler', () => {
             expect(mockNavigate).toHaveBeenCalledWith('/');
         });
     });
+
+    test('logs scans with the decoded text, and direct links by path', async () => {
+        mockParams = { id: '9999' };
+        apiMock.searchItemByItin.mockResolvedValue({ success: true, data: { itin: '9999', name: 'Deep Item' } } as any);
+
+        const scan = { rawText: 'https://voiddex.app/items/9999', source: 'camera' };
+        const { unmount } = render(
+            <MemoryRouter initialEntries={[{ pathname: '/items/9999', state: { scan } }]}>
+                <DeepLinkHandler type="item" />
+            </MemoryRouter>
+        );
+        await waitFor(() => expect(mockNavigate).toHaveBeenCalled());
+        unmount();
+
+        apiMock.searchItemByItin.mockResolvedValue({ success: false, error: 'Not found' });
+        render(
+            <MemoryRouter initialEntries={['/items/9999']}>
+                <DeepLinkHandler type="item" />
+            </MemoryRouter>
+        );
+        await waitFor(() => expect(mockNavigate).toHaveBeenCalledWith('/?q=9999', { replace: true }));
+
+        expect(getScanHistory()).toEqual([
+            expect.objectContaining({ rawText: '/items/9999', source: 'link', result: 'not-found' }),
+            expect.objectContaining({ ...scan, type: 'item', entityId: '9999', name: 'Deep Item', result: 'found' }),
+        ]);
+    });
+
+    test('does not log records re-opened from the scan history', async () => {
+        apiMock.searchItemByItin.mockResolvedValue({ success: true, data: { itin: '1234', name: 'Deep Item' } } as any);
+
+        render(
+            <MemoryRouter initialEntries={[{ pathname: '/items/1234', state: { skipScanLog: true } }]}>
+                <DeepLinkHandler type="item" />
+            </MemoryRouter>
+        );
+        await waitFor(() => expect(mockNavigate).toHaveBeenCalled());
+        expect(getScanHistory()).toEqual([]);
+    });
 });
@@ -1,6 +1,7 @@
 import React, { useEffect } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { useParams, useNavigate, useLocation } from 'react-router-dom';
 import { searchItemByItin, searchConditionByCoin, searchPowerByPoin } from '../services/api';
+import { addScanRecord, ScanContext, ScanResult } from '../services/scanHistory';
 import { Loader2 } from 'lucide-react';
 
 interface Props {
@@ -12,10 +13,13 @@ interface Props {
  * It attempts to fetch the object by ID.
  * - If found: Redirects to the appropriate View/Edit page with the object data loaded.
  * - If not found: Redirects to the Dashboard Search with the ID pre-filled as a fallback.
+ * Every lookup is added to the scan history, with the decoded text when it came from the
+ * scanner (`state.scan`). Re-opening from the history itself passes `state.skipScanLog`.
  */
 const DeepLinkHandler: React.FC<Props> = ({ type }) => {
   const { id } = useParams();
   const navigate = useNavigate();
+  const location = useLocation();
 
   useEffect(() => {
     if (!id) {
@@ -23,6 +27,19 @@ const DeepLinkHandler: React.FC<Props> = ({ type }) => {
       return;
     }
 
+    const scan: ScanContext | undefined = location.state?.scan;
+    const logScan = (result: ScanResult, name?: string) => {
+      if (location.state?.skipScanLog) return;
+      addScanRecord({
+        rawText: scan?.rawText ?? location.pathname,
+        source: scan?.source ?? 'link',
+        type,
+        entityId: id,
+        name,
+        result,
+      });
+    };
+
     const resolve = async () => {
       try {
         let result;
@@ -43,6 +60,7 @@ const DeepLinkHandler: React.FC<Props> = ({ type }) => {
         }
 
         if (result && result.success && result.data) {
+          logScan('found', result.data.name);
           // Found it! Redirect to the view page with data in state
           navigate(targetPath, { 
             replace: true, 
@@ -53,11 +71,13 @@ const DeepLinkHandler: React.FC<Props> = ({ type }) => {
             } 
           });
         } else {
+          logScan('not-found');
           // Not found, try searching globally on dashboard as a fallback
           navigate(`/?q=${id}`, { replace: true });
         }
       } catch (e) {
         console.error("Deep link error", e);
+        logScan('error');
         navigate('/');
       }
     };
@@ -0,0 +1,89 @@
+import { fireEvent, screen, waitFor } from '@testing-library/react';
+import { describe, expect, test, jest, beforeEach, afterEach } from '@jest/globals';
+import ExportData from './ExportData';
+// @ts-ignore – module is mocked below
+import * as api from '../services/api';
+// @ts-ignore – module is mocked below
+import * as dataExport from '../services/dataExport';
+import { DatabaseSnapshot } from '../types';
+import { renderWithRouter } from '../testUtils';
+
+jest.mock('../services/api', () => ({
+  exportAll: jest.fn(),
+}));
+
+jest.mock('../services/offlineStorage', () => ({
+  getStoredChanges: jest.fn(() => Promise.resolve([])),
+  getNotes: jest.fn(() => Promise.resolve([{ id: 'n1', title: 'Door code', content: '4711', linkedIds: ['1001'], timestamp: 0 }])),
+}));
+
+jest.mock('../services/dataExport', () => ({
+  ...(jest.requireActual('../services/dataExport') as any),
+  downloadFile: jest.fn(),
+}));
+
+const mockNavigate = jest.fn();
+jest.mock('react-router-dom', () => ({
+  ...(jest.requireActual('react-router-dom') as any),
+  useNavigate: () => mockNavigate,
+}));
+
+const apiMock = api as jest.Mocked<typeof api>;
+const exportMock = dataExport as jest.Mocked<typeof dataExport>;
+
+const snapshot: DatabaseSnapshot = {
+  items: [{ itin: '1001', name: 'Plasma Rifle', description: '', owner: '1001#01', expiryDate: '01/01/2030' }],
+  conditions: [],
+  powers: [],
+  players: [],
+};
+
+describe('ExportData Page', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date(2026, 9, 19));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('downloads the full backup and reuses the fetched snapshot for CSVs', async () => {
+    apiMock.exportAll.mockResolvedValue({ success: true, data: snapshot });
+
+    renderWithRouter(<ExportData />, '/export');
+    fireEvent.click(screen.getByText('Download JSON'));
+
+    expect(await screen.findByText('Downloaded voiddex-database-2026-10-19.json')).toBeTruthy();
+    const [, json, mimeType] = exportMock.downloadFile.mock.calls[0];
+    expect(mimeType).toBe('application/json');
+    expect(JSON.parse(json).items).toEqual(snapshot.items);
+    expect(JSON.parse(json).notes.map((n: any) => n.title)).toEqual(['Door code']);
+
+    fireEvent.click(screen.getByText('Items'));
+    await waitFor(() => expect(exportMock.downloadFile).toHaveBeenCalledTimes(2));
+    expect(exportMock.downloadFile.mock.calls[1][0]).toBe('voiddex-items-2026-10-19.csv');
+    expect(exportMock.downloadFile.mock.calls[1][1]).toContain('1001,Plasma Rifle,,1001#01,01/01/2030');
+    expect(apiMock.exportAll).toHaveBeenCalledTimes(1);
+  });
+
+  test('exports local notes without contacting the backend', async () => {
+    renderWithRouter(<ExportData />, '/export');
+    fireEvent.click(screen.getByText('Notes'));
+
+    expect(await screen.findByText('Downloaded voiddex-notes-2026-10-19.csv')).toBeTruthy();
+    expect(exportMock.downloadFile.mock.calls[0][1]).toContain('n1,Door code,4711,1001');
+    expect(apiMock.exportAll).not.toHaveBeenCalled();
+  });
+
+  test('reports a failed export', async () => {
+    apiMock.exportAll.mockResolvedValue({ success: false, error: 'Network error' });
+
+    renderWithRouter(<ExportData />, '/export');
+    fireEvent.click(screen.getByText('Powers'));
+
+    expect(await screen.findByText('Export failed: Network error')).toBeTruthy();
+    expect(exportMock.downloadFile).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import Button from '../components/ui/Button';
+import { exportAll } from '../services/api';
+import { getNotes, getStoredChanges } from '../services/offlineStorage';
+import {
+  recordsToCsv, playersToCsv, notesToCsv, draftsToCsv, buildDatabaseJson, exportFileName, downloadFile
+} from '../services/dataExport';
+import { DatabaseSnapshot } from '../types';
+import { Home, Download, FileJson, FileSpreadsheet } from 'lucide-react';
+
+type CsvDataset = 'items' | 'conditions' | 'powers' | 'players' | 'notes' | 'drafts';
+
+const CSV_DATASETS: { key: CsvDataset, label: string }[] = [
+  { key: 'items', label: 'Items' },
+  { key: 'conditions', label: 'Conditions' },
+  { key: 'powers', label: 'Powers' },
+  { key: 'players', label: 'Players' },
+  { key: 'notes', label: 'Notes' },
+  { key: 'drafts', label: 'Drafts' },
+];
+
+const buildCsv = async (dataset: CsvDataset, snapshot: DatabaseSnapshot | null): Promise<string> => {
+  switch (dataset) {
+    case 'notes': return notesToCsv(await getNotes());
+    case 'drafts': return draftsToCsv(await getStoredChanges());
+    case 'players': return playersToCsv(snapshot!.players);
+    case 'items': return recordsToCsv('item', snapshot!.items);
+    case 'conditions': return recordsToCsv('condition', snapshot!.conditions);
+    case 'powers': return recordsToCsv('power', snapshot!.powers);
+  }
+};
+
+/**
+ * Export (/export).
+ * Downloads the whole database as one JSON backup, or one CSV per dataset.
+ * Records come from the backend; notes and drafts are the ones stored on this device.
+ * Conditions and powers are flattened to one CSV row per assignment.
+ */
+const ExportData: React.FC = () => {
+  const navigate = useNavigate();
+  const [snapshot, setSnapshot] = useState<DatabaseSnapshot | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [statusMessage, setStatusMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null);
+
+  // The snapshot is fetched once and reused for the other downloads
+  const loadSnapshot = async (): Promise<DatabaseSnapshot | null> => {
+    if (snapshot) return snapshot;
+    const result = await exportAll();
+    if (!result.success || !result.data) {
+      setStatusMessage({ type: 'error', text: 'Export failed: ' + (result.error || 'Unknown error') });
+      return null;
+    }
+    setSnapshot(result.data);
+    return result.data;
+  };
+
+  const run = async (key: string, task: () => Promise<string | null>) => {
+    setBusy(key);
+    setStatusMessage(null);
+    try {
+      const fileName = await task();
+      if (fileName) setStatusMessage({ type: 'success', text: `Downloaded ${fileName}` });
+    } catch (err) {
+      setStatusMessage({ type: 'error', text: 'An unexpected error occurred.' });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const exportJson = () => run('json', async () => {
+    const data = await loadSnapshot();
+    if (!data) return null;
+    const fileName = `${exportFileName('database')}.json`;
+    downloadFile(fileName, buildDatabaseJson(data, await getNotes(), await getStoredChanges()), 'application/json');
+    return fileName;
+  });
+
+  const exportCsv = (dataset: CsvDataset) => run(dataset, async () => {
+    const needsServer = dataset !== 'notes' && dataset !== 'drafts';
+    const data = needsServer ? await loadSnapshot() : snapshot;
+    if (needsServer && !data) return null;
+    const fileName = `${exportFileName(dataset)}.csv`;
+    downloadFile(fileName, await buildCsv(dataset, data), 'text/csv');
+    return fileName;
+  });
+
+  return (
+    <div className="mx-auto mt-2 px-2 w-full landscape:w-9/12">
+      <div className="mb-3 flex flex-wrap items-center justify-between gap-2">
+         <Button variant="secondary" type="button" onClick={() => navigate('/')} title="Dashboard">
+           <Home size={16} />
+         </Button>
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-panel border border-gray-300 dark:border-gray-600 overflow-hidden">
+        <div className="bg-gray-100 dark:bg-gray-700 px-4 py-2 border-b border-gray-300 dark:border-gray-600">
+          <h2 className="text-lg font-display font-bold text-gray-800 dark:text-gray-100 truncate">Export Database</h2>
+        </div>
+
+        <div className="p-4 space-y-4">
+          {statusMessage && (
+            <div className={`p-2 rounded border text-sm font-serif ${
+              statusMessage.type === 'success'
+                ? 'bg-green-50 border-green-300 text-green-800 dark:bg-green-900/30 dark:border-green-800 dark:text-green-300'
+                : 'bg-red-50 border-red-300 text-red-800 dark:bg-red-900/30 dark:border-red-800 dark:text-red-300'
+            }`}>
+              {statusMessage.text}
+            </div>
+          )}
+
+          <div>
+            <h3 className="flex items-center gap-2 text-sm font-bold font-display mb-2 text-gray-800 dark:text-gray-200">
+              <FileJson size={16} /> Full Backup
+            </h3>
+            <p className="mb-2 text-xs text-gray-500 dark:text-gray-400 font-serif">
+              Items, conditions, powers and players, plus the notes and drafts stored on this device, in one JSON file.
+            </p>
+            <Button type="button" onClick={exportJson} isLoading={busy === 'json'} disabled={busy !== null}>
+              <Download size={16} className="mr-2" /> Download JSON
+            </Button>
+          </div>
+
+          <div className="pt-4 border-t border-gray-200 dark:border-gray-700">
+            <h3 className="flex items-center gap-2 text-sm font-bold font-display mb-2 text-gray-800 dark:text-gray-200">
+              <FileSpreadsheet size={16} /> CSV per Dataset
+            </h3>
+            <p className="mb-2 text-xs text-gray-500 dark:text-gray-400 font-serif">
+              Spreadsheet-friendly files. Conditions and powers get one row per assigned player.
+            </p>
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+              {CSV_DATASETS.map(({ key, label }) => (
+                <Button
+                  key={key}
+                  type="button"
+                  variant="secondary"
+                  onClick={() => exportCsv(key)}
+                  isLoading={busy === key}
+                  disabled={busy !== null}
+                >
+                  <Download size={14} className="mr-2" /> {label}
+                </Button>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportData;
@@ -3,8 +3,13 @@ import { useNavigate, useLocation } from 'react-router-dom';
 import Input from '../components/ui/Input';
 import Button from '../components/ui/Button';
 import ConfirmModal from '../components/ui/ConfirmModal';
-import { searchConditionByCoin, updateCondition, getCharacterName } from '../services/api';
-import { saveStoredChange, deleteStoredChange } from '../services/offlineStorage';
+import ConflictModal, { ConflictState } from '../components/ConflictModal';
+import { searchConditionByCoin, getCharacterName } from '../services/api';
+import { saveStoredChange, deleteStoredChange, NewStoredChange } from '../services/offlineStorage';
+import { registerUnsavedForm } from '../services/unsavedForms';
+import { ConditionExtendData } from '../services/draftSchema';
+import { submitChange, QUEUED_MESSAGE } from '../services/outbox';
+import { addYearAndRound } from '../services/expiry';
 import { Condition } from '../types';
 import { Search, CalendarPlus, Home, ArrowLeft, Save, ChevronDown, CheckSquare, Square, X, FileText } from 'lucide-react';
 
@@ -38,6 +43,7 @@ const ExtendCondition: React.FC = () => {
   const [pendingAction, setPendingAction] = useState<(() => void) | null>(null);
   const [draftId, setDraftId] = useState<string | null>(() => location.state?.draftId || null);
   const [draftTimestamp, setDraftTimestamp] = useState<number | null>(() => location.state?.draftTimestamp || null);
+  const [conflict, setConflict] = useState<ConflictState<Condition> | null>(null);
 
   const [baselineJson, setBaselineJson] = useState('');
 
@@ -65,6 +71,11 @@ const ExtendCondition: React.FC = () => {
     return () => window.removeEventListener('beforeunload', handleBeforeUnload);
   }, [isUnsaved]);
 
+  // Kept as a draft if the session expires before the form is saved
+  useEffect(() => {
+    if (isUnsaved) return registerUnsavedForm(handleSaveDraft);
+  });
+
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
       if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
@@ -91,16 +102,13 @@ const ExtendCondition: React.FC = () => {
   useEffect(() => {
     if (location.state) {
         if (location.state.initialData) {
-             const { condition: savedCondition, expiryDate: savedExpiry, selectedPlins: savedPlins } = location.state.initialData;
+             const { condition: savedCondition, expiryDate: savedExpiry, selectedPlins: savedPlins } = location.state.initialData as ConditionExtendData;
              setCondition(savedCondition);
              setCoinSearch(savedCondition.coin);
              setExpiryDate(savedExpiry);
-             
-             // Safe default for potentially undefined array from old drafts
-             const safePlins = savedPlins || [];
-             setSelectedPlins(new Set(safePlins));
+             setSelectedPlins(new Set(savedPlins));
              setBaselineJson(JSON.stringify({
-                 selectedPlins: safePlins.sort(),
+                 selectedPlins: [...savedPlins].sort(),
                  expiryDate: savedExpiry
              }));
              if (location.state.draftId) setDraftId(location.state.draftId);
@@ -165,19 +173,21 @@ const ExtendCondition: React.FC = () => {
     }
   };
 
-  const handleSaveDraft = () => {
+  const toDraft = (base: Condition, id: string, timestamp: number): NewStoredChange => ({
+    id: id,
+    type: 'condition',
+    action: 'extend',
+    data: { condition: base, expiryDate, selectedPlins: Array.from(selectedPlins) },
+    timestamp: timestamp,
+    title: base.name || 'Unknown Condition',
+    subtitle: `Extend COIN: ${base.coin}`
+  });
+
+  const handleSaveDraft = async () => {
     if (!condition) return;
     const id = draftId || `draft-${Date.now()}`;
     const now = Date.now();
-    saveStoredChange({
-      id: id,
-      type: 'condition',
-      action: 'extend',
-      data: { condition, expiryDate, selectedPlins: Array.from(selectedPlins) },
-      timestamp: now,
-      title: condition.name || 'Unknown Condition',
-      subtitle: `Extend COIN: ${condition.coin}`
-    });
+    await saveStoredChange(toDraft(condition, id, now));
     setDraftId(id);
     setDraftTimestamp(now);
     setBaselineJson(getCurrentStateString()); 
@@ -245,25 +255,10 @@ const ExtendCondition: React.FC = () => {
   };
 
   const handleAddYearAndRound = () => {
-    if (!expiryDate || expiryDate === 'until death') return;
-    setStatusMessage(null); 
-    const parts = expiryDate.split('/');
-    if (parts.length !== 3) return;
-    const day = parseInt(parts[0], 10);
-    const month = parseInt(parts[1], 10) - 1; 
-    const year = parseInt(parts[2], 10);
-    const date = new Date(year, month, day);
-    if (isNaN(date.getTime())) return;
-    date.setFullYear(date.getFullYear() + 1);
-    if (date.getDate() !== 1) {
-        date.setDate(1);
-        date.setMonth(date.getMonth() + 1);
-    }
-    if (date.getFullYear() > 2100) return; 
-    const newDay = String(date.getDate()).padStart(2, '0');
-    const newMonth = String(date.getMonth() + 1).padStart(2, '0');
-    const newYear = date.getFullYear();
-    setExpiryDate(`${newDay}/${newMonth}/${newYear}`);
+    const next = addYearAndRound(expiryDate);
+    if (!next) return;
+    setStatusMessage(null);
+    setExpiryDate(next);
   };
 
   const validateExpiryDate = (val: string): string | null => {
@@ -290,25 +285,31 @@ const ExtendCondition: React.FC = () => {
     return expiry < today ? 'text-red-600 dark:text-red-400 font-bold' : 'text-green-600 dark:text-green-400';
   };
 
-  const executeUpdate = async () => {
+  // `base` is the record the change is applied to; after a merge it is the current server record
+  const executeUpdate = async (base: Condition = condition!) => {
     const newEffectiveExpiry = expiryDate.trim() === '' ? 'until death' : expiryDate;
     setIsUpdating(true);
     setStatusMessage(null);
     try {
-        const newAssignments = condition!.assignments.map(a => 
+        const newAssignments = base.assignments.map(a => 
             selectedPlins.has(a.plin) ? { ...a, expiryDate: newEffectiveExpiry } : a
         );
-        const result = await updateCondition(condition!.coin, { assignments: newAssignments });
-        if (result.success) {
+        const result = await submitChange<Condition>(
+            { type: 'condition', id: base.coin, changes: { assignments: newAssignments }, expectedVersion: base.version },
+            toDraft(base, draftId || `draft-${Date.now()}`, Date.now())
+        );
+        if (result.success || result.queued) {
         if (draftId) {
-            deleteStoredChange(draftId);
+            await deleteStoredChange(draftId);
             setDraftId(null);
             setDraftTimestamp(null);
         }
         const updatedPlins = Array.from(selectedPlins).join(', ');
-        setStatusMessage({ type: 'success', text: `Updated expiry for: ${updatedPlins}` });
-        setCondition({ ...condition!, assignments: newAssignments });
+        setStatusMessage({ type: 'success', text: result.queued ? QUEUED_MESSAGE : `Updated expiry for: ${updatedPlins}` });
+        setCondition(result.data || { ...base, assignments: newAssignments });
         setBaselineJson(getCurrentStateString()); 
+        } else if (result.status === 409 && result.conflict) {
+        setConflict({ base, current: result.conflict, pending: { ...base, assignments: newAssignments }, retry: executeUpdate });
         } else {
         setStatusMessage({ type: 'error', text: 'Failed.' });
         }
@@ -328,7 +329,8 @@ const ExtendCondition: React.FC = () => {
         return;
     }
 
-    if (draftId) {
+    // Drafts stored before records were versioned cannot be checked for conflicts
+    if (draftId && condition.version === undefined) {
         setConfirmTitle("Process Draft?");
         setConfirmMessage("The object may have been changed since this draft was stored. Proceed?");
         setConfirmLabel("Process");
@@ -350,6 +352,17 @@ const ExtendCondition: React.FC = () => {
     }
   };
 
+  const handleMergeConflict = () => {
+    if (!conflict) return;
+    setConflict(null);
+    conflict.retry(conflict.current);
+  };
+
+  const handleAbortConflict = () => {
+    setConflict(null);
+    setStatusMessage({ type: 'error', text: 'Update aborted. The record was not changed.' });
+  };
+
   const getAssignedPlayersDisplay = () => {
       if (!condition || !condition.assignments || condition.assignments.length === 0) return 'None';
       return condition.assignments.map(a => {
@@ -373,6 +386,13 @@ const ExtendCondition: React.FC = () => {
            setPendingAction(null);
          }}
       />
+
+      <ConflictModal
+         conflict={conflict}
+         onMerge={handleMergeConflict}
+         onAbort={handleAbortConflict}
+      />
+
       <div className="mb-3 flex flex-wrap items-center justify-between gap-2">
          <div className="flex gap-2">
             {(returnQuery || returnTo) && (
@@ -114,6 +114,7 @@ describe('ExtendPower Page', () => {
               }),
             ]),
           }),
+          { expectedVersion: undefined },
       );
     });
   });
@@ -0,0 +1,148 @@
+import { fireEvent, screen } from '@testing-library/react';
+import { describe, expect, test, jest, beforeEach } from '@jest/globals';
+import ImportData from './ImportData';
+// @ts-ignore – module is mocked below
+import * as api from '../services/api';
+import { Condition } from '../types';
+import { renderWithRouter } from '../testUtils';
+
+jest.mock('../services/api', () => ({
+  searchItemByItin: jest.fn(),
+  searchConditionByCoin: jest.fn(),
+  searchPowerByPoin: jest.fn(),
+  createItem: jest.fn(),
+  createCondition: jest.fn(),
+  createPower: jest.fn(),
+  updateItem: jest.fn(),
+  updateCondition: jest.fn(),
+  updatePower: jest.fn(),
+}));
+
+const mockNavigate = jest.fn();
+jest.mock('react-router-dom', () => ({
+  ...(jest.requireActual('react-router-dom') as any),
+  useNavigate: () => mockNavigate,
+}));
+
+const apiMock = api as jest.Mocked<typeof api>;
+
+const existingCondition: Condition = {
+  coin: '8001',
+  name: 'Radiation Poisoning',
+  description: 'Slow damage',
+  assignments: [{ plin: '1001#01', expiryDate: '01/01/2026' }],
+  version: 4,
+};
+
+const CONDITIONS_CSV = [
+  'Condition ID,Title,Text,Player,Until',
+  '8001,,,1002#01,01/06/2026',
+  ',Blessed,Holy light,1001#01,',
+  ',,,1003#01,',
+  ',Cursed,Dark,1001#1x,01/01/2030',
+].join('\n');
+
+describe('ImportData Page', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('maps columns, shows the dry-run report and imports valid records', async () => {
+    apiMock.searchConditionByCoin.mockResolvedValue({ success: true, data: existingCondition });
+    apiMock.updateCondition.mockResolvedValue({ success: false, error: 'Stale', status: 409 });
+    apiMock.createCondition.mockResolvedValue({ success: true, data: { ...existingCondition, coin: '8002' } });
+
+    renderWithRouter(<ImportData />, '/import');
+    fireEvent.click(screen.getByLabelText('Conditions'));
+    fireEvent.change(screen.getByLabelText('Import data'), { target: { value: CONDITIONS_CSV } });
+
+    expect(screen.getByText(/4 row\(s\) read/)).toBeTruthy();
+    // Headers that cannot be guessed are mapped by hand
+    fireEvent.change(screen.getByLabelText('COIN'), { target: { value: 'Condition ID' } });
+    fireEvent.change(screen.getByLabelText('Name'), { target: { value: 'Title' } });
+    fireEvent.change(screen.getByLabelText('Description'), { target: { value: 'Text' } });
+    fireEvent.change(screen.getByLabelText('Assignment Expiry'), { target: { value: 'Until' } });
+    expect((screen.getByLabelText('Assigned PLIN') as HTMLSelectElement).value).toBe('Player');
+
+    fireEvent.click(screen.getByText('Dry Run'));
+
+    expect(await screen.findByText('1 to create, 1 to update, 0 unchanged, 1 with errors.')).toBeTruthy();
+    expect(apiMock.searchConditionByCoin).toHaveBeenCalledWith('8001');
+    expect(screen.getByText(/Line 5: PLIN must be format 1234#12/)).toBeTruthy();
+
+    fireEvent.click(screen.getByText('Import 2 Record(s)'));
+    fireEvent.click(screen.getByText('Import'));
+
+    expect(await screen.findByText('1 created, 0 updated, 1 failed.')).toBeTruthy();
+    expect(apiMock.updateCondition).toHaveBeenCalledWith('8001', {
+      assignments: [
+        { plin: '1001#01', expiryDate: '01/01/2026' },
+        { plin: '1002#01', expiryDate: '01/06/2026' },
+      ],
+    }, { expectedVersion: 4 });
+    expect(apiMock.createCondition).toHaveBeenCalledWith({
+      name: 'Blessed',
+      description: 'Holy light',
+      assignments: [{ plin: '1001#01', expiryDate: 'until death' }, { plin: '1003#01', expiryDate: 'until death' }],
+    });
+    expect(screen.getByText('Created 8002')).toBeTruthy();
+    expect(screen.getByText('Changed by someone else. Run the dry run again.')).toBeTruthy();
+    expect(screen.getByText('Import 1 Record(s)')).toBeTruthy();
+  });
+
+  test('does not queue imports while the server cannot be reached', async () => {
+    apiMock.searchConditionByCoin.mockResolvedValue({ success: true, data: existingCondition });
+    apiMock.updateCondition.mockResolvedValue({ success: false, error: 'Service unavailable', status: 503 });
+
+    renderWithRouter(<ImportData />, '/import');
+    fireEvent.click(screen.getByLabelText('Conditions'));
+    fireEvent.change(screen.getByLabelText('Import data'), { target: { value: CONDITIONS_CSV } });
+    fireEvent.change(screen.getByLabelText('COIN'), { target: { value: 'Condition ID' } });
+    fireEvent.change(screen.getByLabelText('Name'), { target: { value: 'Title' } });
+    fireEvent.change(screen.getByLabelText('Description'), { target: { value: 'Text' } });
+    fireEvent.change(screen.getByLabelText('Assignment Expiry'), { target: { value: 'Until' } });
+    fireEvent.click(screen.getByText('Dry Run'));
+    await screen.findByText('1 to create, 1 to update, 0 unchanged, 1 with errors.');
+
+    // The first unreachable row stops the import
+    fireEvent.click(screen.getByText('Import 2 Record(s)'));
+    fireEvent.click(screen.getByText('Import'));
+    expect(await screen.findByText('0 created, 0 updated. The server could not be reached, the remaining rows were not sent.')).toBeTruthy();
+    expect(screen.getByText('Not sent')).toBeTruthy();
+    expect(apiMock.createCondition).not.toHaveBeenCalled();
+
+    const onLine = jest.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+    try {
+      apiMock.updateCondition.mockClear();
+      fireEvent.click(screen.getByText('Import 2 Record(s)'));
+      fireEvent.click(screen.getByText('Import'));
+      expect(screen.getByText('You are offline. Connect to import records.')).toBeTruthy();
+      expect(apiMock.updateCondition).not.toHaveBeenCalled();
+    } finally {
+      onLine.mockRestore();
+    }
+  });
+
+  test('reads an uploaded JSON file of items', async () => {
+    apiMock.searchItemByItin.mockResolvedValue({ success: false, error: 'Not found' });
+
+    renderWithRouter(<ImportData />, '/import');
+    const json = JSON.stringify([{ itin: '1500', name: 'Medigel', description: 'Healing', owner: '1001#01', expiryDate: '01/01/2030' }]);
+    const file = new File([json], 'items.json', { type: 'application/json' });
+    fireEvent.change(screen.getByLabelText('Import file'), { target: { files: [file] } });
+
+    expect(await screen.findByText('items.json')).toBeTruthy();
+    fireEvent.click(screen.getByText('Dry Run'));
+
+    expect(await screen.findByText('1 to create, 0 to update, 0 unchanged, 0 with errors.')).toBeTruthy();
+    expect(screen.getByText('Import 1 Record(s)')).toBeTruthy();
+  });
+
+  test('reports files that cannot be read', () => {
+    renderWithRouter(<ImportData />, '/import');
+    fireEvent.change(screen.getByLabelText('Import data'), { target: { value: '[{"itin": ' } });
+
+    expect(screen.getByText('The file is not valid JSON')).toBeTruthy();
+    expect(screen.queryByText('Dry Run')).toBeNull();
+  });
+});
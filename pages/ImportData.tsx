@@ -0,0 +1,359 @@
+import React, { useState, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import Button from '../components/ui/Button';
+import ConfirmModal from '../components/ui/ConfirmModal';
+import {
+  searchItemByItin, searchConditionByCoin, searchPowerByPoin,
+  createItem, createCondition, createPower, updateItem, updateCondition, updatePower
+} from '../services/api';
+import {
+  ImportTarget, ImportPlanRow, ColumnMapping, ImportField, IMPORT_FIELDS,
+  parseImportFile, guessMapping, buildImportRecords, planImport, fieldLabel
+} from '../services/dataImport';
+import { isUnreachable } from '../services/outbox';
+import { ApiResult, EntityType, Item, Condition, Power } from '../types';
+import { Home, Upload, FileSearch, Save, CheckCircle2, XCircle } from 'lucide-react';
+
+// Outcome of one written record
+type RowResult = { success: boolean, text: string };
+
+const TYPE_OPTIONS: { type: EntityType, label: string }[] = [
+  { type: 'item', label: 'Items' },
+  { type: 'condition', label: 'Conditions' },
+  { type: 'power', label: 'Powers' },
+];
+
+const ACTION_LABELS: Record<ImportPlanRow['action'], string> = {
+  create: 'Create',
+  update: 'Update',
+  unchanged: 'Unchanged',
+  error: 'Error',
+};
+
+const fetchExisting = (type: EntityType, id: string): Promise<ApiResult<ImportTarget>> => {
+  if (type === 'condition') return searchConditionByCoin(id);
+  if (type === 'power') return searchPowerByPoin(id);
+  return searchItemByItin(id);
+};
+
+/**
+ * Writes one planned record: creates go through the create calls (keeping an imported ID),
+ * updates send only the changed fields based on the version read during the dry run.
+ */
+const commitRow = (row: ImportPlanRow): Promise<ApiResult<ImportTarget>> => {
+  if (row.action === 'create') {
+    if (row.type === 'condition') return createCondition(row.payload as Omit<Condition, 'coin'>);
+    if (row.type === 'power') return createPower(row.payload as Omit<Power, 'poin'>);
+    return createItem(row.payload as Omit<Item, 'itin'>);
+  }
+  const options = { expectedVersion: row.existing?.version };
+  if (row.type === 'condition') return updateCondition(row.id!, row.payload as Partial<Condition>, options);
+  if (row.type === 'power') return updatePower(row.id!, row.payload as Partial<Power>, options);
+  return updateItem(row.id!, row.payload as Partial<Item>, options);
+};
+
+const rowKey = (row: ImportPlanRow) => row.lines.join(',');
+
+const describeRow = (row: ImportPlanRow): string => {
+  if (row.action === 'error') return row.errors.join('; ');
+  if (row.action === 'unchanged') return 'Already matches the file';
+  return Object.keys(row.payload || {}).filter(k => !['itin', 'coin', 'poin'].includes(k)).join(', ');
+};
+
+/**
+ * Import (/import).
+ * Reads a CSV or JSON file of Items, Conditions or Powers, maps its columns onto the record
+ * fields and shows a dry-run report of creates, updates and errors before anything is written.
+ * Conditions and powers take one assignment per row; rows sharing a COIN/POIN are combined.
+ */
+const ImportData: React.FC = () => {
+  const navigate = useNavigate();
+
+  const [entityType, setEntityType] = useState<EntityType>('item');
+  const [fileName, setFileName] = useState('');
+  const [source, setSource] = useState('');
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+
+  const [plan, setPlan] = useState<ImportPlanRow[] | null>(null);
+  const [isPlanning, setIsPlanning] = useState(false);
+  const [results, setResults] = useState<Record<string, RowResult>>({});
+  const [isImporting, setIsImporting] = useState(false);
+  const [statusMessage, setStatusMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null);
+  const [showConfirm, setShowConfirm] = useState(false);
+
+  const inputClasses = "w-full px-3 py-2 border rounded-md shadow-inner font-serif text-sm border-gray-300 focus:border-brand-primary focus:ring-1 focus:ring-brand-primary focus:outline-none bg-white text-gray-900 dark:bg-gray-900 dark:text-white dark:border-gray-600";
+
+  const parsed = useMemo(() => (source.trim() ? parseImportFile(source, fileName) : null), [source, fileName]);
+  const table = parsed?.success ? parsed.data : undefined;
+
+  // Any change to the input invalidates an earlier dry run
+  const resetReport = () => {
+    setPlan(null);
+    setResults({});
+    setStatusMessage(null);
+  };
+
+  const loadSource = (text: string, name: string, type: EntityType = entityType) => {
+    setSource(text);
+    setFileName(name);
+    const result = text.trim() ? parseImportFile(text, name) : null;
+    setMapping(result?.success && result.data ? guessMapping(type, result.data.headers) : {});
+    resetReport();
+  };
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => loadSource(String(reader.result || ''), file.name);
+    reader.onerror = () => setStatusMessage({ type: 'error', text: 'Could not read the file.' });
+    reader.readAsText(file);
+    e.target.value = '';
+  };
+
+  const changeType = (type: EntityType) => {
+    setEntityType(type);
+    if (table) setMapping(guessMapping(type, table.headers));
+    resetReport();
+  };
+
+  const changeMapping = (field: ImportField, header: string) => {
+    setMapping(prev => {
+      const { [field]: _removed, ...rest } = prev;
+      return header ? { ...rest, [field]: header } : rest;
+    });
+    resetReport();
+  };
+
+  const runDryRun = async () => {
+    if (!table) return;
+    setIsPlanning(true);
+    resetReport();
+    try {
+      const records = buildImportRecords(entityType, table, mapping);
+      const existing = new Map<string, ImportTarget>();
+      for (const record of records) {
+        if (!record.id || record.errors.length > 0) continue;
+        const result = await fetchExisting(entityType, record.id);
+        if (result.success && result.data) existing.set(record.id, result.data);
+      }
+      setPlan(planImport(entityType, records, existing));
+    } catch (err) {
+      setStatusMessage({ type: 'error', text: 'Dry run failed. Check your connection and try again.' });
+    } finally {
+      setIsPlanning(false);
+    }
+  };
+
+  const pendingRows = (plan || []).filter(row =>
+    (row.action === 'create' || row.action === 'update') && !results[rowKey(row)]?.success
+  );
+  const counts = (plan || []).reduce((acc, row) => ({ ...acc, [row.action]: acc[row.action] + 1 }),
+    { create: 0, update: 0, unchanged: 0, error: 0 } as Record<ImportPlanRow['action'], number>);
+
+  const executeImport = async () => {
+    // Imports are not queued in the outbox: a file's worth of changes replayed later
+    // against records that moved on would be hard to review
+    if (!navigator.onLine) {
+      setStatusMessage({ type: 'error', text: 'You are offline. Connect to import records.' });
+      return;
+    }
+    setIsImporting(true);
+    setStatusMessage(null);
+    let created = 0, updated = 0, failed = 0;
+    let unreachable = false;
+
+    for (const row of pendingRows) {
+      const key = rowKey(row);
+      let outcome: RowResult;
+      try {
+        const result = await commitRow(row);
+        if (isUnreachable(result)) {
+          unreachable = true;
+          outcome = { success: false, text: 'Not sent' };
+        } else if (result.success) {
+          if (row.action === 'create') created++; else updated++;
+          const data = result.data as ImportTarget | undefined;
+          const newId = data ? ('coin' in data ? data.coin : 'poin' in data ? data.poin : data.itin) : row.id;
+          outcome = { success: true, text: row.action === 'create' ? `Created ${newId || ''}`.trim() : 'Updated' };
+        } else if (result.status === 409) {
+          failed++;
+          outcome = { success: false, text: 'Changed by someone else. Run the dry run again.' };
+        } else {
+          failed++;
+          outcome = { success: false, text: result.error || 'Failed.' };
+        }
+      } catch (err) {
+        failed++;
+        outcome = { success: false, text: 'Error' };
+      }
+      setResults(prev => ({ ...prev, [key]: outcome }));
+      if (unreachable) break;
+    }
+
+    const summary = `${created} created, ${updated} updated`;
+    if (unreachable) {
+      setStatusMessage({ type: 'error', text: `${summary}. The server could not be reached, the remaining rows were not sent.` });
+      setIsImporting(false);
+      return;
+    }
+    setStatusMessage({
+      type: failed > 0 ? 'error' : 'success',
+      text: failed > 0 ? `${summary}, ${failed} failed.` : `${summary}.`,
+    });
+    setIsImporting(false);
+  };
+
+  return (
+    <div className="mx-auto mt-2 px-2 w-full landscape:w-9/12">
+      <ConfirmModal
+         isOpen={showConfirm}
+         onClose={() => setShowConfirm(false)}
+         title="Import Records?"
+         message={`You are about to write ${pendingRows.length} record(s). Rows with errors are skipped. Do you want to proceed?`}
+         confirmLabel="Import"
+         confirmVariant="primary"
+         onConfirm={() => {
+           setShowConfirm(false);
+           executeImport();
+         }}
+      />
+
+      <div className="mb-3 flex flex-wrap items-center justify-between gap-2">
+         <Button variant="secondary" type="button" onClick={() => navigate('/')} title="Dashboard">
+           <Home size={16} />
+         </Button>
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-panel border border-gray-300 dark:border-gray-600 overflow-hidden">
+        <div className="bg-gray-100 dark:bg-gray-700 px-4 py-2 border-b border-gray-300 dark:border-gray-600">
+          <h2 className="text-lg font-display font-bold text-gray-800 dark:text-gray-100 truncate">Import Records</h2>
+        </div>
+
+        <div className="p-4 space-y-4">
+          {statusMessage && (
+            <div className={`p-2 rounded border text-sm font-serif ${
+              statusMessage.type === 'success'
+                ? 'bg-green-50 border-green-300 text-green-800 dark:bg-green-900/30 dark:border-green-800 dark:text-green-300'
+                : 'bg-red-50 border-red-300 text-red-800 dark:bg-red-900/30 dark:border-red-800 dark:text-red-300'
+            }`}>
+              {statusMessage.text}
+            </div>
+          )}
+
+          {/* Source */}
+          <div className="flex flex-wrap gap-4 text-sm font-serif text-gray-800 dark:text-gray-200">
+            {TYPE_OPTIONS.map(option => (
+              <label key={option.type} className="flex items-center gap-2 cursor-pointer">
+                <input type="radio" name="import-type" checked={entityType === option.type} onChange={() => changeType(option.type)} />
+                {option.label}
+              </label>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <label className="inline-flex items-center gap-2 px-3 py-2 rounded-md border border-gray-300 dark:border-gray-600 text-sm font-serif cursor-pointer text-gray-800 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700">
+              <Upload size={16} /> Choose CSV or JSON file
+              <input type="file" accept=".csv,.json,text/csv,application/json" className="hidden" onChange={handleFile} aria-label="Import file" />
+            </label>
+            {fileName && <span className="ml-2 text-xs font-mono text-gray-500">{fileName}</span>}
+            <textarea
+              className={`${inputClasses} font-mono text-xs`}
+              rows={6}
+              value={source}
+              onChange={(e) => loadSource(e.target.value, '')}
+              placeholder={'Or paste CSV / JSON here, e.g.\nITIN,Name,Description,Owner,Expiry Date'}
+              aria-label="Import data"
+            />
+            {parsed && !parsed.success && (
+              <p className="text-xs text-red-600 dark:text-red-400 font-serif">{parsed.error}</p>
+            )}
+          </div>
+
+          {/* Column mapping */}
+          {table && (
+            <div className="p-4 rounded-lg bg-gray-50 dark:bg-gray-700/30 border border-gray-200 dark:border-gray-700">
+              <p className="mb-3 text-xs text-gray-500 dark:text-gray-400 font-serif">
+                {table.rows.length} row(s) read. {entityType === 'item'
+                  ? 'Leave the ITIN empty to allocate a new one.'
+                  : 'Each row adds one assignment; rows with the same ID (or without ID and name) belong to the record above.'}
+              </p>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                {IMPORT_FIELDS.map(field => (
+                  <label key={field} className="text-xs font-bold font-serif text-gray-700 dark:text-gray-300">
+                    {fieldLabel(entityType, field)}
+                    <select
+                      className={`${inputClasses} mt-1 font-normal`}
+                      value={mapping[field] || ''}
+                      onChange={(e) => changeMapping(field, e.target.value)}
+                    >
+                      <option value="">Not imported</option>
+                      {table.headers.map(header => <option key={header} value={header}>{header}</option>)}
+                    </select>
+                  </label>
+                ))}
+              </div>
+              <div className="mt-4 flex justify-end">
+                <Button type="button" variant="secondary" onClick={runDryRun} isLoading={isPlanning}>
+                  <FileSearch size={16} className="mr-2" /> Dry Run
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {/* Dry-run report */}
+          {plan && (
+            <div className="space-y-2">
+              <p className="text-sm font-serif text-gray-800 dark:text-gray-200">
+                {counts.create} to create, {counts.update} to update, {counts.unchanged} unchanged, {counts.error} with errors.
+              </p>
+              <div className="overflow-x-auto">
+                <table className="w-full text-xs font-serif border-collapse">
+                  <thead>
+                    <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                      <th className="py-1 pr-2">Line</th>
+                      <th className="py-1 pr-2">{fieldLabel(entityType, 'id')}</th>
+                      <th className="py-1 pr-2">Name</th>
+                      <th className="py-1 pr-2">Action</th>
+                      <th className="py-1 pr-2">Details</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {plan.map(row => {
+                      const result = results[rowKey(row)];
+                      return (
+                        <tr key={rowKey(row)} className="border-b border-gray-100 dark:border-gray-700 text-gray-800 dark:text-gray-200 align-top">
+                          <td className="py-1 pr-2 font-mono">{row.lines.join(', ')}</td>
+                          <td className="py-1 pr-2 font-mono">{row.id || 'New'}</td>
+                          <td className="py-1 pr-2 font-bold">{row.name}</td>
+                          <td className={`py-1 pr-2 ${row.action === 'error' ? 'text-red-600 dark:text-red-400' : ''}`}>{ACTION_LABELS[row.action]}</td>
+                          <td className="py-1 pr-2">
+                            {result ? (
+                              <span className={`flex items-center gap-1 ${result.success ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                                {result.success ? <CheckCircle2 size={12} /> : <XCircle size={12} />} {result.text}
+                              </span>
+                            ) : (
+                              <span className={row.action === 'error' ? 'text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'}>{describeRow(row)}</span>
+                            )}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          <div className="pt-4 border-t border-gray-200 dark:border-gray-700 flex justify-end gap-2">
+            <Button type="button" onClick={() => setShowConfirm(true)} isLoading={isImporting} disabled={pendingRows.length === 0}>
+              <Save size={16} className="mr-2" /> Import {pendingRows.length} Record(s)
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportData;
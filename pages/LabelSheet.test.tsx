@@ -0,0 +1,105 @@
+import { fireEvent, screen, act } from '@testing-library/react';
+import { describe, expect, test, jest, beforeEach } from '@jest/globals';
+import LabelSheet from './LabelSheet';
+// @ts-ignore – module is mocked below
+import * as api from '../services/api';
+import { Item, Condition } from '../types';
+import { renderWithRouter } from '../testUtils';
+
+jest.mock('../services/api', () => ({
+  searchItemByItin: jest.fn(),
+  searchConditionByCoin: jest.fn(),
+  searchPowerByPoin: jest.fn(),
+}));
+
+const mockNavigate = jest.fn();
+jest.mock('react-router-dom', () => ({
+  ...(jest.requireActual('react-router-dom') as any),
+  useNavigate: () => mockNavigate,
+}));
+
+const apiMock = api as jest.Mocked<typeof api>;
+
+const mockItem: Item = {
+  itin: '1001',
+  name: 'Plasma Rifle',
+  description: '',
+  owner: '1001#01',
+  expiryDate: '15/05/2025',
+};
+
+const mockCondition: Condition = {
+  coin: '8001',
+  name: 'Radiation <Poisoning>',
+  description: '',
+  assignments: [{ plin: '1001#01', expiryDate: '01/01/2026' }],
+};
+
+describe('LabelSheet Page', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('previews the selected records and prints the sheet', async () => {
+    const printWindow = { document: { open: jest.fn(), write: jest.fn(), close: jest.fn() }, focus: jest.fn(), print: jest.fn() };
+    const openSpy = jest.spyOn(window, 'open').mockReturnValue(printWindow as unknown as Window);
+
+    const { container } = renderWithRouter(<LabelSheet />, '/labels', { targets: [mockItem, mockCondition], returnQuery: 'q=1001' });
+
+    expect(screen.getByText('2 Label(s)')).toBeTruthy();
+    expect(screen.getByText('ITIN 1001')).toBeTruthy();
+    expect(screen.getByText('Exp. 01/01/2026')).toBeTruthy();
+    expect(container.querySelectorAll('svg path[fill="#000000"]').length).toBeGreaterThanOrEqual(2);
+
+    await act(async () => {
+      fireEvent.click(screen.getByText('Print Sheet'));
+    });
+    const html = printWindow.document.write.mock.calls[0][0] as string;
+    expect(html).toContain('ITIN 1001');
+    expect(html).toContain('Radiation &lt;Poisoning&gt;');
+    expect(printWindow.print).toHaveBeenCalled();
+
+    openSpy.mockReturnValue(null);
+    fireEvent.click(screen.getByText('Print Sheet'));
+    expect(await screen.findByText('Pop-up blocked. Allow pop-ups to print the labels.')).toBeTruthy();
+    openSpy.mockRestore();
+  });
+
+  test('adds records by ID and removes them again', async () => {
+    apiMock.searchConditionByCoin.mockResolvedValue({ success: true, data: mockCondition });
+    apiMock.searchItemByItin.mockResolvedValue({ success: false, error: 'Not found' });
+
+    renderWithRouter(<LabelSheet />, '/labels');
+    expect(screen.getByText(/No labels yet/)).toBeTruthy();
+
+    fireEvent.change(screen.getByPlaceholderText('ITIN 1234 / COIN 8001 / POIN 5001'), { target: { value: 'COIN 8001' } });
+    await act(async () => {
+      fireEvent.click(screen.getByTitle('Add'));
+    });
+    expect(apiMock.searchConditionByCoin).toHaveBeenCalledWith('8001');
+    expect(screen.getByText('COIN 8001')).toBeTruthy();
+
+    fireEvent.change(screen.getByPlaceholderText('ITIN 1234 / COIN 8001 / POIN 5001'), { target: { value: 'ITIN 1999' } });
+    await act(async () => {
+      fireEvent.click(screen.getByTitle('Add'));
+    });
+    expect(screen.getByText('ITIN 1999 not found.')).toBeTruthy();
+
+    fireEvent.click(screen.getByTitle('Remove COIN 8001'));
+    expect(screen.getByText(/No labels yet/)).toBeTruthy();
+  });
+
+  test('adds a scanned code and hands the list to the scanner', async () => {
+    apiMock.searchItemByItin.mockResolvedValue({ success: true, data: mockItem });
+
+    await act(async () => {
+      renderWithRouter(<LabelSheet />, '/labels', { targets: [mockCondition], scanned: { type: 'item', id: '1001' } });
+    });
+    expect(screen.getByText('ITIN 1001')).toBeTruthy();
+
+    fireEvent.click(screen.getByTitle('Scan to add'));
+    expect(mockNavigate).toHaveBeenCalledWith('/scan', {
+      state: { collectFor: '/labels', targets: [mockCondition, mockItem], returnQuery: undefined },
+    });
+  });
+});
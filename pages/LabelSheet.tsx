@@ -0,0 +1,180 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate, useLocation } from 'react-router-dom';
+import Input from '../components/ui/Input';
+import Button from '../components/ui/Button';
+import { searchItemByItin, searchConditionByCoin, searchPowerByPoin } from '../services/api';
+import { BulkTarget, parseTargetRef, targetKey } from '../services/bulkUpdate';
+import { ID_RANGES } from '../services/idAllocator';
+import { labelFor, labelQrSvg, printLabels, LABELS_PER_SHEET } from '../services/labels';
+import { ApiResult, EntityType } from '../types';
+import { Home, ArrowLeft, Plus, QrCode, X, Printer } from 'lucide-react';
+
+const fetchTarget = (type: EntityType, id: string): Promise<ApiResult<BulkTarget>> => {
+  if (type === 'condition') return searchConditionByCoin(id);
+  if (type === 'power') return searchPowerByPoin(id);
+  return searchItemByItin(id);
+};
+
+/**
+ * Label sheet (/labels).
+ * Collects records from Dashboard multi-select (`state.targets`), the scanner (`state.scanned`)
+ * or by ID, previews them on an A4 grid and prints QR labels with name, ID and expiry.
+ */
+const LabelSheet: React.FC = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const returnQuery = location.state?.returnQuery;
+
+  const [targets, setTargets] = useState<BulkTarget[]>(() => location.state?.targets || []);
+  const [refInput, setRefInput] = useState('');
+  const [addError, setAddError] = useState('');
+  const [isAdding, setIsAdding] = useState(false);
+  const [printError, setPrintError] = useState('');
+
+  const addTarget = async (type: EntityType, id: string) => {
+    setAddError('');
+    const label = ID_RANGES[type].label;
+    if (targets.some(t => targetKey(t) === `${type}:${id}`)) {
+      setAddError(`${label} ${id} is already on the sheet.`);
+      return;
+    }
+    setIsAdding(true);
+    try {
+      const result = await fetchTarget(type, id);
+      if (result.success && result.data) {
+        const found = result.data;
+        setTargets(prev => prev.some(t => targetKey(t) === targetKey(found)) ? prev : [...prev, found]);
+        setRefInput('');
+      } else {
+        setAddError(`${label} ${id} not found.`);
+      }
+    } catch (err) {
+      setAddError('Error');
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  // Coming back from the scanner with a freshly scanned code
+  useEffect(() => {
+    const scanned = location.state?.scanned;
+    if (scanned) addTarget(scanned.type, scanned.id);
+  }, []);
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    const ref = parseTargetRef(refInput);
+    if (!ref) {
+      setAddError('Enter e.g. ITIN 1234, COIN 8001 or POIN 5001.');
+      return;
+    }
+    addTarget(ref.type, ref.id);
+  };
+
+  const handlePrint = async () => {
+    setPrintError('');
+    setPrintError(await printLabels(targets.map(labelFor)) || '');
+  };
+
+  const labels = targets.map(labelFor);
+  const sheetCount = Math.ceil(labels.length / LABELS_PER_SHEET);
+
+  return (
+    <div className="mx-auto mt-2 px-2 w-full landscape:w-9/12">
+      <div className="mb-3 flex flex-wrap items-center justify-between gap-2">
+         <div className="flex gap-2">
+            {returnQuery && (
+              <Button variant="secondary" type="button" onClick={() => navigate(`/?${returnQuery}`)} title="Back">
+                <ArrowLeft size={16} />
+              </Button>
+            )}
+            <Button variant="secondary" type="button" onClick={() => navigate('/')} title="Dashboard">
+              <Home size={16} />
+            </Button>
+         </div>
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-panel border border-gray-300 dark:border-gray-600 overflow-hidden">
+        <div className="bg-gray-100 dark:bg-gray-700 px-4 py-2 border-b border-gray-300 dark:border-gray-600 flex justify-between items-center gap-2">
+          <h2 className="text-lg font-display font-bold text-gray-800 dark:text-gray-100 truncate">Label Sheet</h2>
+          <span className="text-xs text-gray-500 dark:text-gray-400 shrink-0">
+            {labels.length} Label(s){sheetCount > 1 ? `, ${sheetCount} Sheets` : ''}
+          </span>
+        </div>
+
+        <div className="p-4 space-y-4">
+          {printError && (
+            <div className="p-2 rounded border text-sm font-serif bg-red-50 border-red-300 text-red-800 dark:bg-red-900/30 dark:border-red-800 dark:text-red-300">
+              {printError}
+            </div>
+          )}
+
+          <form onSubmit={handleAdd} className="flex gap-2 items-end">
+            <div className="flex-1 min-w-0">
+              <Input
+                label="Add by ID"
+                value={refInput}
+                onChange={(e) => setRefInput(e.target.value)}
+                placeholder="ITIN 1234 / COIN 8001 / POIN 5001"
+                error={addError}
+                className="mb-0"
+              />
+            </div>
+            <div className="flex gap-2 mb-4">
+              <Button type="submit" isLoading={isAdding} disabled={!refInput.trim()} title="Add">
+                <Plus size={16} />
+              </Button>
+              <Button
+                type="button"
+                variant="secondary"
+                onClick={() => navigate('/scan', { state: { collectFor: '/labels', targets, returnQuery } })}
+                title="Scan to add"
+              >
+                <QrCode size={16} />
+              </Button>
+            </div>
+          </form>
+
+          {labels.length === 0 ? (
+            <p className="p-6 text-center text-sm text-gray-500 dark:text-gray-400 font-serif italic">
+              No labels yet. Select results on the Dashboard, scan codes or add IDs above.
+            </p>
+          ) : (
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+              {labels.map(label => {
+                const key = `${label.type}:${label.id}`;
+                const idText = `${ID_RANGES[label.type].label} ${label.id}`;
+                return (
+                  <div key={key} className="relative flex items-center gap-2 p-2 border border-dashed border-gray-300 dark:border-gray-600 rounded bg-white">
+                    <div className="w-16 h-16 shrink-0" dangerouslySetInnerHTML={{ __html: labelQrSvg(label) }} />
+                    <div className="min-w-0 text-gray-900">
+                      <div className="font-serif font-bold text-xs leading-tight line-clamp-2">{label.name}</div>
+                      <div className="font-mono text-[10px]">{idText}</div>
+                      {label.expiry && <div className="font-serif text-[10px]">Exp. {label.expiry}</div>}
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => setTargets(prev => prev.filter(t => targetKey(t) !== key))}
+                      className="absolute top-1 right-1 text-gray-400 hover:text-red-500"
+                      title={`Remove ${idText}`}
+                    >
+                      <X size={12} />
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          <div className="pt-4 border-t border-gray-200 dark:border-gray-700 flex justify-end gap-2">
+            <Button type="button" onClick={handlePrint} disabled={labels.length === 0}>
+              <Printer size={16} className="mr-2" /> Print Sheet
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LabelSheet;
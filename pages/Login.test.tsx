@@ -8,7 +8,7 @@ import { ThemeContext } from '../App';
 
 jest.mock('../services/auth', () => ({
   authService: {
-    getGoogleAuthUrl: jest.fn(),
+    getAuthorizationUrl: jest.fn(),
   },
 }));
 
@@ -60,24 +60,45 @@ describe('Login Page', () => {
     expect(getByText('Sign in with Google')).toBeTruthy();
   });
 
+  test('shows why the previous session ended', () => {
+    const { getByRole } = renderWithContext(<Login notice="Your session has expired. Please sign in again." />);
+
+    expect(getByRole('status').textContent).toBe('Your session has expired. Please sign in again.');
+  });
+
   test('navigates to auth url on click', () => {
     const mockAuthUrl = '/auth/callback?code=mock';
 
-    const getGoogleAuthUrlMock =
-        authService.getGoogleAuthUrl as jest.MockedFunction<
-            typeof authService.getGoogleAuthUrl
+    const getAuthorizationUrlMock =
+        authService.getAuthorizationUrl as jest.MockedFunction<
+            typeof authService.getAuthorizationUrl
         >;
 
-    getGoogleAuthUrlMock.mockReturnValue(mockAuthUrl);
+    getAuthorizationUrlMock.mockReturnValue(mockAuthUrl);
 
     const { getByText } = renderWithContext(<Login />);
 
     fireEvent.click(getByText('Sign in with Google'));
 
-    expect(authService.getGoogleAuthUrl).toHaveBeenCalled();
+    expect(authService.getAuthorizationUrl).toHaveBeenCalled();
     expect(mockNavigate).toHaveBeenCalledWith(mockAuthUrl);
   });
 
+  test('leaves the app for an external provider', () => {
+    const assign = jest.fn();
+    const originalLocation = window.location;
+    Object.defineProperty(window, 'location', { configurable: true, value: { ...originalLocation, assign } });
+    (authService.getAuthorizationUrl as jest.MockedFunction<typeof authService.getAuthorizationUrl>)
+        .mockReturnValue('https://id.example.org/authorize?state=abc');
+
+    const { getByText } = renderWithContext(<Login />);
+    fireEvent.click(getByText('Sign in with Google'));
+
+    expect(assign).toHaveBeenCalledWith('https://id.example.org/authorize?state=abc');
+    expect(mockNavigate).not.toHaveBeenCalled();
+    Object.defineProperty(window, 'location', { configurable: true, value: originalLocation });
+  });
+
   test('cycles theme on button click (light → dark)', () => {
     const mockSetTheme = jest.fn();
 
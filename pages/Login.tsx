@@ -5,23 +5,32 @@ import { ThemeContext } from '../App';
 import { Sun, Moon, Laptop } from 'lucide-react';
 import Logo from '../components/Logo';
 
+interface LoginProps {
+  // Why the previous session ended, e.g. it expired
+  notice?: string | null;
+}
+
 /**
  * Login Page
  *
  * Entry point for unauthenticated users.
  * It initiates the OAuth flow by redirecting to the provider's URL.
  */
-const Login: React.FC = () => {
+const Login: React.FC<LoginProps> = ({ notice }) => {
   const navigate = useNavigate();
   const { theme, setTheme } = useContext(ThemeContext);
 
   const handleGoogleLogin = () => {
-    // Get the Auth URL. In a real app, this is an external Google URL.
-    // Here, our mock service returns a local path to /auth/callback with fake params.
-    const authUrl = authService.getGoogleAuthUrl();
+    // The provider's authorization endpoint, or a local path to /auth/callback
+    // when the stand-in provider is configured
+    const authUrl = authService.getAuthorizationUrl();
 
-    // Redirect the user to initiate the flow
-    navigate(authUrl);
+    if (/^https?:\/\//.test(authUrl)) {
+      // Leaves the app; the provider redirects back to /auth/callback
+      window.location.assign(authUrl);
+    } else {
+      navigate(authUrl);
+    }
   };
 
   const cycleTheme = () => {
@@ -59,6 +68,12 @@ const Login: React.FC = () => {
           <h1 className="text-2xl font-display font-bold text-gray-800 dark:text-white mb-2">VoidDex</h1>
           <p className="text-gray-500 dark:text-gray-400 mb-6 font-serif text-sm">Sign in to manage inventory.</p>
 
+          {notice && (
+            <p className="mb-4 p-2 rounded bg-yellow-50 border border-yellow-300 text-yellow-800 dark:bg-yellow-900/30 dark:border-yellow-800 dark:text-yellow-300 text-sm font-serif" role="status">
+              {notice}
+            </p>
+          )}
+
           <button
               onClick={handleGoogleLogin}
               className="w-full flex items-center justify-center gap-3 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-600 text-gray-700 dark:text-white font-medium py-2 px-4 rounded-lg transition-all duration-200 shadow-sm font-serif text-sm"
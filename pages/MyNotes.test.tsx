@@ -62,26 +62,27 @@ describe('MyNotes Page', () => {
   });
 
   test('renders empty state when there are no notes', () => {
-    offlineMock.getNotes.mockReturnValue([]);
+    offlineMock.getNotes.mockResolvedValue([]);
 
     const { getByText } = renderWithRouter(<MyNotes />, '/my-notes');
 
     expect(getByText("You haven't created any notes yet.")).toBeTruthy();
   });
 
-  test('renders list of notes and shows pinned note', () => {
-    offlineMock.getNotes.mockReturnValue(mockNotes);
+  test('renders list of notes and shows pinned note', async () => {
+    offlineMock.getNotes.mockResolvedValue(mockNotes);
 
-    const { getByText } = renderWithRouter(<MyNotes />, '/my-notes');
+    const { findByText } = renderWithRouter(<MyNotes />, '/my-notes');
 
     // Pinned note should be present and (by component logic) sorted to the top
-    expect(getByText('Gamma Note')).toBeTruthy();
+    expect(await findByText('Gamma Note')).toBeTruthy();
   });
 
-  test('toggles sorting order by title while keeping pinned notes on top', () => {
-    offlineMock.getNotes.mockReturnValue(mockNotes);
+  test('toggles sorting order by title while keeping pinned notes on top', async () => {
+    offlineMock.getNotes.mockResolvedValue(mockNotes);
 
-    const { getByText, getAllByText } = renderWithRouter(<MyNotes />, '/my-notes');
+    const { getByText, getAllByText, findByText } = renderWithRouter(<MyNotes />, '/my-notes');
+    await findByText('Alpha Note');
 
     const titleSortBtn = getByText('Title', { selector: 'button' });
     fireEvent.click(titleSortBtn); // Switch to TITLE sort (ASC)
@@ -93,13 +94,13 @@ describe('MyNotes Page', () => {
     expect(visibleNotes.some(el => el.textContent?.includes('Gamma Note'))).toBeTruthy();
   });
 
-  test('toggles pin status and persists via saveNote', () => {
-    offlineMock.getNotes.mockReturnValue(mockNotes);
+  test('toggles pin status and persists via saveNote', async () => {
+    offlineMock.getNotes.mockResolvedValue(mockNotes);
 
-    const { getAllByTitle } = renderWithRouter(<MyNotes />, '/my-notes');
+    const { findAllByTitle } = renderWithRouter(<MyNotes />, '/my-notes');
 
     // Initially all notes except one are unpinned; component uses title "Pin" for pin button
-    const pinButtons = getAllByTitle('Pin');
+    const pinButtons = await findAllByTitle('Pin');
     expect(pinButtons.length).toBeGreaterThan(0);
 
     fireEvent.click(pinButtons[0]);
@@ -111,10 +112,11 @@ describe('MyNotes Page', () => {
     );
   });
 
-  test('filters notes by ITIN linkedId', () => {
-    offlineMock.getNotes.mockReturnValue(mockNotes);
+  test('filters notes by ITIN linkedId', async () => {
+    offlineMock.getNotes.mockResolvedValue(mockNotes);
 
-    const { getByText, queryByText } = renderWithRouter(<MyNotes />, '/my-notes');
+    const { getByText, queryByText, findByText } = renderWithRouter(<MyNotes />, '/my-notes');
+    await findByText('Beta Note');
 
     fireEvent.click(getByText('ITIN'));
 
@@ -125,7 +127,7 @@ describe('MyNotes Page', () => {
   });
 
   test('navigates to create note when New Note is clicked', () => {
-    offlineMock.getNotes.mockReturnValue([]);
+    offlineMock.getNotes.mockResolvedValue([]);
 
     const { getByTitle } = renderWithRouter(<MyNotes />, '/my-notes');
 
@@ -134,12 +136,12 @@ describe('MyNotes Page', () => {
     expect(mockNavigate).toHaveBeenCalledWith('/create-note');
   });
 
-  test('opens note detail on card click', () => {
-    offlineMock.getNotes.mockReturnValue(mockNotes);
+  test('opens note detail on card click', async () => {
+    offlineMock.getNotes.mockResolvedValue(mockNotes);
 
-    const { getByText } = renderWithRouter(<MyNotes />, '/my-notes');
+    const { findByText } = renderWithRouter(<MyNotes />, '/my-notes');
 
-    fireEvent.click(getByText('Alpha Note'));
+    fireEvent.click(await findByText('Alpha Note'));
 
     expect(mockNavigate).toHaveBeenCalledWith(
         '/create-note',
@@ -149,12 +151,12 @@ describe('MyNotes Page', () => {
     );
   });
 
-  test('handles single deletion with confirmation', () => {
-    offlineMock.getNotes.mockReturnValue(mockNotes);
+  test('handles single deletion with confirmation', async () => {
+    offlineMock.getNotes.mockResolvedValue(mockNotes);
 
-    const { getAllByTitle, getByText } = renderWithRouter(<MyNotes />, '/my-notes');
+    const { findAllByTitle, getByText } = renderWithRouter(<MyNotes />, '/my-notes');
 
-    const deleteBtns = getAllByTitle('Delete Note');
+    const deleteBtns = await findAllByTitle('Delete Note');
     fireEvent.click(deleteBtns[0]);
 
     expect(getByText('Delete Note?')).toBeTruthy();
@@ -164,12 +166,12 @@ describe('MyNotes Page', () => {
     expect(offlineMock.deleteNote).toHaveBeenCalled();
   });
   test('handles bulk selection via long-press and bulk deletion', async () => {
-    offlineMock.getNotes.mockReturnValue(mockNotes);
-    jest.useFakeTimers();
+    offlineMock.getNotes.mockResolvedValue(mockNotes);
 
-    const { getByText } = renderWithRouter(<MyNotes />, '/my-notes');
+    const { getByText, findByText } = renderWithRouter(<MyNotes />, '/my-notes');
 
-    const alphaTitle = getByText('Alpha Note');
+    const alphaTitle = await findByText('Alpha Note');
+    jest.useFakeTimers();
     // The interactive card itself has the "flex-1" class
     const touchTarget = alphaTitle.closest('div.flex-1') as HTMLElement | null;
     if (!touchTarget) throw new Error('Touch target not found');
@@ -197,21 +199,21 @@ describe('MyNotes Page', () => {
     const confirmBtn = getByText(/Delete 1 Notes/i);
     fireEvent.click(confirmBtn);
 
-    expect(offlineMock.deleteNote).toHaveBeenCalledWith('note-1');
-
     jest.useRealTimers();
+    await waitFor(() => expect(offlineMock.deleteNote).toHaveBeenCalledWith('note-1'));
   });
 
 
   test('clicking an ITIN link badge attempts to resolve the object via API', async () => {
-    offlineMock.getNotes.mockReturnValue(mockNotes);
+    offlineMock.getNotes.mockResolvedValue(mockNotes);
 
     apiMock.searchItemByItin.mockResolvedValue({
       success: true,
       data: { itin: '1234', name: 'Linked Item' },
     } as any);
 
-    const { getByText } = renderWithRouter(<MyNotes />, '/my-notes');
+    const { getByText, findByText } = renderWithRouter(<MyNotes />, '/my-notes');
+    await findByText('Alpha Note');
 
     // ITIN badge gets truncated to something like "ITIN 1234", so we query by "ITIN"
     const itinFilterChip = getByText('ITIN');
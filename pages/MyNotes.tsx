@@ -4,6 +4,7 @@ import { Home, StickyNote, Trash2, ExternalLink, User, Copy, ArrowUpAZ, ArrowDow
 import Button from '../components/ui/Button';
 import ConfirmModal from '../components/ui/ConfirmModal';
 import { getNotes, deleteNote, saveNote } from '../services/offlineStorage';
+import { subscribeToTabChanges } from '../services/tabSync';
 import { searchItemByItin, searchConditionByCoin, searchPowerByPoin } from '../services/api';
 import { Note } from '../types';
 
@@ -36,7 +37,10 @@ const MyNotes: React.FC = () => {
   const isSelectionMode = selectedIds.size > 0;
 
   useEffect(() => {
-    setNotes(getNotes());
+    const loadNotes = () => getNotes().then(setNotes);
+    loadNotes();
+    // Notes saved or removed in another tab
+    return subscribeToTabChanges('notes', loadNotes);
   }, []);
 
   const filteredAndSortedNotes = useMemo(() => {
@@ -86,19 +90,19 @@ const MyNotes: React.FC = () => {
     setNoteToDelete(note);
   };
 
-  const togglePin = (e: React.MouseEvent, note: Note) => {
+  const togglePin = async (e: React.MouseEvent, note: Note) => {
       e.stopPropagation();
       const updatedNote = { ...note, isPinned: !note.isPinned };
-      saveNote(updatedNote);
+      await saveNote(updatedNote);
       // Refresh list
-      setNotes(getNotes());
+      setNotes(await getNotes());
   };
 
-  const confirmDelete = () => {
+  const confirmDelete = async () => {
     if (noteToDelete) {
-      deleteNote(noteToDelete.id);
-      setNotes(getNotes());
       setNoteToDelete(null);
+      await deleteNote(noteToDelete.id);
+      setNotes(await getNotes());
     }
   };
 
@@ -116,9 +120,9 @@ const MyNotes: React.FC = () => {
       setSelectedIds(new Set());
   };
 
-  const confirmBulkDelete = () => {
-      selectedIds.forEach(id => deleteNote(id));
-      setNotes(getNotes());
+  const confirmBulkDelete = async () => {
+      await deleteNote(...selectedIds);
+      setNotes(await getNotes());
       setSelectedIds(new Set());
       setShowBulkDeleteConfirm(false);
       setStatusMessage({ type: 'success', text: 'Selected notes deleted.' });
@@ -0,0 +1,225 @@
+import { render, fireEvent, screen, waitFor } from '@testing-library/react';
+import { MemoryRouter, Routes, Route } from 'react-router-dom';
+import { describe, expect, test, jest, beforeEach } from '@jest/globals';
+import PlayerProfile from './PlayerProfile';
+// @ts-ignore – module is mocked below
+import * as api from '../services/api';
+import { AuthContext } from '../App';
+import { TEST_USER } from '../testUtils';
+import { Player, PlayerAssets, User } from '../types';
+
+jest.mock('../services/api', () => ({
+  searchPlayerByPlin: jest.fn(),
+  getPlayerAssets: jest.fn(),
+  createPlayer: jest.fn(),
+  updatePlayer: jest.fn(),
+  markPlayerDeceased: jest.fn(),
+}));
+
+const mockNavigate = jest.fn();
+jest.mock('react-router-dom', () => ({
+  ...(jest.requireActual('react-router-dom') as any),
+  useNavigate: () => mockNavigate,
+}));
+
+const apiMock = api as jest.Mocked<typeof api>;
+
+const mockPlayer: Player = {
+  plin: '1001#01',
+  characterName: 'Commander Shepherd',
+  playerName: 'Anna de Vries',
+  status: 'alive',
+  notes: 'Team lead',
+  version: 3,
+};
+
+const mockAssets: PlayerAssets = {
+  items: [{ itin: '1001', name: 'Plasma Rifle', description: '', owner: '1001#01', expiryDate: '01/01/2000' }],
+  conditions: [{
+    coin: '8001',
+    name: 'Radiation Poisoning',
+    description: '',
+    assignments: [{ plin: '5555#55', expiryDate: '01/01/2099' }, { plin: '1001#01', expiryDate: 'until death' }],
+  }],
+  powers: [],
+};
+
+const renderProfile = (plin = '1001#01', user: User = TEST_USER) => render(
+  <AuthContext.Provider value={{ user, token: 'test-token', login: () => {}, logout: () => {}, lock: () => {} }}>
+    <MemoryRouter initialEntries={[`/players/${encodeURIComponent(plin)}`]}>
+      <Routes>
+        <Route path="/players/:plin" element={<PlayerProfile />} />
+      </Routes>
+    </MemoryRouter>
+  </AuthContext.Provider>
+);
+
+describe('PlayerProfile Page', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    apiMock.getPlayerAssets.mockResolvedValue({ success: true, data: mockAssets });
+  });
+
+  test('shows the player and everything they own', async () => {
+    apiMock.searchPlayerByPlin.mockResolvedValue({ success: true, data: mockPlayer });
+
+    renderProfile();
+
+    expect(await screen.findByDisplayValue('Commander Shepherd')).toBeTruthy();
+    expect(apiMock.searchPlayerByPlin).toHaveBeenCalledWith('1001#01');
+    expect(apiMock.getPlayerAssets).toHaveBeenCalledWith('1001#01');
+    expect(screen.getByText('Player 1001#01')).toBeTruthy();
+    expect(screen.getByText('alive')).toBeTruthy();
+
+    expect(screen.getByText('Plasma Rifle')).toBeTruthy();
+    expect(screen.getByText('01/01/2000')).toBeTruthy();
+    // Only this player's assignment expiry is shown
+    expect(screen.getByText('Radiation Poisoning')).toBeTruthy();
+    expect(screen.getByText('∞')).toBeTruthy();
+    expect(screen.queryByText('01/01/2099')).toBeNull();
+    expect(screen.getByText('Powers (0)')).toBeTruthy();
+  });
+
+  test('opens owned records in view mode and returns to the profile', async () => {
+    apiMock.searchPlayerByPlin.mockResolvedValue({ success: true, data: mockPlayer });
+
+    renderProfile();
+    fireEvent.click(await screen.findByText('Radiation Poisoning'));
+
+    expect(mockNavigate).toHaveBeenCalledWith('/create-condition', {
+      state: { item: mockAssets.conditions[0], mode: 'view', returnTo: '/players/1001%2301' },
+    });
+  });
+
+  test('edits the profile with the version it was loaded at', async () => {
+    apiMock.searchPlayerByPlin.mockResolvedValue({ success: true, data: mockPlayer });
+    apiMock.updatePlayer.mockResolvedValue({ success: true, data: { ...mockPlayer, status: 'dead', version: 4 } });
+
+    renderProfile();
+    fireEvent.click(await screen.findByText('Edit'));
+    fireEvent.change(screen.getByLabelText('Status'), { target: { value: 'dead' } });
+    fireEvent.click(screen.getByText('Save'));
+
+    await waitFor(() => {
+      expect(apiMock.updatePlayer).toHaveBeenCalledWith('1001#01', {
+        characterName: 'Commander Shepherd',
+        playerName: 'Anna de Vries',
+        status: 'dead',
+        notes: 'Team lead',
+      }, { expectedVersion: 3 });
+    });
+    expect(await screen.findByText('Player updated.')).toBeTruthy();
+    expect(screen.getByText('dead')).toBeTruthy();
+  });
+
+  test('offers registration for an unknown PLIN', async () => {
+    apiMock.searchPlayerByPlin.mockResolvedValue({ success: false, error: 'Player not found' });
+    apiMock.createPlayer.mockResolvedValue({
+      success: true,
+      data: { plin: '4242#01', characterName: 'Rookie', playerName: '', status: 'alive', version: 1 },
+    });
+
+    renderProfile('4242#01');
+
+    expect(await screen.findByText('PLIN 4242#01 is not registered.')).toBeTruthy();
+    fireEvent.click(screen.getByText('Register Player'));
+
+    const [characterInput] = screen.getAllByRole('textbox');
+    fireEvent.change(characterInput, { target: { value: 'Rookie' } });
+    fireEvent.click(screen.getByText('Register'));
+
+    await waitFor(() => {
+      expect(apiMock.createPlayer).toHaveBeenCalledWith({
+        plin: '4242#01', characterName: 'Rookie', playerName: '', status: 'alive', notes: '',
+      });
+    });
+    expect(await screen.findByText('Player registered.')).toBeTruthy();
+  });
+
+  test('only shows the profile actions to roles that manage players', async () => {
+    apiMock.searchPlayerByPlin.mockResolvedValue({ success: true, data: mockPlayer });
+
+    renderProfile('1001#01', { ...TEST_USER, role: 'player' });
+
+    expect(await screen.findByDisplayValue('Commander Shepherd')).toBeTruthy();
+    expect(screen.queryByText('Edit')).toBeNull();
+    expect(screen.queryByText('Mark Deceased')).toBeNull();
+  });
+
+  test('leaves marking a character deceased to Character Services', async () => {
+    apiMock.searchPlayerByPlin.mockResolvedValue({ success: true, data: mockPlayer });
+
+    renderProfile('1001#01', { ...TEST_USER, role: 'referee' });
+
+    expect(await screen.findByText('Edit')).toBeTruthy();
+    expect(screen.queryByText('Mark Deceased')).toBeNull();
+  });
+
+  test('prints a paper report of the player\'s assets', async () => {
+    apiMock.searchPlayerByPlin.mockResolvedValue({ success: true, data: mockPlayer });
+    const reportWindow = { document: { open: jest.fn(), write: jest.fn(), close: jest.fn() }, focus: jest.fn(), print: jest.fn() };
+    const openSpy = jest.spyOn(window, 'open').mockReturnValue(reportWindow as unknown as Window);
+
+    renderProfile();
+    fireEvent.click(await screen.findByTitle('Print report'));
+
+    expect(openSpy).toHaveBeenCalledWith('', '_blank');
+    const html = reportWindow.document.write.mock.calls[0][0] as string;
+    expect(html).toContain('Commander Shepherd (1001#01)');
+    expect(html).toContain('Plasma Rifle');
+    expect(reportWindow.print).toHaveBeenCalled();
+
+    openSpy.mockReturnValue(null);
+    fireEvent.click(screen.getByTitle('Print report'));
+    expect(screen.getByText('Pop-up blocked. Allow pop-ups to print the report.')).toBeTruthy();
+    openSpy.mockRestore();
+  });
+
+  test('marks the character deceased with per-item choices', async () => {
+    const ownedAssets: PlayerAssets = {
+      items: [
+        { itin: '1001', name: 'Plasma Rifle', description: '', owner: '1001#01', expiryDate: '01/01/2030' },
+        { itin: '1002', name: 'Medigel Pack', description: '', owner: '1001#01', expiryDate: '01/01/2030' },
+      ],
+      conditions: mockAssets.conditions,
+      powers: [],
+    };
+    apiMock.getPlayerAssets.mockResolvedValue({ success: true, data: ownedAssets });
+    apiMock.searchPlayerByPlin.mockResolvedValue({ success: true, data: mockPlayer });
+    apiMock.markPlayerDeceased.mockResolvedValue({
+      success: true,
+      data: { player: { ...mockPlayer, status: 'dead', version: 4 }, items: [], conditions: mockAssets.conditions, powers: [] },
+    });
+
+    renderProfile();
+    fireEvent.click(await screen.findByText('Mark Deceased'));
+
+    expect(screen.getByText('Mark Character Deceased')).toBeTruthy();
+    expect(screen.getAllByText('Radiation Poisoning').length).toBe(2);
+
+    fireEvent.change(screen.getByLabelText('Disposition for ITIN 1001'), { target: { value: 'transfer' } });
+    fireEvent.change(screen.getByLabelText('Disposition for ITIN 1002'), { target: { value: 'destroy' } });
+
+    // Transfers need a valid new owner before anything is sent
+    fireEvent.click(screen.getByText('Confirm Death'));
+    expect(screen.getByText('ITIN 1001: transfer PLIN must be format 1234#12')).toBeTruthy();
+    expect(apiMock.markPlayerDeceased).not.toHaveBeenCalled();
+
+    fireEvent.change(screen.getByLabelText('New owner for ITIN 1001'), { target: { value: '1010#01' } });
+    fireEvent.click(screen.getByText('Confirm Death'));
+
+    await waitFor(() => {
+      expect(apiMock.markPlayerDeceased).toHaveBeenCalledWith('1001#01', {
+        items: [
+          { itin: '1001', disposition: 'transfer', newOwner: '1010#01' },
+          { itin: '1002', disposition: 'destroy' },
+        ],
+        expectedVersion: 3,
+      });
+    });
+    expect(await screen.findByText('Character marked deceased. 1 item(s) transferred, 1 destroyed, 1 assignment(s) ended.')).toBeTruthy();
+    expect(screen.queryByText('Mark Character Deceased')).toBeNull();
+    expect(screen.queryByText('Mark Deceased')).toBeNull();
+    expect(apiMock.getPlayerAssets).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,334 @@
+import React, { useState, useEffect, useContext } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import Input from '../components/ui/Input';
+import Button from '../components/ui/Button';
+import DeceasedModal from '../components/DeceasedModal';
+import { AuthContext } from '../App';
+import { searchPlayerByPlin, getPlayerAssets, createPlayer, updatePlayer, markPlayerDeceased } from '../services/api';
+import { buildPlayerReport, printHtmlReport } from '../services/dataExport';
+import { hasPermission } from '../services/permissions';
+import { isExpired } from '../services/expiry';
+import { Player, PlayerAssets, PlayerStatus, Item, Condition, Power, ItemDeathChoice } from '../types';
+import { Home, Pencil, Save, UserPlus, Box, Activity, Zap, X, Loader2, Skull, Printer } from 'lucide-react';
+
+type ProfileForm = Pick<Player, 'characterName' | 'playerName' | 'status' | 'notes'>;
+
+const EMPTY_FORM: ProfileForm = { characterName: '', playerName: '', status: 'alive', notes: '' };
+
+const toForm = (player: Player): ProfileForm => ({
+  characterName: player.characterName,
+  playerName: player.playerName,
+  status: player.status,
+  notes: player.notes || '',
+});
+
+/**
+ * Player profile (/players/:plin).
+ * Shows the registry entry for a PLIN and everything linked to it: owned items
+ * and every condition/power assignment with its expiry. Unregistered PLINs can be registered here,
+ * living characters can be marked deceased (see DeceasedModal), and a paper report can be printed.
+ */
+const PlayerProfile: React.FC = () => {
+  const { plin = '' } = useParams();
+  const navigate = useNavigate();
+  const { user } = useContext(AuthContext);
+  const canManage = hasPermission(user, 'manage-players');
+  const canMarkDeceased = hasPermission(user, 'mark-deceased');
+
+  const [player, setPlayer] = useState<Player | null>(null);
+  const [assets, setAssets] = useState<PlayerAssets | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState('');
+
+  const [isEditing, setIsEditing] = useState(false);
+  const [form, setForm] = useState<ProfileForm>(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+  const [statusMessage, setStatusMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null);
+
+  const [isDeathOpen, setIsDeathOpen] = useState(false);
+  const [isDeathSaving, setIsDeathSaving] = useState(false);
+  const [deathError, setDeathError] = useState('');
+
+  const inputClasses = "w-full px-3 py-2 border rounded-md shadow-inner font-serif text-sm border-gray-300 focus:border-brand-primary focus:ring-1 focus:ring-brand-primary focus:outline-none bg-white text-gray-900 dark:bg-gray-900 dark:text-white dark:border-gray-600";
+
+  useEffect(() => {
+    let isCurrent = true;
+    const load = async () => {
+      setIsLoading(true);
+      setLoadError('');
+      setPlayer(null);
+      setAssets(null);
+      setIsEditing(false);
+      setStatusMessage(null);
+      try {
+        const [playerResult, assetsResult] = await Promise.all([searchPlayerByPlin(plin), getPlayerAssets(plin)]);
+        if (!isCurrent) return;
+        if (playerResult.success && playerResult.data) setPlayer(playerResult.data);
+        if (assetsResult.success && assetsResult.data) {
+          setAssets(assetsResult.data);
+        } else {
+          setLoadError(assetsResult.error || 'Could not load player data.');
+        }
+      } catch (e) {
+        if (isCurrent) setLoadError('Could not load player data.');
+      } finally {
+        if (isCurrent) setIsLoading(false);
+      }
+    };
+    load();
+    return () => { isCurrent = false; };
+  }, [plin]);
+
+  const startEditing = () => {
+    setForm(player ? toForm(player) : EMPTY_FORM);
+    setStatusMessage(null);
+    setIsEditing(true);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.characterName.trim()) {
+      setStatusMessage({ type: 'error', text: 'Character name is required.' });
+      return;
+    }
+
+    setIsSaving(true);
+    setStatusMessage(null);
+    try {
+      const result = player
+        ? await updatePlayer(plin, form, { expectedVersion: player.version })
+        : await createPlayer({ plin, ...form });
+
+      if (result.success && result.data) {
+        setPlayer(result.data);
+        setIsEditing(false);
+        setStatusMessage({ type: 'success', text: player ? 'Player updated.' : 'Player registered.' });
+      } else if (result.status === 409 && result.conflict) {
+        // Keep the user's edits but base the next save on the latest version
+        setPlayer(result.conflict);
+        setStatusMessage({ type: 'error', text: 'This player was changed by someone else. Review the form and save again to overwrite.' });
+      } else {
+        setStatusMessage({ type: 'error', text: result.error || 'Failed.' });
+      }
+    } catch (err) {
+      setStatusMessage({ type: 'error', text: 'Error' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const openDeathWorkflow = () => {
+    setDeathError('');
+    setStatusMessage(null);
+    setIsDeathOpen(true);
+  };
+
+  const handleDeath = async (choices: ItemDeathChoice[]) => {
+    if (!player) return;
+    setIsDeathSaving(true);
+    setDeathError('');
+    try {
+      const result = await markPlayerDeceased(plin, { items: choices, expectedVersion: player.version });
+      if (result.success && result.data) {
+        const { conditions, powers } = result.data;
+        const transferred = choices.filter(c => c.disposition === 'transfer').length;
+        const destroyed = choices.filter(c => c.disposition === 'destroy').length;
+        setPlayer(result.data.player);
+        setIsDeathOpen(false);
+        setStatusMessage({
+          type: 'success',
+          text: `Character marked deceased. ${transferred} item(s) transferred, ${destroyed} destroyed, ${conditions.length + powers.length} assignment(s) ended.`,
+        });
+        // Transferred items are no longer linked to this PLIN
+        const refreshed = await getPlayerAssets(plin);
+        if (refreshed.success && refreshed.data) setAssets(refreshed.data);
+      } else {
+        setDeathError(result.error || 'Failed.');
+      }
+    } catch (err) {
+      setDeathError('Error');
+    } finally {
+      setIsDeathSaving(false);
+    }
+  };
+
+  const openRecord = (record: Item | Condition | Power) => {
+    const target = 'coin' in record ? '/create-condition' : 'poin' in record ? '/create-power' : '/create-item';
+    navigate(target, { state: { item: record, mode: 'view', returnTo: `/players/${encodeURIComponent(plin)}` } });
+  };
+
+  const expiryFor = (record: Condition | Power) =>
+    record.assignments.find(a => a.plin === plin)?.expiryDate || '';
+
+  const renderRow = (record: Item | Condition | Power, label: string, id: string, expiry: string) => (
+    <div
+      key={`${label}-${id}`}
+      onClick={() => openRecord(record)}
+      className="flex items-center justify-between gap-2 p-2 bg-gray-50 dark:bg-gray-700/50 rounded-md border border-gray-200 dark:border-gray-700 hover:border-gray-400 dark:hover:border-gray-500 cursor-pointer transition-all"
+    >
+      <div className="min-w-0">
+        <div className="font-serif font-bold text-sm text-gray-900 dark:text-white truncate">{record.name}</div>
+        <div className="font-mono text-xs text-gray-400">
+          {label} {id}
+          {'itin' in record && record.destroyed && <span className="ml-2 font-bold text-red-600 dark:text-red-400">Destroyed</span>}
+        </div>
+      </div>
+      {expiry && (
+        <div className={`text-xs font-mono font-bold shrink-0 ${isExpired(expiry) ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}`}>
+          {expiry === 'until death' ? '∞' : expiry}
+        </div>
+      )}
+    </div>
+  );
+
+  const printReport = () => {
+    if (!assets) return;
+    if (!printHtmlReport(buildPlayerReport(plin, player, assets))) {
+      setStatusMessage({ type: 'error', text: 'Pop-up blocked. Allow pop-ups to print the report.' });
+    }
+  };
+
+  const renderSection = (title: string, Icon: React.ElementType, colorClass: string, rows: React.ReactNode[]) => (
+    <div className="mt-4">
+      <h3 className={`flex items-center gap-2 text-sm font-bold font-display mb-2 ${colorClass}`}>
+        <Icon size={16} /> {title} ({rows.length})
+      </h3>
+      {rows.length === 0 ? (
+        <p className="text-xs text-gray-500 dark:text-gray-400 font-serif italic">None</p>
+      ) : (
+        <div className="space-y-2">{rows}</div>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="mx-auto mt-2 px-2 w-full landscape:w-9/12">
+      <div className="mb-3 flex flex-wrap items-center justify-between gap-2">
+        <div className="flex gap-2">
+          <Button variant="secondary" type="button" onClick={() => navigate('/')} title="Dashboard">
+            <Home size={16} />
+          </Button>
+        </div>
+        {assets && (
+          <Button variant="secondary" type="button" onClick={printReport} title="Print report">
+            <Printer size={16} />
+          </Button>
+        )}
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-panel border border-gray-300 dark:border-gray-600 overflow-hidden">
+        <div className="bg-gray-100 dark:bg-gray-700 px-4 py-2 border-b border-gray-300 dark:border-gray-600 flex justify-between items-center gap-2">
+          <h2 className="text-lg font-display font-bold text-gray-800 dark:text-gray-100 truncate">
+            Player {plin}
+          </h2>
+          {player && (
+            <span className={`text-xs font-bold uppercase px-2 py-0.5 rounded-full ${player.status === 'dead' ? 'bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300' : 'bg-green-100 text-green-700 dark:bg-green-900/40 dark:text-green-300'}`}>
+              {player.status}
+            </span>
+          )}
+        </div>
+
+        <div className="p-4">
+          {isLoading ? (
+            <div className="flex items-center justify-center gap-2 p-6 text-sm text-gray-500 dark:text-gray-400 font-serif">
+              <Loader2 size={16} className="animate-spin" /> Loading player...
+            </div>
+          ) : (
+            <>
+              {statusMessage && (
+                <div className={`mb-3 p-2 rounded border text-sm font-serif ${
+                  statusMessage.type === 'success'
+                    ? 'bg-green-50 border-green-300 text-green-800 dark:bg-green-900/30 dark:border-green-800 dark:text-green-300'
+                    : 'bg-red-50 border-red-300 text-red-800 dark:bg-red-900/30 dark:border-red-800 dark:text-red-300'
+                }`}>
+                  {statusMessage.text}
+                </div>
+              )}
+
+              {isEditing ? (
+                <form onSubmit={handleSave}>
+                  <Input label="Character Name" value={form.characterName} onChange={(e) => setForm({ ...form, characterName: e.target.value })} required />
+                  <Input label="Player Name" value={form.playerName} onChange={(e) => setForm({ ...form, playerName: e.target.value })} />
+                  <label className="block text-sm font-bold text-gray-800 dark:text-gray-200 font-serif mb-1.5">Status:</label>
+                  <select
+                    className={`${inputClasses} mb-4`}
+                    value={form.status}
+                    onChange={(e) => setForm({ ...form, status: e.target.value as PlayerStatus })}
+                    aria-label="Status"
+                  >
+                    <option value="alive">Alive</option>
+                    <option value="dead">Dead</option>
+                  </select>
+                  <Input label="Notes" value={form.notes || ''} onChange={(e) => setForm({ ...form, notes: e.target.value })} multiline rows={3} expandable={false} />
+                  <div className="pt-2 flex justify-end gap-2">
+                    <Button type="button" variant="secondary" onClick={() => setIsEditing(false)}>
+                      <X size={16} className="mr-2" /> Cancel
+                    </Button>
+                    <Button type="submit" isLoading={isSaving}>
+                      <Save size={16} className="mr-2" /> {player ? 'Save' : 'Register'}
+                    </Button>
+                  </div>
+                </form>
+              ) : player ? (
+                <>
+                  <Input label="Character Name" value={player.characterName} readOnly />
+                  <Input label="Player Name" value={player.playerName} readOnly />
+                  <Input label="Notes" value={player.notes || ''} readOnly multiline rows={3} />
+                  {canManage && (
+                    <div className="flex justify-end gap-2">
+                      {canMarkDeceased && player.status === 'alive' && assets && (
+                        <Button type="button" variant="danger" onClick={openDeathWorkflow}>
+                          <Skull size={16} className="mr-2" /> Mark Deceased
+                        </Button>
+                      )}
+                      <Button type="button" variant="secondary" onClick={startEditing}>
+                        <Pencil size={16} className="mr-2" /> Edit
+                      </Button>
+                    </div>
+                  )}
+                </>
+              ) : (
+                <div className="flex flex-col items-center gap-3 p-4 text-sm text-gray-600 dark:text-gray-300 font-serif">
+                  <p>PLIN {plin} is not registered.</p>
+                  {canManage && (
+                    <Button type="button" onClick={startEditing}>
+                      <UserPlus size={16} className="mr-2" /> Register Player
+                    </Button>
+                  )}
+                </div>
+              )}
+
+              {loadError && <p className="mt-4 text-sm text-red-600 dark:text-red-400 font-serif">{loadError}</p>}
+
+              {assets && (
+                <div className="border-t border-gray-200 dark:border-gray-700 mt-4">
+                  {renderSection('Items', Box, 'text-entity-item',
+                    assets.items.map(i => renderRow(i, 'ITIN', i.itin, i.expiryDate)))}
+                  {renderSection('Conditions', Activity, 'text-entity-condition',
+                    assets.conditions.map(c => renderRow(c, 'COIN', c.coin, expiryFor(c))))}
+                  {renderSection('Powers', Zap, 'text-entity-power',
+                    assets.powers.map(p => renderRow(p, 'POIN', p.poin, expiryFor(p))))}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+
+      {player && assets && (
+        <DeceasedModal
+          isOpen={isDeathOpen}
+          plin={plin}
+          characterName={player.characterName}
+          assets={assets}
+          isSaving={isDeathSaving}
+          error={deathError}
+          onConfirm={handleDeath}
+          onCancel={() => setIsDeathOpen(false)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default PlayerProfile;
@@ -6,6 +6,7 @@ import * as api from '../services/api';
 // @ts-ignore – module is mocked below
 import * as offlineStorage from '../services/offlineStorage';
 import { renderWithRouter } from '../testUtils';
+import { getOutbox, QUEUED_MESSAGE } from '../services/outbox';
 
 jest.mock('../services/api', () => ({
   searchItemByItin: jest.fn(),
@@ -107,6 +108,7 @@ describe('RechargeItem Page', () => {
     const {
       getByPlaceholderText,
       getByText,
+      findByText,
       findByDisplayValue,
       getByDisplayValue,
     } = renderWithRouter(<RechargeItem />, '/recharge-item');
@@ -126,10 +128,86 @@ describe('RechargeItem Page', () => {
     await waitFor(() => {
       expect(apiMock.updateItem).toHaveBeenCalledWith('1234', {
         expiryDate: '01/01/2025',
-      });
+      }, { expectedVersion: undefined });
+    });
+
+    expect(await findByText(/Success! Expiry updated/i)).toBeTruthy();
+  });
+
+  test('shows a three-way diff when a versioned draft is stale and merges on request', async () => {
+    const draftItem = { ...mockItemData, version: 2 };
+    const currentItem = { ...mockItemData, version: 3, remarks: 'Dented' };
+
+    apiMock.updateItem
+      .mockResolvedValueOnce({ success: false, error: 'Stale', status: 409, conflict: currentItem })
+      .mockResolvedValueOnce({ success: true, data: { ...currentItem, version: 4, expiryDate: '01/01/2025' } });
+
+    const { getByText, findByText, queryByText } = renderWithRouter(
+        <RechargeItem />,
+        '/recharge-item',
+        { initialData: { item: draftItem, expiryDate: '01/01/2025' }, draftId: 'draft-1', draftTimestamp: 1 }
+    );
+
+    // Versioned drafts go straight to the update; the backend detects staleness
+    fireEvent.click(getByText('Update'));
+    expect(queryByText('Process Draft?')).toBeNull();
+
+    expect(await findByText('Record Changed')).toBeTruthy();
+    expect(apiMock.updateItem).toHaveBeenCalledWith('1234', { expiryDate: '01/01/2025' }, { expectedVersion: 2 });
+    expect(getByText('Remarks')).toBeTruthy();
+    expect(getByText('Dented')).toBeTruthy();
+    expect(getByText('Expiry Date')).toBeTruthy();
+    expect(offlineMock.deleteStoredChange).not.toHaveBeenCalled();
+
+    fireEvent.click(getByText('Merge & Update'));
+
+    await waitFor(() => {
+      expect(apiMock.updateItem).toHaveBeenLastCalledWith('1234', { expiryDate: '01/01/2025' }, { expectedVersion: 3 });
     });
+    expect(await findByText(/Success! Expiry updated/i)).toBeTruthy();
+    expect(offlineMock.deleteStoredChange).toHaveBeenCalledWith('draft-1');
+  });
+
+  test('queues the update while the data source is unreachable', async () => {
+    localStorage.clear();
+    apiMock.updateItem.mockResolvedValueOnce({ success: false, error: 'Network error', status: 0 });
+
+    const { getByText, findByText } = renderWithRouter(
+        <RechargeItem />,
+        '/recharge-item',
+        { initialData: { item: { ...mockItemData, version: 4 }, expiryDate: '01/01/2025' }, draftId: 'draft-3' }
+    );
+
+    fireEvent.click(getByText('Update'));
+
+    expect(await findByText(QUEUED_MESSAGE)).toBeTruthy();
+    expect(getOutbox()).toMatchObject([{
+      operation: { type: 'item', id: '1234', changes: { expiryDate: '01/01/2025' }, expectedVersion: 4 },
+      draft: { id: 'draft-3', action: 'recharge', data: { expiryDate: '01/01/2025' } },
+    }]);
+    // The outbox now holds the change; it comes back as a draft only if the server rejects it
+    expect(offlineMock.deleteStoredChange).toHaveBeenCalledWith('draft-3');
+    localStorage.clear();
+  });
+
+  test('aborting a conflict leaves the record and draft untouched', async () => {
+    apiMock.updateItem.mockResolvedValueOnce({
+      success: false, error: 'Stale', status: 409, conflict: { ...mockItemData, version: 5, expiryDate: '01/06/2024' },
+    });
+
+    const { getByText, findByText, queryByText } = renderWithRouter(
+        <RechargeItem />,
+        '/recharge-item',
+        { initialData: { item: { ...mockItemData, version: 4 }, expiryDate: '01/01/2025' }, draftId: 'draft-2' }
+    );
+
+    fireEvent.click(getByText('Update'));
+    fireEvent.click(await findByText('Abort'));
 
-    expect(getByText(/Success! Expiry updated/i)).toBeTruthy();
+    expect(queryByText('Record Changed')).toBeNull();
+    expect(getByText('Update aborted. The record was not changed.')).toBeTruthy();
+    expect(apiMock.updateItem).toHaveBeenCalledTimes(1);
+    expect(offlineMock.deleteStoredChange).not.toHaveBeenCalled();
   });
 
   test('saves draft with updated expiry date', async () => {
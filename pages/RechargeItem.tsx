@@ -1,16 +1,24 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useContext } from 'react';
 import { useNavigate, useLocation } from 'react-router-dom';
 import Input from '../components/ui/Input';
 import Button from '../components/ui/Button';
 import ConfirmModal from '../components/ui/ConfirmModal';
-import { searchItemByItin, updateItem, getCharacterName } from '../services/api';
-import { saveStoredChange, deleteStoredChange } from '../services/offlineStorage';
+import ConflictModal, { ConflictState } from '../components/ConflictModal';
+import { AuthContext } from '../App';
+import { searchItemByItin, getCharacterName } from '../services/api';
+import { hasPermission } from '../services/permissions';
+import { saveStoredChange, deleteStoredChange, NewStoredChange } from '../services/offlineStorage';
+import { registerUnsavedForm } from '../services/unsavedForms';
+import { ItemRechargeData } from '../services/draftSchema';
+import { submitChange, QUEUED_MESSAGE } from '../services/outbox';
+import { addYearAndRound, validateExpiryDate } from '../services/expiry';
 import { Item } from '../types';
 import { Search, CalendarPlus, Home, ArrowLeft, Save, FileText } from 'lucide-react';
 
 const RechargeItem: React.FC = () => {
   const navigate = useNavigate();
   const location = useLocation();
+  const { user } = useContext(AuthContext);
   
   // Search State
   const [itinSearch, setItinSearch] = useState('');
@@ -36,6 +44,7 @@ const RechargeItem: React.FC = () => {
   const [pendingAction, setPendingAction] = useState<(() => void) | null>(null);
   const [draftId, setDraftId] = useState<string | null>(() => location.state?.draftId || null);
   const [draftTimestamp, setDraftTimestamp] = useState<number | null>(() => location.state?.draftTimestamp || null);
+  const [conflict, setConflict] = useState<ConflictState<Item> | null>(null);
 
   // --- DIRTY CHECKING BASELINE ---
   const [baselineExpiry, setBaselineExpiry] = useState('');
@@ -57,6 +66,11 @@ const RechargeItem: React.FC = () => {
     return () => window.removeEventListener('beforeunload', handleBeforeUnload);
   }, [isUnsaved]);
 
+  // Kept as a draft if the session expires before the form is saved
+  useEffect(() => {
+    if (isUnsaved) return registerUnsavedForm(handleSaveDraft);
+  });
+
   const confirmAction = (action: () => void) => {
     if (isUnsaved) {
       setConfirmTitle("Discard Changes?");
@@ -74,7 +88,7 @@ const RechargeItem: React.FC = () => {
   useEffect(() => {
     if (location.state) {
         if (location.state.initialData) {
-             const { item: savedItem, expiryDate: savedExpiry } = location.state.initialData;
+             const { item: savedItem, expiryDate: savedExpiry } = location.state.initialData as ItemRechargeData;
              setItem(savedItem);
              setItinSearch(savedItem.itin);
              setExpiryDate(savedExpiry);
@@ -134,19 +148,21 @@ const RechargeItem: React.FC = () => {
     }
   };
 
-  const handleSaveDraft = () => {
+  const toDraft = (base: Item, id: string, timestamp: number): NewStoredChange => ({
+    id: id,
+    type: 'item',
+    action: 'recharge',
+    data: { item: base, expiryDate },
+    timestamp: timestamp,
+    title: base.name || 'Unknown Item',
+    subtitle: `Recharge ITIN: ${base.itin}`
+  });
+
+  const handleSaveDraft = async () => {
     if (!item) return;
     const id = draftId || `draft-${Date.now()}`;
     const now = Date.now();
-    saveStoredChange({
-      id: id,
-      type: 'item',
-      action: 'recharge',
-      data: { item, expiryDate },
-      timestamp: now,
-      title: item.name || 'Unknown Item',
-      subtitle: `Recharge ITIN: ${item.itin}`
-    });
+    await saveStoredChange(toDraft(item, id, now));
     setDraftId(id);
     setDraftTimestamp(now);
     setBaselineExpiry(expiryDate);
@@ -204,50 +220,14 @@ const RechargeItem: React.FC = () => {
 
   const handleAddYearAndRound = () => {
     if (!expiryDate) return;
-    setStatusMessage(null); 
-
-    const parts = expiryDate.split('/');
-    if (parts.length !== 3) return;
-
-    const day = parseInt(parts[0], 10);
-    const month = parseInt(parts[1], 10) - 1; 
-    const year = parseInt(parts[2], 10);
-
-    const date = new Date(year, month, day);
-
-    if (isNaN(date.getTime())) return;
-
-    date.setFullYear(date.getFullYear() + 1);
-
-    if (date.getDate() !== 1) {
-        date.setDate(1);
-        date.setMonth(date.getMonth() + 1);
-    }
-
-    if (date.getFullYear() > 2100) {
-        return; 
-    }
-
-    const newDay = String(date.getDate()).padStart(2, '0');
-    const newMonth = String(date.getMonth() + 1).padStart(2, '0');
-    const newYear = date.getFullYear();
-
-    setExpiryDate(`${newDay}/${newMonth}/${newYear}`);
-  };
-
-  const validateExpiryDate = (val: string): string | null => {
-    if (!/^\d{2}\/\d{2}\/\d{4}$/.test(val)) return 'Invalid date format (DD/MM/YYYY)';
-    const [d, m, y] = val.split('/').map(Number);
-    if (y < 1980 || y > 2100) return 'Year must be between 1980 and 2100';
-    const date = new Date(y, m - 1, d);
-    if (date.getFullYear() !== y || date.getMonth() + 1 !== m || date.getDate() !== d) {
-        return 'Invalid calendar date';
-    }
-    return null;
+    setStatusMessage(null);
+    const next = addYearAndRound(expiryDate);
+    if (next) setExpiryDate(next);
   };
 
-  const executeUpdate = async () => {
-    if (!item) return;
+  // `base` is the record the change is applied to; after a merge it is the current server record
+  const executeUpdate = async (base: Item | null = item) => {
+    if (!base) return;
     
     const dateError = validateExpiryDate(expiryDate);
     if (dateError) {
@@ -258,17 +238,22 @@ const RechargeItem: React.FC = () => {
     setIsUpdating(true);
     setStatusMessage(null);
     try {
-      const oldExpiry = item.expiryDate;
-      const result = await updateItem(item.itin, { expiryDate });
-      if (result.success) {
+      const oldExpiry = base.expiryDate;
+      const result = await submitChange<Item>(
+        { type: 'item', id: base.itin, changes: { expiryDate }, expectedVersion: base.version },
+        toDraft(base, draftId || `draft-${Date.now()}`, Date.now())
+      );
+      if (result.success || result.queued) {
         if (draftId) {
-            deleteStoredChange(draftId);
+            await deleteStoredChange(draftId);
             setDraftId(null);
             setDraftTimestamp(null);
         }
-        setStatusMessage({ type: 'success', text: `Success! Expiry updated from ${oldExpiry} to ${expiryDate}` });
-        setItem({...item, expiryDate});
+        setStatusMessage({ type: 'success', text: result.queued ? QUEUED_MESSAGE : `Success! Expiry updated from ${oldExpiry} to ${expiryDate}` });
+        setItem(result.data || { ...base, expiryDate });
         setBaselineExpiry(expiryDate); 
+      } else if (result.status === 409 && result.conflict) {
+        setConflict({ base, current: result.conflict, pending: { ...base, expiryDate }, retry: executeUpdate });
       } else {
         setStatusMessage({ type: 'error', text: 'Failed.' });
       }
@@ -280,7 +265,8 @@ const RechargeItem: React.FC = () => {
   };
 
   const handleUpdate = () => {
-      if (draftId) {
+      // Drafts stored before records were versioned cannot be checked for conflicts
+      if (draftId && item?.version === undefined) {
           setConfirmTitle("Process Draft?");
           setConfirmMessage("The object may have been changed since this draft was stored. Proceed?");
           setConfirmLabel("Process");
@@ -292,6 +278,17 @@ const RechargeItem: React.FC = () => {
       executeUpdate();
   };
 
+  const handleMergeConflict = () => {
+      if (!conflict) return;
+      setConflict(null);
+      conflict.retry(conflict.current);
+  };
+
+  const handleAbortConflict = () => {
+      setConflict(null);
+      setStatusMessage({ type: 'error', text: 'Update aborted. The record was not changed.' });
+  };
+
   const formatOwner = (plin: string) => {
     const name = getCharacterName(plin);
     return name ? `${plin} ${name}` : plin;
@@ -314,6 +311,12 @@ const RechargeItem: React.FC = () => {
          }}
       />
 
+      <ConflictModal
+         conflict={conflict}
+         onMerge={handleMergeConflict}
+         onAbort={handleAbortConflict}
+      />
+
       <div className="mb-3 flex flex-wrap items-center justify-between gap-2">
          <div className="flex gap-2">
             {(returnQuery || returnTo) && (
@@ -389,7 +392,9 @@ const RechargeItem: React.FC = () => {
                 <Input label="Name" value={item.name} readOnly />
                 <Input label="Description" value={item.description} readOnly multiline rows={3} />
                 <Input label="Remarks" value={item.remarks || ''} readOnly multiline rows={3} />
-                <Input label="CS Remarks" value={item.csRemarks || ''} readOnly multiline rows={3} />
+                {hasPermission(user, 'cs-remarks') && (
+                  <Input label="CS Remarks" value={item.csRemarks || ''} readOnly multiline rows={3} />
+                )}
                 
                 <label className="block text-sm font-bold text-gray-800 dark:text-gray-200 font-serif mb-1.5">Expiry Date:</label>
                 <div className="flex gap-2">
@@ -1,8 +1,22 @@
-import { waitFor } from '@testing-library/react';
-import { describe, expect, test, jest, beforeEach } from '@jest/globals';
+import { waitFor, fireEvent, act, screen } from '@testing-library/react';
+import { describe, expect, test, jest, beforeEach, afterEach, afterAll } from '@jest/globals';
 import Scanner from './Scanner';
+// @ts-ignore – module is mocked below
+import * as api from '../services/api';
+import { labelPayload } from '../services/labels';
+import { getScanHistory } from '../services/scanHistory';
+import { setQrScannerFactory, QrScanner, QrScannerFactory } from '../services/qrScanner';
 import { renderWithRouter } from '../testUtils';
 
+jest.mock('../services/api', () => ({
+  searchItemByItin: jest.fn(),
+  searchConditionByCoin: jest.fn(),
+  searchPowerByPoin: jest.fn(),
+  verifyLabel: jest.fn(),
+}));
+
+const apiMock = api as jest.Mocked<typeof api>;
+
 const mockNavigate = jest.fn();
 
 // Mock react-router-dom navigate hook
@@ -14,34 +28,36 @@ jest.mock('react-router-dom', () => ({
 describe('Scanner Page', () => {
   let scanSuccessCallback: ((decodedText: string) => void) | undefined;
 
-  const mockStart = jest.fn(
-      (
-          _cameraConfig: unknown,
-          _config: unknown,
-          onSuccess: (decodedText: string) => void
-          // _onFailure?: (error: unknown) => void
-      ) => {
-        // The 3rd arg is the success callback in our component
-        scanSuccessCallback = onSuccess;
-        return Promise.resolve();
-      }
-  );
+  const mockStart = jest.fn((onDecode: (decodedText: string) => void) => {
+    scanSuccessCallback = onDecode;
+    return Promise.resolve();
+  });
   const mockStop = jest.fn(() => Promise.resolve());
-  const mockClear = jest.fn();
+  const mockPause = jest.fn();
+  const mockResume = jest.fn();
+  const mockScanFile = jest.fn((_file: File) => Promise.resolve('https://voiddex.app/conditions/8001'));
 
-  const setupHtml5QrcodeSuccessMock = () => {
-    (globalThis as any).Html5Qrcode = jest.fn().mockImplementation(() => ({
-      start: mockStart,
-      stop: mockStop,
-      clear: mockClear,
-      isScanning: true,
-    }));
-  };
+  // Fake scanning engine in place of html5-qrcode
+  const fakeScanner = (overrides: Partial<QrScanner> = {}): QrScannerFactory => () => ({
+    start: mockStart,
+    stop: mockStop,
+    pause: mockPause,
+    resume: mockResume,
+    scanFile: mockScanFile,
+    isScanning: true,
+    ...overrides,
+  });
+  const realFactory = setQrScannerFactory(fakeScanner());
 
   beforeEach(() => {
     jest.clearAllMocks();
+    localStorage.clear();
     scanSuccessCallback = undefined;
-    setupHtml5QrcodeSuccessMock();
+    setQrScannerFactory(fakeScanner());
+  });
+
+  afterAll(() => {
+    setQrScannerFactory(realFactory);
   });
 
   test('renders scanner container', () => {
@@ -63,21 +79,46 @@ describe('Scanner Page', () => {
 
     // Simulate a successful scan of an item URL
     scanSuccessCallback?.('https://voiddex.app/items/1234');
-    expect(mockNavigate).toHaveBeenCalledWith('/items/1234');
+    expect(mockPause).toHaveBeenCalled();
+    expect(mockNavigate).toHaveBeenCalledWith('/items/1234', {
+      state: { scan: { rawText: 'https://voiddex.app/items/1234', source: 'camera' } },
+    });
+  });
+
+  test('pauses in the background and releases the camera on unmount', async () => {
+    const { unmount } = renderWithRouter(<Scanner />, '/scan');
+    await waitFor(() => expect(scanSuccessCallback).toBeDefined());
+
+    Object.defineProperty(document, 'hidden', { configurable: true, value: true });
+    document.dispatchEvent(new Event('visibilitychange'));
+    expect(mockPause).toHaveBeenCalled();
+
+    Object.defineProperty(document, 'hidden', { configurable: true, value: false });
+    document.dispatchEvent(new Event('visibilitychange'));
+    expect(mockResume).toHaveBeenCalled();
+
+    unmount();
+    expect(mockStop).toHaveBeenCalled();
+  });
+
+  test('returns scanned codes to the page that asked for them', async () => {
+    const state = { collectFor: '/bulk-update', targets: [], returnQuery: 'q=1' };
+    renderWithRouter(<Scanner />, '/scan', state);
+
+    await waitFor(() => expect(scanSuccessCallback).toBeDefined());
+
+    scanSuccessCallback!('https://voiddex.app/powers/5001');
+    expect(mockNavigate).toHaveBeenCalledWith('/bulk-update', {
+      state: { ...state, scanned: { type: 'power', id: '5001' } },
+    });
   });
 
   test('displays permission error if camera fails to start', async () => {
-    // Override Html5Qrcode to simulate failure on start
+    // Simulate failure on start
     const failingStart = jest.fn(() =>
         Promise.reject(new Error('Permission denied'))
     );
-
-    (globalThis as any).Html5Qrcode = jest.fn().mockImplementation(() => ({
-      start: failingStart,
-      stop: mockStop,
-      clear: mockClear,
-      isScanning: false,
-    }));
+    setQrScannerFactory(fakeScanner({ start: failingStart, isScanning: false }));
 
     const { findByText } = renderWithRouter(<Scanner />, '/scan');
 
@@ -92,7 +133,7 @@ describe('Scanner Page', () => {
     await waitFor(() => expect(scanSuccessCallback).toBeDefined());
 
     scanSuccessCallback!("https://voiddex.app/conditions/9999");
-    expect(mockNavigate).toHaveBeenCalledWith('/conditions/9999');
+    expect(mockNavigate).toHaveBeenCalledWith('/conditions/9999', expect.anything());
   });
 
   test('navigates on successful power scan', async () => {
@@ -101,7 +142,7 @@ describe('Scanner Page', () => {
     await waitFor(() => expect(scanSuccessCallback).toBeDefined());
 
     scanSuccessCallback!("https://voiddex.app/powers/6000");
-    expect(mockNavigate).toHaveBeenCalledWith('/powers/6000');
+    expect(mockNavigate).toHaveBeenCalledWith('/powers/6000', expect.anything());
   });
 
   test('ignores QR codes that do not match the expected pattern', async () => {
@@ -123,6 +164,41 @@ describe('Scanner Page', () => {
     expect(queryByText(/Unknown type in QR/i)).toBeNull();
   });
 
+  test('decodes an uploaded image when the camera is unavailable', async () => {
+    setQrScannerFactory(fakeScanner({ start: jest.fn(() => Promise.reject({ name: 'NotFoundError' })), isScanning: false }));
+    const { findByText, getByLabelText } = renderWithRouter(<Scanner />, '/scan');
+    expect(await findByText('No camera found on this device.')).toBeTruthy();
+
+    const file = new File(['png'], 'label.png', { type: 'image/png' });
+    await act(async () => {
+      fireEvent.change(getByLabelText('QR image'), { target: { files: [file] } });
+    });
+    expect(mockScanFile).toHaveBeenCalledWith(file);
+    expect(mockNavigate).toHaveBeenCalledWith('/conditions/8001', {
+      state: { scan: { rawText: 'https://voiddex.app/conditions/8001', source: 'image' } },
+    });
+
+    mockScanFile.mockRejectedValueOnce(new Error('No MultiFormat Readers were able to detect the code.'));
+    await act(async () => {
+      fireEvent.change(getByLabelText('QR image'), { target: { files: [file] } });
+    });
+    expect(await findByText('No QR code found in this image.')).toBeTruthy();
+  });
+
+  test('opens manually entered IDs using the search prefixes', async () => {
+    const { getByPlaceholderText, getByTitle, getByText } = renderWithRouter(<Scanner />, '/scan');
+    const input = getByPlaceholderText('ITIN 1234 / COIN 8001 / POIN 5001');
+
+    fireEvent.change(input, { target: { value: 'Plasma Rifle' } });
+    fireEvent.click(getByTitle('Open ID'));
+    expect(getByText('Enter e.g. ITIN 1234, COIN 8001 or POIN 5001.')).toBeTruthy();
+    expect(mockNavigate).not.toHaveBeenCalled();
+
+    fireEvent.change(input, { target: { value: 'poin5001' } });
+    fireEvent.click(getByTitle('Open ID'));
+    expect(mockNavigate).toHaveBeenCalledWith('/powers/5001', { state: { scan: { rawText: 'poin5001', source: 'manual' } } });
+  });
+
   test('ignores completely invalid QR text (no regex match)', async () => {
     renderWithRouter(<Scanner />, '/scan');
 
@@ -133,4 +209,127 @@ describe('Scanner Page', () => {
     // No navigation should happen
     expect(mockNavigate).not.toHaveBeenCalled();
   });
+
+  describe('with label signing enabled', () => {
+    const item = { itin: '1234', name: 'Plasma Rifle', description: '', owner: '1001#01', expiryDate: '01/01/2030' };
+    const label = { type: 'item' as const, id: '1234', name: 'Plasma Rifle', expiry: '01/01/2030', signature: '0123456789abcdef01234567' };
+
+    beforeEach(() => {
+      (globalThis as any).__VOIDDEX_CONFIG__ = { labelSigning: true };
+      apiMock.searchItemByItin.mockResolvedValue({ success: true, data: item });
+      // The backend only confirms the signature it issued for this exact label
+      apiMock.verifyLabel.mockImplementation(async (ref, signature) => ({
+        success: true,
+        data: ref.id === label.id && ref.expiry === label.expiry && signature === label.signature,
+      }));
+    });
+
+    afterEach(() => {
+      delete (globalThis as any).__VOIDDEX_CONFIG__;
+    });
+
+    const scan = async (text: string) => {
+      await waitFor(() => expect(scanSuccessCallback).toBeDefined());
+      await act(async () => {
+        scanSuccessCallback!(text);
+      });
+    };
+
+    test('opens genuine labels after verifying them', async () => {
+      renderWithRouter(<Scanner />, '/scan');
+      await scan(labelPayload(label));
+
+      expect(apiMock.searchItemByItin).toHaveBeenCalledWith('1234');
+      expect(mockNavigate).toHaveBeenCalledWith('/items/1234', expect.objectContaining({ state: { scan: expect.objectContaining({ source: 'camera' }) } }));
+    });
+
+    test('warns about forged labels and can open them anyway', async () => {
+      const { findByText, getByText } = renderWithRouter(<Scanner />, '/scan');
+      await scan(labelPayload(label).replace('items/1234', 'items/9999'));
+
+      expect(await findByText('Forged Label')).toBeTruthy();
+      expect(mockNavigate).not.toHaveBeenCalled();
+
+      // Logged straight away, so opening it does not log it twice
+      expect(getScanHistory()[0]).toMatchObject({ type: 'item', entityId: '9999', result: 'forged', source: 'camera' });
+      fireEvent.click(getByText('Open Anyway'));
+      expect(mockNavigate).toHaveBeenCalledWith('/items/9999', { state: { skipScanLog: true } });
+    });
+
+    test('warns about outdated and unsigned labels', async () => {
+      const { findByText, getByText } = renderWithRouter(<Scanner />, '/scan');
+      const outdated = { ...label, expiry: '01/01/2029' };
+      apiMock.verifyLabel.mockResolvedValueOnce({ success: true, data: true });
+      await scan(labelPayload(outdated));
+      expect(await findByText('Outdated Label')).toBeTruthy();
+
+      // Scanning again resumes the paused camera
+      fireEvent.click(getByText('Scan Again'));
+      expect(mockResume).toHaveBeenCalled();
+      await scan('https://voiddex.app/items/1234');
+      expect(await findByText('Unsigned Label')).toBeTruthy();
+      expect(mockNavigate).not.toHaveBeenCalled();
+    });
+
+    test('holds labels back while the signature cannot be checked', async () => {
+      apiMock.verifyLabel.mockResolvedValue({ success: false, error: 'Network error', status: 0 });
+      const { findByText } = renderWithRouter(<Scanner />, '/scan');
+      await scan(labelPayload(label));
+
+      expect(await findByText('Label Not Verified')).toBeTruthy();
+      expect(mockNavigate).not.toHaveBeenCalled();
+      expect(getScanHistory()[0]).toMatchObject({ entityId: '1234', result: 'unverified' });
+    });
+  });
+
+  test('collects a batch of distinct codes and flags problems', async () => {
+    const item = { itin: '1234', name: 'Plasma Rifle', description: '', owner: '1002#01', expiryDate: '01/01/2030' };
+    const condition = {
+      coin: '8001',
+      name: 'Radiation Poisoning',
+      description: '',
+      assignments: [{ plin: '1001#01', expiryDate: '01/01/2020' }],
+    };
+    apiMock.searchItemByItin.mockResolvedValue({ success: true, data: item });
+    apiMock.searchConditionByCoin.mockResolvedValue({ success: true, data: condition });
+    apiMock.searchPowerByPoin.mockResolvedValue({ success: false, error: 'Not found' });
+
+    renderWithRouter(<Scanner />, '/scan');
+    await waitFor(() => expect(scanSuccessCallback).toBeDefined());
+    fireEvent.click(screen.getByTitle('Batch scan'));
+    fireEvent.change(screen.getByPlaceholderText('Optional, e.g. 1234#12'), { target: { value: '1001#01' } });
+
+    await act(async () => {
+      scanSuccessCallback!('https://voiddex.app/items/1234');
+      scanSuccessCallback!('https://voiddex.app/conditions/8001');
+      scanSuccessCallback!('https://voiddex.app/items/1234');
+      scanSuccessCallback!('https://voiddex.app/powers/5999');
+    });
+
+    // Camera keeps running and nothing is opened
+    expect(mockStop).not.toHaveBeenCalled();
+    expect(mockNavigate).not.toHaveBeenCalled();
+    expect(apiMock.searchItemByItin).toHaveBeenCalledTimes(1);
+    expect(screen.getByText('3 scanned, 3 flagged')).toBeTruthy();
+    expect(screen.getByText(/Owned by 1002#01/)).toBeTruthy();
+    expect(screen.getByText(/Expired/)).toBeTruthy();
+    expect(screen.getByText(/Not found/)).toBeTruthy();
+
+    expect(getScanHistory().map(r => [r.entityId, r.source, r.result])).toEqual([
+      ['5999', 'batch', 'not-found'],
+      ['8001', 'batch', 'found'],
+      ['1234', 'batch', 'found'],
+    ]);
+
+    fireEvent.click(screen.getByTitle('Remove POIN 5999'));
+    expect(screen.getByText('2 scanned, 2 flagged')).toBeTruthy();
+
+    fireEvent.click(screen.getByText('Recharge All'));
+    expect(mockNavigate).toHaveBeenCalledWith('/bulk-update', { state: { targets: [item, condition], plin: '1001#01' } });
+
+    fireEvent.click(screen.getByText('Note for All'));
+    expect(mockNavigate).toHaveBeenCalledWith('/create-note', {
+      state: { title: 'Check-in 1001#01', linkedIds: ['PLIN:1001#01', 'ITIN:1234', 'COIN:8001'] },
+    });
+  });
 });
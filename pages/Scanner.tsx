@@ -1,86 +1,250 @@
-import React, { useEffect, useState, useRef } from 'react';
-import { useNavigate } from 'react-router-dom';
-import { Loader2, ArrowLeft, AlertTriangle } from 'lucide-react';
+import React, { useEffect, useState, useRef, useContext } from 'react';
+import { useNavigate, useLocation } from 'react-router-dom';
+import { Loader2, ArrowLeft, AlertTriangle, ShieldAlert, ListChecks, BatteryCharging, StickyNote, Trash2, ImageUp, ArrowRight } from 'lucide-react';
 import Button from '../components/ui/Button';
+import Input from '../components/ui/Input';
+import BatchScanList from '../components/BatchScanList';
+import ScanHistoryPanel from '../components/ScanHistoryPanel';
+import { AuthContext } from '../App';
+import { searchItemByItin, searchConditionByCoin, searchPowerByPoin } from '../services/api';
+import { parseLabelPayload, checkLabel, isLabelSigningEnabled, ScannedLabel, LabelStatus } from '../services/labels';
+import { BatchEntry, batchFlags, batchNoteLinks } from '../services/batchScan';
+import { ID_RANGES } from '../services/idAllocator';
+import { detectSmartPrefix } from '../services/smartSearch';
+import { deepLinkPath } from '../services/qrCode';
+import { hasPermission } from '../services/permissions';
+import { addScanRecord, ScanContext, ScanResult } from '../services/scanHistory';
+import { createQrScanner, QrScanner } from '../services/qrScanner';
+import { ApiResult, EntityType, Item, Condition, Power } from '../types';
 
-// Declare external library type (Html5Qrcode is loaded via script tag in index.html)
-declare const Html5Qrcode: any;
+const PLIN_PATTERN = /^\d{1,4}#\d{1,2}$/;
 
+const fetchRecord = (scan: ScannedLabel): Promise<ApiResult<Item | Condition | Power>> => {
+  if (scan.type === 'condition') return searchConditionByCoin(scan.id);
+  if (scan.type === 'power') return searchPowerByPoin(scan.id);
+  return searchItemByItin(scan.id);
+};
+
+const LABEL_WARNINGS: Record<Exclude<LabelStatus, 'valid'>, { title: string; message: string }> = {
+  forged: {
+    title: 'Forged Label',
+    message: 'The signature on this code does not match. It was not printed by VoidDex or has been altered.',
+  },
+  outdated: {
+    title: 'Outdated Label',
+    message: 'This label is genuine, but the expiry printed on it no longer matches the record.',
+  },
+  unsigned: {
+    title: 'Unsigned Label',
+    message: 'This code carries no signature, so it cannot be verified as a VoidDex label.',
+  },
+  unverified: {
+    title: 'Label Not Verified',
+    message: 'The signature could not be checked because the server is unreachable. Check the label again once you are back online.',
+  },
+};
+
+/**
+ * QR scanner (/scan).
+ * Normally opens the scanned object; when started with `state.collectFor` (e.g. from
+ * Bulk Update) it returns there with the scanned reference in `state.scanned` instead.
+ * When label signing is configured, codes are verified first and forged, outdated or
+ * unsigned labels are held back with a warning.
+ * Batch mode keeps the camera running and collects every distinct code into a checked list
+ * (e.g. a player's bag at check-in) that can then be recharged or noted in one go.
+ */
 const Scanner: React.FC = () => {
   const navigate = useNavigate();
+  const location = useLocation();
+  const { user } = useContext(AuthContext);
+  const collectFor: string | undefined = location.state?.collectFor;
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
-  const scannerRef = useRef<any>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [warning, setWarning] = useState<{ scan: ScannedLabel; status: Exclude<LabelStatus, 'valid'> } | null>(null);
+  const scannerRef = useRef<QrScanner | null>(null);
   const isMounted = useRef(true);
+  const hasScanned = useRef(false);
+
+  const [batchMode, setBatchMode] = useState(false);
+  const [batchEntries, setBatchEntries] = useState<BatchEntry[]>([]);
+  const [batchNotice, setBatchNotice] = useState('');
+  const [checkPlin, setCheckPlin] = useState('');
+  const [manualId, setManualId] = useState('');
+  const [fallbackError, setFallbackError] = useState('');
+  const [isDecoding, setIsDecoding] = useState(false);
+  const batchModeRef = useRef(false);
+  const batchKeys = useRef(new Set<string>());
+  const plin = PLIN_PATTERN.test(checkPlin.trim()) ? checkPlin.trim() : '';
+
+  const toggleBatchMode = () => {
+    batchModeRef.current = !batchMode;
+    setBatchMode(!batchMode);
+  };
+
+  const updateBatchEntry = (key: string, changes: Partial<BatchEntry>) => {
+    if (!isMounted.current) return;
+    setBatchEntries(prev => prev.map(e => (e.key === key ? { ...e, ...changes } : e)));
+  };
+
+  // The camera reports the same code on every frame while it is in view, so each code is added once
+  const addToBatch = (scan: ScannedLabel, context: ScanContext) => {
+    const key = `${scan.type}:${scan.id}`;
+    const idText = `${ID_RANGES[scan.type].label} ${scan.id}`;
+    if (batchKeys.current.has(key)) {
+      setBatchNotice(`${idText} already scanned`);
+      return;
+    }
+    batchKeys.current.add(key);
+    setBatchNotice(`Added ${idText}`);
+    setBatchEntries(prev => [{ key, type: scan.type, id: scan.id, status: 'loading' }, ...prev]);
+
+    const signed = isLabelSigningEnabled() && context.source !== 'manual';
+    const logBatchScan = (result: ScanResult, name?: string) =>
+      addScanRecord({ ...context, source: 'batch', type: scan.type, entityId: scan.id, name, result });
+    fetchRecord(scan)
+      .then(async result => {
+        const record = result.success ? result.data : undefined;
+        const labelStatus = signed ? await checkLabel(scan, record) : undefined;
+        updateBatchEntry(key, record ? { status: 'resolved', record, labelStatus } : { status: 'not-found', labelStatus });
+        logBatchScan(labelStatus && labelStatus !== 'valid' ? labelStatus : record ? 'found' : 'not-found', record?.name);
+      })
+      .catch(() => {
+        updateBatchEntry(key, { status: 'error' });
+        logBatchScan('error');
+      });
+  };
+
+  const removeFromBatch = (key: string) => {
+    batchKeys.current.delete(key);
+    setBatchEntries(prev => prev.filter(e => e.key !== key));
+  };
+
+  const clearBatch = () => {
+    batchKeys.current.clear();
+    setBatchEntries([]);
+    setBatchNotice('');
+  };
+
+  const resolvedRecords = batchEntries.filter(e => e.record).map(e => e.record!);
+  const flaggedCount = batchEntries.filter(e => batchFlags(e, plin).length > 0).length;
+
+  const rechargeAll = () => {
+    navigate('/bulk-update', { state: { targets: [...resolvedRecords].reverse(), plin } });
+  };
+
+  const noteForAll = () => {
+    const links = batchNoteLinks([...batchEntries].reverse());
+    navigate('/create-note', {
+      state: { title: plin ? `Check-in ${plin}` : 'Batch scan', linkedIds: plin ? [`PLIN:${plin}`, ...links] : links },
+    });
+  };
+
+  // Without a context the scan has already been logged (e.g. after a label warning)
+  const openScan = (scan: ScannedLabel, context?: ScanContext) => {
+    if (collectFor) {
+      navigate(collectFor, { state: { ...location.state, scanned: { type: scan.type, id: scan.id } } });
+    } else {
+      navigate(deepLinkPath(scan.type, scan.id), { state: context ? { scan: context } : { skipScanLog: true } });
+    }
+  };
+
+  /**
+   * Handles a code from the camera, an uploaded image or manual entry.
+   * Manually typed IDs carry no label, so there is nothing to verify.
+   */
+  const processScan = (scan: ScannedLabel, context: ScanContext) => {
+    if (batchModeRef.current) {
+      addToBatch(scan, context);
+      return;
+    }
+    hasScanned.current = true;
+
+    // Pause immediately upon success to prevent multiple redirects; the camera is released on unmount
+    scannerRef.current?.pause();
+
+    if (context.source === 'manual' || !isLabelSigningEnabled()) {
+      openScan(scan, context);
+      return;
+    }
+
+    // Verify against the current record so reprinted expiries are caught too.
+    // If the record cannot be loaded, the signature is still checked on its own.
+    setIsVerifying(true);
+    fetchRecord(scan)
+      .then(result => checkLabel(scan, result.success ? result.data : null))
+      .catch(() => checkLabel(scan))
+      .then(status => {
+        if (!isMounted.current) return;
+        setIsVerifying(false);
+        if (status === 'valid') {
+          openScan(scan, context);
+        } else {
+          // Logged now, since the user may walk away from the warning
+          addScanRecord({ ...context, type: scan.type, entityId: scan.id, result: status });
+          setWarning({ scan, status });
+        }
+      });
+  };
+
+  const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setFallbackError('');
+    setIsDecoding(true);
+    try {
+      const decodedText = await createQrScanner('qr-file-reader').scanFile(file);
+      const scan = parseLabelPayload(decodedText);
+      if (scan) processScan(scan, { rawText: decodedText, source: 'image' });
+      else setFallbackError('This QR code is not a VoidDex code.');
+    } catch (err) {
+      setFallbackError('No QR code found in this image.');
+    } finally {
+      if (isMounted.current) setIsDecoding(false);
+    }
+  };
+
+  const handleManualEntry = (e: React.FormEvent) => {
+    e.preventDefault();
+    setFallbackError('');
+    const detected = detectSmartPrefix(manualId);
+    const type = detected && (Object.keys(ID_RANGES) as EntityType[]).find(t => ID_RANGES[t].label === detected.prefix);
+    if (!detected || !type || !/^\d{4}$/.test(detected.value)) {
+      setFallbackError('Enter e.g. ITIN 1234, COIN 8001 or POIN 5001.');
+      return;
+    }
+    setManualId('');
+    processScan({ type, id: detected.value }, { rawText: manualId.trim(), source: 'manual' });
+  };
+
+  const scanAgain = () => {
+    setWarning(null);
+    hasScanned.current = false;
+    scannerRef.current?.resume();
+  };
 
   useEffect(() => {
     isMounted.current = true;
-    
-    // Safety check: Library must be loaded globally
-    if (typeof Html5Qrcode === 'undefined') {
-        setError('Scanner library not loaded. Please refresh.');
-        setIsLoading(false);
-        return;
-    }
+    hasScanned.current = false;
 
     const onScanSuccess = (decodedText: string) => {
-        if (!isMounted.current) return;
+        if (!isMounted.current || hasScanned.current) return;
 
         // --- QR PARSING LOGIC ---
         // Expects QR codes containing URLs or relative paths like:
-        // "https://voiddex.app/items/1234" OR "condition/9999"
-        // Regex captures the ID after the type keyword.
-        const regex = /(?:items?|conditions?|powers?)\/([a-zA-Z0-9#]+)/i;
-        const match = decodedText.match(regex);
-
-        if (match) {
-            // Stop scanning immediately upon success to prevent multiple redirects
-            if (scannerRef.current) {
-                scannerRef.current.stop().then(() => {
-                     scannerRef.current.clear();
-                }).catch((err: any) => console.warn("Stop failed", err));
-            }
-
-            const lowerText = decodedText.toLowerCase();
-            const id = match[1];
-            
-            // Route based on keyword found
-            let path = '';
-            if (lowerText.includes('item')) {
-                path = `/items/${id}`;
-            } else if (lowerText.includes('condition')) {
-                path = `/conditions/${id}`;
-            } else if (lowerText.includes('power')) {
-                path = `/powers/${id}`;
-            }
-
-            if (path) {
-                navigate(path);
-            } else {
-                setError(`Unknown type in QR: ${decodedText}`);
-            }
-        }
+        // "https://voiddex.app/items/1234" OR "condition/9999",
+        // optionally followed by "?exp=<expiry>&sig=<signature>" on signed labels.
+        const scan = parseLabelPayload(decodedText);
+        if (scan) processScan(scan, { rawText: decodedText, source: 'camera' });
     };
 
     const startScanner = async () => {
         try {
-            const html5QrCode = new Html5Qrcode("reader");
-            scannerRef.current = html5QrCode;
-
-            // Use facingMode: "environment" to force back camera on mobile
-            await html5QrCode.start(
-                { facingMode: "environment" }, 
-                {
-                    fps: 10,
-                    qrbox: { width: 250, height: 250 },
-                    aspectRatio: 1.0
-                },
-                onScanSuccess,
-                () => {
-                    // Ignore frame scan errors (they happen constantly when no QR is in view)
-                }
-            );
-            
+            const scanner = createQrScanner("reader");
+            scannerRef.current = scanner;
+            await scanner.start(onScanSuccess);
+
             if (isMounted.current) {
                 setIsLoading(false);
             }
@@ -93,7 +257,7 @@ const Scanner: React.FC = () => {
                     msg = "Camera permission denied. Please allow camera access in your browser settings.";
                 } else if (err?.name === 'NotFoundError') {
                     msg = "No camera found on this device.";
-                } else if (location.protocol !== 'https:' && location.hostname !== 'localhost') {
+                } else if (window.location.protocol !== 'https:' && window.location.hostname !== 'localhost') {
                     msg = "Camera access requires a secure connection (HTTPS).";
                 }
                 setError(msg);
@@ -102,49 +266,65 @@ const Scanner: React.FC = () => {
         }
     };
 
-    // Small delay ensures the "reader" DIV is rendered in the DOM before the library tries to attach to it.
+    // Don't keep the camera busy while the app is in the background
+    const handleVisibilityChange = () => {
+        if (document.hidden) scannerRef.current?.pause();
+        else if (!hasScanned.current) scannerRef.current?.resume();
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    // Small delay ensures the "reader" DIV is rendered in the DOM before the scanner attaches to it.
     const timer = setTimeout(startScanner, 100);
 
     // --- CLEANUP ---
     return () => {
         isMounted.current = false;
         clearTimeout(timer);
-        if (scannerRef.current) {
-             // Attempt to stop camera stream to release hardware resource.
-             // stop() returns a promise, but we can't await it in cleanup reliably.
-             try {
-                if (scannerRef.current.isScanning) {
-                     scannerRef.current.stop().then(() => {
-                         scannerRef.current.clear();
-                     }).catch((e: any) => console.warn("Cleanup stop error", e));
-                } else {
-                     scannerRef.current.clear();
-                }
-             } catch (e) {
-                 console.warn("Cleanup error", e);
-             }
-        }
+        document.removeEventListener('visibilitychange', handleVisibilityChange);
+        // Release the camera; stop() is async, but we can't await it in cleanup.
+        scannerRef.current?.stop().catch(e => console.warn("Cleanup stop error", e));
+        scannerRef.current = null;
     };
-  }, [navigate]);
+  }, [navigate, collectFor]);
 
   return (
     <div className="flex flex-col items-center justify-start min-h-[80vh] px-4 pt-4">
        <div className="w-full max-w-md mb-4 flex justify-between items-center">
-         <Button variant="secondary" onClick={() => navigate('/')}>
+         <Button variant="secondary" onClick={() => collectFor ? navigate(collectFor, { state: location.state }) : navigate('/')}>
             <ArrowLeft size={16} className="mr-2"/> Back
          </Button>
          <h2 className="text-xl font-display font-bold text-gray-800 dark:text-white">Scan Code</h2>
-         <div className="w-10"></div>
+         {collectFor ? (
+           <div className="w-10"></div>
+         ) : (
+           <Button variant={batchMode ? 'primary' : 'secondary'} onClick={toggleBatchMode} title="Batch scan">
+              <ListChecks size={16} />
+           </Button>
+         )}
        </div>
 
        <div className="w-full max-w-md bg-black rounded-lg overflow-hidden shadow-xl relative aspect-square border-2 border-gray-800">
-           {/* Scan Area - The library attaches video element here */}
+           {/* Scan Area - The scanner attaches its video element here */}
            <div id="reader" className="w-full h-full"></div>
 
            {/* Overlay Loader or Error Message */}
-           {(isLoading || error) && (
+           {(isLoading || error || isVerifying || warning) && (
                <div className="absolute inset-0 flex flex-col items-center justify-center text-white p-6 text-center bg-black/80 z-10">
-                   {error ? (
+                   {warning ? (
+                       <>
+                           <ShieldAlert size={48} className="mb-4 text-amber-400" />
+                           <p className="font-bold mb-2">{LABEL_WARNINGS[warning.status].title}</p>
+                           <p className="text-sm text-gray-300 mb-4">{LABEL_WARNINGS[warning.status].message}</p>
+                           <div className="flex gap-2">
+                               <Button variant="secondary" onClick={scanAgain}>
+                                   Scan Again
+                               </Button>
+                               <Button variant="danger" onClick={() => openScan(warning.scan)}>
+                                   Open Anyway
+                               </Button>
+                           </div>
+                       </>
+                   ) : error ? (
                        <>
                            <AlertTriangle size={48} className="mb-4 text-red-500" />
                            <p className="font-bold mb-2">Scanner Error</p>
@@ -153,18 +333,86 @@ const Scanner: React.FC = () => {
                    ) : (
                        <>
                            <Loader2 size={48} className="mb-4 animate-spin text-blue-500" />
-                           <p>Starting Camera...</p>
+                           <p>{isVerifying ? 'Verifying Label...' : 'Starting Camera...'}</p>
                        </>
                    )}
                </div>
            )}
        </div>
 
-       <div className="mt-6 text-center max-w-xs">
-           <p className="text-gray-600 dark:text-gray-400 font-serif text-sm">
-             Point your camera at a VoidDex QR code.
-           </p>
+       <div className="w-full max-w-md mt-4 bg-white dark:bg-gray-800 rounded-lg shadow-panel border border-gray-300 dark:border-gray-600 p-3">
+           <form onSubmit={handleManualEntry} className="flex gap-2 items-end">
+               <div className="flex-1 min-w-0">
+                   <Input
+                       label="Enter ID"
+                       value={manualId}
+                       onChange={(e) => setManualId(e.target.value)}
+                       placeholder="ITIN 1234 / COIN 8001 / POIN 5001"
+                       className="mb-0"
+                   />
+               </div>
+               <div className="flex gap-2 mb-4">
+                   <Button type="submit" disabled={!manualId.trim()} title="Open ID">
+                       <ArrowRight size={16} />
+                   </Button>
+                   <label
+                       className={`inline-flex items-center justify-center px-3 py-2 rounded border cursor-pointer text-gray-700 dark:text-gray-200 border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 ${isDecoding ? 'opacity-50 pointer-events-none' : ''}`}
+                       title="Scan from image"
+                   >
+                       {isDecoding ? <Loader2 size={16} className="animate-spin" /> : <ImageUp size={16} />}
+                       <input type="file" accept="image/*" className="hidden" onChange={handleImageUpload} aria-label="QR image" />
+                   </label>
+               </div>
+           </form>
+           {fallbackError && (
+               <p className="-mt-2 text-xs font-serif text-red-600 dark:text-red-400" role="alert">{fallbackError}</p>
+           )}
+           {/* The scanner needs a host element for decoding files; the image itself is not shown */}
+           <div id="qr-file-reader" className="hidden"></div>
        </div>
+
+       {batchMode ? (
+           <div className="w-full max-w-md mt-4 bg-white dark:bg-gray-800 rounded-lg shadow-panel border border-gray-300 dark:border-gray-600 p-3">
+               <div className="flex justify-between items-center mb-2">
+                   <h3 className="font-display font-bold text-gray-800 dark:text-gray-100">Batch Scan</h3>
+                   <span className="text-xs text-gray-500 dark:text-gray-400">
+                       {batchEntries.length} scanned, {flaggedCount} flagged
+                   </span>
+               </div>
+               <Input
+                   label="Checking in PLIN"
+                   value={checkPlin}
+                   onChange={(e) => setCheckPlin(e.target.value)}
+                   placeholder="Optional, e.g. 1234#12"
+                   className="mb-2"
+               />
+               {batchNotice && (
+                   <p className="text-xs font-serif text-gray-600 dark:text-gray-300 mb-1" role="status">{batchNotice}</p>
+               )}
+               <BatchScanList entries={batchEntries} plin={plin} onRemove={removeFromBatch} />
+               <div className="pt-3 mt-2 border-t border-gray-200 dark:border-gray-700 flex flex-wrap justify-end gap-2">
+                   <Button variant="secondary" onClick={clearBatch} disabled={batchEntries.length === 0} title="Clear list">
+                       <Trash2 size={16} />
+                   </Button>
+                   <Button variant="secondary" onClick={noteForAll} disabled={resolvedRecords.length === 0}>
+                       <StickyNote size={16} className="mr-2" /> Note for All
+                   </Button>
+                   {hasPermission(user, 'update-records') && (
+                       <Button onClick={rechargeAll} disabled={resolvedRecords.length === 0}>
+                           <BatteryCharging size={16} className="mr-2" /> Recharge All
+                       </Button>
+                   )}
+               </div>
+           </div>
+       ) : (
+           <div className="mt-6 text-center max-w-xs">
+               <p className="text-gray-600 dark:text-gray-400 font-serif text-sm">
+                 Point your camera at a VoidDex QR code, upload a photo of one or type its ID.
+               </p>
+           </div>
+       )}
+
+       {!collectFor && <ScanHistoryPanel />}
     </div>
   );
 };
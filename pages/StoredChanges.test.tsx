@@ -28,36 +28,46 @@ jest.mock('react-router-dom', () => {
 
 // --- Test data ---
 
-const mockChanges = [
+const createFields = { name: '', description: '', owner: '', expiryDate: '', remarks: '', csRemarks: '' };
+
+const mockChanges: offlineStorage.StoredChange[] = [
   {
     id: 'draft-1',
-    type: 'item' as const,
-    action: 'create' as const,
-    data: { name: 'Draft Rifle' },
+    type: 'item',
+    action: 'create',
+    data: { ...createFields, name: 'Draft Rifle' },
     timestamp: 1620000000000,
     title: 'Draft Rifle',
     subtitle: 'Create Item',
     isPinned: false,
+    schemaVersion: 2,
   },
   {
     id: 'draft-2',
-    type: 'condition' as const,
-    action: 'assign' as const,
-    data: { condition: { coin: '9000' } },
+    type: 'condition',
+    action: 'assign',
+    data: {
+      condition: { coin: '9000', name: 'Space Flu', description: '', assignments: [] },
+      newOwner: '',
+      newExpiry: '',
+      selectedRemovePlins: [],
+    },
     timestamp: 1610000000000,
     title: 'Space Flu',
     subtitle: 'Assign COIN: 9000',
     isPinned: false,
+    schemaVersion: 2,
   },
   {
     id: 'draft-3',
-    type: 'power' as const,
-    action: 'create' as const,
-    data: { name: 'Biotic Push', power: { poin: '7000' } },
+    type: 'power',
+    action: 'create',
+    data: { ...createFields, name: 'Biotic Push', poin: '7000' },
     timestamp: 1630000000000,
     title: 'Alpha Power',
     subtitle: 'Create Power',
     isPinned: true,
+    schemaVersion: 2,
   },
 ];
 
@@ -67,7 +77,7 @@ describe('StoredChanges Page', () => {
   });
 
   test('renders empty state', () => {
-    offlineMock.getStoredChanges.mockReturnValue([]);
+    offlineMock.getStoredChanges.mockResolvedValue([]);
 
     renderWithRouter(<StoredChanges />, '/stored-changes');
 
@@ -75,13 +85,21 @@ describe('StoredChanges Page', () => {
     expect(emptyText).toBeTruthy();
   });
 
-  test('renders list of drafts with correct badge logic', () => {
-    offlineMock.getStoredChanges.mockReturnValue(mockChanges);
+  test('shows why a change was rejected when the outbox synced', async () => {
+    offlineMock.getStoredChanges.mockResolvedValue([{ ...mockChanges[1], syncError: 'Conflict' }]);
+
+    renderWithRouter(<StoredChanges />, '/stored-changes');
+
+    expect(await screen.findByText('Sync failed: Conflict')).toBeTruthy();
+  });
+
+  test('renders list of drafts with correct badge logic', async () => {
+    offlineMock.getStoredChanges.mockResolvedValue(mockChanges);
 
     renderWithRouter(<StoredChanges />, '/stored-changes');
 
     // Titles
-    expect(screen.getByText('Draft Rifle')).toBeTruthy();
+    expect(await screen.findByText('Draft Rifle')).toBeTruthy();
     expect(screen.getByText('Space Flu')).toBeTruthy();
     expect(screen.getByText('Alpha Power')).toBeTruthy();
 
@@ -92,10 +110,11 @@ describe('StoredChanges Page', () => {
     expect(screen.getByText(/COIN 9000/)).toBeTruthy();
   });
 
-  test('filters drafts by type (POIN/POWER)', () => {
-    offlineMock.getStoredChanges.mockReturnValue(mockChanges);
+  test('filters drafts by type (POIN/POWER)', async () => {
+    offlineMock.getStoredChanges.mockResolvedValue(mockChanges);
 
     renderWithRouter(<StoredChanges />, '/stored-changes');
+    await screen.findByText('Draft Rifle');
 
     // Filter button label "POIN" corresponds to FilterType 'POWER'
     const poinButton = screen.getByText('POIN', { selector: 'button' });
@@ -106,10 +125,11 @@ describe('StoredChanges Page', () => {
     expect(screen.getByText('1 Drafts')).toBeTruthy();
   });
 
-  test('sorts drafts by title (pinned stays on top)', () => {
-    offlineMock.getStoredChanges.mockReturnValue(mockChanges);
+  test('sorts drafts by title (pinned stays on top)', async () => {
+    offlineMock.getStoredChanges.mockResolvedValue(mockChanges);
 
     renderWithRouter(<StoredChanges />, '/stored-changes');
+    await screen.findByText('Draft Rifle');
 
     const titleSortBtn = screen.getByText('Title', { selector: 'button' });
     fireEvent.click(titleSortBtn); // switch to TITLE ASC
@@ -125,13 +145,13 @@ describe('StoredChanges Page', () => {
     expect(titles[2]).toContain('Space Flu');
   });
 
-  test('toggles pin status and persists via saveStoredChange', () => {
-    offlineMock.getStoredChanges.mockReturnValue(mockChanges);
+  test('toggles pin status and persists via saveStoredChange', async () => {
+    offlineMock.getStoredChanges.mockResolvedValue(mockChanges);
 
     renderWithRouter(<StoredChanges />, '/stored-changes');
 
     // First pin button on an unpinned draft ("Draft Rifle")
-    const pinButtons = screen.getAllByTitle('Pin');
+    const pinButtons = await screen.findAllByTitle('Pin');
     fireEvent.click(pinButtons[0]);
 
     expect(offlineMock.saveStoredChange).toHaveBeenCalledWith(
@@ -142,12 +162,12 @@ describe('StoredChanges Page', () => {
     );
   });
 
-  test('navigates to correct page when clicking an item draft', () => {
-    offlineMock.getStoredChanges.mockReturnValue(mockChanges);
+  test('navigates to correct page when clicking an item draft', async () => {
+    offlineMock.getStoredChanges.mockResolvedValue(mockChanges);
 
     renderWithRouter(<StoredChanges />, '/stored-changes');
 
-    fireEvent.click(screen.getByText('Draft Rifle'));
+    fireEvent.click(await screen.findByText('Draft Rifle'));
 
     expect(mockNavigate).toHaveBeenCalledWith(
         '/create-item',
@@ -163,14 +183,13 @@ describe('StoredChanges Page', () => {
   });
 
   test('bulk deletes drafts via long-press selection', async () => {
-    offlineMock.getStoredChanges.mockReturnValue(mockChanges);
+    offlineMock.getStoredChanges.mockResolvedValue(mockChanges);
+    renderWithRouter(<StoredChanges />, '/stored-changes');
+    // Find the title element, then the card with handlers (div.flex-1)
+    const titleEl = await screen.findByText('Draft Rifle');
     jest.useFakeTimers();
 
     try {
-      renderWithRouter(<StoredChanges />, '/stored-changes');
-
-      // Find the title element, then the card with handlers (div.flex-1)
-      const titleEl = screen.getByText('Draft Rifle');
       const card = titleEl.closest('div.flex-1');
       if (!card) throw new Error('Card not found');
 
@@ -192,10 +211,10 @@ describe('StoredChanges Page', () => {
       // Confirm modal
       const confirmBtn = screen.getByText(/Remove 1 Drafts/i);
       fireEvent.click(confirmBtn);
-
-      expect(offlineMock.deleteStoredChange).toHaveBeenCalledWith('draft-1');
     } finally {
       jest.useRealTimers();
     }
+
+    await waitFor(() => expect(offlineMock.deleteStoredChange).toHaveBeenCalledWith('draft-1'));
   });
 });
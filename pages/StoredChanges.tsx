@@ -1,9 +1,10 @@
 import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { Home, Trash2, ArrowUp, ArrowDown, ArrowUpAZ, ArrowDownAZ, Calendar, X, Check, RefreshCw, Pin, Box, Activity, Zap } from 'lucide-react';
+import { Home, Trash2, ArrowUp, ArrowDown, ArrowUpAZ, ArrowDownAZ, Calendar, X, Check, RefreshCw, Pin, Box, Activity, Zap, AlertTriangle } from 'lucide-react';
 import Button from '../components/ui/Button';
 import ConfirmModal from '../components/ui/ConfirmModal';
 import { getStoredChanges, deleteStoredChange, saveStoredChange, StoredChange } from '../services/offlineStorage';
+import { subscribeToTabChanges } from '../services/tabSync';
 
 type FilterType = 'ALL' | 'ITEM' | 'CONDITION' | 'POWER';
 type SortField = 'DATE' | 'TITLE';
@@ -30,15 +31,15 @@ const StoredChanges: React.FC = () => {
 
   const isSelectionMode = selectedIds.size > 0;
 
-  const loadChanges = () => {
-    const data = getStoredChanges();
-    // Ensure valid data
-    const validData = data.filter(d => d && d.id && d.data);
-    setChanges(validData);
+  const loadChanges = async () => {
+    // Drafts come back validated and upgraded to the current schema
+    setChanges(await getStoredChanges());
   };
 
   useEffect(() => {
     loadChanges();
+    // Drafts saved or removed in another tab
+    return subscribeToTabChanges('drafts', loadChanges);
   }, []);
 
   // --- Derived Data ---
@@ -79,11 +80,11 @@ const StoredChanges: React.FC = () => {
      }
   };
 
-  const togglePin = (e: React.MouseEvent, change: StoredChange) => {
+  const togglePin = async (e: React.MouseEvent, change: StoredChange) => {
       e.stopPropagation();
       const updatedChange = { ...change, isPinned: !change.isPinned };
-      saveStoredChange(updatedChange);
-      loadChanges();
+      await saveStoredChange(updatedChange);
+      await loadChanges();
   };
 
   // --- Deletion Logic ---
@@ -93,10 +94,10 @@ const StoredChanges: React.FC = () => {
     setChangeToDelete(change);
   };
 
-  const confirmDelete = () => {
+  const confirmDelete = async () => {
     if (changeToDelete) {
-        deleteStoredChange(changeToDelete.id);
-        loadChanges();
+        await deleteStoredChange(changeToDelete.id);
+        await loadChanges();
         
         setStatusMessage({ type: 'success', text: `Draft "${changeToDelete.title}" removed.` });
         setTimeout(() => setStatusMessage(null), 3000);
@@ -104,9 +105,9 @@ const StoredChanges: React.FC = () => {
     }
   };
 
-  const confirmBulkDelete = () => {
-      selectedIds.forEach(id => deleteStoredChange(id));
-      loadChanges();
+  const confirmBulkDelete = async () => {
+      await deleteStoredChange(...selectedIds);
+      await loadChanges();
       setSelectedIds(new Set());
       setShowBulkDeleteConfirm(false);
       setStatusMessage({ type: 'success', text: 'Selected drafts removed.' });
@@ -193,16 +194,15 @@ const StoredChanges: React.FC = () => {
     }
   };
 
-  // Helper to extract ID
+  // Helper to extract ID: the record being changed, or the ID reserved for a new one
   const getDraftId = (change: StoredChange): string | null => {
     if (change.type === 'item') {
-        return change.data.item?.itin || change.data.itin || null;
+        return (change.action === 'create' ? change.data.itin : change.data.item.itin) || null;
     } else if (change.type === 'condition') {
-        return change.data.condition?.coin || change.data.coin || null;
-    } else if (change.type === 'power') {
-        return change.data.power?.poin || change.data.poin || null;
+        return (change.action === 'create' ? change.data.coin : change.data.condition.coin) || null;
+    } else {
+        return (change.action === 'create' ? change.data.poin : change.data.power.poin) || null;
     }
-    return null;
   };
 
   return (
@@ -423,6 +423,14 @@ const StoredChanges: React.FC = () => {
                                 {new Date(change.timestamp).toLocaleDateString()}
                             </span>
                         </div>
+
+                        {/* Rejected when the offline outbox was synced */}
+                        {change.syncError && (
+                            <div className="flex items-center gap-1 text-[10px] font-bold text-red-600 dark:text-red-400 pr-6">
+                                <AlertTriangle size={10} className="shrink-0" />
+                                <span className="truncate">Sync failed: {change.syncError}</span>
+                            </div>
+                        )}
                     </div>
 
                     {!isSelectionMode && (
@@ -1,4 +1,4 @@
-import { describe, expect, test, beforeEach, afterAll, jest } from '@jest/globals';
+import { describe, expect, test, beforeEach, afterEach, afterAll, jest } from '@jest/globals';
 import {
   getCharacterName,
   searchGlobal,
@@ -12,7 +12,30 @@ import {
   searchPowerByPoin,
   updateCondition,
   updatePower,
+  setDataSource,
+  getDataSource,
+  createDataSource,
+  setApiSession,
+  getApiSession,
+  reserveIds,
+  getReservationScope,
+  getHistory,
+  loadPlayerDirectory,
+  createPlayer,
+  searchPlayerByPlin,
+  updatePlayer,
+  searchPlayers,
+  getPlayerAssets,
+  markPlayerDeceased,
+  exportAll,
+  signLabels,
+  verifyLabel,
 } from './api';
+import { mockDataSource } from './mockDataSource';
+import { DataSource } from './dataSource';
+import { Item } from '../types';
+import { getAppConfig } from './config';
+import { parseImportFile, guessMapping, buildImportRecords, planImport } from './dataImport';
 
 // Helper: run async API calls while using fake timers for the internal delay
 const runWithTimers = <T>(fn: () => Promise<T>): Promise<T> => {
@@ -22,10 +45,14 @@ const runWithTimers = <T>(fn: () => Promise<T>): Promise<T> => {
   return promise;
 };
 
+// Character Services may do everything, so the data source behaviour is tested unrestricted
+const csUser = { id: 'cs-1', name: 'Character Services', email: 'cs@example.com', avatar: '', role: 'cs' as const };
+
 describe('API Service', () => {
   beforeEach(() => {
     jest.useFakeTimers();
     resetData();
+    setApiSession({ token: 't', user: csUser });
   });
 
   afterAll(() => {
@@ -33,15 +60,16 @@ describe('API Service', () => {
   });
 
   describe('getCharacterName', () => {
-    test('returns correct name for known PLIN', () => {
+    test('returns correct name for known PLIN once the registry is loaded', async () => {
+      expect(getCharacterName('1001#01')).toBe('');
+      await runWithTimers(() => loadPlayerDirectory());
       expect(getCharacterName('1001#01')).toBe('Commander Shepherd');
     });
 
-    test('parses unknown PLIN formats into fallback names', () => {
-      // 1002 is even -> Jane Doe logic
-      expect(getCharacterName('1002#99')).toBe('Jane Doe');
-      // 1003 is odd -> John Doe logic
-      expect(getCharacterName('1003#99')).toBe('John Doe');
+    test('returns empty string for unregistered PLINs instead of inventing names', async () => {
+      await runWithTimers(() => loadPlayerDirectory());
+      expect(getCharacterName('1002#99')).toBe('');
+      expect(getCharacterName('1003#99')).toBe('');
     });
 
     test('returns empty string for invalid formats or system PLIN', () => {
@@ -50,6 +78,185 @@ describe('API Service', () => {
       expect(getCharacterName('InvalidString')).toBe('');
       expect(getCharacterName('1234')).toBe(''); // Missing '#'
     });
+
+    test('picks up players registered or renamed through the API', async () => {
+      await runWithTimers(() => createPlayer({ plin: '4321#01', characterName: 'Nova Prime', playerName: 'Sam', status: 'alive' }));
+      expect(getCharacterName('4321#01')).toBe('Nova Prime');
+
+      await runWithTimers(() => updatePlayer('4321#01', { characterName: 'Nova Secundus' }));
+      expect(getCharacterName('4321#01')).toBe('Nova Secundus');
+    });
+  });
+
+  describe('Player registry', () => {
+    test('creates and finds a player by PLIN', async () => {
+      const created = await runWithTimers(() => createPlayer({
+        plin: '2000#05', characterName: 'Vex', playerName: 'Robin', status: 'alive', notes: 'New recruit',
+      }));
+      expect(created.success).toBe(true);
+      expect(created.data!.version).toBe(1);
+
+      const found = await runWithTimers(() => searchPlayerByPlin('2000#05'));
+      expect(found.data!.characterName).toBe('Vex');
+      expect(found.data!.notes).toBe('New recruit');
+
+      const missing = await runWithTimers(() => searchPlayerByPlin('0000#00'));
+      expect(missing).toEqual({ success: false, error: 'Player not found' });
+    });
+
+    test('validates PLIN format, uniqueness and character name', async () => {
+      const badFormat = await runWithTimers(() => createPlayer({ plin: '12345', characterName: 'X', playerName: '', status: 'alive' }));
+      expect(badFormat.error).toBe('PLIN must be format 1234#12');
+
+      const duplicate = await runWithTimers(() => createPlayer({ plin: '1001#01', characterName: 'X', playerName: '', status: 'alive' }));
+      expect(duplicate.error).toBe('PLIN 1001#01 is already registered');
+
+      const noName = await runWithTimers(() => createPlayer({ plin: '2000#06', characterName: ' ', playerName: '', status: 'alive' }));
+      expect(noName.error).toBe('Character name is required');
+    });
+
+    test('updates profile fields but never the PLIN, and rejects stale versions', async () => {
+      const updated = await runWithTimers(() => updatePlayer('1002#01', { plin: '9999#99', status: 'dead' }, { expectedVersion: 1 }));
+      expect(updated.data!.plin).toBe('1002#01');
+      expect(updated.data!.status).toBe('dead');
+      expect(updated.data!.version).toBe(2);
+
+      const stale = await runWithTimers(() => updatePlayer('1002#01', { notes: 'x' }, { expectedVersion: 1 }));
+      expect(stale.status).toBe(409);
+      expect(stale.conflict!.status).toBe('dead');
+    });
+
+    test('searches on PLIN, character name and player name', async () => {
+      const all = await runWithTimers(() => searchPlayers(''));
+      expect(all.data!.length).toBe(25);
+
+      const byCharacter = await runWithTimers(() => searchPlayers('shepherd'));
+      expect(byCharacter.data!.map(p => p.plin)).toEqual(['1001#01']);
+
+      const byPlin = await runWithTimers(() => searchPlayers('1025#'));
+      expect(byPlin.data!.map(p => p.characterName)).toEqual(["Aria T'Loak"]);
+
+      const byPlayerName = await runWithTimers(() => searchPlayers('anna de'));
+      expect(byPlayerName.data!.map(p => p.plin)).toEqual(['1001#01']);
+    });
+
+    test('collects owned items and assignments for a PLIN (exact match)', async () => {
+      await runWithTimers(() => updateItem('1001', { owner: '7000#01' }));
+      await runWithTimers(() => updateCondition('8001', { assignments: [{ plin: '7000#01', expiryDate: 'until death' }] }));
+      await runWithTimers(() => updatePower('5001', { assignments: [{ plin: '17000#01', expiryDate: '01/01/2030' }] }));
+
+      const assets = await runWithTimers(() => getPlayerAssets('7000#01'));
+      expect(assets.success).toBe(true);
+      expect(assets.data!.items.map(i => i.itin)).toEqual(['1001']);
+      expect(assets.data!.conditions.map(c => c.coin)).toEqual(['8001']);
+      expect(assets.data!.powers).toEqual([]);
+    });
+  });
+
+  describe('Full export', () => {
+    test('returns a detached copy of every record', async () => {
+      const snapshot = await runWithTimers(() => exportAll());
+      expect(snapshot.success).toBe(true);
+      const { items, conditions, powers, players } = snapshot.data!;
+      expect(items.some(i => i.itin === '1001')).toBe(true);
+      expect(conditions.some(c => c.coin === '8001')).toBe(true);
+      expect(powers.some(p => p.poin === '5001')).toBe(true);
+      expect(players.some(p => p.plin === '1001#01')).toBe(true);
+
+      items[0].name = 'Changed';
+      const item = await runWithTimers(() => searchItemByItin(items[0].itin));
+      expect(item.data!.name).not.toBe('Changed');
+    });
+  });
+
+  describe('Character death', () => {
+    beforeEach(async () => {
+      jest.setSystemTime(new Date(2026, 2, 15));
+      await runWithTimers(() => updateItem('1003', { owner: '1002#01' }));
+      await runWithTimers(() => updateCondition('8001', {
+        assignments: [{ plin: '1002#01', expiryDate: 'until death' }, { plin: '1005#01', expiryDate: 'until death' }],
+      }));
+      await runWithTimers(() => updatePower('5001', { assignments: [{ plin: '1002#01', expiryDate: '01/01/2030' }] }));
+    });
+
+    test('applies item choices and ends only the deceased\'s "until death" assignments', async () => {
+      const result = await runWithTimers(() => markPlayerDeceased('1002#01', {
+        items: [
+          { itin: '1002', disposition: 'transfer', newOwner: '1010#01' },
+          { itin: '1003', disposition: 'destroy' },
+        ],
+        expectedVersion: 1,
+      }));
+
+      expect(result.success).toBe(true);
+      expect(result.data!.player).toMatchObject({ status: 'dead', version: 2 });
+      expect(result.data!.items.map(i => [i.itin, i.owner, i.destroyed])).toEqual([
+        ['1002', '1010#01', undefined],
+        ['1003', '1002#01', true],
+      ]);
+      expect(result.data!.items[1].expiryDate).toBe('15/03/2026');
+      expect(result.data!.conditions.map(c => c.assignments)).toEqual([[
+        { plin: '1002#01', expiryDate: '15/03/2026' },
+        { plin: '1005#01', expiryDate: 'until death' },
+      ]]);
+      // Dated assignments keep their expiry
+      expect(result.data!.powers).toEqual([]);
+      expect(getCharacterName('1002#01')).toBe("Liara T'Soni");
+
+      const history = await runWithTimers(() => getHistory('condition', '8001'));
+      expect(history.data![0].action).toBe('death');
+      expect(history.data![0].changes).toEqual([
+        { field: 'assignments[1002#01]', before: 'until death', after: '15/03/2026' },
+      ]);
+    });
+
+    test('records the death on the player and ties every entry of the batch together', async () => {
+      await runWithTimers(() => markPlayerDeceased('1002#01', { items: [{ itin: '1003', disposition: 'destroy' }] }));
+
+      const player = (await runWithTimers(() => getHistory('player', '1002#01'))).data!;
+      expect(player[0]).toMatchObject({
+        entityType: 'player',
+        action: 'death',
+        changes: [{ field: 'status', before: 'alive', after: 'dead' }],
+      });
+
+      const item = (await runWithTimers(() => getHistory('item', '1003'))).data![0];
+      const condition = (await runWithTimers(() => getHistory('condition', '8001'))).data![0];
+      expect(player[0].batchId).toMatch(/^death-/);
+      expect(item.batchId).toBe(player[0].batchId);
+      expect(condition.batchId).toBe(player[0].batchId);
+      // Entries outside the batch are not part of it
+      expect((await runWithTimers(() => getHistory('power', '5001'))).data![0].batchId).toBeUndefined();
+    });
+
+    test('rejects the whole batch when one choice is invalid', async () => {
+      const result = await runWithTimers(() => markPlayerDeceased('1002#01', {
+        items: [
+          { itin: '1002', disposition: 'destroy' },
+          { itin: '1003', disposition: 'transfer', newOwner: '1002#01' },
+        ],
+      }));
+      expect(result).toEqual({ success: false, error: 'ITIN 1003: cannot transfer to the deceased character' });
+
+      const item = await runWithTimers(() => searchItemByItin('1002'));
+      expect(item.data!.destroyed).toBeUndefined();
+      const player = await runWithTimers(() => searchPlayerByPlin('1002#01'));
+      expect(player.data!.status).toBe('alive');
+      const cond = await runWithTimers(() => searchConditionByCoin('8001'));
+      expect(cond.data!.assignments[0].expiryDate).toBe('until death');
+    });
+
+    test('refuses stale versions, dead players and items the player does not own', async () => {
+      const stale = await runWithTimers(() => markPlayerDeceased('1002#01', { items: [], expectedVersion: 7 }));
+      expect(stale.status).toBe(409);
+
+      const notOwned = await runWithTimers(() => markPlayerDeceased('1002#01', { items: [{ itin: '1001', disposition: 'destroy' }] }));
+      expect(notOwned.error).toBe('ITIN 1001 is not owned by 1002#01');
+
+      await runWithTimers(() => markPlayerDeceased('1002#01', { items: [] }));
+      const again = await runWithTimers(() => markPlayerDeceased('1002#01', { items: [] }));
+      expect(again.error).toBe('PLIN 1002#01 is already marked deceased');
+    });
   });
 
   describe('searchGlobal', () => {
@@ -308,4 +515,340 @@ describe('API Service', () => {
       expect(res.success).toBe(false);
     });
   });
+
+  describe('ID allocation', () => {
+    const newItem = {
+      name: 'Alloc Item',
+      description: 'Desc',
+      owner: '1234#12',
+      expiryDate: '01/01/2030',
+    };
+
+    test('allocates the next free ITIN instead of a random one', async () => {
+      const first = await runWithTimers(() => createItem(newItem));
+      const second = await runWithTimers(() => createItem(newItem));
+
+      // 1000 is free, 1001-1025 are taken by the seeded items
+      expect(first.data?.itin).toBe('1000');
+      expect(second.data?.itin).toBe('1026');
+    });
+
+    test('never allocates an ID that is already reserved', async () => {
+      const reserved = await runWithTimers(() => reserveIds('condition', 2));
+      expect(reserved).toEqual({ success: true, data: ['8000', '8026'] });
+
+      const created = await runWithTimers(() =>
+          createCondition({ name: 'C', description: 'D', assignments: [] }),
+      );
+      expect(created.data?.coin).toBe('8027');
+    });
+
+    test('creates a record with a previously reserved ID', async () => {
+      const reserved = await runWithTimers(() => reserveIds('power', 1));
+      const poin = reserved.data![0];
+
+      const created = await runWithTimers(() =>
+          createPower({ poin, name: 'Offline Power', description: 'D', assignments: [] }),
+      );
+      expect(created.success).toBe(true);
+      expect(created.data?.poin).toBe(poin);
+    });
+
+    test('rejects requested IDs that collide or fall outside the range', async () => {
+      const collision = await runWithTimers(() => createItem({ ...newItem, itin: '1001' }));
+      expect(collision).toEqual({ success: false, error: 'ITIN 1001 is already in use' });
+
+      const outOfRange = await runWithTimers(() =>
+          createPower({ poin: '8000', name: 'P', description: 'D', assignments: [] }),
+      );
+      expect(outOfRange).toEqual({ success: false, error: 'POIN 8000 is outside the allowed range' });
+    });
+
+    test('rejects requested IDs reserved for another user', async () => {
+      const reserved = await runWithTimers(() => reserveIds('item', 1));
+      const itin = reserved.data![0];
+
+      setApiSession({ token: 't', user: { ...csUser, id: 'cs-2' } });
+      const taken = await runWithTimers(() => createItem({ ...newItem, itin }));
+      expect(taken).toEqual({ success: false, error: `ITIN ${itin} is reserved for another user` });
+
+      setApiSession({ token: 't', user: csUser });
+      expect((await runWithTimers(() => createItem({ ...newItem, itin }))).success).toBe(true);
+
+      // A reservation is used up by the record created with it
+      const again = await runWithTimers(() => createItem({ ...newItem, itin }));
+      expect(again).toEqual({ success: false, error: `ITIN ${itin} is already in use` });
+    });
+
+    test('creates an imported record with its own free ID', async () => {
+      const table = parseImportFile('ITIN,Name,Description,Owner,Expiry Date\n1500,Medigel,Healing,1001#01,01/01/2030').data!;
+      const records = buildImportRecords('item', table, guessMapping('item', table.headers));
+      const [row] = planImport('item', records, new Map());
+      expect(row.action).toBe('create');
+
+      const created = await runWithTimers(() => createItem(row.payload as Omit<Item, 'itin'>));
+      expect(created.success).toBe(true);
+      expect(created.data?.itin).toBe('1500');
+    });
+
+    test('reports an exhausted range as an ApiResult error', async () => {
+      // 5001-5025 are seeded, leaving 2975 free POINs
+      const tooMany = await runWithTimers(() => reserveIds('power', 2976));
+      expect(tooMany.success).toBe(false);
+
+      const all = await runWithTimers(() => reserveIds('power', 2975));
+      expect(all.success).toBe(true);
+
+      const created = await runWithTimers(() =>
+          createPower({ name: 'One Too Many', description: 'D', assignments: [] }),
+      );
+      expect(created).toEqual({ success: false, error: 'No free POIN left in range 5000-7999' });
+    });
+
+    test('resetData releases reservations', async () => {
+      await runWithTimers(() => reserveIds('item', 1));
+      const scope = getReservationScope();
+      resetData();
+
+      // Pools kept for the old scope are no longer trusted
+      expect(getReservationScope()).not.toBe(scope);
+
+      const created = await runWithTimers(() => createItem(newItem));
+      expect(created.data?.itin).toBe('1000');
+    });
+  });
+
+  describe('Access control', () => {
+    const player = { ...csUser, id: 'player-1', role: 'player' as const, plins: ['1001#01'] };
+    const referee = { ...csUser, id: 'ref-1', role: 'referee' as const };
+
+    test('refuses changes the signed-in role may not make', async () => {
+      setApiSession({ token: 't', user: player });
+
+      const created = await runWithTimers(() => createItem({ name: 'X', description: 'D', owner: '', expiryDate: '' }));
+      expect(created).toEqual({ success: false, error: 'You do not have permission to do this.', status: 403 });
+      expect((await runWithTimers(() => updateItem('1001', { remarks: 'x' }))).status).toBe(403);
+      expect((await runWithTimers(() => reserveIds('item', 1))).status).toBe(403);
+      expect((await runWithTimers(() => exportAll())).status).toBe(403);
+
+      const found = await runWithTimers(() => searchItemByItin('9999'));
+      expect(found.success).toBe(true);
+    });
+
+    test('only gives players the records of their own characters', async () => {
+      await runWithTimers(() => updateCondition('9999', {
+        assignments: [{ plin: '1001#01', expiryDate: '01/01/2030' }, { plin: '2002#02', expiryDate: '01/01/2031' }],
+      }));
+      const other = await runWithTimers(() => createItem({ name: 'Not yours', description: 'D', owner: '2002#02', expiryDate: '' }));
+      setApiSession({ token: 't', user: player });
+
+      const condition = await runWithTimers(() => searchConditionByCoin('9999'));
+      expect(condition.data!.assignments).toEqual([{ plin: '1001#01', expiryDate: '01/01/2030' }]);
+      expect(await runWithTimers(() => searchItemByItin(other.data!.itin)))
+        .toEqual({ success: false, error: 'Item not found', status: 404 });
+
+      const results = await runWithTimers(() => searchGlobal('Omni'));
+      expect(results.data!.length).toBeGreaterThan(0);
+      expect(results.data!.every(r => ('owner' in r ? r.owner === '1001#01' : r.assignments.every(a => a.plin === '1001#01')))).toBe(true);
+
+      const assets = await runWithTimers(() => getPlayerAssets('1001#01'));
+      expect(assets.data!.items.map(i => i.itin)).toContain('9999');
+      expect((await runWithTimers(() => getPlayerAssets('2002#02'))).status).toBe(403);
+      expect((await runWithTimers(() => searchPlayerByPlin('2002#02'))).status).toBe(404);
+      expect((await runWithTimers(() => searchPlayers(''))).data!.map(p => p.plin)).toEqual(['1001#01']);
+      expect((await runWithTimers(() => getHistory('condition', '9999'))).status).toBe(403);
+    });
+
+    test('only lets Character Services mark a character deceased', async () => {
+      setApiSession({ token: 't', user: referee });
+
+      const result = await runWithTimers(() => markPlayerDeceased('1002#01', { items: [] }));
+      expect(result).toEqual({ success: false, error: 'You do not have permission to do this.', status: 403 });
+      expect((await runWithTimers(() => searchPlayerByPlin('1002#01'))).data!.status).toBe('alive');
+    });
+
+    test('refuses everything but reads without a signed-in user', async () => {
+      setApiSession({ token: null, user: null });
+
+      expect((await runWithTimers(() => createCondition({ name: 'C', description: 'D', assignments: [] }))).status).toBe(403);
+      expect((await runWithTimers(() => updatePlayer('1001#01', { characterName: 'X' }))).status).toBe(403);
+    });
+
+    test('hides CS remarks from roles that may not read them and keeps them on update', async () => {
+      await runWithTimers(() => updateItem('1001', { csRemarks: 'Watch this one' }));
+      setApiSession({ token: 't', user: referee });
+
+      const found = await runWithTimers(() => searchItemByItin('1001'));
+      expect(found.data).not.toHaveProperty('csRemarks');
+      const results = await runWithTimers(() => searchGlobal('1001'));
+      expect(results.data!.every(r => !('csRemarks' in r))).toBe(true);
+
+      const updated = await runWithTimers(() => updateItem('1001', { remarks: 'Recharged', csRemarks: 'Overwritten' }));
+      expect(updated.data).not.toHaveProperty('csRemarks');
+      const history = await runWithTimers(() => getHistory('item', '1001'));
+      expect(history.data!.flatMap(e => e.changes).some(c => c.field === 'csRemarks')).toBe(false);
+
+      setApiSession({ token: 't', user: csUser });
+      expect((await runWithTimers(() => searchItemByItin('1001'))).data!.csRemarks).toBe('Watch this one');
+    });
+  });
+
+  describe('Audit trail', () => {
+    // resetData keeps the log, so entries from earlier tests may follow the ones checked here
+    const referee = { id: 'ref-1', name: 'Referee Rita', email: 'rita@example.com', avatar: '', role: 'referee' as const };
+
+    afterEach(() => {
+      setApiSession({ token: null, user: null });
+    });
+
+    test('records creation and recharge with the acting user, newest first', async () => {
+      setApiSession({ token: 't', user: referee });
+
+      const created = await runWithTimers(() => createItem({
+        name: 'Audited', description: 'D', owner: '1234#12', expiryDate: '01/01/2030',
+      }));
+      const itin = created.data!.itin;
+      await runWithTimers(() => updateItem(itin, { expiryDate: '01/01/2031' }));
+
+      const history = await runWithTimers(() => getHistory('item', itin));
+      expect(history.success).toBe(true);
+      expect(history.data!.slice(0, 2).map(e => e.action)).toEqual(['recharge', 'create']);
+      expect(history.data![0].actor).toEqual({ id: 'ref-1', name: 'Referee Rita' });
+      expect(history.data![0].changes).toEqual([
+        { field: 'expiryDate', before: '01/01/2030', after: '01/01/2031' },
+      ]);
+    });
+
+    test('classifies assignment changes on conditions and powers', async () => {
+      const cond = await runWithTimers(() => createCondition({
+        name: 'C', description: 'D', assignments: [{ plin: '1#1', expiryDate: '01/01/2030' }],
+      }));
+      const coin = cond.data!.coin;
+
+      await runWithTimers(() => updateCondition(coin, {
+        assignments: [{ plin: '1#1', expiryDate: '01/01/2030' }, { plin: '2#2', expiryDate: '01/01/2030' }],
+      }));
+      await runWithTimers(() => updateCondition(coin, {
+        assignments: [{ plin: '1#1', expiryDate: '01/01/2031' }, { plin: '2#2', expiryDate: '01/01/2030' }],
+      }));
+      await runWithTimers(() => updateCondition(coin, {
+        assignments: [{ plin: '1#1', expiryDate: '01/01/2031' }],
+      }));
+
+      const history = await runWithTimers(() => getHistory('condition', coin));
+      expect(history.data!.slice(0, 4).map(e => e.action)).toEqual(['unassign', 'extend', 'assign', 'create']);
+      expect(history.data![0].actor).toEqual({ id: csUser.id, name: csUser.name });
+    });
+
+    test('does not record updates that change nothing', async () => {
+      const before = await runWithTimers(() => getHistory('power', '5001'));
+      const current = await runWithTimers(() => searchPowerByPoin('5001'));
+      await runWithTimers(() => updatePower('5001', { name: current.data!.name }));
+      const history = await runWithTimers(() => getHistory('power', '5001'));
+      expect(history.data).toEqual(before.data);
+    });
+
+    test('resetData keeps the audit trail', async () => {
+      await runWithTimers(() => updateItem('1001', { owner: '5555#55' }));
+      resetData();
+      const history = await runWithTimers(() => getHistory('item', '1001'));
+      expect(history.data![0]).toMatchObject({ action: 'assign', changes: [{ field: 'owner', after: '5555#55' }] });
+    });
+  });
+
+  describe('Label signing', () => {
+    const label = { type: 'item' as const, id: '1001', expiry: '01/01/2030' };
+
+    test('verifies only the signatures it issued for the exact label', async () => {
+      const signed = await runWithTimers(() => signLabels([label, { ...label, id: '1002' }]));
+      expect(signed.data).toHaveLength(2);
+      const [signature] = signed.data!;
+      expect(signature).toMatch(/^[0-9a-f]{24}$/);
+
+      expect((await runWithTimers(() => verifyLabel(label, signature))).data).toBe(true);
+      expect((await runWithTimers(() => verifyLabel({ ...label, expiry: '01/01/2099' }, signature))).data).toBe(false);
+      expect((await runWithTimers(() => verifyLabel({ ...label, id: '1002' }, signature))).data).toBe(false);
+    });
+
+    test('only signs labels for roles that may print them', async () => {
+      setApiSession({ token: 't', user: { ...csUser, id: 'player-1', role: 'player', plins: ['1001#01'] } });
+      expect((await runWithTimers(() => signLabels([label]))).status).toBe(403);
+    });
+  });
+
+  describe('Optimistic concurrency', () => {
+    test('every write bumps the version and stamps updatedAt', async () => {
+      const before = await runWithTimers(() => searchItemByItin('1001'));
+      expect(before.data!.version).toBe(1);
+
+      const result = await runWithTimers(() => updateItem('1001', { expiryDate: '01/01/2030' }));
+      expect(result.data!.version).toBe(2);
+      expect(result.data!.updatedAt).toEqual(expect.any(Number));
+
+      const created = await runWithTimers(() => createPower({ name: 'New', description: 'D', assignments: [] }));
+      expect(created.data!.version).toBe(1);
+    });
+
+    test('rejects a stale expected version with 409 and the current record', async () => {
+      await runWithTimers(() => updateCondition('8001', { remarks: 'Changed elsewhere' }));
+
+      const stale = await runWithTimers(() => updateCondition('8001', { name: 'Mine' }, { expectedVersion: 1 }));
+      expect(stale.success).toBe(false);
+      expect(stale.status).toBe(409);
+      expect(stale.error).toBe('COIN 8001 was changed by someone else (version 2, expected 1)');
+      expect(stale.conflict!.remarks).toBe('Changed elsewhere');
+      expect(stale.conflict!.version).toBe(2);
+
+      const unchanged = await runWithTimers(() => searchConditionByCoin('8001'));
+      expect(unchanged.data!.name).not.toBe('Mine');
+
+      const fresh = await runWithTimers(() => updateCondition('8001', { name: 'Mine' }, { expectedVersion: 2 }));
+      expect(fresh.success).toBe(true);
+      expect(fresh.data!.version).toBe(3);
+    });
+
+    test('ignores version fields passed in as updates', async () => {
+      const result = await runWithTimers(() => updatePower('5001', { version: 99, name: 'Renamed' }));
+      expect(result.data!.version).toBe(2);
+    });
+  });
+
+  describe('Data source selection', () => {
+    afterEach(() => {
+      setDataSource(mockDataSource);
+      setApiSession({ token: null, user: null });
+    });
+
+    test('defaults to the in-memory mock data source', () => {
+      expect(getDataSource()).toBe(mockDataSource);
+      expect(createDataSource({ ...getAppConfig(), dataSource: 'mock' })).toBe(mockDataSource);
+    });
+
+    test('falls back to the mock when REST is selected without a base URL', () => {
+      expect(createDataSource({ ...getAppConfig(), dataSource: 'rest' })).toBe(mockDataSource);
+    });
+
+    test('builds a REST data source when configured', () => {
+      const source = createDataSource({ ...getAppConfig(), dataSource: 'rest', apiBaseUrl: 'https://db.example.org' });
+      expect(source).not.toBe(mockDataSource);
+      expect(source.reset).toBeUndefined();
+    });
+
+    test('delegates calls to the active data source', async () => {
+      const stub = {
+        ...mockDataSource,
+        searchItemByItin: jest.fn(async (itin: string) => ({ success: true, data: { itin } as any })),
+      } as unknown as DataSource;
+      setDataSource(stub);
+
+      const res = await searchItemByItin('4242');
+      expect(stub.searchItemByItin).toHaveBeenCalledWith('4242');
+      expect(res.data?.itin).toBe('4242');
+    });
+
+    test('stores the session used for authenticated requests', () => {
+      setApiSession({ token: 'abc', user: null });
+      expect(getApiSession().token).toBe('abc');
+    });
+  });
 });
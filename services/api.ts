@@ -1,275 +1,230 @@
-import { Item, Condition, Power, ApiResult, Assignment } from '../types';
-
-// --- MOCK DATA GENERATION ---
-// In a real application, this data would come from a backend database.
-// Here, we generate consistent mock data to simulate a populated environment for testing.
-
-const MOCK_PLAYER_NAMES = [
-  "Commander Shepherd", "Liara T'Soni", "Garrus Vakarian", "Tali'Zorah", "Urdnot Wrex",
-  "Kaidan Alenko", "Ashley Williams", "Joker Moreau", "Dr. Chakwas", "Miranda Lawson",
-  "Jacob Taylor", "Mordin Solus", "Jack", "Grunt", "Thane Krios", "Samara", "Legion",
-  "Zaeed Massani", "Kasumi Goto", "Javik", "James Vega", "EDI", "Admiral Anderson",
-  "Illusive Man", "Aria T'Loak"
-];
-
-const ITEM_NAMES = [
-  "Plasma Rifle", "Medigel Pack", "Omni-tool v1", "Kinetic Barrier", "Thermal Clip",
-  "Element Zero Core", "Heavy Pistol", "Sniper Rifle", "Biotic Amp", "Tech Armor Generator",
-  "Assault Rifle", "Shotgun", "Submachine Gun", "Grenade Launcher", "Rocket Launcher",
-  "Arc Projector", "Flamethrower", "Cryo Blaster", "Particle Rifle", "Cain Nuke Launcher",
-  "Black Widow", "Carnifex Hand Cannon", "Geth Pulse Rifle", "Mattock Rifle", "M-8 Avenger"
-];
-
-const CONDITION_NAMES = [
-  "Radiation Poisoning", "Broken Bone", "Concussion", "Exhaustion", "Frozen",
-  "Burning", "Poisoned", "Stunned", "Bleeding", "Blinded",
-  "Deafened", "Paralyzed", "Petrified", "Charmed", "Frightened",
-  "Invisible", "Hasted", "Slowed", "Weakened", "Empowered",
-  "Cursed", "Blessed", "Sleeping", "Unconscious", "Dead"
-];
-
-const POWER_NAMES = [
-  "Biotic Throw", "Warp", "Singularity", "Pull", "Shockwave",
-  "Charge", "Nova", "Barrier", "Stasis", "Reave",
-  "Overload", "Incinerate", "Cryo Blast", "AI Hacking", "Combat Drone",
-  "Tech Armor", "Tactical Cloak", "Energy Drain", "Adrenaline Rush", "Concussive Shot",
-  "Fortification", "Geth Shield Boost", "Slam", "Dark Channel", "Flare"
-];
-
-// Generate Players with formatted IDs (PLINs 1001#01 to 1025#01)
-const PLAYERS: Record<string, string> = {};
-MOCK_PLAYER_NAMES.forEach((name, i) => {
-  const id = `${1001 + i}#01`;
-  PLAYERS[id] = name;
-});
-const PLAYER_IDS = Object.keys(PLAYERS);
+import { Item, Condition, Power, Player, PlayerAssets, ApiResult, EntityType, AuditEntityType, AuditEntry, UpdateOptions, DeathRequest, DeathOutcome, DatabaseSnapshot, LabelRef } from '../types';
+import { DataSource } from './dataSource';
+import { mockDataSource } from './mockDataSource';
+import { createRestDataSource } from './restDataSource';
+import { AppConfig, getAppConfig } from './config';
+import { getApiSession, refreshApiSession } from './session';
+import { Permission, hasPermission } from './permissions';
+
+export {
+  setApiSession,
+  getApiSession,
+  refreshApiSession,
+  subscribeToSessionRefresh,
+  subscribeToSessionExpiry,
+} from './session';
+
+// --- DATA SOURCE SELECTION ---
+// Pages import the functions below; they delegate to whichever DataSource is active.
+// The source is picked once at startup from the app config (mock by default).
 
 /**
- * Helper to pick random unique owners for Conditions and Powers.
- * Simulates multi-assignment (e.g., a disease affecting multiple players).
+ * Builds the DataSource described by the given config.
  */
-const pickAssignments = (min: number, max: number): Assignment[] => {
-    const count = Math.floor(Math.random() * (max - min + 1)) + min;
-    const shuffled = [...PLAYER_IDS].sort(() => 0.5 - Math.random());
-    return shuffled.slice(0, count).map(plin => ({
-        plin,
-        expiryDate: '31/12/2030'
-    }));
+export const createDataSource = (config: AppConfig): DataSource => {
+  if (config.dataSource === 'rest' && config.apiBaseUrl) {
+    return createRestDataSource({
+      baseUrl: config.apiBaseUrl,
+      getToken: () => getApiSession().token,
+      refreshToken: refreshApiSession,
+    });
+  }
+  return mockDataSource;
+};
+
+let activeSource: DataSource = createDataSource(getAppConfig());
+
+// PLIN -> character name, kept up to date from every player the data layer returns.
+// Lets getCharacterName stay synchronous for rendering.
+const playerDirectory = new Map<string, string>();
+
+const rememberPlayers = (players: Player[]) => {
+  players.forEach(p => playerDirectory.set(p.plin, p.characterName));
+};
+
+const rememberPlayer = (result: ApiResult<Player>): ApiResult<Player> => {
+  if (result.success && result.data) rememberPlayers([result.data]);
+  return result;
 };
 
-// Generate 25 Items (ITIN 1001-1025) - Items typically have a single owner
-const INITIAL_ITEMS: Item[] = ITEM_NAMES.map((name, i) => ({
-    itin: (1001 + i).toString(),
-    name,
-    description: `Standard issue ${name}.`,
-    owner: PLAYER_IDS[i % PLAYER_IDS.length],
-    expiryDate: '31/12/2025',
-    remarks: 'Standard operational condition.',
-    csRemarks: ''
-}));
-
-// Generate 25 Conditions (COIN 8001-8025) - 1 to 10 Owners per condition
-const INITIAL_CONDITIONS: Condition[] = CONDITION_NAMES.map((name, i) => ({
-    coin: (8001 + i).toString(),
-    name,
-    description: `Status effect: ${name}`,
-    assignments: pickAssignments(1, 10),
-    remarks: 'Medical bay attention required if severe.',
-    csRemarks: ''
-}));
-
-// Generate 25 Powers (POIN 5001-5025) - 1 to 10 Owners per power
-const INITIAL_POWERS: Power[] = POWER_NAMES.map((name, i) => ({
-    poin: (5001 + i).toString(),
-    name,
-    description: `Ability: ${name}`,
-    assignments: pickAssignments(1, 10),
-    remarks: 'Requires cooldown between uses.',
-    csRemarks: ''
-}));
-
-// --- DUPLICATE TEST OBJECTS (ID 9999) ---
-const TEST_DUPLICATE_ITEM: Item = {
-    itin: '9999',
-    name: 'Omni-Blade (Item)',
-    description: 'Physical blade attachment.',
-    owner: '1001#01',
-    expiryDate: '01/01/2030'
+/**
+ * Replaces the active DataSource (e.g. to point tests at a stub backend).
+ */
+export const setDataSource = (source: DataSource) => {
+  activeSource = source;
 };
-INITIAL_ITEMS.push(TEST_DUPLICATE_ITEM);
 
-const TEST_DUPLICATE_CONDITION: Condition = {
-    coin: '9999',
-    name: 'Omni-Rot (Condition)',
-    description: 'Tech virus affecting implants.',
-    assignments: [{ plin: '1001#01', expiryDate: '01/01/2030' }]
+export const getDataSource = (): DataSource => activeSource;
+
+// --- ACCESS CONTROL ---
+// Checked here rather than only in the UI, so every caller (pages, outbox replay, import) is
+// covered, CS remarks never reach users who may not read them and players only ever get the
+// records of their own characters.
+
+const can = (permission: Permission) => hasPermission(getApiSession().user, permission);
+
+const denied = async <T>(): Promise<ApiResult<T>> =>
+  ({ success: false, error: 'You do not have permission to do this.', status: 403 });
+
+const withoutCsRemarks = <T extends { csRemarks?: string }>(record: T): T => {
+  if (!('csRemarks' in record)) return record;
+  const { csRemarks, ...rest } = record;
+  return rest as T;
 };
-INITIAL_CONDITIONS.push(TEST_DUPLICATE_CONDITION);
 
-const TEST_DUPLICATE_POWER: Power = {
-    poin: '9999',
-    name: 'Omni-Slash (Power)',
-    description: 'Tech attack ability.',
-    assignments: [{ plin: '1001#01', expiryDate: '01/01/2030' }]
+// Records written by users who may not see CS remarks cannot set them either
+const writable = <T extends { csRemarks?: string }>(record: T): T => (can('cs-remarks') ? record : withoutCsRemarks(record));
+
+const redactRecords = <T extends { csRemarks?: string }>(records: T[]): T[] => records.map(withoutCsRemarks);
+
+const redact = <T>(result: ApiResult<T>, redactData: (data: T) => T): ApiResult<T> => {
+  if (can('cs-remarks')) return result;
+  return {
+    ...result,
+    ...(result.data !== undefined && { data: redactData(result.data) }),
+    ...(result.conflict !== undefined && { conflict: redactData(result.conflict) }),
+  };
 };
-INITIAL_POWERS.push(TEST_DUPLICATE_POWER);
 
+const redactAssets = <T extends PlayerAssets>(assets: T): T => ({
+  ...assets,
+  items: redactRecords(assets.items),
+  conditions: redactRecords(assets.conditions),
+  powers: redactRecords(assets.powers),
+});
+
+const mapData = <T>(result: ApiResult<T>, map: (data: T) => T): ApiResult<T> =>
+  result.data === undefined ? result : { ...result, data: map(result.data) };
+
+const isOwnPlin = (plin: string) =>
+  can('view-all-records') || (getApiSession().user?.plins ?? []).includes(plin);
+
+// Users who may not see every record get those linked to their own PLINs, showing only their own assignments
+const visible = <T extends Item | Condition | Power>(record: T): T | null => {
+  if (can('view-all-records')) return record;
+  if ('owner' in record) return isOwnPlin((record as Item).owner) ? record : null;
+  const assignments = (record as Condition | Power).assignments.filter(a => isOwnPlin(a.plin));
+  return assignments.length > 0 ? { ...record, assignments } : null;
+};
 
-// Mock In-Memory Databases
-// These persist in memory until the app is reloaded or `resetData()` is called.
-let MOCK_DB: Item[] = JSON.parse(JSON.stringify(INITIAL_ITEMS));
-let MOCK_CONDITIONS: Condition[] = JSON.parse(JSON.stringify(INITIAL_CONDITIONS));
-let MOCK_POWERS: Power[] = JSON.parse(JSON.stringify(INITIAL_POWERS));
+const visibleRecords = <T extends Item | Condition | Power>(records: T[]): T[] =>
+  records.map(visible).filter((record): record is T => record !== null);
 
-// Simulates network latency (800ms) to allow UI loading states to be visualized
-const simulateDelay = () => new Promise(resolve => setTimeout(resolve, 400));
+const visibleAssets = <T extends PlayerAssets>(assets: T): T => ({
+  ...assets,
+  items: visibleRecords(assets.items),
+  conditions: visibleRecords(assets.conditions),
+  powers: visibleRecords(assets.powers),
+});
 
-const checkAuth = () => {
-  // In a real app, this would check if the Axios/Fetch headers contain a valid token.
+// Records the user may not see are reported as not found, so scanning someone else's label gives nothing away
+const lookedUp = <T extends Item | Condition | Power>(result: ApiResult<T>, notFound: string): ApiResult<T> => {
+  if (!result.success || !result.data) return result;
+  const record = visible(result.data);
+  return record ? { ...result, data: record } : { success: false, error: notFound, status: 404 };
 };
 
 /**
- * Resets all mock databases to their initial state.
- * Useful for logout cleanup or testing.
+ * Resets all mock databases to their initial state and forgets cached player names.
+ * The audit log is kept. Useful for logout cleanup or testing. No-op for remote data sources.
  */
 export const resetData = () => {
-  MOCK_DB = JSON.parse(JSON.stringify(INITIAL_ITEMS));
-  MOCK_CONDITIONS = JSON.parse(JSON.stringify(INITIAL_CONDITIONS));
-  MOCK_POWERS = JSON.parse(JSON.stringify(INITIAL_POWERS));
+  activeSource.reset?.();
+  playerDirectory.clear();
 };
 
 /**
- * Resolves a PLIN (Player ID) to a readable name using the mock players list.
- * Handles parsing logic for formats like "1234#12".
+ * Resolves a PLIN (Player ID) to the character name from the player registry.
+ * Only players already loaded (see loadPlayerDirectory) are known; unknown PLINs resolve to ''.
  */
 export const getCharacterName = (plin: string): string => {
-  if (PLAYERS[plin]) return PLAYERS[plin];
-
-  if (!plin || !plin.includes('#')) return '';
-  if (plin === 'SYSTEM') return '';
-  
-  const parts = plin.split('#');
-  if (parts.length < 2) return '';
-
-  const num = parseInt(parts[0].replace(/\D/g, ''), 10);
-  if (isNaN(num)) return '';
+  if (!plin) return '';
+  return playerDirectory.get(plin) || '';
+};
 
-  // Fallback generation for unknown IDs
-  return num % 2 === 0 ? 'Jane Doe' : 'John Doe';
+/**
+ * Fills the player name cache used by getCharacterName with the full registry.
+ * Failures are logged and leave the cache as it was.
+ */
+export const loadPlayerDirectory = async (): Promise<void> => {
+  try {
+    const result = await searchPlayers('');
+    if (!result.success) console.warn('Could not load player registry:', result.error);
+  } catch (e) {
+    console.warn('Could not load player registry:', e);
+  }
 };
 
 /**
  * Creates a new inventory item.
- * Assigns a random ITIN (1000-9999).
+ * The backend assigns the ITIN unless a reserved one (see reserveIds) is supplied.
  */
-export const createItem = async (item: Omit<Item, 'itin'>): Promise<ApiResult<Item>> => {
-  checkAuth();
-  await simulateDelay();
-  const newItin = Math.floor(1000 + Math.random() * 9000).toString();
-  const newItem = { ...item, itin: newItin };
-  MOCK_DB.push(newItem);
-  return { success: true, data: newItem };
+export const createItem = async (item: Omit<Item, 'itin'> & { itin?: string }): Promise<ApiResult<Item>> => {
+  if (!can('create-records')) return denied();
+  return redact(await activeSource.createItem(writable(item)), withoutCsRemarks);
 };
 
 /**
  * Search for an item by ITIN (Exact match).
  */
-export const searchItemByItin = async (itin: string): Promise<ApiResult<Item>> => {
-  checkAuth();
-  await simulateDelay();
-  const item = MOCK_DB.find(i => i.itin === itin);
-  if (item) return { success: true, data: { ...item } };
-  return { success: false, error: 'Not found' };
-};
+export const searchItemByItin = async (itin: string): Promise<ApiResult<Item>> =>
+  redact(lookedUp(await activeSource.searchItemByItin(itin), 'Item not found'), withoutCsRemarks);
 
 /**
  * Creates a new Condition (e.g., Disease, Buff).
- * Assigns a random COIN (8000-9999).
+ * The backend assigns the COIN unless a reserved one is supplied.
  */
-export const createCondition = async (cond: Omit<Condition, 'coin'>): Promise<ApiResult<Condition>> => {
-  checkAuth();
-  await simulateDelay();
-  const newCoin = Math.floor(8000 + Math.random() * 1999).toString();
-  const newCondition = { ...cond, coin: newCoin };
-  MOCK_CONDITIONS.push(newCondition);
-  return { success: true, data: newCondition };
+export const createCondition = async (cond: Omit<Condition, 'coin'> & { coin?: string }): Promise<ApiResult<Condition>> => {
+  if (!can('create-records')) return denied();
+  return redact(await activeSource.createCondition(writable(cond)), withoutCsRemarks);
 };
 
 /**
  * Search for a condition by COIN (Exact match).
  */
-export const searchConditionByCoin = async (coin: string): Promise<ApiResult<Condition>> => {
-  checkAuth();
-  await simulateDelay();
-  const cond = MOCK_CONDITIONS.find(c => c.coin === coin);
-  if (cond) return { success: true, data: { ...cond } };
-  return { success: false, error: 'Condition not found' };
-};
+export const searchConditionByCoin = async (coin: string): Promise<ApiResult<Condition>> =>
+  redact(lookedUp(await activeSource.searchConditionByCoin(coin), 'Condition not found'), withoutCsRemarks);
 
 /**
  * Creates a new Power/Ability.
- * Assigns a random POIN (5000-7999).
+ * The backend assigns the POIN unless a reserved one is supplied.
  */
-export const createPower = async (pow: Omit<Power, 'poin'>): Promise<ApiResult<Power>> => {
-  checkAuth();
-  await simulateDelay();
-  const newPoin = Math.floor(5000 + Math.random() * 2999).toString();
-  const newPower = { ...pow, poin: newPoin };
-  MOCK_POWERS.push(newPower);
-  return { success: true, data: newPower };
+export const createPower = async (pow: Omit<Power, 'poin'> & { poin?: string }): Promise<ApiResult<Power>> => {
+  if (!can('create-records')) return denied();
+  return redact(await activeSource.createPower(writable(pow)), withoutCsRemarks);
 };
 
 /**
  * Search for a power by POIN (Exact match).
  */
-export const searchPowerByPoin = async (poin: string): Promise<ApiResult<Power>> => {
-  checkAuth();
-  await simulateDelay();
-  const power = MOCK_POWERS.find(p => p.poin === poin);
-  if (power) return { success: true, data: { ...power } };
-  return { success: false, error: 'Power not found' };
-};
+export const searchPowerByPoin = async (poin: string): Promise<ApiResult<Power>> =>
+  redact(lookedUp(await activeSource.searchPowerByPoin(poin), 'Power not found'), withoutCsRemarks);
 
 /**
  * Updates an item's properties found by ITIN.
+ * Pass `expectedVersion` to reject the write if someone else changed the item first.
  */
-export const updateItem = async (itin: string, updates: Partial<Item>): Promise<ApiResult<Item>> => {
-  checkAuth();
-  await simulateDelay();
-  const index = MOCK_DB.findIndex(i => i.itin === itin);
-  if (index !== -1) {
-    MOCK_DB[index] = { ...MOCK_DB[index], ...updates };
-    return { success: true, data: MOCK_DB[index] };
-  }
-  return { success: false, error: 'Item not found during update' };
+export const updateItem = async (itin: string, updates: Partial<Item>, options?: UpdateOptions): Promise<ApiResult<Item>> => {
+  if (!can('update-records')) return denied();
+  return redact(await activeSource.updateItem(itin, writable(updates), options), withoutCsRemarks);
 };
 
 /**
  * Updates a condition's properties found by COIN.
+ * Pass `expectedVersion` to reject the write if someone else changed the condition first.
  */
-export const updateCondition = async (coin: string, updates: Partial<Condition>): Promise<ApiResult<Condition>> => {
-  checkAuth();
-  await simulateDelay();
-  const index = MOCK_CONDITIONS.findIndex(c => c.coin === coin);
-  if (index !== -1) {
-    MOCK_CONDITIONS[index] = { ...MOCK_CONDITIONS[index], ...updates };
-    return { success: true, data: MOCK_CONDITIONS[index] };
-  }
-  return { success: false, error: 'Condition not found during update' };
+export const updateCondition = async (coin: string, updates: Partial<Condition>, options?: UpdateOptions): Promise<ApiResult<Condition>> => {
+  if (!can('update-records')) return denied();
+  return redact(await activeSource.updateCondition(coin, writable(updates), options), withoutCsRemarks);
 };
 
 /**
  * Updates a power's properties found by POIN.
+ * Pass `expectedVersion` to reject the write if someone else changed the power first.
  */
-export const updatePower = async (poin: string, updates: Partial<Power>): Promise<ApiResult<Power>> => {
-  checkAuth();
-  await simulateDelay();
-  const index = MOCK_POWERS.findIndex(p => p.poin === poin);
-  if (index !== -1) {
-    MOCK_POWERS[index] = { ...MOCK_POWERS[index], ...updates };
-    return { success: true, data: MOCK_POWERS[index] };
-  }
-  return { success: false, error: 'Power not found during update' };
+export const updatePower = async (poin: string, updates: Partial<Power>, options?: UpdateOptions): Promise<ApiResult<Power>> => {
+  if (!can('update-records')) return denied();
+  return redact(await activeSource.updatePower(poin, writable(updates), options), withoutCsRemarks);
 };
 
 /**
@@ -277,33 +232,107 @@ export const updatePower = async (poin: string, updates: Partial<Power>): Promis
  * Queries Items, Conditions, and Powers simultaneously using a partial string match.
  * Matches against Name, ID, or Owner PLIN.
  */
-export const searchGlobal = async (query: string): Promise<ApiResult<(Item | Condition | Power)[]>> => {
-  checkAuth();
-  await simulateDelay();
-
-  const lowerQuery = query.toLowerCase();
-
-  // 1. Filter Items
-  const itemResults = MOCK_DB.filter(item => 
-    item.name.toLowerCase().includes(lowerQuery) ||
-    item.owner.toLowerCase().includes(lowerQuery) ||
-    item.itin.includes(query)
-  );
-
-  // 2. Filter Conditions (Checks deep inside assignment arrays for owner match)
-  const conditionResults = MOCK_CONDITIONS.filter(cond => 
-    cond.name.toLowerCase().includes(lowerQuery) ||
-    cond.assignments.some(a => a.plin.toLowerCase().includes(lowerQuery)) ||
-    cond.coin.includes(query)
-  );
-
-  // 3. Filter Powers (Checks deep inside assignment arrays for owner match)
-  const powerResults = MOCK_POWERS.filter(pow => 
-    pow.name.toLowerCase().includes(lowerQuery) ||
-    pow.assignments.some(a => a.plin.toLowerCase().includes(lowerQuery)) ||
-    pow.poin.includes(query)
-  );
-
-  // Combine all results
-  return { success: true, data: [...itemResults, ...conditionResults, ...powerResults] };
-};
\ No newline at end of file
+export const searchGlobal = async (query: string): Promise<ApiResult<(Item | Condition | Power)[]>> =>
+  redact(mapData(await activeSource.searchGlobal(query), visibleRecords), redactRecords);
+
+/**
+ * Registers a new player (PLIN must be unique).
+ */
+export const createPlayer = async (player: Player): Promise<ApiResult<Player>> => {
+  if (!can('manage-players')) return denied();
+  return rememberPlayer(await activeSource.createPlayer(player));
+};
+
+/**
+ * Search for a player by PLIN (Exact match).
+ */
+export const searchPlayerByPlin = async (plin: string): Promise<ApiResult<Player>> => {
+  if (!isOwnPlin(plin)) return { success: false, error: 'Player not found', status: 404 };
+  return rememberPlayer(await activeSource.searchPlayerByPlin(plin));
+};
+
+/**
+ * Updates a player's profile found by PLIN.
+ * Pass `expectedVersion` to reject the write if someone else changed the player first.
+ */
+export const updatePlayer = async (plin: string, updates: Partial<Player>, options?: UpdateOptions): Promise<ApiResult<Player>> => {
+  if (!can('manage-players')) return denied();
+  return rememberPlayer(await activeSource.updatePlayer(plin, updates, options));
+};
+
+/**
+ * Searches players by PLIN, character name or player name. An empty query lists everyone.
+ */
+export const searchPlayers = async (query: string): Promise<ApiResult<Player[]>> => {
+  const result = mapData(await activeSource.searchPlayers(query), players => players.filter(p => isOwnPlin(p.plin)));
+  if (result.success && result.data) rememberPlayers(result.data);
+  return result;
+};
+
+/**
+ * Fetches the items owned by a PLIN and the conditions/powers assigned to it.
+ */
+export const getPlayerAssets = async (plin: string): Promise<ApiResult<PlayerAssets>> => {
+  if (!isOwnPlin(plin)) return denied();
+  return redact(mapData(await activeSource.getPlayerAssets(plin), visibleAssets), redactAssets);
+};
+
+/**
+ * Marks a character deceased: ends their "until death" assignments and keeps,
+ * transfers or destroys each owned item as chosen, in one batch.
+ */
+export const markPlayerDeceased = async (plin: string, request: DeathRequest): Promise<ApiResult<DeathOutcome>> => {
+  if (!can('mark-deceased')) return denied();
+  const result = await activeSource.markPlayerDeceased(plin, request);
+  if (result.success && result.data) rememberPlayers([result.data.player]);
+  return redact(result, redactAssets);
+};
+
+/**
+ * Fetches every item, condition, power and player for a full export.
+ */
+export const exportAll = async (): Promise<ApiResult<DatabaseSnapshot>> => {
+  if (!can('export-data')) return denied();
+  const result = await activeSource.exportAll();
+  if (result.success && result.data) rememberPlayers(result.data.players);
+  return redact(result, redactAssets);
+};
+
+/**
+ * Reserves a block of free IDs of the given type (ITIN/COIN/POIN range).
+ * Fails with a descriptive error when the range is exhausted.
+ */
+export const reserveIds = async (type: EntityType, count: number): Promise<ApiResult<string[]>> => {
+  if (!can('create-records')) return denied();
+  return activeSource.reserveIds(type, count);
+};
+
+/**
+ * The scope IDs from reserveIds belong to (see DataSource.reservationScope).
+ */
+export const getReservationScope = (): string => activeSource.reservationScope();
+
+/**
+ * Fetches the change history (audit trail) of a single record or player, newest first.
+ */
+export const getHistory = async (type: AuditEntityType, id: string): Promise<ApiResult<AuditEntry[]>> => {
+  // Shows who changed what for everyone assigned, so it is not part of a player's own view
+  if (!can('view-all-records')) return denied();
+  return redact(await activeSource.getHistory(type, id), entries => entries
+    .map(entry => ({ ...entry, changes: entry.changes.filter(change => change.field !== 'csRemarks') }))
+    .filter(entry => entry.changes.length > 0 || entry.action === 'create'));
+};
+
+/**
+ * Has the backend sign QR labels (one signature per label, same order).
+ */
+export const signLabels = async (labels: LabelRef[]): Promise<ApiResult<string[]>> => {
+  if (!can('print-labels')) return denied();
+  return activeSource.signLabels(labels);
+};
+
+/**
+ * Asks the backend whether a scanned label's signature is genuine.
+ */
+export const verifyLabel = async (label: LabelRef, signature: string): Promise<ApiResult<boolean>> =>
+  activeSource.verifyLabel(label, signature);
@@ -0,0 +1,84 @@
+import { describe, expect, test } from '@jest/globals';
+import { diffRecords, inferAuditAction, buildAuditEntry } from './audit';
+import { Item, Condition } from '../types';
+
+const item: Item = {
+  itin: '1001',
+  name: 'Plasma Rifle',
+  description: 'Desc',
+  owner: '1001#01',
+  expiryDate: '31/12/2025',
+  remarks: '',
+};
+
+const condition: Condition = {
+  coin: '8001',
+  name: 'Flu',
+  description: 'Cough',
+  assignments: [
+    { plin: '1001#01', expiryDate: '31/12/2025' },
+    { plin: '1002#01', expiryDate: 'until death' },
+  ],
+};
+
+describe('Audit helpers', () => {
+  test('diffRecords lists every populated field for a new record', () => {
+    const changes = diffRecords(null, item);
+    expect(changes).toEqual([
+      { field: 'name', before: null, after: 'Plasma Rifle' },
+      { field: 'description', before: null, after: 'Desc' },
+      { field: 'owner', before: null, after: '1001#01' },
+      { field: 'expiryDate', before: null, after: '31/12/2025' },
+    ]);
+  });
+
+  test('diffRecords reports only changed fields and ignores the ID', () => {
+    const changes = diffRecords(item, { ...item, expiryDate: '01/01/2027' });
+    expect(changes).toEqual([{ field: 'expiryDate', before: '31/12/2025', after: '01/01/2027' }]);
+  });
+
+  test('diffRecords compares assignments per PLIN', () => {
+    const changes = diffRecords(condition, {
+      ...condition,
+      assignments: [
+        { plin: '1001#01', expiryDate: '01/01/2027' },
+        { plin: '5555#55', expiryDate: '01/01/2026' },
+      ],
+    });
+
+    expect(changes).toEqual([
+      { field: 'assignments[1001#01]', before: '31/12/2025', after: '01/01/2027' },
+      { field: 'assignments[1002#01]', before: 'until death', after: null },
+      { field: 'assignments[5555#55]', before: null, after: '01/01/2026' },
+    ]);
+  });
+
+  test('inferAuditAction maps item changes to assign/recharge', () => {
+    expect(inferAuditAction('item', [{ field: 'owner', before: 'a', after: 'b' }])).toBe('assign');
+    expect(inferAuditAction('item', [{ field: 'expiryDate', before: 'a', after: 'b' }])).toBe('recharge');
+    expect(inferAuditAction('item', [{ field: 'name', before: 'a', after: 'b' }])).toBe('update');
+  });
+
+  test('inferAuditAction maps assignment changes to assign/unassign/extend', () => {
+    const added = { field: 'assignments[1#1]', before: null, after: '01/01/2030' };
+    const removed = { field: 'assignments[2#2]', before: '01/01/2030', after: null };
+    const redated = { field: 'assignments[3#3]', before: '01/01/2030', after: '01/01/2031' };
+
+    expect(inferAuditAction('condition', [added, removed])).toBe('assign');
+    expect(inferAuditAction('power', [removed])).toBe('unassign');
+    expect(inferAuditAction('power', [redated])).toBe('extend');
+    expect(inferAuditAction('condition', [{ field: 'remarks', before: null, after: 'x' }])).toBe('update');
+  });
+
+  test('buildAuditEntry records the acting user', () => {
+    const entry = buildAuditEntry('item', '1001', 'recharge', [], {
+      id: 'u1', name: 'Referee', email: 'r@example.com', avatar: '', role: 'referee',
+    });
+
+    expect(entry.actor).toEqual({ id: 'u1', name: 'Referee' });
+    expect(entry.entityType).toBe('item');
+    expect(entry.entityId).toBe('1001');
+    expect(entry.id).toMatch(/^audit-/);
+    expect(buildAuditEntry('item', '1001', 'create', [], null).actor).toBeNull();
+  });
+});
@@ -0,0 +1,108 @@
+import { Item, Condition, Power, Assignment, EntityType, AuditAction, AuditEntityType, AuditEntry, FieldChange, User } from '../types';
+
+type AuditedRecord = Item | Condition | Power;
+
+// Identifier and bookkeeping fields are left out of diffs; assignments are compared per PLIN
+const IGNORED_FIELDS = ['itin', 'coin', 'poin', 'assignments', 'version', 'updatedAt'];
+
+const toDisplay = (value: unknown): string | null => {
+  if (value === undefined || value === null || value === '') return null;
+  return String(value);
+};
+
+/**
+ * Compares assignment lists per PLIN.
+ * Each added, removed or re-dated assignment becomes one `assignments[<plin>]` change.
+ */
+const diffAssignments = (before: Assignment[] = [], after: Assignment[] = []): FieldChange[] => {
+  const beforeByPlin = new Map(before.map(a => [a.plin, a.expiryDate]));
+  const afterByPlin = new Map(after.map(a => [a.plin, a.expiryDate]));
+  const plins = Array.from(new Set([...beforeByPlin.keys(), ...afterByPlin.keys()]));
+
+  return plins
+    .map(plin => ({
+      field: `assignments[${plin}]`,
+      before: beforeByPlin.get(plin) ?? null,
+      after: afterByPlin.get(plin) ?? null,
+    }))
+    .filter(change => change.before !== change.after);
+};
+
+/**
+ * Produces the field-level differences between two versions of a record.
+ * Pass `null` as `before` for a newly created record.
+ */
+export const diffRecords = (before: AuditedRecord | null, after: AuditedRecord): FieldChange[] => {
+  const oldValues = (before || {}) as Record<string, unknown>;
+  const newValues = after as unknown as Record<string, unknown>;
+  const fields = Array.from(new Set([...Object.keys(oldValues), ...Object.keys(newValues)]))
+    .filter(field => !IGNORED_FIELDS.includes(field));
+
+  const changes: FieldChange[] = fields
+    .map(field => ({ field, before: toDisplay(oldValues[field]), after: toDisplay(newValues[field]) }))
+    .filter(change => change.before !== change.after);
+
+  if ('assignments' in after) {
+    changes.push(...diffAssignments((before as Condition | Power | null)?.assignments, after.assignments));
+  }
+  return changes;
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  name: 'Name',
+  description: 'Description',
+  owner: 'Player (PLIN)',
+  expiryDate: 'Expiry Date',
+  remarks: 'Remarks',
+  csRemarks: 'CS Remarks',
+  destroyed: 'Destroyed',
+  status: 'Status',
+};
+
+/**
+ * Human readable label for a FieldChange field, e.g. "Assignment 1234#12".
+ */
+export const describeField = (field: string): string => {
+  const assignment = field.match(/^assignments\[(.+)\]$/);
+  if (assignment) return `Assignment ${assignment[1]}`;
+  return FIELD_LABELS[field] || field;
+};
+
+/**
+ * Derives the workflow action from a set of changes, so callers of
+ * updateItem/updateCondition/updatePower do not have to state it explicitly.
+ */
+export const inferAuditAction = (type: EntityType, changes: FieldChange[]): AuditAction => {
+  if (type === 'item') {
+    if (changes.some(c => c.field === 'owner')) return 'assign';
+    if (changes.some(c => c.field === 'expiryDate')) return 'recharge';
+    return 'update';
+  }
+
+  const assignmentChanges = changes.filter(c => c.field.startsWith('assignments['));
+  if (assignmentChanges.some(c => c.before === null)) return 'assign';
+  if (assignmentChanges.some(c => c.after === null)) return 'unassign';
+  if (assignmentChanges.length > 0) return 'extend';
+  return 'update';
+};
+
+export const buildAuditEntry = (
+  entityType: AuditEntityType,
+  entityId: string,
+  action: AuditAction,
+  changes: FieldChange[],
+  user: User | null,
+  batchId?: string
+): AuditEntry => {
+  const timestamp = Date.now();
+  return {
+    id: `audit-${timestamp}-${Math.random().toString(36).slice(2, 8)}`,
+    entityType,
+    entityId,
+    action,
+    actor: user ? { id: user.id, name: user.name } : null,
+    timestamp,
+    changes,
+    ...(batchId ? { batchId } : {}),
+  };
+};
@@ -1,118 +1,326 @@
-import { describe, expect, test, beforeEach, afterAll, jest } from '@jest/globals';
-import { authService } from './auth';
+import { describe, expect, test, beforeEach, afterEach, jest } from '@jest/globals';
+import { authService, createCodeChallenge } from './auth';
 
-// Helper to advance timers for the internal setTimeout in exchangeCodeForToken
+// Helper to advance timers for the stand-in provider's simulated network delay
 const runWithTimers = <T>(fn: () => Promise<T>): Promise<T> => {
     const promise = fn();
     jest.runAllTimers();
     return promise;
 };
 
+const queryOf = (url: string) => new URLSearchParams(url.split('?')[1]);
+
+const encodeJwtPart = (value: object) =>
+    btoa(JSON.stringify(value)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const idToken = (claims: object) => `${encodeJwtPart({ alg: 'RS256' })}.${encodeJwtPart(claims)}.sig`;
+
 describe('Auth Service', () => {
-    beforeEach(() => {
-        jest.useFakeTimers();
-    });
+    describe('local stand-in provider', () => {
+        beforeEach(() => {
+            jest.useFakeTimers();
+            sessionStorage.clear();
+        });
 
-    afterAll(() => {
-        jest.useRealTimers();
-    });
+        afterEach(() => {
+            jest.useRealTimers();
+        });
 
-    test('getGoogleAuthUrl returns a callback URL with mock code and scope', () => {
-        const url = authService.getGoogleAuthUrl();
-
-        // Basic structure
-        expect(url.startsWith('/auth/callback?')).toBe(true);
-        expect(url).toContain('code=mock_secure_auth_code');
-        expect(url).toContain('scope=profile email');
-
-        // Ensure there *is* a timestamp suffix after the prefix
-        const match = url.match(/code=mock_secure_auth_code_(\d+)/);
-        expect(match).not.toBeNull();
-        if (match) {
-            const ts = Number(match[1]);
-            expect(Number.isNaN(ts)).toBe(false);
-            expect(ts).toBeGreaterThan(0);
-        }
-    });
+        test('redirects straight back to the callback route with a code and the state', () => {
+            const url = authService.getAuthorizationUrl();
+            const params = queryOf(url);
+
+            expect(url.startsWith('/auth/callback?')).toBe(true);
+            expect(params.get('code')).toMatch(/^mock_secure_auth_code_\d+$/);
+            expect(params.get('state')).toBeTruthy();
+        });
 
-    test('exchangeCodeForToken returns token and user for valid code', async () => {
-        const validCode = 'mock_secure_auth_code_123';
+        test('uses a fresh state for every login', () => {
+            const first = queryOf(authService.getAuthorizationUrl()).get('state');
+            const second = queryOf(authService.getAuthorizationUrl()).get('state');
 
-        const response = await runWithTimers(() =>
-            authService.exchangeCodeForToken(validCode),
-        );
+            expect(first).not.toBe(second);
+        });
 
-        // Token format sanity checks
-        expect(response.token).toBeTruthy();
-        expect(response.token).toContain('mock_access_token');
+        test('completes the login as the demo user', async () => {
+            const params = queryOf(authService.getAuthorizationUrl());
 
-        // Roughly JWT-ish (three segments separated by dots)
-        const segments = response.token.split('.');
-        expect(segments.length).toBe(3);
+            const response = await runWithTimers(() =>
+                authService.completeLogin(params.get('code')!, params.get('state')),
+            );
 
-        // User payload
-        expect(response.user).toEqual(
-            expect.objectContaining({
+            expect(response.token).toContain('mock_access_token');
+            expect(response.token.split('.').length).toBe(3);
+            expect(response.refreshToken).toMatch(/^mock_refresh_token_/);
+            expect(response.expiresAt).toBe(Date.now() + 60 * 60 * 1000);
+            expect(response.user).toEqual({
                 id: 'google_123456789',
                 name: 'Demo User',
                 email: 'user@example.com',
-            }),
-        );
-        expect(response.user.avatar).toContain('https://');
-    });
+                avatar: expect.stringContaining('https://'),
+                role: 'cs',
+                plins: ['1001#01'],
+            });
+        });
 
-    test('exchangeCodeForToken rejects for invalid code', async () => {
-        const invalidCode = 'invalid_code_999';
+        test('rejects a state this tab did not send', async () => {
+            const params = queryOf(authService.getAuthorizationUrl());
 
-        await expect(
-            runWithTimers(() => authService.exchangeCodeForToken(invalidCode)),
-        ).rejects.toThrow('Invalid authorization code');
-    });
+            await expect(
+                runWithTimers(() => authService.completeLogin(params.get('code')!, 'forged')),
+            ).rejects.toThrow('Login state does not match');
+        });
 
-    test('getGoogleAuthUrl includes code and scope query params explicitly', () => {
-        const url = authService.getGoogleAuthUrl();
-        const [, query] = url.split('?');
-        const params = new URLSearchParams(query);
+        test('rejects a callback without a login in progress', async () => {
+            await expect(
+                authService.completeLogin('mock_secure_auth_code_123', 'state'),
+            ).rejects.toThrow('Login state does not match');
+        });
 
-        expect(params.get('code')).toMatch(/^mock_secure_auth_code_\d+$/);
-        expect(params.get('scope')).toBe('profile email');
-    });
+        test('does not accept the same callback twice', async () => {
+            const params = queryOf(authService.getAuthorizationUrl());
+            await runWithTimers(() => authService.completeLogin(params.get('code')!, params.get('state')));
 
-    test('exchangeCodeForToken embeds timestamp-derived portion into token', async () => {
-        jest.useFakeTimers();
-        const code = 'mock_secure_auth_code_123';
-        const promise = authService.exchangeCodeForToken(code);
-        jest.runAllTimers();
+            await expect(
+                authService.completeLogin(params.get('code')!, params.get('state')),
+            ).rejects.toThrow('Login state does not match');
+        });
 
-        const res = await promise;
-        // This just checks that the mock access token part is present;
-        // if you later decide to encode the code or timestamp, you can assert that too.
-        expect(res.token).toContain('mock_access_token');
-    });
+        test('rejects codes it did not issue', async () => {
+            const params = queryOf(authService.getAuthorizationUrl());
 
-    test('exchangeCodeForToken rejects when code only partially matches the prefix', async () => {
-        jest.useFakeTimers();
-        const badCode = 'xxx_mock_secure_auth_code_123';
+            await expect(
+                runWithTimers(() => authService.completeLogin('mock_secure_auth_code_123', params.get('state'))),
+            ).rejects.toThrow('Invalid authorization code');
+        });
 
-        const promise = authService.exchangeCodeForToken(badCode);
-        jest.runAllTimers();
+        test('renews the access token with the refresh token', async () => {
+            const params = queryOf(authService.getAuthorizationUrl());
+            const { refreshToken } = await runWithTimers(() =>
+                authService.completeLogin(params.get('code')!, params.get('state')),
+            );
 
-        await expect(promise).rejects.toThrow('Invalid authorization code');
-    });
+            const refreshed = await runWithTimers(() => authService.refreshSession(refreshToken!));
+
+            expect(refreshed).toEqual({
+                token: expect.stringContaining('mock_access_token'),
+                refreshToken: expect.stringMatching(/^mock_refresh_token_/),
+                expiresAt: expect.any(Number),
+            });
+        });
+
+        test('ends the session for refresh tokens it did not issue', async () => {
+            await expect(runWithTimers(() => authService.refreshSession('forged'))).resolves.toBeNull();
+        });
 
-    test('exchangeCodeForToken returns a stable user shape', async () => {
-        jest.useFakeTimers();
-        const promise = authService.exchangeCodeForToken('mock_secure_auth_code_123');
-        jest.runAllTimers();
+        test('rejects a code verifier that does not match the challenge', async () => {
+            const params = queryOf(authService.getAuthorizationUrl());
+            const pending = JSON.parse(sessionStorage.getItem('voiddex_pending_login')!);
+            sessionStorage.setItem('voiddex_pending_login', JSON.stringify({ ...pending, codeVerifier: 'other' }));
 
-        const { user } = await promise;
-        expect(user).toEqual({
-            id: 'google_123456789',
-            name: 'Demo User',
-            email: 'user@example.com',
-            avatar: expect.stringContaining('https://'),
+            await expect(
+                runWithTimers(() => authService.completeLogin(params.get('code')!, params.get('state'))),
+            ).rejects.toThrow('Invalid code verifier');
         });
     });
 
+    test('derives the S256 code challenge from the verifier (RFC 7636 appendix B)', () => {
+        expect(createCodeChallenge('dBjftJeZ4CVP-mB92K27uhbUJU1p1r_wW1gFWFOEjXk'))
+            .toBe('E9Melhoa2OwvFrEMTJguCHaoeK1t8URWbuGJSstw-cM');
+    });
+
+    describe('OIDC provider', () => {
+        const fetchMock = jest.fn<typeof fetch>();
+        const originalFetch = globalThis.fetch;
+
+        const tokenResponse = (body: object, status = 200) =>
+            ({ ok: status < 400, status, json: async () => body }) as Response;
+
+        const claimsFor = (nonce: string) => ({
+            sub: 'user-42',
+            aud: 'voiddex',
+            exp: Math.floor(Date.now() / 1000) + 60,
+            nonce,
+            name: 'Ada Shepard',
+            email: 'ada@example.org',
+            picture: 'https://example.org/ada.png',
+        });
+
+        // Starts a login and returns what the provider would have been sent
+        const startLogin = () => {
+            const url = authService.getAuthorizationUrl();
+            return { url, params: queryOf(url) };
+        };
+
+        beforeEach(() => {
+            sessionStorage.clear();
+            fetchMock.mockReset();
+            globalThis.fetch = fetchMock;
+            (globalThis as any).__VOIDDEX_CONFIG__ = {
+                authProvider: 'oidc',
+                oidcAuthorizationUrl: 'https://id.example.org/authorize',
+                oidcTokenUrl: 'https://id.example.org/token',
+                oidcClientId: 'voiddex',
+            };
+        });
+
+        afterEach(() => {
+            globalThis.fetch = originalFetch;
+            delete (globalThis as any).__VOIDDEX_CONFIG__;
+        });
+
+        test('sends the user to the authorization endpoint with state, nonce and PKCE', () => {
+            const { url, params } = startLogin();
+
+            expect(url.startsWith('https://id.example.org/authorize?')).toBe(true);
+            expect(Object.fromEntries(params)).toEqual({
+                response_type: 'code',
+                client_id: 'voiddex',
+                redirect_uri: `${window.location.origin}/auth/callback`,
+                scope: 'openid profile email',
+                state: expect.any(String),
+                nonce: expect.any(String),
+                code_challenge: expect.any(String),
+                code_challenge_method: 'S256',
+            });
+        });
+
+        test('exchanges the code with the verifier and reads the user from the ID token', async () => {
+            const { params } = startLogin();
+            fetchMock.mockResolvedValue(tokenResponse({
+                access_token: 'access-1',
+                id_token: idToken(claimsFor(params.get('nonce')!)),
+            }));
 
+            const response = await authService.completeLogin('code-1', params.get('state'));
+
+            const [url, init] = fetchMock.mock.calls[0];
+            const body = new URLSearchParams(init!.body as string);
+            expect(url).toBe('https://id.example.org/token');
+            expect(init!.method).toBe('POST');
+            expect(body.get('grant_type')).toBe('authorization_code');
+            expect(body.get('code')).toBe('code-1');
+            expect(body.get('client_id')).toBe('voiddex');
+            expect(createCodeChallenge(body.get('code_verifier')!)).toBe(params.get('code_challenge'));
+            expect(response).toEqual({
+                token: 'access-1',
+                refreshToken: undefined,
+                expiresAt: undefined,
+                user: { id: 'user-42', name: 'Ada Shepard', email: 'ada@example.org', avatar: 'https://example.org/ada.png', role: 'player', plins: [] },
+            });
+        });
+
+        test('falls back to other claims when the name is missing', async () => {
+            const { params } = startLogin();
+            const { name, picture, ...claims } = claimsFor(params.get('nonce')!);
+            fetchMock.mockResolvedValue(tokenResponse({
+                access_token: 'access-1',
+                id_token: idToken({ ...claims, aud: ['other', 'voiddex'], preferred_username: 'ada' }),
+            }));
+
+            const { user } = await authService.completeLogin('code-1', params.get('state'));
+
+            expect(user).toEqual({ id: 'user-42', name: 'ada', email: 'ada@example.org', avatar: '', role: 'player', plins: [] });
+        });
+
+        test.each([
+            ['a single role', 'referee', 'referee'],
+            ['the most privileged of several roles', ['player', 'cs', 'referee'], 'cs'],
+            ['only unknown roles', ['admin'], 'player'],
+        ])('reads the role from %s in the role claim', async (_, roles, expected) => {
+            const { params } = startLogin();
+            fetchMock.mockResolvedValue(tokenResponse({
+                access_token: 'access-1',
+                id_token: idToken({ ...claimsFor(params.get('nonce')!), roles }),
+            }));
+
+            const { user } = await authService.completeLogin('code-1', params.get('state'));
+
+            expect(user.role).toBe(expected);
+        });
+
+        test('reads the characters the user plays from the PLIN claim', async () => {
+            const { params } = startLogin();
+            fetchMock.mockResolvedValue(tokenResponse({
+                access_token: 'access-1',
+                id_token: idToken({ ...claimsFor(params.get('nonce')!), plins: ['1001#01', ' 1002#01 ', '1001#01', 7] }),
+            }));
+
+            const { user } = await authService.completeLogin('code-1', params.get('state'));
+
+            expect(user.plins).toEqual(['1001#01', '1002#01']);
+        });
+
+        test.each([
+            ['another audience', { aud: 'someone-else' }, 'not issued to this app'],
+            ['an expired token', { exp: 1 }, 'expired'],
+            ['another nonce', { nonce: 'replayed' }, 'nonce does not match'],
+        ])('rejects an ID token with %s', async (_, override, message) => {
+            const { params } = startLogin();
+            fetchMock.mockResolvedValue(tokenResponse({
+                access_token: 'access-1',
+                id_token: idToken({ ...claimsFor(params.get('nonce')!), ...override }),
+            }));
+
+            await expect(authService.completeLogin('code-1', params.get('state'))).rejects.toThrow(message);
+        });
+
+        test('passes on the refresh token and when the access token expires', async () => {
+            const { params } = startLogin();
+            fetchMock.mockResolvedValue(tokenResponse({
+                access_token: 'access-1',
+                refresh_token: 'refresh-1',
+                expires_in: 300,
+                id_token: idToken(claimsFor(params.get('nonce')!)),
+            }));
+
+            const response = await authService.completeLogin('code-1', params.get('state'));
+
+            expect(response.refreshToken).toBe('refresh-1');
+            expect(response.expiresAt).toBeGreaterThan(Date.now() + 299 * 1000);
+            expect(response.expiresAt).toBeLessThanOrEqual(Date.now() + 300 * 1000);
+        });
+
+        test('refreshes the access token, keeping the refresh token when it is not rotated', async () => {
+            fetchMock.mockResolvedValue(tokenResponse({ access_token: 'access-2', expires_in: 300 }));
+
+            const refreshed = await authService.refreshSession('refresh-1');
+
+            const body = new URLSearchParams(fetchMock.mock.calls[0][1]!.body as string);
+            expect(Object.fromEntries(body)).toEqual({
+                grant_type: 'refresh_token',
+                refresh_token: 'refresh-1',
+                client_id: 'voiddex',
+            });
+            expect(refreshed).toEqual({ token: 'access-2', refreshToken: 'refresh-1', expiresAt: expect.any(Number) });
+        });
+
+        test('ends the session when the refresh token is no longer accepted', async () => {
+            fetchMock.mockResolvedValue(tokenResponse({ error: 'invalid_grant' }, 400));
+
+            await expect(authService.refreshSession('refresh-1')).resolves.toBeNull();
+        });
+
+        test('reports other refresh failures as errors', async () => {
+            fetchMock.mockRejectedValue(new TypeError('Failed to fetch'));
+            await expect(authService.refreshSession('refresh-1')).rejects.toThrow('Failed to fetch');
+
+            fetchMock.mockResolvedValue(tokenResponse({ error: 'temporarily_unavailable' }, 503));
+            await expect(authService.refreshSession('refresh-1')).rejects.toThrow('temporarily_unavailable');
+        });
+
+        test('reports the error the token endpoint returned', async () => {
+            const { params } = startLogin();
+            fetchMock.mockResolvedValue(tokenResponse({ error: 'invalid_grant', error_description: 'Code expired' }, 400));
+
+            await expect(authService.completeLogin('code-1', params.get('state'))).rejects.toThrow('Code expired');
+        });
+
+        test('does not call the token endpoint when the state does not match', async () => {
+            startLogin();
+
+            await expect(authService.completeLogin('code-1', 'forged')).rejects.toThrow('Login state does not match');
+            expect(fetchMock).not.toHaveBeenCalled();
+        });
+    });
 });
@@ -1,44 +1,334 @@
-import { AuthResponse } from '../types';
+import { AuthResponse, User, UserRole } from '../types';
+import { AppConfig, getAppConfig } from './config';
+import { sha256 } from './hmac';
+import { USER_ROLES, isUserRole } from './permissions';
 
-// Simulating a Backend Auth Service
-// In a real application, these functions would call your backend API endpoints.
+/**
+ * Sign-in with OpenID Connect: the authorization code flow with PKCE (RFC 7636), so no client
+ * secret is needed in the browser. Works with any provider that exposes an authorization and a
+ * token endpoint (see `oidc*` in config.ts).
+ *
+ * With `authProvider: 'mock'` (the default) a local stand-in plays the provider: it approves every
+ * request at once and signs the user in as the demo user, but still goes through state, PKCE and
+ * ID-token checks, so tests and development exercise the same flow as production.
+ */
 
-export const authService = {
-  /**
-   * Generates the Google OAuth URL.
-   * In a real app, this returns https://accounts.google.com/o/oauth2/v2/auth?...
-   * For this demo, we simulate a redirect to our own callback route.
-   */
-  getGoogleAuthUrl: (): string => {
-    const SCOPE = "profile email";
-    
-    // Simulating the Google Redirect logic by sending the user to our callback
-    // with a mock authorization code.
-    return `/auth/callback?code=mock_secure_auth_code_${Date.now()}&scope=${SCOPE}`;
+// The login in progress in this tab; sessionStorage survives the round trip to the provider
+const PENDING_LOGIN_KEY = 'voiddex_pending_login';
+
+interface PendingLogin {
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+}
+
+interface TokenResponse {
+  access_token: string;
+  id_token?: string; // Only sent for the authorization code
+  refresh_token?: string;
+  expires_in?: number; // Seconds
+}
+
+/** What a refresh yields: a new access token, and a new refresh token when the provider rotates them. */
+export type RefreshedTokens = Omit<AuthResponse, 'user'>;
+
+// A failure reported by the token endpoint; `code` is the OAuth error code, e.g. "invalid_grant"
+class TokenRequestError extends Error {
+  constructor(message: string, public code?: string) {
+    super(message);
+  }
+}
+
+interface IdTokenClaims {
+  sub?: string;
+  aud?: string | string[];
+  exp?: number;
+  nonce?: string;
+  name?: string;
+  preferred_username?: string;
+  email?: string;
+  picture?: string;
+  [claim: string]: unknown; // The role and PLIN claims are configurable
+}
+
+const MOCK_CODE_PREFIX = 'mock_secure_auth_code_';
+const MOCK_REFRESH_PREFIX = 'mock_refresh_token_';
+const MOCK_CLIENT_ID = 'voiddex-local';
+const MOCK_ROLE_CLAIM = 'roles';
+const MOCK_PLIN_CLAIM = 'plins';
+const MOCK_TOKEN_LIFETIME_S = 60 * 60;
+
+const base64UrlEncode = (bytes: Uint8Array): string =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const base64UrlDecode = (text: string): string => {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='));
+  return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+};
+
+const randomToken = (): string => {
+  const bytes = new Uint8Array(32);
+  crypto.getRandomValues(bytes);
+  return base64UrlEncode(bytes);
+};
+
+/** S256 code challenge for a PKCE code verifier. */
+export const createCodeChallenge = (codeVerifier: string): string =>
+  base64UrlEncode(sha256(new TextEncoder().encode(codeVerifier)));
+
+const getRedirectUrl = (config: AppConfig) => config.oidcRedirectUrl || `${window.location.origin}/auth/callback`;
+
+const getClientId = (config: AppConfig) => (config.authProvider === 'oidc' ? config.oidcClientId : MOCK_CLIENT_ID);
+
+interface ClaimNames {
+  role: string;
+  plins: string;
+}
+
+const getClaimNames = (config: AppConfig): ClaimNames => (config.authProvider === 'oidc'
+  ? { role: config.oidcRoleClaim, plins: config.oidcPlinClaim }
+  : { role: MOCK_ROLE_CLAIM, plins: MOCK_PLIN_CLAIM });
+
+// --- Local stand-in provider ---
+
+interface MockGrant {
+  codeChallenge: string;
+  nonce: string;
+  clientId: string;
+}
+
+// Codes issued by the stand-in; each can be exchanged once
+const mockGrants = new Map<string, MockGrant>();
+
+const encodeUnsignedJwt = (claims: object): string => {
+  const encode = (part: object) => base64UrlEncode(new TextEncoder().encode(JSON.stringify(part)));
+  return `${encode({ alg: 'none', typ: 'JWT' })}.${encode(claims)}.`;
+};
+
+const mockProvider = {
+  // Approves the request straight away and redirects back to the callback route
+  authorize: (params: URLSearchParams): string => {
+    const code = `${MOCK_CODE_PREFIX}${Date.now()}`;
+    mockGrants.set(code, {
+      codeChallenge: params.get('code_challenge') || '',
+      nonce: params.get('nonce') || '',
+      clientId: params.get('client_id') || '',
+    });
+    return `/auth/callback?${new URLSearchParams({ code, state: params.get('state') || '' })}`;
   },
 
-  /**
-   * Exchanges the temporary authorization code for a secure access token.
-   * This MUST happen on the backend in a real app to keep the Client Secret secure.
-   */
-  exchangeCodeForToken: async (code: string): Promise<AuthResponse> => {
+  token: async (params: URLSearchParams): Promise<TokenResponse> => {
     // Simulate network delay
     await new Promise(resolve => setTimeout(resolve, 500));
 
-    if (!code.startsWith('mock_secure_auth_code')) {
+    const mockTokens = () => ({
+      access_token: `eyJhGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9.mock_access_token_${Date.now()}.signature`,
+      refresh_token: `${MOCK_REFRESH_PREFIX}${Date.now()}`,
+      expires_in: MOCK_TOKEN_LIFETIME_S,
+    });
+
+    if (params.get('grant_type') === 'refresh_token') {
+      // Stateless, so sessions survive a reload of the app
+      if (!(params.get('refresh_token') || '').startsWith(MOCK_REFRESH_PREFIX)) {
+        throw new TokenRequestError('Invalid refresh token', 'invalid_grant');
+      }
+      return mockTokens();
+    }
+
+    const code = params.get('code') || '';
+    const grant = mockGrants.get(code);
+    mockGrants.delete(code);
+    if (!grant || grant.clientId !== params.get('client_id')) {
       throw new Error('Invalid authorization code');
     }
+    if (grant.codeChallenge !== createCodeChallenge(params.get('code_verifier') || '')) {
+      throw new Error('Invalid code verifier');
+    }
 
-    // Return a mock JWT (Access Token) and User Profile
-    // The token is a secure string that should be sent in the Authorization header.
     return {
-      token: `eyJhGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9.mock_access_token_${Date.now()}.signature`,
-      user: {
-        id: 'google_123456789',
+      ...mockTokens(),
+      id_token: encodeUnsignedJwt({
+        sub: 'google_123456789',
+        aud: grant.clientId,
+        exp: Math.floor(Date.now() / 1000) + MOCK_TOKEN_LIFETIME_S,
+        nonce: grant.nonce,
         name: 'Demo User',
         email: 'user@example.com',
-        avatar: 'https://picsum.photos/100/100'
-      }
+        picture: 'https://picsum.photos/100/100',
+        [MOCK_ROLE_CLAIM]: ['cs'],
+        [MOCK_PLIN_CLAIM]: ['1001#01'],
+      }),
     };
+  },
+};
+
+// --- OIDC ---
+
+const requestTokens = async (config: AppConfig, params: URLSearchParams): Promise<TokenResponse> => {
+  if (config.authProvider === 'mock') return mockProvider.token(params);
+
+  const response = await fetch(config.oidcTokenUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+    body: params.toString(),
+  });
+  const payload = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new TokenRequestError(
+      `Token request failed: ${payload?.error_description || payload?.error || response.status}`,
+      payload?.error,
+    );
+  }
+  if (typeof payload?.access_token !== 'string') {
+    throw new Error('Token response is missing the access token');
   }
-};
\ No newline at end of file
+  return payload;
+};
+
+const toExpiresAt = (expiresIn: unknown): number | undefined =>
+  typeof expiresIn === 'number' ? Date.now() + expiresIn * 1000 : undefined;
+
+/**
+ * The most privileged role named by the role claim (a single role or a list).
+ * Users without a recognised role are players.
+ */
+const roleFromClaim = (claim: unknown): UserRole => {
+  const named = (Array.isArray(claim) ? claim : [claim]).filter(isUserRole);
+  return [...USER_ROLES].reverse().find(role => named.includes(role)) || 'player';
+};
+
+/**
+ * The PLINs named by the PLIN claim (a single PLIN or a list).
+ */
+const plinsFromClaim = (claim: unknown): string[] => {
+  const named = (Array.isArray(claim) ? claim : [claim])
+    .filter((plin): plin is string => typeof plin === 'string')
+    .map(plin => plin.trim())
+    .filter(Boolean);
+  return Array.from(new Set(named));
+};
+
+/**
+ * Reads the user from the ID token. The token comes straight from the token endpoint over TLS,
+ * so its signature is not checked here (OpenID Connect Core 3.1.3.7); audience, expiry and
+ * nonce are.
+ */
+const parseIdToken = (idToken: string, clientId: string, nonce: string, claimNames: ClaimNames): User => {
+  let claims: IdTokenClaims;
+  try {
+    claims = JSON.parse(base64UrlDecode(idToken.split('.')[1] || ''));
+  } catch (e) {
+    throw new Error('Malformed ID token');
+  }
+
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (!claims.sub || !audiences.includes(clientId)) throw new Error('ID token was not issued to this app');
+  if (typeof claims.exp !== 'number' || claims.exp * 1000 <= Date.now()) throw new Error('ID token has expired');
+  if (claims.nonce !== nonce) throw new Error('ID token nonce does not match');
+
+  return {
+    id: claims.sub,
+    name: claims.name || claims.preferred_username || claims.email || claims.sub,
+    email: claims.email || '',
+    avatar: claims.picture || '',
+    role: roleFromClaim(claims[claimNames.role]),
+    plins: plinsFromClaim(claims[claimNames.plins]),
+  };
+};
+
+const takePendingLogin = (): PendingLogin | null => {
+  const saved = sessionStorage.getItem(PENDING_LOGIN_KEY);
+  sessionStorage.removeItem(PENDING_LOGIN_KEY);
+  if (!saved) return null;
+  try {
+    return JSON.parse(saved);
+  } catch (e) {
+    return null;
+  }
+};
+
+export const authService = {
+  /**
+   * Starts a login: remembers a fresh state, nonce and PKCE code verifier for this tab and
+   * returns the URL to send the user to. That is the provider's authorization endpoint
+   * (absolute URL), or the callback route directly when the local stand-in is used.
+   */
+  getAuthorizationUrl: (): string => {
+    const config = getAppConfig();
+    const pending: PendingLogin = { state: randomToken(), nonce: randomToken(), codeVerifier: randomToken() };
+    sessionStorage.setItem(PENDING_LOGIN_KEY, JSON.stringify(pending));
+
+    const params = new URLSearchParams({
+      response_type: 'code',
+      client_id: getClientId(config),
+      redirect_uri: getRedirectUrl(config),
+      scope: config.oidcScope,
+      state: pending.state,
+      nonce: pending.nonce,
+      code_challenge: createCodeChallenge(pending.codeVerifier),
+      code_challenge_method: 'S256',
+    });
+
+    return config.authProvider === 'oidc'
+      ? `${config.oidcAuthorizationUrl}?${params}`
+      : mockProvider.authorize(params);
+  },
+
+  /**
+   * Finishes the login the provider redirected back from: checks the state against the one
+   * this tab sent, exchanges the code (with the code verifier) for tokens and reads the user
+   * from the ID token. The pending login is used up either way, so a callback URL cannot be
+   * replayed.
+   */
+  completeLogin: async (code: string, state: string | null): Promise<AuthResponse> => {
+    const pending = takePendingLogin();
+    if (!pending || !state || pending.state !== state) {
+      throw new Error('Login state does not match; start the login again');
+    }
+
+    const config = getAppConfig();
+    const clientId = getClientId(config);
+    const tokens = await requestTokens(config, new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: getRedirectUrl(config),
+      client_id: clientId,
+      code_verifier: pending.codeVerifier,
+    }));
+
+    if (typeof tokens.id_token !== 'string') throw new Error('Token response is missing the ID token');
+
+    return {
+      token: tokens.access_token,
+      user: parseIdToken(tokens.id_token, clientId, pending.nonce, getClaimNames(config)),
+      refreshToken: tokens.refresh_token,
+      expiresAt: toExpiresAt(tokens.expires_in),
+    };
+  },
+
+  /**
+   * Trades the refresh token for a new access token. Resolves to null when the provider no
+   * longer accepts the refresh token (the session is over and the user has to sign in again);
+   * throws when the provider could not be asked, e.g. while offline.
+   */
+  refreshSession: async (refreshToken: string): Promise<RefreshedTokens | null> => {
+    const config = getAppConfig();
+    try {
+      const tokens = await requestTokens(config, new URLSearchParams({
+        grant_type: 'refresh_token',
+        refresh_token: refreshToken,
+        client_id: getClientId(config),
+      }));
+      return {
+        token: tokens.access_token,
+        // Providers that do not rotate refresh tokens leave it out
+        refreshToken: tokens.refresh_token || refreshToken,
+        expiresAt: toExpiresAt(tokens.expires_in),
+      };
+    } catch (e) {
+      if (e instanceof TokenRequestError && e.code === 'invalid_grant') return null;
+      throw e;
+    }
+  },
+};
@@ -0,0 +1,53 @@
+import { describe, expect, test } from '@jest/globals';
+import { batchFlags, batchExpiry, batchOwner, batchNoteLinks, BatchEntry } from './batchScan';
+import { Item, Power } from '../types';
+
+const now = new Date(2026, 9, 19);
+
+const item: Item = { itin: '1001', name: 'Plasma Rifle', description: '', owner: '1001#01', expiryDate: '01/01/2026' };
+const power: Power = {
+  poin: '5001',
+  name: 'Telekinesis',
+  description: '',
+  assignments: [
+    { plin: '1001#01', expiryDate: '01/01/2027' },
+    { plin: '1002#01', expiryDate: '01/01/2025' },
+  ],
+};
+
+const entry = (record: Item | Power, changes: Partial<BatchEntry> = {}): BatchEntry => {
+  const type = 'itin' in record ? 'item' : 'power';
+  const id = 'itin' in record ? record.itin : record.poin;
+  return { key: `${type}:${id}`, type, id, status: 'resolved', record, ...changes };
+};
+
+describe('batch scan', () => {
+  test('shows the checked-in player\'s expiry and the owners', () => {
+    expect(batchExpiry(item)).toBe('01/01/2026');
+    expect(batchExpiry(power, '1002#01')).toBe('01/01/2025');
+    expect(batchExpiry(power)).toBe('2 assignments');
+    expect(batchExpiry(power, '1003#01')).toBe('');
+    expect(batchOwner(power)).toBe('1001#01, 1002#01');
+  });
+
+  test('flags expired and wrongly owned records', () => {
+    expect(batchFlags(entry(item), '', now)).toEqual(['Expired']);
+    expect(batchFlags(entry(item), '1002#01', now)).toEqual(['Expired', 'Owned by 1001#01']);
+    expect(batchFlags(entry({ ...item, expiryDate: '01/01/2030', destroyed: true }), '1001#01', now)).toEqual(['Destroyed']);
+
+    expect(batchFlags(entry(power), '1001#01', now)).toEqual([]);
+    expect(batchFlags(entry(power), '1002#01', now)).toEqual(['Expired']);
+    expect(batchFlags(entry(power), '1003#01', now)).toEqual(['Not assigned to 1003#01']);
+  });
+
+  test('flags failed lookups and labels', () => {
+    expect(batchFlags({ key: 'item:1999', type: 'item', id: '1999', status: 'not-found' }, '', now)).toEqual(['Not found']);
+    expect(batchFlags(entry(power, { labelStatus: 'forged' }), '', now)).toEqual(['Forged label']);
+    expect(batchFlags(entry(power, { labelStatus: 'valid' }), '', now)).toEqual([]);
+  });
+
+  test('links resolved records for a note', () => {
+    const missing: BatchEntry = { key: 'item:1999', type: 'item', id: '1999', status: 'not-found' };
+    expect(batchNoteLinks([entry(item), missing, entry(power)])).toEqual(['ITIN:1001', 'POIN:5001']);
+  });
+});
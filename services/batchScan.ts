@@ -0,0 +1,75 @@
+import { EntityType } from '../types';
+import { BulkTarget, getTargetId } from './bulkUpdate';
+import { isExpired } from './expiry';
+import { ID_RANGES } from './idAllocator';
+import { LabelStatus } from './labels';
+
+/**
+ * One code in a batch scan. `record` is filled in once the lookup resolves.
+ */
+export interface BatchEntry {
+  key: string;
+  type: EntityType;
+  id: string;
+  status: 'loading' | 'resolved' | 'not-found' | 'error';
+  record?: BulkTarget;
+  labelStatus?: LabelStatus;
+}
+
+const LABEL_FLAGS: Record<LabelStatus, string | null> = {
+  valid: null,
+  forged: 'Forged label',
+  outdated: 'Outdated label',
+  unsigned: 'Unsigned label',
+  unverified: 'Label not verified',
+};
+
+/**
+ * Expiry shown for a scanned record. For conditions and powers this is the
+ * checked-in player's assignment, or the only assignment when no PLIN is given.
+ */
+export const batchExpiry = (record: BulkTarget, plin = ''): string => {
+  if (!('assignments' in record)) return record.expiryDate;
+  const assignment = plin
+    ? record.assignments.find(a => a.plin === plin)
+    : record.assignments.length === 1 ? record.assignments[0] : undefined;
+  if (assignment) return assignment.expiryDate;
+  return plin || record.assignments.length === 0 ? '' : `${record.assignments.length} assignments`;
+};
+
+/** Owner of an item, or the PLINs a condition/power is assigned to. */
+export const batchOwner = (record: BulkTarget): string =>
+  'assignments' in record ? record.assignments.map(a => a.plin).join(', ') : record.owner;
+
+/**
+ * Problems worth stopping for at check-in: expired, destroyed, held by someone other
+ * than `plin`, or a label that failed verification.
+ */
+export const batchFlags = (entry: BatchEntry, plin = '', now: Date = new Date()): string[] => {
+  const flags: string[] = [];
+  const labelFlag = entry.labelStatus && LABEL_FLAGS[entry.labelStatus];
+  if (labelFlag) flags.push(labelFlag);
+  if (entry.status === 'not-found') flags.push('Not found');
+  if (entry.status === 'error') flags.push('Lookup failed');
+
+  const record = entry.record;
+  if (!record) return flags;
+
+  if (!('assignments' in record)) {
+    if (record.destroyed) flags.push('Destroyed');
+    if (isExpired(record.expiryDate, now)) flags.push('Expired');
+    if (plin && record.owner !== plin) flags.push(`Owned by ${record.owner || 'nobody'}`);
+    return flags;
+  }
+
+  const relevant = plin ? record.assignments.filter(a => a.plin === plin) : record.assignments;
+  if (plin && relevant.length === 0) flags.push(`Not assigned to ${plin}`);
+  else if (relevant.length > 0 && relevant.every(a => isExpired(a.expiryDate, now))) flags.push('Expired');
+  return flags;
+};
+
+/** Note links for every resolved record, in the "ITIN:1234" form used by notes. */
+export const batchNoteLinks = (entries: BatchEntry[]): string[] =>
+  entries
+    .filter(e => e.record)
+    .map(e => `${ID_RANGES[e.type].label}:${getTargetId(e.record!)}`);
@@ -0,0 +1,67 @@
+import { describe, expect, test } from '@jest/globals';
+import { applyAssignmentChanges, parseTargetRef, planBulkUpdate } from './bulkUpdate';
+import { Item, Condition } from '../types';
+
+const item: Item = {
+  itin: '1001',
+  name: 'Plasma Rifle',
+  description: '',
+  owner: '1001#01',
+  expiryDate: '15/05/2025',
+};
+
+const condition: Condition = {
+  coin: '8001',
+  name: 'Radiation Poisoning',
+  description: '',
+  assignments: [
+    { plin: '1001#01', expiryDate: '01/01/2026' },
+    { plin: '1002#01', expiryDate: 'until death' },
+    { plin: '1003#01', expiryDate: '10/03/2026' },
+  ],
+};
+
+describe('Bulk update planning', () => {
+  test('+1 year and round applies to each row\'s own expiry and leaves "until death" alone', () => {
+    expect(planBulkUpdate([item, condition], { kind: 'addYear' })).toEqual([
+      { type: 'item', id: '1001', name: 'Plasma Rifle', changes: [{ plin: '1001#01', before: '15/05/2025', after: '01/06/2026' }] },
+      {
+        type: 'condition', id: '8001', name: 'Radiation Poisoning', changes: [
+          { plin: '1001#01', before: '01/01/2026', after: '01/01/2027' },
+          { plin: '1003#01', before: '10/03/2026', after: '01/04/2027' },
+        ],
+      },
+    ]);
+  });
+
+  test('a fixed date can be limited to one player', () => {
+    const rows = planBulkUpdate([item, condition], { kind: 'set', expiryDate: '01/01/2026' }, '1003#01');
+    expect(rows[0].skipped).toBe('Not owned by 1003#01');
+    expect(rows[1].changes).toEqual([{ plin: '1003#01', before: '10/03/2026', after: '01/01/2026' }]);
+  });
+
+  test('skips rows without anything to change', () => {
+    const rows = planBulkUpdate([item, condition], { kind: 'set', expiryDate: '15/05/2025' }, '1002#01');
+    expect(rows.map(r => r.skipped)).toEqual(['Not owned by 1002#01', 'No dated assignment for 1002#01']);
+
+    const upToDate = planBulkUpdate([item], { kind: 'set', expiryDate: '15/05/2025' });
+    expect(upToDate[0].skipped).toBe('Already up to date');
+  });
+
+  test('applies a row\'s changes to the assignment list', () => {
+    expect(applyAssignmentChanges(condition.assignments, [{ plin: '1003#01', before: '10/03/2026', after: '01/04/2027' }]))
+      .toEqual([
+        { plin: '1001#01', expiryDate: '01/01/2026' },
+        { plin: '1002#01', expiryDate: 'until death' },
+        { plin: '1003#01', expiryDate: '01/04/2027' },
+      ]);
+  });
+
+  test('parses prefixed IDs only', () => {
+    expect(parseTargetRef('ITIN 1234')).toEqual({ type: 'item', id: '1234' });
+    expect(parseTargetRef('coin8001')).toEqual({ type: 'condition', id: '8001' });
+    expect(parseTargetRef(' POIN 5001 ')).toEqual({ type: 'power', id: '5001' });
+    expect(parseTargetRef('1234')).toBeNull();
+    expect(parseTargetRef('PLIN 1234')).toBeNull();
+  });
+});
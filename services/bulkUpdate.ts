@@ -0,0 +1,132 @@
+import { Item, Condition, Power, Assignment, EntityType } from '../types';
+import { ID_RANGES } from './idAllocator';
+import { addYearAndRound } from './expiry';
+import { NewStoredChange } from './offlineStorage';
+import { OutboxOperation } from './outbox';
+
+export type BulkTarget = Item | Condition | Power;
+
+/**
+ * How the new expiry is chosen: one fixed date for every row,
+ * or "+1 year and round" applied to each row's own current expiry.
+ */
+export type BulkExpiryMode =
+  | { kind: 'set'; expiryDate: string }
+  | { kind: 'addYear' };
+
+/**
+ * One expiry change within a preview row. Items have a single change (their owner);
+ * conditions and powers have one per affected assignment.
+ */
+export interface BulkExpiryChange {
+  plin: string;
+  before: string;
+  after: string;
+}
+
+/**
+ * Before/after preview of one selected record.
+ * `skipped` explains why nothing will be written for it.
+ */
+export interface BulkPreviewRow {
+  type: EntityType;
+  id: string;
+  name: string;
+  changes: BulkExpiryChange[];
+  skipped?: string;
+}
+
+export const getTargetType = (target: BulkTarget): EntityType =>
+  'coin' in target ? 'condition' : 'poin' in target ? 'power' : 'item';
+
+export const getTargetId = (target: BulkTarget): string =>
+  'coin' in target ? target.coin : 'poin' in target ? target.poin : target.itin;
+
+/** Stable key for de-duplicating targets, e.g. "condition:8001". */
+export const targetKey = (target: BulkTarget): string => `${getTargetType(target)}:${getTargetId(target)}`;
+
+/**
+ * Parses "ITIN 1234", "coin8001" or "POIN 5001" into a record reference.
+ * A bare number is ambiguous (the ITIN range overlaps the others) and is rejected.
+ */
+export const parseTargetRef = (text: string): { type: EntityType; id: string } | null => {
+  const match = text.trim().match(/^(ITIN|COIN|POIN)\s*(\d{4})$/i);
+  if (!match) return null;
+  const label = match[1].toUpperCase();
+  const type = (Object.keys(ID_RANGES) as EntityType[]).find(t => ID_RANGES[t].label === label);
+  return type ? { type, id: match[2] } : null;
+};
+
+const nextExpiry = (current: string, mode: BulkExpiryMode): string | null =>
+  mode.kind === 'set' ? mode.expiryDate : addYearAndRound(current);
+
+/**
+ * Builds the preview for a batch.
+ * With `plin` set, only that player's item/assignments are touched.
+ * "until death" assignments are never changed in bulk.
+ */
+export const planBulkUpdate = (targets: BulkTarget[], mode: BulkExpiryMode, plin = ''): BulkPreviewRow[] =>
+  targets.map(target => {
+    const row: BulkPreviewRow = { type: getTargetType(target), id: getTargetId(target), name: target.name, changes: [] };
+
+    if (!('assignments' in target)) {
+      if (plin && target.owner !== plin) return { ...row, skipped: `Not owned by ${plin}` };
+      const after = nextExpiry(target.expiryDate, mode);
+      if (!after) return { ...row, skipped: 'Expiry cannot be extended' };
+      if (after === target.expiryDate) return { ...row, skipped: 'Already up to date' };
+      return { ...row, changes: [{ plin: target.owner, before: target.expiryDate, after }] };
+    }
+
+    const candidates = target.assignments.filter(a => (!plin || a.plin === plin) && a.expiryDate !== 'until death');
+    if (candidates.length === 0) {
+      return { ...row, skipped: plin ? `No dated assignment for ${plin}` : 'No dated assignments' };
+    }
+    row.changes = candidates
+      .map(a => ({ plin: a.plin, before: a.expiryDate, after: nextExpiry(a.expiryDate, mode) || a.expiryDate }))
+      .filter(c => c.after !== c.before);
+    return row.changes.length > 0 ? row : { ...row, skipped: 'Already up to date' };
+  });
+
+/**
+ * The assignments of a condition/power with a preview row's changes applied.
+ * Assignments the row does not mention are returned unchanged.
+ */
+export const applyAssignmentChanges = (assignments: Assignment[], changes: BulkExpiryChange[]): Assignment[] => {
+  const byPlin = new Map(changes.map(c => [c.plin, c.after]));
+  return assignments.map(a => (byPlin.has(a.plin) ? { ...a, expiryDate: byPlin.get(a.plin)! } : a));
+};
+
+/**
+ * The write for one preview row, based on the version the record was loaded at.
+ */
+export const bulkRowOperation = (target: BulkTarget, row: BulkPreviewRow): OutboxOperation => {
+  const base = { type: row.type, id: row.id, expectedVersion: target.version };
+  if ('assignments' in target) {
+    return { ...base, changes: { assignments: applyAssignmentChanges(target.assignments, row.changes) } };
+  }
+  return { ...base, changes: { expiryDate: row.changes[0].after } };
+};
+
+/**
+ * The row as a recharge/extend draft, which is what comes back into the drafts list if the
+ * server rejects the row after it was queued offline. The extend page takes one date for all
+ * PLINs, so when "+1 year" gave the assignments different dates the draft leaves it empty.
+ */
+export const bulkRowDraft = (target: BulkTarget, row: BulkPreviewRow, id: string, timestamp: number): NewStoredChange => {
+  const meta = { id, timestamp, title: target.name || 'Untitled' };
+  if ('coin' in target || 'poin' in target) {
+    const dates = new Set(row.changes.map(c => c.after));
+    const data = { expiryDate: dates.size === 1 ? row.changes[0].after : '', selectedPlins: row.changes.map(c => c.plin) };
+    return 'coin' in target
+      ? { ...meta, type: 'condition', action: 'extend', data: { ...data, condition: target }, subtitle: `Extend COIN: ${target.coin}` }
+      : { ...meta, type: 'power', action: 'extend', data: { ...data, power: target }, subtitle: `Extend POIN: ${target.poin}` };
+  }
+  return {
+    ...meta,
+    type: 'item',
+    action: 'recharge',
+    data: { item: target, expiryDate: row.changes[0].after },
+    subtitle: `Recharge ITIN: ${target.itin}`,
+  };
+};
+
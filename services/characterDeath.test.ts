@@ -0,0 +1,48 @@
+import { describe, expect, test } from '@jest/globals';
+import { endUntilDeathAssignments, formatDeathDate, itemDeathUpdate, validateDeathChoices } from './characterDeath';
+import { Item } from '../types';
+
+const ownedItem: Item = {
+  itin: '1001',
+  name: 'Plasma Rifle',
+  description: 'Desc',
+  owner: '1001#01',
+  expiryDate: '31/12/2025',
+};
+
+describe('Character death helpers', () => {
+  test('formats the date of death as dd/mm/yyyy', () => {
+    expect(formatDeathDate(new Date(2026, 0, 5))).toBe('05/01/2026');
+  });
+
+  test('ends only the PLIN\'s "until death" assignments', () => {
+    const assignments = [
+      { plin: '1001#01', expiryDate: 'until death' },
+      { plin: '1002#01', expiryDate: 'until death' },
+      { plin: '1001#01', expiryDate: '01/01/2030' },
+    ];
+    expect(endUntilDeathAssignments(assignments, '1001#01', '05/01/2026')).toEqual([
+      { plin: '1001#01', expiryDate: '05/01/2026' },
+      { plin: '1002#01', expiryDate: 'until death' },
+      { plin: '1001#01', expiryDate: '01/01/2030' },
+    ]);
+  });
+
+  test('validates transfers and ownership', () => {
+    expect(validateDeathChoices('1001#01', [ownedItem], [{ itin: '1001', disposition: 'keep' }])).toBeNull();
+    expect(validateDeathChoices('1001#01', [ownedItem], [{ itin: '1002', disposition: 'keep' }]))
+      .toBe('ITIN 1002 is not owned by 1001#01');
+    expect(validateDeathChoices('1001#01', [ownedItem], [{ itin: '1001', disposition: 'transfer', newOwner: '12' }]))
+      .toBe('ITIN 1001: transfer PLIN must be format 1234#12');
+    expect(validateDeathChoices('1001#01', [ownedItem], [{ itin: '1001', disposition: 'transfer', newOwner: '1001#01' }]))
+      .toBe('ITIN 1001: cannot transfer to the deceased character');
+  });
+
+  test('maps each disposition to an item update', () => {
+    expect(itemDeathUpdate({ itin: '1001', disposition: 'keep' }, '05/01/2026')).toBeNull();
+    expect(itemDeathUpdate({ itin: '1001', disposition: 'transfer', newOwner: ' 2002#02 ' }, '05/01/2026'))
+      .toEqual({ owner: '2002#02' });
+    expect(itemDeathUpdate({ itin: '1001', disposition: 'destroy' }, '05/01/2026'))
+      .toEqual({ destroyed: true, expiryDate: '05/01/2026' });
+  });
+});
@@ -0,0 +1,54 @@
+import { Item, Condition, Power, Assignment, ItemDeathChoice } from '../types';
+
+const PLIN_PATTERN = /^\d{1,4}#\d{1,2}$/;
+
+export const UNTIL_DEATH = 'until death';
+
+/**
+ * Formats a date as dd/mm/yyyy, the format used for every expiry date.
+ */
+export const formatDeathDate = (date: Date): string => {
+  const d = String(date.getDate()).padStart(2, '0');
+  const m = String(date.getMonth() + 1).padStart(2, '0');
+  return `${d}/${m}/${date.getFullYear()}`;
+};
+
+/**
+ * Whether a condition/power has an "until death" assignment for the PLIN.
+ */
+export const hasUntilDeathAssignment = (record: Condition | Power, plin: string): boolean =>
+  record.assignments.some(a => a.plin === plin && a.expiryDate === UNTIL_DEATH);
+
+/**
+ * Ends the PLIN's "until death" assignments on the date of death.
+ * Dated assignments and other players' assignments are left alone.
+ */
+export const endUntilDeathAssignments = (assignments: Assignment[], plin: string, dateOfDeath: string): Assignment[] =>
+  assignments.map(a => (a.plin === plin && a.expiryDate === UNTIL_DEATH ? { ...a, expiryDate: dateOfDeath } : a));
+
+/**
+ * Checks the per-item choices against the items the deceased owns.
+ * Returns the first problem found, or null when the batch can be applied.
+ */
+export const validateDeathChoices = (plin: string, ownedItems: Item[], choices: ItemDeathChoice[]): string | null => {
+  const owned = new Set(ownedItems.map(i => i.itin));
+  for (const choice of choices) {
+    if (!owned.has(choice.itin)) return `ITIN ${choice.itin} is not owned by ${plin}`;
+    if (choice.disposition !== 'transfer') continue;
+
+    const newOwner = (choice.newOwner || '').trim();
+    if (!PLIN_PATTERN.test(newOwner)) return `ITIN ${choice.itin}: transfer PLIN must be format 1234#12`;
+    if (newOwner === plin) return `ITIN ${choice.itin}: cannot transfer to the deceased character`;
+  }
+  return null;
+};
+
+/**
+ * The update an item receives for a death choice, or null when it is kept as is.
+ * Destroyed items stay on record but expire on the date of death.
+ */
+export const itemDeathUpdate = (choice: ItemDeathChoice, dateOfDeath: string): Partial<Item> | null => {
+  if (choice.disposition === 'transfer') return { owner: (choice.newOwner || '').trim() };
+  if (choice.disposition === 'destroy') return { destroyed: true, expiryDate: dateOfDeath };
+  return null;
+};
@@ -0,0 +1,63 @@
+/**
+ * Runtime configuration, resolved once at startup.
+ * Values are injected at build time by Vite (see `define` in vite.config.ts)
+ * from `VOIDDEX_*` environment variables. Anything missing falls back to the defaults,
+ * which keeps tests and local development on the in-memory mock backend.
+ */
+export interface AppConfig {
+  dataSource: 'mock' | 'rest';
+  apiBaseUrl: string;
+  appUrl: string; // Public URL printed into QR labels; empty = current origin
+  labelSigning: boolean; // Have the backend sign QR labels and check scanned ones
+  serviceWorker: boolean; // Register sw.js for offline use; only production builds emit it
+  authProvider: 'mock' | 'oidc'; // 'mock' signs everyone in as the demo user without leaving the app
+  oidcAuthorizationUrl: string;
+  oidcTokenUrl: string;
+  oidcClientId: string;
+  oidcScope: string;
+  oidcRedirectUrl: string; // Registered with the provider; empty = <current origin>/auth/callback
+  oidcRoleClaim: string; // ID-token claim holding the user's role(s): "player", "referee" or "cs"
+  oidcPlinClaim: string; // ID-token claim holding the PLIN(s) of the characters the user plays
+  inactivityTimeoutMinutes: number; // Lock the app after this long without input; 0 = never
+}
+
+const DEFAULT_CONFIG: AppConfig = {
+  dataSource: 'mock',
+  apiBaseUrl: '',
+  appUrl: '',
+  labelSigning: false,
+  serviceWorker: false,
+  authProvider: 'mock',
+  oidcAuthorizationUrl: '',
+  oidcTokenUrl: '',
+  oidcClientId: '',
+  oidcScope: 'openid profile email',
+  oidcRedirectUrl: '',
+  oidcRoleClaim: 'roles',
+  oidcPlinClaim: 'plins',
+  inactivityTimeoutMinutes: 5,
+};
+
+export const getAppConfig = (): AppConfig => {
+  const injected = typeof __VOIDDEX_CONFIG__ !== 'undefined' ? __VOIDDEX_CONFIG__ : {};
+  const inactivityTimeout = Number(injected.inactivityTimeoutMinutes);
+
+  return {
+    dataSource: injected.dataSource === 'rest' ? 'rest' : DEFAULT_CONFIG.dataSource,
+    apiBaseUrl: injected.apiBaseUrl || DEFAULT_CONFIG.apiBaseUrl,
+    appUrl: injected.appUrl || DEFAULT_CONFIG.appUrl,
+    labelSigning: injected.labelSigning ?? DEFAULT_CONFIG.labelSigning,
+    serviceWorker: injected.serviceWorker ?? DEFAULT_CONFIG.serviceWorker,
+    authProvider: injected.authProvider === 'oidc' ? 'oidc' : DEFAULT_CONFIG.authProvider,
+    oidcAuthorizationUrl: injected.oidcAuthorizationUrl || DEFAULT_CONFIG.oidcAuthorizationUrl,
+    oidcTokenUrl: injected.oidcTokenUrl || DEFAULT_CONFIG.oidcTokenUrl,
+    oidcClientId: injected.oidcClientId || DEFAULT_CONFIG.oidcClientId,
+    oidcScope: injected.oidcScope || DEFAULT_CONFIG.oidcScope,
+    oidcRedirectUrl: injected.oidcRedirectUrl || DEFAULT_CONFIG.oidcRedirectUrl,
+    oidcRoleClaim: injected.oidcRoleClaim || DEFAULT_CONFIG.oidcRoleClaim,
+    oidcPlinClaim: injected.oidcPlinClaim || DEFAULT_CONFIG.oidcPlinClaim,
+    inactivityTimeoutMinutes: injected.inactivityTimeoutMinutes !== undefined && inactivityTimeout >= 0
+      ? inactivityTimeout
+      : DEFAULT_CONFIG.inactivityTimeoutMinutes,
+  };
+};
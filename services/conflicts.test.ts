@@ -0,0 +1,50 @@
+import { describe, expect, test } from '@jest/globals';
+import { buildConflictRows } from './conflicts';
+import { Item, Power } from '../types';
+
+const baseItem: Item = {
+  itin: '1001',
+  name: 'Plasma Rifle',
+  description: 'Desc',
+  owner: '1001#01',
+  expiryDate: '31/12/2025',
+  version: 2,
+};
+
+describe('Conflict rows', () => {
+  test('lists fields changed on either side and flags clashes', () => {
+    const current = { ...baseItem, remarks: 'Dented', expiryDate: '01/06/2026', version: 3 };
+    const pending = { ...baseItem, expiryDate: '01/01/2027' };
+
+    expect(buildConflictRows(baseItem, current, pending)).toEqual([
+      { field: 'expiryDate', base: '31/12/2025', current: '01/06/2026', pending: '01/01/2027', clash: true },
+      { field: 'remarks', base: null, current: 'Dented', pending: null, clash: false },
+    ]);
+  });
+
+  test('does not flag a clash when both sides made the same change', () => {
+    const current = { ...baseItem, owner: '2002#02', version: 3 };
+    const pending = { ...baseItem, owner: '2002#02' };
+
+    expect(buildConflictRows(baseItem, current, pending)).toEqual([
+      { field: 'owner', base: '1001#01', current: '2002#02', pending: '2002#02', clash: false },
+    ]);
+  });
+
+  test('compares assignments per PLIN', () => {
+    const base: Power = {
+      poin: '5001',
+      name: 'Warp',
+      description: '',
+      assignments: [{ plin: '1#1', expiryDate: '01/01/2030' }],
+      version: 1,
+    };
+    const current = { ...base, assignments: [...base.assignments, { plin: '2#2', expiryDate: 'until death' }], version: 2 };
+    const pending = { ...base, assignments: [{ plin: '1#1', expiryDate: '01/01/2031' }] };
+
+    expect(buildConflictRows(base, current, pending)).toEqual([
+      { field: 'assignments[2#2]', base: null, current: 'until death', pending: null, clash: false },
+      { field: 'assignments[1#1]', base: '01/01/2030', current: '01/01/2030', pending: '01/01/2031', clash: false },
+    ]);
+  });
+});
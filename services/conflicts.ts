@@ -0,0 +1,46 @@
+import { Item, Condition, Power, FieldChange } from '../types';
+import { diffRecords } from './audit';
+
+type VersionedRecord = Item | Condition | Power;
+
+/**
+ * One row of a three-way comparison.
+ * `base` is the snapshot the change was prepared on (e.g. a stored draft),
+ * `current` is the record as stored now and `pending` is the change about to be written.
+ */
+export interface ConflictRow {
+  field: string;
+  base: string | null;
+  current: string | null;
+  pending: string | null;
+  clash: boolean; // Both sides changed the field, to different values
+}
+
+/**
+ * Lists every field changed by someone else and/or by the pending change,
+ * relative to the shared base snapshot.
+ */
+export const buildConflictRows = (
+  base: VersionedRecord,
+  current: VersionedRecord,
+  pending: VersionedRecord
+): ConflictRow[] => {
+  const theirs = new Map(diffRecords(base, current).map(c => [c.field, c]));
+  const ours = new Map(diffRecords(base, pending).map(c => [c.field, c]));
+  const fields = Array.from(new Set([...theirs.keys(), ...ours.keys()]));
+
+  return fields.map(field => {
+    const their = theirs.get(field);
+    const our = ours.get(field);
+    const baseValue = ((their || our) as FieldChange).before;
+    const currentValue = their ? their.after : baseValue;
+    const pendingValue = our ? our.after : baseValue;
+    return {
+      field,
+      base: baseValue,
+      current: currentValue,
+      pending: pendingValue,
+      clash: !!their && !!our && currentValue !== pendingValue,
+    };
+  });
+};
@@ -0,0 +1,79 @@
+import { describe, expect, test } from '@jest/globals';
+import { toCsv, recordsToCsv, searchResultsToCsv, buildPlayerReport, buildDatabaseJson, exportFileName } from './dataExport';
+import { parseImportFile, guessMapping, buildImportRecords } from './dataImport';
+import { Item, Condition, Player } from '../types';
+
+const item: Item = {
+  itin: '1001',
+  name: 'Plasma Rifle',
+  description: 'Fires "hot" bolts, mostly',
+  owner: '1001#01',
+  expiryDate: '01/01/2030',
+};
+
+const condition: Condition = {
+  coin: '8001',
+  name: 'Radiation Poisoning',
+  description: 'Slow damage',
+  assignments: [
+    { plin: '1001#01', expiryDate: '01/06/2026' },
+    { plin: '1002#01', expiryDate: 'until death' },
+  ],
+  csRemarks: 'Secret',
+};
+
+describe('Data export', () => {
+  test('quotes cells with separators, quotes and line breaks', () => {
+    expect(toCsv(['a', 'b'], [['x, y', 'say "hi"'], ['line\nbreak', undefined]]))
+      .toBe('a,b\r\n"x, y","say ""hi"""\r\n"line\nbreak",\r\n');
+  });
+
+  test('flattens assignments to rows the import page reads back', () => {
+    const csv = recordsToCsv('condition', [condition, { ...condition, coin: '8002', assignments: [] }]);
+    expect(csv.split('\r\n').slice(0, 4)).toEqual([
+      'COIN,Name,Description,PLIN,Expiry Date,Remarks,CS Remarks',
+      '8001,Radiation Poisoning,Slow damage,1001#01,01/06/2026,,Secret',
+      '8001,Radiation Poisoning,Slow damage,1002#01,until death,,Secret',
+      '8002,Radiation Poisoning,Slow damage,,,,Secret',
+    ]);
+
+    const table = parseImportFile(csv, 'conditions.csv').data!;
+    const records = buildImportRecords('condition', table, guessMapping('condition', table.headers));
+    expect(records[0].assignments).toEqual(condition.assignments);
+    expect(records.every(r => r.errors.length === 0)).toBe(true);
+  });
+
+  test('exports mixed search results with a type column', () => {
+    expect(searchResultsToCsv([item, condition]).split('\r\n').slice(0, 4)).toEqual([
+      'Type,ID,Name,Description,PLIN,Expiry Date,Remarks,CS Remarks',
+      'Item,1001,Plasma Rifle,"Fires ""hot"" bolts, mostly",1001#01,01/01/2030,,',
+      'Condition,8001,Radiation Poisoning,Slow damage,1001#01,01/06/2026,,Secret',
+      'Condition,8001,Radiation Poisoning,Slow damage,1002#01,until death,,Secret',
+    ]);
+  });
+
+  test('bundles server records with local notes and drafts', () => {
+    const json = JSON.parse(buildDatabaseJson(
+      { items: [item], conditions: [], powers: [], players: [] },
+      [{ id: 'n1', title: 'Note', content: '', linkedIds: [], timestamp: 0 }],
+      [],
+      Date.UTC(2026, 9, 19)
+    ));
+    expect(json.exportedAt).toBe('2026-10-19T00:00:00.000Z');
+    expect(json.items).toEqual([item]);
+    expect(json.notes.map((n: any) => n.id)).toEqual(['n1']);
+    expect(json.drafts).toEqual([]);
+    expect(exportFileName('items', new Date(2026, 0, 5))).toBe('voiddex-items-2026-01-05');
+  });
+
+  test('prints only the player\'s own expiry, escapes text and leaves out CS remarks', () => {
+    const player: Player = { plin: '1002#01', characterName: 'Tali <Zorah>', playerName: 'Sam', status: 'alive' };
+    const html = buildPlayerReport('1002#01', player, { items: [], conditions: [condition], powers: [] });
+
+    expect(html).toContain('<h1>Tali &lt;Zorah&gt; (1002#01)</h1>');
+    expect(html).toContain('<td>until death</td>');
+    expect(html).not.toContain('01/06/2026');
+    expect(html).not.toContain('Secret');
+    expect(html).toContain('Items (0)');
+  });
+});
@@ -0,0 +1,188 @@
+import { Item, Condition, Power, Player, PlayerAssets, Note, DatabaseSnapshot, EntityType } from '../types';
+import { StoredChange } from './offlineStorage';
+
+type Cell = string | number | boolean | undefined | null;
+type ExportRecord = Item | Condition | Power;
+
+const recordType = (record: ExportRecord): EntityType =>
+  'coin' in record ? 'condition' : 'poin' in record ? 'power' : 'item';
+
+const recordId = (record: ExportRecord): string =>
+  'coin' in record ? record.coin : 'poin' in record ? record.poin : record.itin;
+
+const TYPE_LABELS: Record<EntityType, string> = { item: 'Item', condition: 'Condition', power: 'Power' };
+
+const formatTimestamp = (timestamp?: number): string => (timestamp ? new Date(timestamp).toISOString() : '');
+
+/**
+ * Serialises rows as CSV. Cells containing separators, quotes or line breaks are quoted.
+ */
+export const toCsv = (headers: string[], rows: Cell[][]): string => {
+  const escape = (value: Cell): string => {
+    const text = value === undefined || value === null ? '' : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return [headers, ...rows].map(row => row.map(escape).join(',')).join('\r\n') + '\r\n';
+};
+
+/**
+ * One row per assignment (or one row without PLIN when there are none),
+ * so conditions and powers can be read back by the import page.
+ */
+const assignmentRows = (record: Condition | Power, id: string): Cell[][] => {
+  const assignments = record.assignments.length > 0 ? record.assignments : [{ plin: '', expiryDate: '' }];
+  return assignments.map(a => [id, record.name, record.description, a.plin, a.expiryDate, record.remarks, record.csRemarks]);
+};
+
+/**
+ * CSV of a single record type, using the column names the import page recognises.
+ */
+export const recordsToCsv = (type: EntityType, records: ExportRecord[]): string => {
+  if (type === 'item') {
+    return toCsv(
+      ['ITIN', 'Name', 'Description', 'Owner', 'Expiry Date', 'Remarks', 'CS Remarks', 'Destroyed'],
+      (records as Item[]).map(i => [i.itin, i.name, i.description, i.owner, i.expiryDate, i.remarks, i.csRemarks, i.destroyed ? 'yes' : ''])
+    );
+  }
+  return toCsv(
+    [type === 'condition' ? 'COIN' : 'POIN', 'Name', 'Description', 'PLIN', 'Expiry Date', 'Remarks', 'CS Remarks'],
+    (records as (Condition | Power)[]).flatMap(r => assignmentRows(r, recordId(r)))
+  );
+};
+
+/**
+ * CSV of mixed search results with a leading Type column; assignments are flattened to one row each.
+ */
+export const searchResultsToCsv = (results: ExportRecord[]): string =>
+  toCsv(
+    ['Type', 'ID', 'Name', 'Description', 'PLIN', 'Expiry Date', 'Remarks', 'CS Remarks'],
+    results.flatMap(record => {
+      const label = TYPE_LABELS[recordType(record)];
+      if ('assignments' in record) return assignmentRows(record, recordId(record)).map(row => [label, ...row]);
+      return [[label, record.itin, record.name, record.description, record.owner, record.expiryDate, record.remarks, record.csRemarks]];
+    })
+  );
+
+export const playersToCsv = (players: Player[]): string =>
+  toCsv(
+    ['PLIN', 'Character Name', 'Player Name', 'Status', 'Notes'],
+    players.map(p => [p.plin, p.characterName, p.playerName, p.status, p.notes])
+  );
+
+export const notesToCsv = (notes: Note[]): string =>
+  toCsv(
+    ['ID', 'Title', 'Content', 'Linked IDs', 'Created', 'Pinned'],
+    notes.map(n => [n.id, n.title, n.content, n.linkedIds.join(' '), formatTimestamp(n.timestamp), n.isPinned ? 'yes' : ''])
+  );
+
+export const draftsToCsv = (drafts: StoredChange[]): string =>
+  toCsv(
+    ['ID', 'Type', 'Action', 'Title', 'Subtitle', 'Saved', 'Pinned', 'Data'],
+    drafts.map(d => [d.id, d.type, d.action, d.title, d.subtitle, formatTimestamp(d.timestamp), d.isPinned ? 'yes' : '', JSON.stringify(d.data)])
+  );
+
+/**
+ * Full backup as one JSON document: server records plus this device's notes and drafts.
+ */
+export const buildDatabaseJson = (snapshot: DatabaseSnapshot, notes: Note[], drafts: StoredChange[], exportedAt: number = Date.now()): string =>
+  JSON.stringify({ exportedAt: formatTimestamp(exportedAt), ...snapshot, notes, drafts }, null, 2);
+
+/** File name stem with the export date, e.g. "voiddex-items-2026-10-19". */
+export const exportFileName = (label: string, date: Date = new Date()): string => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `voiddex-${label}-${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+/**
+ * Hands a generated file to the browser as a download.
+ */
+export const downloadFile = (fileName: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+export const escapeHtml = (value: string = ''): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const reportTable = (title: string, idLabel: string, rows: string[][]): string => `
+  <h2>${escapeHtml(title)} (${rows.length})</h2>
+  ${rows.length === 0 ? '<p class="empty">None</p>' : `
+  <table>
+    <thead><tr><th>${idLabel}</th><th>Name</th><th>Expires</th><th>Description</th><th>Remarks</th></tr></thead>
+    <tbody>
+      ${rows.map(cells => `<tr>${cells.map(c => `<td>${escapeHtml(c)}</td>`).join('')}</tr>`).join('\n      ')}
+    </tbody>
+  </table>`}`;
+
+/**
+ * Self-contained, print-friendly HTML page listing what one PLIN owns and is assigned.
+ * Only that player's assignment expiry is shown; CS remarks are left out of the paper copy.
+ */
+export const buildPlayerReport = (plin: string, player: Player | null, assets: PlayerAssets, generatedAt: Date = new Date()): string => {
+  const expiryFor = (record: Condition | Power) => record.assignments.find(a => a.plin === plin)?.expiryDate || '';
+  const items = assets.items.map(i => [i.itin, i.name + (i.destroyed ? ' (destroyed)' : ''), i.expiryDate, i.description, i.remarks || '']);
+  const conditions = assets.conditions.map(c => [c.coin, c.name, expiryFor(c), c.description, c.remarks || '']);
+  const powers = assets.powers.map(p => [p.poin, p.name, expiryFor(p), p.description, p.remarks || '']);
+  const heading = player ? `${player.characterName} (${plin})` : `PLIN ${plin}`;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>VoidDex Report ${escapeHtml(plin)}</title>
+  <style>
+    body { font-family: Georgia, serif; color: #111; margin: 2rem; }
+    h1 { font-size: 1.4rem; margin: 0 0 0.25rem; }
+    h2 { font-size: 1.1rem; margin: 1.5rem 0 0.5rem; border-bottom: 1px solid #999; }
+    .meta { font-size: 0.85rem; color: #444; }
+    .empty { font-style: italic; color: #666; }
+    table { width: 100%; border-collapse: collapse; font-size: 0.85rem; }
+    th, td { border: 1px solid #bbb; padding: 0.25rem 0.4rem; text-align: left; vertical-align: top; }
+    th { background: #eee; }
+    tr { page-break-inside: avoid; }
+    @media print { body { margin: 0; } }
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(heading)}</h1>
+  <p class="meta">${player ? `Player: ${escapeHtml(player.playerName)} &middot; Status: ${escapeHtml(player.status)} &middot; ` : ''}Printed ${escapeHtml(generatedAt.toLocaleString())}</p>
+  ${reportTable('Items', 'ITIN', items)}
+  ${reportTable('Conditions', 'COIN', conditions)}
+  ${reportTable('Powers', 'POIN', powers)}
+</body>
+</html>`;
+};
+
+/**
+ * Opens an empty window for a report, or returns null when it was blocked.
+ * Must run in the click handler before anything is awaited, or pop-up blockers refuse it.
+ */
+export const openReportWindow = (): Window | null => window.open('', '_blank');
+
+/**
+ * Writes the report into a window from openReportWindow and starts printing.
+ */
+export const writeReport = (reportWindow: Window, html: string) => {
+  reportWindow.document.open();
+  reportWindow.document.write(html);
+  reportWindow.document.close();
+  reportWindow.focus();
+  reportWindow.print();
+};
+
+/**
+ * Opens the report in a new window and starts printing.
+ * Returns false when the window was blocked (e.g. by a pop-up blocker).
+ */
+export const printHtmlReport = (html: string): boolean => {
+  const reportWindow = openReportWindow();
+  if (!reportWindow) return false;
+  writeReport(reportWindow, html);
+  return true;
+};
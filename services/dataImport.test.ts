@@ -0,0 +1,115 @@
+import { describe, expect, test } from '@jest/globals';
+import { parseCsv, parseImportFile, guessMapping, buildImportRecords, planImport, ImportTarget } from './dataImport';
+import { Condition, Item } from '../types';
+
+const existingCondition: Condition = {
+  coin: '8001',
+  name: 'Radiation Poisoning',
+  description: 'Slow damage',
+  assignments: [
+    { plin: '1001#01', expiryDate: '01/01/2026' },
+    { plin: '1002#01', expiryDate: 'until death' },
+  ],
+  version: 4,
+};
+
+describe('Data import', () => {
+  test('parses quoted CSV cells and semicolon-separated files', () => {
+    expect(parseCsv('a,b\n"x, y","say ""hi""\nthere"\r\n1,2')).toEqual([
+      ['a', 'b'],
+      ['x, y', 'say "hi"\nthere'],
+      ['1', '2'],
+    ]);
+    expect(parseCsv('a;b\n1,5;2')).toEqual([['a', 'b'], ['1,5', '2']]);
+  });
+
+  test('flattens JSON assignments into one row each and guesses the mapping', () => {
+    const json = JSON.stringify([
+      { coin: '8001', name: 'Radiation Poisoning', assignments: [{ plin: '1003#01', expiryDate: '01/02/2027' }, { plin: '1004#01' }] },
+    ]);
+    const table = parseImportFile(json, 'conditions.json').data!;
+    expect(table.headers).toEqual(['coin', 'name', 'plin', 'expiryDate']);
+    expect(table.rows).toEqual([
+      ['8001', 'Radiation Poisoning', '1003#01', '01/02/2027'],
+      ['8001', 'Radiation Poisoning', '1004#01', ''],
+    ]);
+    expect(guessMapping('condition', table.headers)).toEqual({ id: 'coin', name: 'name', plin: 'plin', expiryDate: 'expiryDate' });
+
+    expect(parseImportFile('{"coin": 1}', 'x.json')).toEqual({ success: false, error: 'JSON must be an array of records' });
+    expect(parseImportFile('[oops', 'x.json')).toEqual({ success: false, error: 'The file is not valid JSON' });
+  });
+
+  test('combines assignment rows per COIN and reports PLIN and date problems by line', () => {
+    const csv = [
+      'COIN,Name,Description,PLIN,Expiry',
+      '8001,Radiation Poisoning,,1003#01,01/02/2027',
+      ',,,1004#01,',
+      '8001,,,1005-01,01/02/2027',
+      '8002,Blessed,Holy light,1001#01,31/02/2027',
+      ',Cursed,Dark,1001#01,until death',
+    ].join('\n');
+    const table = parseImportFile(csv, 'conditions.csv').data!;
+    const records = buildImportRecords('condition', table, guessMapping('condition', table.headers));
+
+    expect(records).toHaveLength(3);
+    expect(records[0]).toMatchObject({
+      id: '8001',
+      lines: [2, 3, 4],
+      assignments: [{ plin: '1003#01', expiryDate: '01/02/2027' }, { plin: '1004#01', expiryDate: 'until death' }],
+      errors: ['Line 4: PLIN must be format 1234#12'],
+    });
+    expect(records[1].errors).toEqual(['Line 5: Invalid calendar date']);
+    expect(records[2]).toMatchObject({ lines: [6], values: { name: 'Cursed' }, errors: [] });
+  });
+
+  test('plans creates, merged updates, unchanged records and errors', () => {
+    const csv = [
+      'COIN,Name,Description,PLIN,Expiry',
+      '8001,,,1001#01,01/06/2026',
+      ',,,1003#01,',
+      '8002,Blessed,,1001#01,',
+      ',Cursed,Dark,1001#01,until death',
+      '8003,Known,Same,,',
+    ].join('\n');
+    const table = parseImportFile(csv).data!;
+    const records = buildImportRecords('condition', table, guessMapping('condition', table.headers));
+    const existing = new Map<string, ImportTarget>([
+      ['8001', existingCondition],
+      ['8003', { coin: '8003', name: 'Known', description: 'Same', assignments: [] }],
+    ]);
+
+    const plan = planImport('condition', records, existing);
+    expect(plan.map(row => row.action)).toEqual(['update', 'error', 'create', 'unchanged']);
+    expect(plan[0].payload).toEqual({
+      assignments: [
+        { plin: '1001#01', expiryDate: '01/06/2026' },
+        { plin: '1002#01', expiryDate: 'until death' },
+        { plin: '1003#01', expiryDate: 'until death' },
+      ],
+    });
+    expect(plan[1].errors).toEqual(['Description is required']);
+    expect(plan[2].payload).toEqual({
+      name: 'Cursed',
+      description: 'Dark',
+      assignments: [{ plin: '1001#01', expiryDate: 'until death' }],
+    });
+  });
+
+  test('validates item owners and expiry dates like the Create Item form', () => {
+    const csv = [
+      'ITIN,Name,Description,Owner,Expiry Date',
+      '1001,Plasma Rifle,Ranged weapon,1001#01,01/01/1970',
+      '1500,Medigel,Healing,,',
+      '1001,Plasma Rifle,Ranged weapon,1001#01,01/01/2030',
+      '12,Tiny,Small,1001#01,01/01/2030',
+    ].join('\n');
+    const table = parseImportFile(csv).data!;
+    const records = buildImportRecords('item', table, guessMapping('item', table.headers));
+    const existingItem: Item = { itin: '1001', name: 'Plasma Rifle', description: 'Ranged weapon', owner: '1001#01', expiryDate: '01/01/2029' };
+
+    const plan = planImport('item', records, new Map([['1001', existingItem]]));
+    expect(plan[0].errors).toEqual(['Line 2: Year must be between 1980 and 2100', 'Line 4: an item can only have one row']);
+    expect(plan[1].errors).toEqual(['Owner PLIN is required', 'Expiry Date is required']);
+    expect(plan[2].errors).toEqual(['Line 5: ITIN 12 is outside the allowed range']);
+  });
+});
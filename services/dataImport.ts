@@ -0,0 +1,376 @@
+import { Item, Condition, Power, Assignment, ApiResult, EntityType } from '../types';
+import { ID_RANGES, isIdInRange } from './idAllocator';
+import { validateExpiryDate } from './expiry';
+
+const PLIN_PATTERN = /^\d{1,4}#\d{1,2}$/;
+
+export type ImportTarget = Item | Condition | Power;
+
+/**
+ * Record fields a column can be mapped to.
+ * `plin` + `expiryDate` are the item's owner/expiry, or one assignment per row
+ * for conditions and powers.
+ */
+export type ImportField = 'id' | 'name' | 'description' | 'plin' | 'expiryDate' | 'remarks' | 'csRemarks';
+
+export const IMPORT_FIELDS: ImportField[] = ['id', 'name', 'description', 'plin', 'expiryDate', 'remarks', 'csRemarks'];
+
+/** Maps each field to the header of the column it is read from. Unmapped fields are left out. */
+export type ColumnMapping = Partial<Record<ImportField, string>>;
+
+/**
+ * Parsed file contents. Every row has one cell per header;
+ * `lines` holds the source line (CSV) or array position (JSON) of each row for error messages.
+ */
+export interface ImportTable {
+  headers: string[];
+  rows: string[][];
+  lines: number[];
+}
+
+/**
+ * One record assembled from one or more rows.
+ * Only the values present in the file are set; `lines` lists the rows it came from.
+ */
+export interface ImportRecord {
+  id?: string;
+  lines: number[];
+  values: Partial<Record<'name' | 'description' | 'remarks' | 'csRemarks' | 'plin' | 'expiryDate', string>>;
+  assignments: Assignment[];
+  errors: string[];
+}
+
+export type ImportAction = 'create' | 'update' | 'unchanged' | 'error';
+
+/**
+ * Dry-run outcome of one record. `payload` is what will be sent:
+ * the full record for creates, only the changed fields for updates.
+ */
+export interface ImportPlanRow {
+  type: EntityType;
+  id?: string;
+  name: string;
+  lines: number[];
+  action: ImportAction;
+  errors: string[];
+  payload?: Partial<ImportTarget>;
+  existing?: ImportTarget;
+}
+
+export const fieldLabel = (type: EntityType, field: ImportField): string => {
+  switch (field) {
+    case 'id': return ID_RANGES[type].label;
+    case 'name': return 'Name';
+    case 'description': return 'Description';
+    case 'plin': return type === 'item' ? 'Owner (PLIN)' : 'Assigned PLIN';
+    case 'expiryDate': return type === 'item' ? 'Expiry Date' : 'Assignment Expiry';
+    case 'remarks': return 'Remarks';
+    case 'csRemarks': return 'CS Remarks';
+  }
+};
+
+/**
+ * Splits CSV text into rows of cells (RFC 4180: quoted cells may hold commas,
+ * doubled quotes and line breaks). Semicolon-separated files are detected from the first line.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const source = text.replace(/^\uFEFF/, '');
+  const firstLine = source.split(/\r?\n/, 1)[0] || '';
+  const separator = firstLine.split(';').length > firstLine.split(',').length ? ';' : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+    if (inQuotes) {
+      if (ch === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === separator) {
+      row.push(cell);
+      cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && source[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+};
+
+const toCell = (value: unknown): string =>
+  value === undefined || value === null ? '' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+/**
+ * Flattens a JSON array of records into a table.
+ * A record with an `assignments` array becomes one row per assignment (plin/expiryDate columns).
+ */
+const jsonToTable = (data: unknown): ApiResult<ImportTable> => {
+  if (!Array.isArray(data)) return { success: false, error: 'JSON must be an array of records' };
+
+  const headers: string[] = [];
+  const flat: { line: number, values: Record<string, unknown> }[] = [];
+  const addHeader = (key: string) => { if (!headers.includes(key)) headers.push(key); };
+
+  for (const [index, entry] of data.entries()) {
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+      return { success: false, error: `Record ${index + 1} is not an object` };
+    }
+    const { assignments, ...scalars } = entry as Record<string, unknown>;
+    Object.keys(scalars).forEach(addHeader);
+
+    if (Array.isArray(assignments) && assignments.length > 0) {
+      addHeader('plin');
+      addHeader('expiryDate');
+      for (const a of assignments) {
+        flat.push({ line: index + 1, values: { ...scalars, plin: a?.plin, expiryDate: a?.expiryDate } });
+      }
+    } else {
+      flat.push({ line: index + 1, values: scalars });
+    }
+  }
+
+  return {
+    success: true,
+    data: {
+      headers,
+      rows: flat.map(f => headers.map(h => toCell(f.values[h]))),
+      lines: flat.map(f => f.line),
+    },
+  };
+};
+
+/**
+ * Reads an uploaded file into a table. JSON is recognised by the `.json`
+ * extension or a leading `[`; everything else is treated as CSV with a header row.
+ */
+export const parseImportFile = (text: string, fileName: string = ''): ApiResult<ImportTable> => {
+  const trimmed = text.trim();
+  if (!trimmed) return { success: false, error: 'The file is empty' };
+
+  if (fileName.toLowerCase().endsWith('.json') || trimmed.startsWith('[')) {
+    try {
+      return jsonToTable(JSON.parse(trimmed));
+    } catch (err) {
+      return { success: false, error: 'The file is not valid JSON' };
+    }
+  }
+
+  const [headerRow, ...body] = parseCsv(text);
+  const headers = headerRow.map(h => h.trim());
+  if (headers.every(h => !h)) return { success: false, error: 'The CSV file has no header row' };
+
+  const rows: string[][] = [];
+  const lines: number[] = [];
+  body.forEach((cells, index) => {
+    if (cells.every(c => !c.trim())) return;
+    rows.push(headers.map((_, i) => cells[i] ?? ''));
+    lines.push(index + 2);
+  });
+  return { success: true, data: { headers, rows, lines } };
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z]/g, '');
+
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  id: ['id'],
+  name: ['name', 'title'],
+  description: ['description', 'desc'],
+  plin: ['plin', 'owner', 'player', 'assignedplin'],
+  expiryDate: ['expirydate', 'expiry', 'expires', 'assignmentexpiry'],
+  remarks: ['remarks', 'remark'],
+  csRemarks: ['csremarks', 'csremark'],
+};
+
+/**
+ * Suggests a mapping from header names, e.g. "ITIN", "Owner", "Expiry Date", "CS Remarks".
+ */
+export const guessMapping = (type: EntityType, headers: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  for (const field of IMPORT_FIELDS) {
+    const aliases = field === 'id'
+      ? [...HEADER_ALIASES.id, ID_RANGES[type].label.toLowerCase()]
+      : HEADER_ALIASES[field];
+    const header = headers.find(h => aliases.includes(normalizeHeader(h)));
+    if (header) mapping[field] = header;
+  }
+  return mapping;
+};
+
+const checkExpiry = (value: string, allowUntilDeath: boolean): string | null => {
+  if (allowUntilDeath && (value === '' || value.toLowerCase() === 'until death')) return null;
+  return validateExpiryDate(value);
+};
+
+/**
+ * Groups the table rows into records.
+ * Rows sharing an ID are one record; a row without ID and name continues the record above it
+ * (extra assignment rows); a row without ID but with a name is a new record.
+ * Per-row problems (PLIN format, dates, conflicting values) are collected in `errors`.
+ */
+export const buildImportRecords = (type: EntityType, table: ImportTable, mapping: ColumnMapping): ImportRecord[] => {
+  const { label } = ID_RANGES[type];
+  const records: ImportRecord[] = [];
+  const byId = new Map<string, ImportRecord>();
+  let previous: ImportRecord | null = null;
+
+  table.rows.forEach((cells, index) => {
+    const line = table.lines[index];
+    const read = (field: ImportField): string => {
+      const header = mapping[field];
+      const column = header === undefined ? -1 : table.headers.indexOf(header);
+      return column === -1 ? '' : (cells[column] || '').trim();
+    };
+
+    const id = read('id');
+    const name = read('name');
+    let record: ImportRecord;
+    if (id) {
+      record = byId.get(id) || { id, lines: [], values: {}, assignments: [], errors: [] };
+      if (!byId.has(id)) {
+        byId.set(id, record);
+        records.push(record);
+        if (!isIdInRange(type, id)) {
+          record.errors.push(`Line ${line}: ${label} ${id} is outside the allowed range`);
+        }
+      }
+    } else if (!name && previous) {
+      record = previous;
+    } else {
+      record = { lines: [], values: {}, assignments: [], errors: [] };
+      records.push(record);
+    }
+    record.lines.push(line);
+    previous = record;
+
+    for (const field of ['name', 'description', 'remarks', 'csRemarks'] as const) {
+      const value = read(field);
+      if (!value) continue;
+      const current = record.values[field];
+      if (current !== undefined && current !== value) {
+        record.errors.push(`Line ${line}: ${fieldLabel(type, field)} differs from an earlier row`);
+      } else {
+        record.values[field] = value;
+      }
+    }
+
+    const plin = read('plin');
+    const expiryDate = read('expiryDate');
+    if (plin && !PLIN_PATTERN.test(plin)) {
+      record.errors.push(`Line ${line}: PLIN must be format 1234#12`);
+    }
+
+    if (type === 'item') {
+      if (record.lines.length > 1) {
+        record.errors.push(`Line ${line}: an item can only have one row`);
+        return;
+      }
+      if (plin) record.values.plin = plin;
+      if (expiryDate) {
+        const dateError = checkExpiry(expiryDate, false);
+        if (dateError) record.errors.push(`Line ${line}: ${dateError}`);
+        else record.values.expiryDate = expiryDate;
+      }
+      return;
+    }
+
+    if (!plin) {
+      if (expiryDate) record.errors.push(`Line ${line}: Assignment expiry without a PLIN`);
+      return;
+    }
+    if (!PLIN_PATTERN.test(plin)) return;
+    const dateError = checkExpiry(expiryDate, true);
+    if (dateError) {
+      record.errors.push(`Line ${line}: ${dateError}`);
+    } else if (record.assignments.some(a => a.plin === plin)) {
+      record.errors.push(`Line ${line}: PLIN ${plin} is assigned more than once`);
+    } else {
+      const isUntilDeath = !expiryDate || expiryDate.toLowerCase() === 'until death';
+      record.assignments.push({ plin, expiryDate: isUntilDeath ? 'until death' : expiryDate });
+    }
+  });
+
+  return records;
+};
+
+/**
+ * Imported assignments replace the existing ones for the same PLIN; others are kept.
+ */
+const mergeAssignments = (existing: Assignment[], imported: Assignment[]): Assignment[] => {
+  const importedByPlin = new Map(imported.map(a => [a.plin, a]));
+  const merged = existing.map(a => importedByPlin.get(a.plin) || a);
+  return [...merged, ...imported.filter(a => !existing.some(e => e.plin === a.plin))];
+};
+
+/**
+ * Dry run: decides per record whether it is created, updated, unchanged or rejected.
+ * `existing` holds the current record for every imported ID that already exists.
+ * Creates need the same fields as the Create forms; updates only send what differs.
+ */
+export const planImport = (type: EntityType, records: ImportRecord[], existing: Map<string, ImportTarget>): ImportPlanRow[] =>
+  records.map(record => {
+    const current = record.id ? existing.get(record.id) : undefined;
+    const { values } = record;
+    const row: ImportPlanRow = {
+      type,
+      id: record.id,
+      name: values.name || current?.name || '',
+      lines: record.lines,
+      action: current ? 'update' : 'create',
+      errors: [...record.errors],
+      existing: current,
+    };
+
+    if (!current) {
+      if (!values.name) row.errors.push('Name is required');
+      if (!values.description) row.errors.push('Description is required');
+      if (type === 'item') {
+        if (!values.plin) row.errors.push('Owner PLIN is required');
+        if (!values.expiryDate) row.errors.push('Expiry Date is required');
+      }
+    }
+    if (row.errors.length > 0) return { ...row, action: 'error' };
+
+    const fields: Partial<Record<string, unknown>> = {
+      name: values.name,
+      description: values.description,
+      remarks: values.remarks,
+      csRemarks: values.csRemarks,
+    };
+    if (type === 'item') {
+      fields.owner = values.plin;
+      fields.expiryDate = values.expiryDate;
+    } else if (record.assignments.length > 0 || !current) {
+      const currentAssignments = current && 'assignments' in current ? current.assignments : [];
+      fields.assignments = mergeAssignments(currentAssignments, record.assignments);
+    }
+
+    const payload: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(fields)) {
+      if (value === undefined) continue;
+      const before = current ? (current as unknown as Record<string, unknown>)[key] : undefined;
+      if (!current || JSON.stringify(before) !== JSON.stringify(value)) payload[key] = value;
+    }
+
+    if (current && Object.keys(payload).length === 0) return { ...row, action: 'unchanged' };
+    if (!current && record.id) payload[type === 'item' ? 'itin' : type === 'condition' ? 'coin' : 'poin'] = record.id;
+    return { ...row, payload: payload as Partial<ImportTarget> };
+  });
@@ -0,0 +1,89 @@
+import { Item, Condition, Power, Player, PlayerAssets, ApiResult, EntityType, AuditEntityType, AuditEntry, UpdateOptions, DeathRequest, DeathOutcome, DatabaseSnapshot, LabelRef } from '../types';
+
+/**
+ * Contract every data backend has to fulfil.
+ * Pages never talk to a DataSource directly; they go through the functions
+ * exported by `services/api.ts`, which delegate to the active source.
+ *
+ * Create calls may carry an ID previously handed out by `reserveIds`;
+ * without one, the backend allocates the next free ID in the entity's range.
+ *
+ * Update calls may carry the version the caller based its change on; a stale
+ * version fails with status 409 and the current record in `conflict`.
+ */
+export interface DataSource {
+  createItem(item: Omit<Item, 'itin'> & { itin?: string }): Promise<ApiResult<Item>>;
+  searchItemByItin(itin: string): Promise<ApiResult<Item>>;
+  updateItem(itin: string, updates: Partial<Item>, options?: UpdateOptions): Promise<ApiResult<Item>>;
+
+  createCondition(cond: Omit<Condition, 'coin'> & { coin?: string }): Promise<ApiResult<Condition>>;
+  searchConditionByCoin(coin: string): Promise<ApiResult<Condition>>;
+  updateCondition(coin: string, updates: Partial<Condition>, options?: UpdateOptions): Promise<ApiResult<Condition>>;
+
+  createPower(pow: Omit<Power, 'poin'> & { poin?: string }): Promise<ApiResult<Power>>;
+  searchPowerByPoin(poin: string): Promise<ApiResult<Power>>;
+  updatePower(poin: string, updates: Partial<Power>, options?: UpdateOptions): Promise<ApiResult<Power>>;
+
+  searchGlobal(query: string): Promise<ApiResult<(Item | Condition | Power)[]>>;
+
+  createPlayer(player: Player): Promise<ApiResult<Player>>;
+  searchPlayerByPlin(plin: string): Promise<ApiResult<Player>>;
+  updatePlayer(plin: string, updates: Partial<Player>, options?: UpdateOptions): Promise<ApiResult<Player>>;
+
+  /**
+   * Partial match on PLIN, character name or player name.
+   * An empty query returns every registered player.
+   */
+  searchPlayers(query: string): Promise<ApiResult<Player[]>>;
+
+  /**
+   * Items owned by the PLIN and every condition/power assigned to it.
+   */
+  getPlayerAssets(plin: string): Promise<ApiResult<PlayerAssets>>;
+
+  /**
+   * Marks the character deceased and applies the per-item choices, ending every
+   * "until death" assignment of the PLIN. Applied as one batch: all or nothing.
+   */
+  markPlayerDeceased(plin: string, request: DeathRequest): Promise<ApiResult<DeathOutcome>>;
+
+  /**
+   * Every item, condition, power and player, for export/backup.
+   */
+  exportAll(): Promise<ApiResult<DatabaseSnapshot>>;
+
+  /**
+   * Reserves a block of unused IDs so they can be attached to offline drafts.
+   * Reserved IDs are never allocated to anyone else.
+   */
+  reserveIds(type: EntityType, count: number): Promise<ApiResult<string[]>>;
+
+  /**
+   * Names the store reservations are kept in. IDs reserved in one scope mean nothing
+   * in another, so clients keep their reserved IDs per scope.
+   */
+  reservationScope(): string;
+
+  /**
+   * Returns the append-only change history of a record or player, newest first.
+   * Entries are written by the backend itself on every create/update and character death.
+   */
+  getHistory(type: AuditEntityType, id: string): Promise<ApiResult<AuditEntry[]>>;
+
+  /**
+   * Signs QR labels, one signature per label in the same order.
+   * The signing key never leaves the backend.
+   */
+  signLabels(labels: LabelRef[]): Promise<ApiResult<string[]>>;
+
+  /**
+   * Whether the signature was issued by signLabels for exactly this label.
+   */
+  verifyLabel(label: LabelRef, signature: string): Promise<ApiResult<boolean>>;
+
+  /**
+   * Restores the backend records to their initial state, keeping the audit log.
+   * Only meaningful for local/in-memory sources; remote sources leave it out.
+   */
+  reset?(): void;
+}
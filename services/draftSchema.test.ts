@@ -0,0 +1,68 @@
+import { describe, expect, test } from '@jest/globals';
+import { DRAFT_SCHEMA_VERSION, StoredChange, ConditionAssignData, isValidStoredChange, upgradeStoredChange } from './draftSchema';
+
+const meta = { id: 'draft-1', timestamp: 1, title: 'Burning', subtitle: 'Assign COIN: 8006' };
+const burning = { coin: '8006', name: 'Burning', description: '', assignments: [{ plin: '2001#01', expiryDate: '01/01/2025' }] };
+
+const assignDraft: StoredChange = {
+  ...meta,
+  type: 'condition',
+  action: 'assign',
+  data: { condition: burning, newOwner: '5555#55', newExpiry: '01/01/2026', selectedRemovePlins: [] },
+  schemaVersion: DRAFT_SCHEMA_VERSION,
+};
+
+describe('draftSchema', () => {
+  test('accepts current drafts unchanged', () => {
+    expect(isValidStoredChange(assignDraft)).toBe(true);
+    expect(upgradeStoredChange(assignDraft)).toEqual(assignDraft);
+  });
+
+  test('upgrades unversioned assign drafts that have no PLIN selection', () => {
+    const { schemaVersion, ...legacy } = assignDraft;
+    const { selectedRemovePlins, ...data } = assignDraft.data as ConditionAssignData;
+
+    expect(upgradeStoredChange({ ...legacy, data })).toEqual(assignDraft);
+  });
+
+  test('fills in missing form fields of old create drafts', () => {
+    const upgraded = upgradeStoredChange({ ...meta, type: 'item', action: 'create', data: { name: 'Medkit', itin: '1100' } });
+
+    expect(upgraded?.data).toEqual({
+      name: 'Medkit', itin: '1100', description: '', owner: '', expiryDate: '', remarks: '', csRemarks: '',
+    });
+  });
+
+  test('fills in missing fields of the saved record', () => {
+    const upgraded = upgradeStoredChange({
+      ...meta,
+      type: 'item',
+      action: 'assign',
+      data: { item: { itin: '1002', name: 'Medigel Pack', owner: '1002#01' }, owner: '5555#55' },
+    });
+
+    expect(upgraded?.data).toEqual({
+      item: { itin: '1002', name: 'Medigel Pack', description: '', owner: '1002#01', expiryDate: '' },
+      owner: '5555#55',
+    });
+  });
+
+  test.each([
+    ['not an object', 'draft'],
+    ['an unknown action', { ...assignDraft, action: 'destroy' }],
+    ['an action the type does not have', { ...assignDraft, type: 'item', action: 'extend' }],
+    ['a record that is not an object', { ...assignDraft, data: { ...assignDraft.data, condition: 'Burning' } }],
+    ['a record without its ID', { ...assignDraft, data: { ...assignDraft.data, condition: { ...burning, coin: undefined } } }],
+    ['malformed assignments', { ...assignDraft, data: { ...assignDraft.data, condition: { ...burning, assignments: [{ plin: 7 }] } } }],
+    ['a PLIN selection that is not a list', { ...assignDraft, data: { ...assignDraft.data, selectedRemovePlins: '2001#01' } }],
+    ['a missing timestamp', { ...assignDraft, timestamp: undefined }],
+    ['a newer schema version', { ...assignDraft, schemaVersion: DRAFT_SCHEMA_VERSION + 1 }],
+  ])('rejects %s', (_, value) => {
+    expect(upgradeStoredChange(value)).toBeNull();
+  });
+
+  test('rejects unversioned drafts that cannot be repaired', () => {
+    const { schemaVersion, ...legacy } = assignDraft;
+    expect(upgradeStoredChange({ ...legacy, data: null })).toBeNull();
+  });
+});
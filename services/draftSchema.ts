@@ -0,0 +1,222 @@
+import { Item, Condition, Power } from '../types';
+
+/**
+ * Shape of the drafts kept by offlineStorage. Every stored draft carries the schema version it
+ * was written with; older drafts are upgraded by the migrations below when they are loaded, and
+ * anything that still does not match its payload type is rejected instead of reaching a page.
+ */
+
+/** Form fields shared by the Create Item/Condition/Power drafts. */
+export interface CreateDraftFields {
+  name: string;
+  description: string;
+  owner: string;
+  expiryDate: string;
+  remarks: string;
+  csRemarks: string;
+}
+
+// The ID is set when one was reserved for the record while offline
+export type ItemCreateData = CreateDraftFields & { itin?: string };
+export type ConditionCreateData = CreateDraftFields & { coin?: string };
+export type PowerCreateData = CreateDraftFields & { poin?: string };
+
+export interface ItemRechargeData {
+  item: Item;
+  expiryDate: string;
+}
+
+export interface ItemAssignData {
+  item: Item;
+  owner: string;
+}
+
+export interface ConditionExtendData {
+  condition: Condition;
+  expiryDate: string;
+  selectedPlins: string[];
+}
+
+export interface ConditionAssignData {
+  condition: Condition;
+  newOwner: string;
+  newExpiry: string;
+  selectedRemovePlins: string[];
+}
+
+export interface PowerExtendData {
+  power: Power;
+  expiryDate: string;
+  selectedPlins: string[];
+}
+
+export interface PowerAssignData {
+  power: Power;
+  newOwner: string;
+  newExpiry: string;
+  selectedRemovePlins: string[];
+}
+
+/**
+ * The form state of each page that can save a draft, keyed by `type` + `action`.
+ */
+export type DraftPayload =
+  | { type: 'item'; action: 'create'; data: ItemCreateData }
+  | { type: 'item'; action: 'recharge'; data: ItemRechargeData }
+  | { type: 'item'; action: 'assign'; data: ItemAssignData }
+  | { type: 'condition'; action: 'create'; data: ConditionCreateData }
+  | { type: 'condition'; action: 'extend'; data: ConditionExtendData }
+  | { type: 'condition'; action: 'assign'; data: ConditionAssignData }
+  | { type: 'power'; action: 'create'; data: PowerCreateData }
+  | { type: 'power'; action: 'extend'; data: PowerExtendData }
+  | { type: 'power'; action: 'assign'; data: PowerAssignData };
+
+/** `type-action` of a draft, e.g. "condition-assign" (same keys as the outbox pending counts). */
+export type DraftKind = DraftPayload extends infer P
+  ? P extends DraftPayload ? `${P['type']}-${P['action']}` : never
+  : never;
+
+interface DraftMeta {
+  id: string;
+  timestamp: number;
+  title: string;
+  subtitle: string;
+  isPinned?: boolean;
+  syncError?: string; // Why the server rejected this change when the offline outbox was synced
+  userId?: string; // Whose draft it is; set when saved, drafts are only listed for their owner
+}
+
+/** A draft as built by a page; the schema version is added when it is saved. */
+export type NewStoredChange = DraftMeta & DraftPayload;
+
+export type StoredChange = NewStoredChange & { schemaVersion: number };
+
+/**
+ * Version 1 is every draft saved before versioning: untyped, with fields that older
+ * pages did not always write. Bump this and add a migration whenever a payload changes.
+ */
+export const DRAFT_SCHEMA_VERSION = 2;
+
+type RawDraft = Record<string, any>;
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const withDefaults = (value: unknown, defaults: Record<string, unknown>): Record<string, any> => {
+  const source = isObject(value) ? value : {};
+  const result: Record<string, any> = { ...source };
+  Object.entries(defaults).forEach(([key, fallback]) => {
+    if (result[key] === undefined || result[key] === null) result[key] = fallback;
+  });
+  return result;
+};
+
+const upgradeRecord = (record: unknown, hasAssignments: boolean) =>
+  withDefaults(record, hasAssignments
+    ? { description: '', assignments: [] }
+    : { description: '', owner: '', expiryDate: '' });
+
+/**
+ * Upgrades a draft from the version it is keyed by to the next one.
+ */
+const MIGRATIONS: Record<number, (draft: RawDraft) => RawDraft> = {
+  // Fill in what older pages left out: PLIN selections, remarks, assignment lists
+  1: (draft) => {
+    const data = isObject(draft.data) ? draft.data : {};
+    let upgraded: Record<string, any>;
+    switch (draft.action) {
+      case 'create':
+        upgraded = withDefaults(data, { name: '', description: '', owner: '', expiryDate: '', remarks: '', csRemarks: '' });
+        break;
+      case 'extend':
+        upgraded = withDefaults(data, { expiryDate: '', selectedPlins: [] });
+        break;
+      case 'assign':
+        upgraded = draft.type === 'item'
+          ? withDefaults(data, { owner: '' })
+          : withDefaults(data, { newOwner: '', newExpiry: '', selectedRemovePlins: [] });
+        break;
+      default:
+        upgraded = withDefaults(data, { expiryDate: '' });
+    }
+    if (draft.action !== 'create' && isObject(data[draft.type])) {
+      upgraded[draft.type] = upgradeRecord(data[draft.type], draft.type !== 'item');
+    }
+    return { ...draft, title: draft.title ?? '', subtitle: draft.subtitle ?? '', data: upgraded };
+  },
+};
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const isStringArray = (value: unknown): value is string[] => Array.isArray(value) && value.every(isString);
+
+const hasStrings = (value: Record<string, any>, keys: string[]) => keys.every(key => isString(value[key]));
+
+const isAssignment = (value: unknown) => isObject(value) && hasStrings(value, ['plin', 'expiryDate']);
+
+const isItem = (value: unknown) =>
+  isObject(value) && hasStrings(value, ['itin', 'name', 'description', 'owner', 'expiryDate']);
+
+const isAssignable = (idKey: 'coin' | 'poin') => (value: unknown) =>
+  isObject(value) && hasStrings(value, [idKey, 'name', 'description'])
+  && Array.isArray(value.assignments) && value.assignments.every(isAssignment);
+
+const isCreateData = (idKey: 'itin' | 'coin' | 'poin') => (data: Record<string, any>) =>
+  hasStrings(data, ['name', 'description', 'owner', 'expiryDate', 'remarks', 'csRemarks'])
+  && (data[idKey] === undefined || isString(data[idKey]));
+
+const isExtendData = (recordKey: 'condition' | 'power', isRecord: (value: unknown) => boolean) =>
+  (data: Record<string, any>) => isRecord(data[recordKey]) && isString(data.expiryDate) && isStringArray(data.selectedPlins);
+
+const isAssignData = (recordKey: 'condition' | 'power', isRecord: (value: unknown) => boolean) =>
+  (data: Record<string, any>) => isRecord(data[recordKey]) && hasStrings(data, ['newOwner', 'newExpiry'])
+    && isStringArray(data.selectedRemovePlins);
+
+const PAYLOAD_VALIDATORS: Record<DraftKind, (data: Record<string, any>) => boolean> = {
+  'item-create': isCreateData('itin'),
+  'item-recharge': (data) => isItem(data.item) && isString(data.expiryDate),
+  'item-assign': (data) => isItem(data.item) && isString(data.owner),
+  'condition-create': isCreateData('coin'),
+  'condition-extend': isExtendData('condition', isAssignable('coin')),
+  'condition-assign': isAssignData('condition', isAssignable('coin')),
+  'power-create': isCreateData('poin'),
+  'power-extend': isExtendData('power', isAssignable('poin')),
+  'power-assign': isAssignData('power', isAssignable('poin')),
+};
+
+/**
+ * Checks a draft against its payload type (current schema version only).
+ */
+export const isValidStoredChange = (value: unknown): value is StoredChange => {
+  if (!isObject(value) || value.schemaVersion !== DRAFT_SCHEMA_VERSION) return false;
+  if (!hasStrings(value, ['id', 'title', 'subtitle']) || typeof value.timestamp !== 'number') return false;
+  if (value.isPinned !== undefined && typeof value.isPinned !== 'boolean') return false;
+  if (value.syncError !== undefined && !isString(value.syncError)) return false;
+  if (value.userId !== undefined && !isString(value.userId)) return false;
+
+  const validate = PAYLOAD_VALIDATORS[`${value.type}-${value.action}` as DraftKind];
+  return !!validate && isObject(value.data) && validate(value.data);
+};
+
+/**
+ * Brings a stored draft up to the current schema version and validates it.
+ * Returns null for anything that cannot be used: not a draft, unknown type/action,
+ * written by a newer version of the app, or still malformed after migrating.
+ */
+export const upgradeStoredChange = (value: unknown): StoredChange | null => {
+  if (!isObject(value)) return null;
+  // Drafts from before versioning have no schemaVersion
+  let version = typeof value.schemaVersion === 'number' ? value.schemaVersion : 1;
+  if (version > DRAFT_SCHEMA_VERSION) return null;
+
+  let draft: RawDraft = value;
+  try {
+    while (version < DRAFT_SCHEMA_VERSION) {
+      draft = { ...MIGRATIONS[version](draft), schemaVersion: version + 1 };
+      version++;
+    }
+  } catch (e) {
+    return null;
+  }
+  return isValidStoredChange(draft) ? draft : null;
+};
@@ -0,0 +1,31 @@
+import { describe, expect, test } from '@jest/globals';
+import { addYearAndRound, validateExpiryDate, isExpired } from './expiry';
+
+describe('Expiry dates', () => {
+  test('adds a year and rounds up to the 1st of the next month', () => {
+    expect(addYearAndRound('01/01/2024')).toBe('01/01/2025');
+    expect(addYearAndRound('15/05/2025')).toBe('01/06/2026');
+    expect(addYearAndRound('31/12/2025')).toBe('01/01/2027');
+  });
+
+  test('refuses dates it cannot extend', () => {
+    expect(addYearAndRound('until death')).toBeNull();
+    expect(addYearAndRound('2025-01-01')).toBeNull();
+    expect(addYearAndRound('15/06/2100')).toBeNull();
+  });
+
+  test('validates format, range and calendar dates', () => {
+    expect(validateExpiryDate('01/01/2030')).toBeNull();
+    expect(validateExpiryDate('1/1/2030')).toBe('Invalid date format (DD/MM/YYYY)');
+    expect(validateExpiryDate('01/01/2101')).toBe('Year must be between 1980 and 2100');
+    expect(validateExpiryDate('31/02/2030')).toBe('Invalid calendar date');
+  });
+
+  test('treats a date as expired only after the day has passed', () => {
+    const now = new Date(2026, 9, 19, 12);
+    expect(isExpired('18/10/2026', now)).toBe(true);
+    expect(isExpired('19/10/2026', now)).toBe(false);
+    expect(isExpired('until death', now)).toBe(false);
+    expect(isExpired('', now)).toBe(false);
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * Adds one year to a dd/mm/yyyy date and rounds up to the 1st of the next month
+ * (a date already on the 1st stays there), e.g. 15/05/2025 -> 01/06/2026.
+ * Returns null for unparsable dates, "until death" and results past 2100.
+ */
+export const addYearAndRound = (dateStr: string): string | null => {
+  if (!dateStr || dateStr === 'until death') return null;
+  const parts = dateStr.split('/');
+  if (parts.length !== 3) return null;
+
+  const day = parseInt(parts[0], 10);
+  const month = parseInt(parts[1], 10) - 1;
+  const year = parseInt(parts[2], 10);
+  const date = new Date(year, month, day);
+  if (isNaN(date.getTime())) return null;
+
+  date.setFullYear(date.getFullYear() + 1);
+  if (date.getDate() !== 1) {
+    date.setDate(1);
+    date.setMonth(date.getMonth() + 1);
+  }
+  if (date.getFullYear() > 2100) return null;
+
+  const newDay = String(date.getDate()).padStart(2, '0');
+  const newMonth = String(date.getMonth() + 1).padStart(2, '0');
+  return `${newDay}/${newMonth}/${date.getFullYear()}`;
+};
+
+/**
+ * Validates a dd/mm/yyyy expiry date (real calendar date between 1980 and 2100).
+ * Returns an error message, or null when the date is valid.
+ */
+export const validateExpiryDate = (val: string): string | null => {
+  if (!/^\d{2}\/\d{2}\/\d{4}$/.test(val)) return 'Invalid date format (DD/MM/YYYY)';
+  const [d, m, y] = val.split('/').map(Number);
+  if (y < 1980 || y > 2100) return 'Year must be between 1980 and 2100';
+  const date = new Date(y, m - 1, d);
+  if (date.getFullYear() !== y || date.getMonth() + 1 !== m || date.getDate() !== d) {
+    return 'Invalid calendar date';
+  }
+  return null;
+};
+
+/**
+ * True once the whole expiry day has passed. "until death" and unparsable values never expire.
+ */
+export const isExpired = (dateStr: string, now: Date = new Date()): boolean => {
+  if (!dateStr || dateStr === 'until death') return false;
+  const [d, m, y] = dateStr.split('/').map(Number);
+  const expiry = new Date(y, m - 1, d);
+  if (isNaN(expiry.getTime())) return false;
+  expiry.setHours(23, 59, 59, 999);
+  return expiry < now;
+};
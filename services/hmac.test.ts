@@ -0,0 +1,29 @@
+import { describe, expect, test } from '@jest/globals';
+import { sha256, toHex, hmacSha256Hex, constantTimeEqual } from './hmac';
+
+describe('hmac', () => {
+  test('hashes with SHA-256 (FIPS 180-4 examples)', () => {
+    const hash = (text: string) => toHex(sha256(new TextEncoder().encode(text)));
+    expect(hash('abc')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+    expect(hash('')).toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+    expect(hash('abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq'))
+      .toBe('248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1');
+  });
+
+  test('computes HMAC-SHA256', () => {
+    // RFC 4231 test case 2
+    expect(hmacSha256Hex('Jefe', 'what do ya want for nothing?'))
+      .toBe('5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843');
+    expect(hmacSha256Hex('key', 'The quick brown fox jumps over the lazy dog'))
+      .toBe('f7bc83f430538424b13298e6aa6fb143ef4d59a14946175997479dbc2d1a3cd8');
+    // Keys longer than a block are hashed first
+    expect(hmacSha256Hex('k'.repeat(100), 'item|1001|01/01/2030'))
+      .toBe('dd4c11fdc76fcbe8b32e1ad3eda1dce26f9a97d316378e3d7d27f8af7eaa3348');
+  });
+
+  test('compares signatures', () => {
+    expect(constantTimeEqual('abc', 'abc')).toBe(true);
+    expect(constantTimeEqual('abc', 'abd')).toBe(false);
+    expect(constantTimeEqual('abc', 'ab')).toBe(false);
+  });
+});
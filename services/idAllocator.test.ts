@@ -0,0 +1,46 @@
+import { describe, expect, test } from '@jest/globals';
+import { ID_RANGES, allocateIds, isIdInRange } from './idAllocator';
+
+describe('ID Allocator', () => {
+  test('defines the ITIN, COIN and POIN ranges', () => {
+    expect(ID_RANGES.item).toEqual({ label: 'ITIN', min: 1000, max: 9999 });
+    expect(ID_RANGES.condition).toEqual({ label: 'COIN', min: 8000, max: 9999 });
+    expect(ID_RANGES.power).toEqual({ label: 'POIN', min: 5000, max: 7999 });
+  });
+
+  test('isIdInRange enforces numeric IDs within the entity range', () => {
+    expect(isIdInRange('power', '5000')).toBe(true);
+    expect(isIdInRange('power', '7999')).toBe(true);
+    expect(isIdInRange('power', '8000')).toBe(false);
+    expect(isIdInRange('condition', '7999')).toBe(false);
+    expect(isIdInRange('item', '12a4')).toBe(false);
+    expect(isIdInRange('item', '')).toBe(false);
+  });
+
+  test('allocates the lowest free IDs first, skipping taken ones', () => {
+    const result = allocateIds('item', new Set(['1000', '1002']), 3);
+    expect(result).toEqual({ success: true, data: ['1001', '1003', '1004'] });
+  });
+
+  test('rejects an exhausted range with a clear error', () => {
+    const taken = new Set<string>();
+    for (let i = 5000; i <= 7999; i++) taken.add(i.toString());
+
+    const result = allocateIds('power', taken, 1);
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('No free POIN left in range 5000-7999');
+  });
+
+  test('does not partially allocate when the range cannot satisfy the request', () => {
+    const taken = new Set<string>();
+    for (let i = 8000; i <= 9997; i++) taken.add(i.toString());
+
+    expect(allocateIds('condition', taken, 2)).toEqual({ success: true, data: ['9998', '9999'] });
+    expect(allocateIds('condition', taken, 3).success).toBe(false);
+  });
+
+  test('rejects invalid counts', () => {
+    expect(allocateIds('item', new Set(), 0).success).toBe(false);
+    expect(allocateIds('item', new Set(), 1.5).success).toBe(false);
+  });
+});
@@ -0,0 +1,53 @@
+import { ApiResult, EntityType } from '../types';
+
+/**
+ * Numeric ID range owned by each entity type.
+ * Ranges are per type: an ITIN and a COIN may share the same number.
+ */
+export interface IdRange {
+  label: 'ITIN' | 'COIN' | 'POIN';
+  min: number;
+  max: number;
+}
+
+export const ID_RANGES: Record<EntityType, IdRange> = {
+  item: { label: 'ITIN', min: 1000, max: 9999 },
+  condition: { label: 'COIN', min: 8000, max: 9999 },
+  power: { label: 'POIN', min: 5000, max: 7999 },
+};
+
+/**
+ * Checks that an ID is a plain number inside the range of its entity type.
+ */
+export const isIdInRange = (type: EntityType, id: string): boolean => {
+  if (!/^\d+$/.test(id)) return false;
+  const value = parseInt(id, 10);
+  const range = ID_RANGES[type];
+  return value >= range.min && value <= range.max;
+};
+
+/**
+ * Picks the next `count` free IDs (lowest first) for an entity type.
+ * `taken` must contain every ID already used by a record or held by a reservation.
+ * Fails without allocating anything if the range cannot satisfy the whole request.
+ */
+export const allocateIds = (type: EntityType, taken: Set<string>, count: number = 1): ApiResult<string[]> => {
+  const range = ID_RANGES[type];
+  if (!Number.isInteger(count) || count < 1) {
+    return { success: false, error: 'Requested ID count must be a positive number' };
+  }
+
+  const ids: string[] = [];
+  for (let value = range.min; value <= range.max && ids.length < count; value++) {
+    const id = value.toString();
+    if (!taken.has(id)) ids.push(id);
+  }
+
+  if (ids.length < count) {
+    return {
+      success: false,
+      error: `No free ${range.label} left in range ${range.min}-${range.max}`
+    };
+  }
+  return { success: true, data: ids };
+};
@@ -0,0 +1,108 @@
+import { describe, expect, test, beforeEach, afterEach, jest } from '@jest/globals';
+// @ts-ignore – module is mocked below
+import * as api from './api';
+import {
+  getReservedIds,
+  topUpReservedIds,
+  takeReservedId,
+  clearReservedIds,
+  RESERVATION_BLOCK_SIZE,
+} from './idReservations';
+import { setApiSession } from './session';
+
+jest.mock('./api', () => ({
+  reserveIds: jest.fn(),
+  getReservationScope: jest.fn(() => 'mock:a'),
+}));
+
+const apiMock = api as jest.Mocked<typeof api>;
+
+const referee = { id: 'ref-1', name: 'Referee Rita', email: 'rita@example.com', avatar: '', role: 'referee' as const };
+
+// Stores a pool as saved for the given owner (scope|user id)
+const seedPool = (ids: Record<string, string[]>, owner = 'mock:a|ref-1') => {
+  localStorage.setItem('voiddex_reserved_ids', JSON.stringify({ owner, ids }));
+};
+
+describe('ID Reservations', () => {
+  let originalConsoleError: typeof console.error;
+
+  beforeEach(() => {
+    localStorage.clear();
+    jest.clearAllMocks();
+    setApiSession({ token: 't', user: referee });
+    originalConsoleError = console.error;
+    console.error = jest.fn();
+  });
+
+  afterEach(() => {
+    console.error = originalConsoleError;
+  });
+
+  test('starts with an empty pool', () => {
+    expect(getReservedIds()).toEqual({ item: [], condition: [], power: [] });
+    expect(takeReservedId('item')).toBeNull();
+  });
+
+  test('tops up the pool to the block size and persists it', async () => {
+    apiMock.reserveIds.mockResolvedValue({ success: true, data: ['1000', '1026', '1027', '1028', '1029'] });
+
+    await topUpReservedIds('item');
+
+    expect(apiMock.reserveIds).toHaveBeenCalledWith('item', RESERVATION_BLOCK_SIZE);
+    expect(getReservedIds().item).toEqual(['1000', '1026', '1027', '1028', '1029']);
+    expect(localStorage.getItem('voiddex_reserved_ids')).toContain('1026');
+  });
+
+  test('only requests the missing amount and skips full pools', async () => {
+    seedPool({ power: ['5026', '5027'] });
+    apiMock.reserveIds.mockResolvedValue({ success: true, data: ['5028', '5029', '5030'] });
+
+    await topUpReservedIds('power');
+    expect(apiMock.reserveIds).toHaveBeenCalledWith('power', RESERVATION_BLOCK_SIZE - 2);
+
+    apiMock.reserveIds.mockClear();
+    await topUpReservedIds('power');
+    expect(apiMock.reserveIds).not.toHaveBeenCalled();
+  });
+
+  test('takeReservedId hands out each ID once', () => {
+    seedPool({ condition: ['8026', '8027'] });
+
+    expect(takeReservedId('condition')).toBe('8026');
+    expect(takeReservedId('condition')).toBe('8027');
+    expect(takeReservedId('condition')).toBeNull();
+  });
+
+  test('ignores a pool saved for another user or data source', () => {
+    seedPool({ item: ['1026'] }, 'mock:a|ref-2');
+    expect(takeReservedId('item')).toBeNull();
+
+    // The mock starts a new scope on every load and reset
+    seedPool({ item: ['1026'] }, 'mock:b|ref-1');
+    expect(takeReservedId('item')).toBeNull();
+
+    seedPool({ item: ['1026'] });
+    expect(getReservedIds().item).toEqual(['1026']);
+    clearReservedIds();
+    expect(getReservedIds().item).toEqual([]);
+  });
+
+  test('leaves the pool untouched when the backend cannot reserve', async () => {
+    apiMock.reserveIds.mockResolvedValue({ success: false, error: 'Network error', status: 0 });
+    await topUpReservedIds('item');
+    expect(getReservedIds().item).toEqual([]);
+
+    apiMock.reserveIds.mockRejectedValue(new Error('boom'));
+    const originalWarn = console.warn;
+    console.warn = jest.fn();
+    await expect(topUpReservedIds('item')).resolves.toBeUndefined();
+    console.warn = originalWarn;
+  });
+
+  test('recovers from malformed stored data', () => {
+    localStorage.setItem('voiddex_reserved_ids', 'not-json');
+    expect(getReservedIds()).toEqual({ item: [], condition: [], power: [] });
+    expect(console.error).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,88 @@
+import { EntityType } from '../types';
+import { reserveIds, getReservationScope } from './api';
+import { getApiSession } from './session';
+
+/**
+ * Local pool of IDs reserved ahead of time on the backend.
+ * Drafts created while offline take an ID from this pool, so the record can later be
+ * created with an ID that is guaranteed not to collide with anything else.
+ * The pool belongs to the signed-in user and the data source's reservation scope;
+ * a pool saved for anyone or anything else reads as empty.
+ */
+
+const STORAGE_KEY = 'voiddex_reserved_ids';
+
+// Number of IDs kept in reserve per entity type
+export const RESERVATION_BLOCK_SIZE = 5;
+
+type ReservationPool = Record<EntityType, string[]>;
+
+interface SavedPool {
+  owner: string;
+  ids: Partial<ReservationPool>;
+}
+
+const emptyPool = (): ReservationPool => ({ item: [], condition: [], power: [] });
+
+const poolOwner = (): string | null => {
+  const user = getApiSession().user;
+  return user ? `${getReservationScope()}|${user.id}` : null;
+};
+
+export const getReservedIds = (): ReservationPool => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return emptyPool();
+    const saved: SavedPool = JSON.parse(stored);
+    if (!saved || saved.owner !== poolOwner()) return emptyPool();
+    return { ...emptyPool(), ...saved.ids };
+  } catch (e) {
+    console.error("Failed to parse reserved IDs", e);
+    return emptyPool();
+  }
+};
+
+const savePool = (pool: ReservationPool) => {
+  const owner = poolOwner();
+  if (!owner) return;
+  const saved: SavedPool = { owner, ids: pool };
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(saved));
+};
+
+/**
+ * Forgets the pool, e.g. on logout: its IDs are not for whoever signs in next.
+ */
+export const clearReservedIds = () => {
+  localStorage.removeItem(STORAGE_KEY);
+};
+
+/**
+ * Refills the pool for an entity type up to RESERVATION_BLOCK_SIZE.
+ * Failures (e.g. no connection) are ignored; the pool is simply left as it is.
+ */
+export const topUpReservedIds = async (type: EntityType): Promise<void> => {
+  const missing = RESERVATION_BLOCK_SIZE - getReservedIds()[type].length;
+  if (missing <= 0) return;
+
+  try {
+    const result = await reserveIds(type, missing);
+    if (result.success && result.data) {
+      const pool = getReservedIds();
+      pool[type] = [...pool[type], ...result.data.filter(id => !pool[type].includes(id))];
+      savePool(pool);
+    }
+  } catch (e) {
+    console.warn("Could not reserve IDs", e);
+  }
+};
+
+/**
+ * Removes and returns one reserved ID, or null when the pool is empty.
+ */
+export const takeReservedId = (type: EntityType): string | null => {
+  const pool = getReservedIds();
+  const id = pool[type].shift();
+  if (!id) return null;
+  savePool(pool);
+  return id;
+};
@@ -0,0 +1,111 @@
+import { describe, expect, test, jest, beforeEach, afterEach } from '@jest/globals';
+// @ts-ignore – module is mocked below
+import * as api from './api';
+import { labelFor, buildLabelSheet, labelPayload, parseLabelPayload, checkLabel, signLabels, printLabels, LABELS_PER_SHEET } from './labels';
+import { Item, Condition, Power } from '../types';
+
+jest.mock('./api', () => ({
+  signLabels: jest.fn(),
+  verifyLabel: jest.fn(),
+}));
+
+const apiMock = api as jest.Mocked<typeof api>;
+
+const item: Item = { itin: '1001', name: 'Plasma Rifle', description: '', owner: '1001#01', expiryDate: '15/05/2025' };
+const condition: Condition = {
+  coin: '8001',
+  name: 'Radiation Poisoning',
+  description: '',
+  assignments: [{ plin: '1001#01', expiryDate: '01/01/2026' }],
+};
+const power: Power = {
+  poin: '5001',
+  name: 'Fish & Chips',
+  description: '',
+  assignments: [
+    { plin: '1001#01', expiryDate: '01/01/2026' },
+    { plin: '1002#01', expiryDate: '01/02/2026' },
+  ],
+};
+
+describe('labels', () => {
+  test('shows an expiry only when it is unambiguous', () => {
+    expect(labelFor(item)).toEqual({ type: 'item', id: '1001', name: 'Plasma Rifle', expiry: '15/05/2025' });
+    expect(labelFor(condition).expiry).toBe('01/01/2026');
+    expect(labelFor(power)).toEqual({ type: 'power', id: '5001', name: 'Fish & Chips', expiry: undefined });
+  });
+
+  test('builds a sheet with one QR code per label', () => {
+    const html = buildLabelSheet([item, condition, power].map(labelFor));
+    expect(html.match(/<svg /g)).toHaveLength(3);
+    expect(html).toContain('ITIN 1001');
+    expect(html).toContain('Exp. 15/05/2025');
+    expect(html).toContain('Fish &amp; Chips');
+    expect(html).toContain(`.label:nth-child(${LABELS_PER_SHEET}n) { page-break-after: always; }`);
+  });
+
+  test('leaves labels unsigned without signing and verifies nothing', async () => {
+    const [label] = (await signLabels([labelFor(item)])).data!;
+    const payload = labelPayload(label);
+    expect(payload).toBe(`${window.location.origin}/items/1001`);
+    expect(await checkLabel(parseLabelPayload(payload)!)).toBe('unverified');
+    expect(apiMock.signLabels).not.toHaveBeenCalled();
+  });
+
+  describe('signed labels', () => {
+    beforeEach(() => {
+      jest.clearAllMocks();
+      (globalThis as any).__VOIDDEX_CONFIG__ = { labelSigning: true, appUrl: 'https://voiddex.app' };
+    });
+
+    afterEach(() => {
+      delete (globalThis as any).__VOIDDEX_CONFIG__;
+    });
+
+    test('embeds the backend signature and expiry and reads them back', async () => {
+      apiMock.signLabels.mockResolvedValue({ success: true, data: ['0123456789abcdef01234567'] });
+      apiMock.verifyLabel.mockResolvedValue({ success: true, data: true });
+
+      const signed = await signLabels([labelFor(item)]);
+      expect(apiMock.signLabels).toHaveBeenCalledWith([{ type: 'item', id: '1001', expiry: '15/05/2025' }]);
+      const payload = labelPayload(signed.data![0]);
+      expect(payload).toBe('https://voiddex.app/items/1001?exp=15%2F05%2F2025&sig=0123456789abcdef01234567');
+
+      const scan = parseLabelPayload(payload)!;
+      expect(scan).toMatchObject({ type: 'item', id: '1001', expiry: '15/05/2025' });
+      expect(await checkLabel(scan, item)).toBe('valid');
+      expect(apiMock.verifyLabel).toHaveBeenCalledWith({ type: 'item', id: '1001', expiry: '15/05/2025' }, '0123456789abcdef01234567');
+      expect(parseLabelPayload('condition/8001')).toEqual({ type: 'condition', id: '8001' });
+      expect(parseLabelPayload('https://example.com/foo/1234')).toBeNull();
+    });
+
+    test('detects forged, outdated, unsigned and unverifiable labels', async () => {
+      const scan = parseLabelPayload('https://voiddex.app/conditions/8001?exp=01%2F01%2F2026&sig=abc123')!;
+
+      apiMock.verifyLabel.mockResolvedValue({ success: true, data: false });
+      expect(await checkLabel(scan)).toBe('forged');
+
+      apiMock.verifyLabel.mockResolvedValue({ success: true, data: true });
+      expect(await checkLabel(scan, {
+        ...condition,
+        assignments: [{ plin: '1001#01', expiryDate: '01/01/2027' }],
+      })).toBe('outdated');
+
+      apiMock.verifyLabel.mockResolvedValue({ success: false, error: 'Network error', status: 0 });
+      expect(await checkLabel(scan)).toBe('unverified');
+
+      expect(await checkLabel(parseLabelPayload('https://voiddex.app/conditions/8001')!)).toBe('unsigned');
+    });
+
+    test('does not print labels the backend would not sign', async () => {
+      const printWindow = { close: jest.fn(), print: jest.fn() };
+      const openSpy = jest.spyOn(window, 'open').mockReturnValue(printWindow as unknown as Window);
+      apiMock.signLabels.mockResolvedValue({ success: false, error: 'You do not have permission to do this.', status: 403 });
+
+      expect(await printLabels([labelFor(item)])).toBe('The label could not be signed: You do not have permission to do this.');
+      expect(printWindow.close).toHaveBeenCalled();
+      expect(printWindow.print).not.toHaveBeenCalled();
+      openSpy.mockRestore();
+    });
+  });
+});
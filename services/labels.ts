@@ -0,0 +1,188 @@
+import { Item, Condition, Power, EntityType, ApiResult, LabelRef } from '../types';
+import { encodeQr, qrToSvg, deepLinkUrl } from './qrCode';
+import { getTargetType, getTargetId } from './bulkUpdate';
+import { ID_RANGES } from './idAllocator';
+import { openReportWindow, writeReport, escapeHtml } from './dataExport';
+import { getAppConfig } from './config';
+import { signLabels as signLabelRefs, verifyLabel } from './api';
+
+/**
+ * What goes on one printed label.
+ */
+export interface LabelData {
+  type: EntityType;
+  id: string;
+  name: string;
+  expiry?: string;
+  signature?: string; // Issued by the backend, see signLabels
+}
+
+/** 3 x 8 grid of 70 x 37 mm labels, the common A4 sticker sheet. */
+export const LABELS_PER_SHEET = 24;
+
+/**
+ * Label for a record. Conditions and powers only show an expiry when they have exactly one assignment.
+ */
+export const labelFor = (record: Item | Condition | Power): LabelData => {
+  const expiry = 'assignments' in record
+    ? (record.assignments.length === 1 ? record.assignments[0].expiryDate : undefined)
+    : record.expiryDate;
+  return { type: getTargetType(record), id: getTargetId(record), name: record.name, expiry };
+};
+
+/**
+ * A code read by the scanner. `signature` and `expiry` are only present on signed labels.
+ */
+export interface ScannedLabel {
+  type: EntityType;
+  id: string;
+  expiry?: string;
+  signature?: string;
+}
+
+/**
+ * Result of checking a scanned label with the backend and against the current record:
+ * - `unsigned`: signing is enabled but the code carries no signature (hand-made or pre-signing label)
+ * - `forged`: the signature does not match type, ID and expiry
+ * - `outdated`: genuine, but the record's expiry has changed since it was printed
+ * - `unverified`: the signature could not be checked (signing is off or the backend is unreachable)
+ */
+export type LabelStatus = 'valid' | 'unsigned' | 'forged' | 'outdated' | 'unverified';
+
+/**
+ * Labels are signed and checked by the backend, which holds the key; the app only knows
+ * whether signing is switched on.
+ */
+export const isLabelSigningEnabled = (): boolean => getAppConfig().labelSigning;
+
+const labelRef = ({ type, id, expiry }: { type: EntityType; id: string; expiry?: string }): LabelRef =>
+  ({ type, id, expiry: expiry || '' });
+
+/**
+ * Text encoded into a label's QR code: the record's deep link, plus the expiry and
+ * the signature over type, ID and expiry when the label has been signed.
+ */
+export const labelPayload = (label: LabelData): string => {
+  const url = deepLinkUrl(label.type, label.id);
+  if (!label.signature) return url;
+  return `${url}?exp=${encodeURIComponent(label.expiry || '')}&sig=${label.signature}`;
+};
+
+/**
+ * Adds the backend's signatures to the labels when signing is enabled;
+ * otherwise returns them unchanged.
+ */
+export const signLabels = async (labels: LabelData[]): Promise<ApiResult<LabelData[]>> => {
+  if (!isLabelSigningEnabled()) return { success: true, data: labels };
+  const result = await signLabelRefs(labels.map(labelRef));
+  if (!result.success || !result.data) {
+    return { success: false, error: result.error || 'The labels could not be signed', status: result.status };
+  }
+  const signatures = result.data;
+  return { success: true, data: labels.map((label, index) => ({ ...label, signature: signatures[index] })) };
+};
+
+const decodeParam = (value: string): string => {
+  try {
+    return decodeURIComponent(value);
+  } catch (err) {
+    return value;
+  }
+};
+
+const SCAN_TYPES: Record<string, EntityType> = { item: 'item', condition: 'condition', power: 'power' };
+
+/**
+ * Reads a scanned code such as "https://voiddex.app/items/1234?exp=...&sig=..." or "condition/9999".
+ * Returns null when the text does not reference a record.
+ */
+export const parseLabelPayload = (text: string): ScannedLabel | null => {
+  const match = text.match(/(item|condition|power)s?\/([a-zA-Z0-9#]+)/i);
+  if (!match) return null;
+  const scan: ScannedLabel = { type: SCAN_TYPES[match[1].toLowerCase()], id: match[2] };
+  const signature = text.match(/[?&]sig=([0-9a-f]+)/i);
+  if (signature) {
+    const expiry = text.match(/[?&]exp=([^&#]*)/);
+    scan.signature = signature[1].toLowerCase();
+    scan.expiry = expiry ? decodeParam(expiry[1]) : '';
+  }
+  return scan;
+};
+
+/**
+ * Verifies a scanned label with the backend. Pass the current record to also detect outdated expiries.
+ * Nothing counts as valid unless the backend confirmed the signature.
+ */
+export const checkLabel = async (scan: ScannedLabel, record?: Item | Condition | Power | null): Promise<LabelStatus> => {
+  if (!isLabelSigningEnabled()) return 'unverified';
+  if (!scan.signature) return 'unsigned';
+  const result = await verifyLabel(labelRef(scan), scan.signature);
+  if (!result.success) return 'unverified';
+  if (!result.data) return 'forged';
+  if (record && (labelFor(record).expiry || '') !== (scan.expiry || '')) return 'outdated';
+  return 'valid';
+};
+
+/** QR code for a label's payload, as an SVG string. */
+export const labelQrSvg = (label: LabelData): string => qrToSvg(encodeQr(labelPayload(label)));
+
+/**
+ * Print-ready A4 page(s) of labels: QR code, name, ID and expiry per cell.
+ * Labels fill the grid row by row and continue on further sheets.
+ */
+export const buildLabelSheet = (labels: LabelData[]): string => {
+  const cells = labels.map(label => `
+    <div class="label">
+      <div class="qr">${labelQrSvg(label)}</div>
+      <div class="text">
+        <div class="name">${escapeHtml(label.name)}</div>
+        <div class="id">${ID_RANGES[label.type].label} ${escapeHtml(label.id)}</div>
+        ${label.expiry ? `<div class="expiry">Exp. ${escapeHtml(label.expiry)}</div>` : ''}
+      </div>
+    </div>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>VoidDex Labels</title>
+  <style>
+    @page { size: A4; margin: 0; }
+    body { margin: 0; font-family: Georgia, serif; }
+    .sheet { width: 210mm; display: grid; grid-template-columns: repeat(3, 70mm); grid-auto-rows: 37mm; }
+    .label { box-sizing: border-box; padding: 3mm; display: flex; gap: 2mm; align-items: center; overflow: hidden; page-break-inside: avoid; }
+    .label:nth-child(${LABELS_PER_SHEET}n) { page-break-after: always; }
+    .qr { width: 30mm; height: 30mm; flex-shrink: 0; }
+    .qr svg { width: 100%; height: 100%; }
+    .text { min-width: 0; }
+    .name { font-weight: bold; font-size: 10pt; line-height: 1.2; max-height: 3.6em; overflow: hidden; }
+    .id { font-family: monospace; font-size: 9pt; margin-top: 1mm; }
+    .expiry { font-size: 8pt; margin-top: 1mm; }
+    @media screen { .label { outline: 1px dashed #ccc; } }
+  </style>
+</head>
+<body>
+  <div class="sheet">${cells}
+  </div>
+</body>
+</html>`;
+};
+
+/**
+ * Signs the labels and prints them in a new window.
+ * Resolves to an error message when the window was blocked or signing failed, otherwise null.
+ */
+export const printLabels = async (labels: LabelData[]): Promise<string | null> => {
+  const noun = labels.length === 1 ? 'label' : 'labels';
+  // Opened before signing: once something has been awaited the pop-up blocker refuses it
+  const reportWindow = openReportWindow();
+  if (!reportWindow) return `Pop-up blocked. Allow pop-ups to print the ${noun}.`;
+
+  const signed = await signLabels(labels);
+  if (!signed.success || !signed.data) {
+    reportWindow.close();
+    return `The ${noun} could not be signed: ${signed.error}`;
+  }
+  writeReport(reportWindow, buildLabelSheet(signed.data));
+  return null;
+};
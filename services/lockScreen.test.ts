@@ -0,0 +1,56 @@
+import { describe, expect, test, beforeEach } from '@jest/globals';
+import { checkLockPin, hasLockPin, isAppLocked, isValidPin, MAX_PIN_ATTEMPTS, setAppLocked, setLockPin } from './lockScreen';
+
+describe('lockScreen', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  test('remembers whether the app is locked', () => {
+    expect(isAppLocked()).toBe(false);
+    setAppLocked(true);
+    expect(isAppLocked()).toBe(true);
+    setAppLocked(false);
+    expect(isAppLocked()).toBe(false);
+  });
+
+  test('accepts PINs of 4 to 8 digits only', () => {
+    expect(isValidPin('1234')).toBe(true);
+    expect(isValidPin('12345678')).toBe(true);
+    expect(isValidPin('123')).toBe(false);
+    expect(isValidPin('123456789')).toBe(false);
+    expect(isValidPin('12a4')).toBe(false);
+    expect(() => setLockPin('u1', '12')).toThrow();
+    expect(hasLockPin('u1')).toBe(false);
+  });
+
+  test('unlocks with the saved PIN for the same user only', () => {
+    setLockPin('u1', '2468');
+
+    expect(hasLockPin('u1')).toBe(true);
+    expect(hasLockPin('u2')).toBe(false);
+    expect(localStorage.getItem('voiddex_lock_pin')).not.toContain('2468');
+    expect(checkLockPin('u1', '2468')).toBeNull();
+    expect(checkLockPin('u2', '2468')).toBe(0);
+  });
+
+  test('forgets the PIN after too many wrong attempts', () => {
+    setLockPin('u1', '2468');
+
+    for (let i = 1; i < MAX_PIN_ATTEMPTS; i++) {
+      expect(checkLockPin('u1', '0000')).toBe(MAX_PIN_ATTEMPTS - i);
+    }
+    expect(checkLockPin('u1', '0000')).toBe(0);
+    expect(hasLockPin('u1')).toBe(false);
+    expect(checkLockPin('u1', '2468')).toBe(0);
+  });
+
+  test('a correct PIN resets the wrong attempts', () => {
+    setLockPin('u1', '2468');
+    checkLockPin('u1', '0000');
+    checkLockPin('u1', '0000');
+
+    expect(checkLockPin('u1', '2468')).toBeNull();
+    expect(checkLockPin('u1', '0000')).toBe(MAX_PIN_ATTEMPTS - 1);
+  });
+});
@@ -0,0 +1,79 @@
+import { hmacSha256Hex, toHex, constantTimeEqual } from './hmac';
+
+/**
+ * Lock screen state and the quick-unlock PIN. Locking keeps the session, the current route and
+ * any form in progress; the PIN only unlocks this browser and is never sent anywhere.
+ * Kept in LocalStorage so that every tab locks together and a reload stays locked.
+ */
+
+export const LOCKED_KEY = 'voiddex_locked';
+const PIN_KEY = 'voiddex_lock_pin';
+
+// Wrong PINs allowed before the PIN is forgotten and the user has to sign in again
+export const MAX_PIN_ATTEMPTS = 5;
+
+interface SavedPin {
+  userId: string;
+  salt: string;
+  hash: string;
+  failures: number;
+}
+
+const loadPin = (userId: string): SavedPin | null => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(PIN_KEY) || 'null');
+    return saved && saved.userId === userId ? saved : null;
+  } catch (e) {
+    return null;
+  }
+};
+
+const randomSalt = (): string => {
+  const bytes = new Uint8Array(16);
+  crypto.getRandomValues(bytes);
+  return toHex(bytes);
+};
+
+export const isAppLocked = (): boolean => localStorage.getItem(LOCKED_KEY) === '1';
+
+export const setAppLocked = (locked: boolean) => {
+  if (locked) localStorage.setItem(LOCKED_KEY, '1');
+  else localStorage.removeItem(LOCKED_KEY);
+};
+
+/** PINs are 4 to 8 digits. */
+export const isValidPin = (pin: string): boolean => /^\d{4,8}$/.test(pin);
+
+export const hasLockPin = (userId: string): boolean => loadPin(userId) !== null;
+
+/**
+ * Saves the user's unlock PIN (salted hash only), replacing any earlier one.
+ */
+export const setLockPin = (userId: string, pin: string) => {
+  if (!isValidPin(pin)) throw new Error('PIN must be 4 to 8 digits');
+  const salt = randomSalt();
+  const saved: SavedPin = { userId, salt, hash: hmacSha256Hex(salt, pin), failures: 0 };
+  localStorage.setItem(PIN_KEY, JSON.stringify(saved));
+};
+
+/**
+ * Checks the PIN. Returns how many attempts are left: null once it matched, 0 once the
+ * PIN has been forgotten after too many wrong attempts.
+ */
+export const checkLockPin = (userId: string, pin: string): number | null => {
+  const saved = loadPin(userId);
+  if (!saved) return 0;
+
+  if (constantTimeEqual(hmacSha256Hex(saved.salt, pin), saved.hash)) {
+    localStorage.setItem(PIN_KEY, JSON.stringify({ ...saved, failures: 0 }));
+    return null;
+  }
+
+  const failures = saved.failures + 1;
+  if (failures >= MAX_PIN_ATTEMPTS) {
+    localStorage.removeItem(PIN_KEY);
+    return 0;
+  }
+  localStorage.setItem(PIN_KEY, JSON.stringify({ ...saved, failures }));
+  return MAX_PIN_ATTEMPTS - failures;
+};
@@ -0,0 +1,636 @@
+import { Item, Condition, Power, Player, PlayerAssets, ApiResult, Assignment, EntityType, AuditAction, AuditEntityType, AuditEntry, UpdateOptions, DeathRequest, DeathOutcome, DatabaseSnapshot, LabelRef } from '../types';
+import { DataSource } from './dataSource';
+import { ID_RANGES, allocateIds, isIdInRange } from './idAllocator';
+import { buildAuditEntry, diffRecords, inferAuditAction } from './audit';
+import { getApiSession } from './session';
+import { hmacSha256Hex, toHex, constantTimeEqual } from './hmac';
+import { endUntilDeathAssignments, formatDeathDate, hasUntilDeathAssignment, itemDeathUpdate, validateDeathChoices } from './characterDeath';
+
+// --- MOCK DATA GENERATION ---
+// Stand-in for a real backend database (see restDataSource.ts for the HTTP adapter).
+// We generate consistent mock data to simulate a populated environment for testing.
+
+const MOCK_PLAYER_NAMES = [
+  "Commander Shepherd", "Liara T'Soni", "Garrus Vakarian", "Tali'Zorah", "Urdnot Wrex",
+  "Kaidan Alenko", "Ashley Williams", "Joker Moreau", "Dr. Chakwas", "Miranda Lawson",
+  "Jacob Taylor", "Mordin Solus", "Jack", "Grunt", "Thane Krios", "Samara", "Legion",
+  "Zaeed Massani", "Kasumi Goto", "Javik", "James Vega", "EDI", "Admiral Anderson",
+  "Illusive Man", "Aria T'Loak"
+];
+
+const ITEM_NAMES = [
+  "Plasma Rifle", "Medigel Pack", "Omni-tool v1", "Kinetic Barrier", "Thermal Clip",
+  "Element Zero Core", "Heavy Pistol", "Sniper Rifle", "Biotic Amp", "Tech Armor Generator",
+  "Assault Rifle", "Shotgun", "Submachine Gun", "Grenade Launcher", "Rocket Launcher",
+  "Arc Projector", "Flamethrower", "Cryo Blaster", "Particle Rifle", "Cain Nuke Launcher",
+  "Black Widow", "Carnifex Hand Cannon", "Geth Pulse Rifle", "Mattock Rifle", "M-8 Avenger"
+];
+
+const CONDITION_NAMES = [
+  "Radiation Poisoning", "Broken Bone", "Concussion", "Exhaustion", "Frozen",
+  "Burning", "Poisoned", "Stunned", "Bleeding", "Blinded",
+  "Deafened", "Paralyzed", "Petrified", "Charmed", "Frightened",
+  "Invisible", "Hasted", "Slowed", "Weakened", "Empowered",
+  "Cursed", "Blessed", "Sleeping", "Unconscious", "Dead"
+];
+
+const POWER_NAMES = [
+  "Biotic Throw", "Warp", "Singularity", "Pull", "Shockwave",
+  "Charge", "Nova", "Barrier", "Stasis", "Reave",
+  "Overload", "Incinerate", "Cryo Blast", "AI Hacking", "Combat Drone",
+  "Tech Armor", "Tactical Cloak", "Energy Drain", "Adrenaline Rush", "Concussive Shot",
+  "Fortification", "Geth Shield Boost", "Slam", "Dark Channel", "Flare"
+];
+
+const MOCK_PERSON_NAMES = [
+  "Anna de Vries", "Bram Jansen", "Chris Bakker", "Daan Visser", "Eva Smit",
+  "Floor Meijer", "Gijs de Boer", "Hanna Mulder", "Ivo de Groot", "Julia Bos",
+  "Kees Vos", "Lotte Peters", "Mark Hendriks", "Noor van Leeuwen", "Olaf Dekker",
+  "Pien Brouwer", "Quinten de Wit", "Roos Dijkstra", "Sem Smits", "Tess de Graaf",
+  "Udo van der Meer", "Vera Kok", "Wout Jacobs", "Xander de Haan", "Yara Vermeulen"
+];
+
+// Generate Players with formatted IDs (PLINs 1001#01 to 1025#01)
+const INITIAL_PLAYERS: Player[] = MOCK_PLAYER_NAMES.map((characterName, i) => ({
+  plin: `${1001 + i}#01`,
+  characterName,
+  playerName: MOCK_PERSON_NAMES[i],
+  status: 'alive',
+  notes: ''
+}));
+const PLAYER_IDS = INITIAL_PLAYERS.map(p => p.plin);
+
+/**
+ * Helper to pick random unique owners for Conditions and Powers.
+ * Simulates multi-assignment (e.g., a disease affecting multiple players).
+ */
+const pickAssignments = (min: number, max: number): Assignment[] => {
+    const count = Math.floor(Math.random() * (max - min + 1)) + min;
+    const shuffled = [...PLAYER_IDS].sort(() => 0.5 - Math.random());
+    return shuffled.slice(0, count).map(plin => ({
+        plin,
+        expiryDate: '31/12/2030'
+    }));
+};
+
+// Generate 25 Items (ITIN 1001-1025) - Items typically have a single owner
+const INITIAL_ITEMS: Item[] = ITEM_NAMES.map((name, i) => ({
+    itin: (1001 + i).toString(),
+    name,
+    description: `Standard issue ${name}.`,
+    owner: PLAYER_IDS[i % PLAYER_IDS.length],
+    expiryDate: '31/12/2025',
+    remarks: 'Standard operational condition.',
+    csRemarks: ''
+}));
+
+// Generate 25 Conditions (COIN 8001-8025) - 1 to 10 Owners per condition
+const INITIAL_CONDITIONS: Condition[] = CONDITION_NAMES.map((name, i) => ({
+    coin: (8001 + i).toString(),
+    name,
+    description: `Status effect: ${name}`,
+    assignments: pickAssignments(1, 10),
+    remarks: 'Medical bay attention required if severe.',
+    csRemarks: ''
+}));
+
+// Generate 25 Powers (POIN 5001-5025) - 1 to 10 Owners per power
+const INITIAL_POWERS: Power[] = POWER_NAMES.map((name, i) => ({
+    poin: (5001 + i).toString(),
+    name,
+    description: `Ability: ${name}`,
+    assignments: pickAssignments(1, 10),
+    remarks: 'Requires cooldown between uses.',
+    csRemarks: ''
+}));
+
+// --- DUPLICATE TEST OBJECTS (ID 9999) ---
+const TEST_DUPLICATE_ITEM: Item = {
+    itin: '9999',
+    name: 'Omni-Blade (Item)',
+    description: 'Physical blade attachment.',
+    owner: '1001#01',
+    expiryDate: '01/01/2030'
+};
+INITIAL_ITEMS.push(TEST_DUPLICATE_ITEM);
+
+const TEST_DUPLICATE_CONDITION: Condition = {
+    coin: '9999',
+    name: 'Omni-Rot (Condition)',
+    description: 'Tech virus affecting implants.',
+    assignments: [{ plin: '1001#01', expiryDate: '01/01/2030' }]
+};
+INITIAL_CONDITIONS.push(TEST_DUPLICATE_CONDITION);
+
+const TEST_DUPLICATE_POWER: Power = {
+    poin: '9999',
+    name: 'Omni-Slash (Power)',
+    description: 'Tech attack ability.',
+    assignments: [{ plin: '1001#01', expiryDate: '01/01/2030' }]
+};
+INITIAL_POWERS.push(TEST_DUPLICATE_POWER);
+
+
+// Deep copy of the seed data; every seeded record starts at version 1
+const seed = <T extends Item | Condition | Power | Player>(records: T[]): T[] =>
+  JSON.parse(JSON.stringify(records)).map((record: T) => ({ ...record, version: 1 }));
+
+// Mock In-Memory Databases
+// These persist in memory until the app is reloaded or `resetData()` is called.
+let MOCK_DB: Item[] = seed(INITIAL_ITEMS);
+let MOCK_CONDITIONS: Condition[] = seed(INITIAL_CONDITIONS);
+let MOCK_POWERS: Power[] = seed(INITIAL_POWERS);
+let MOCK_PLAYERS: Player[] = seed(INITIAL_PLAYERS);
+
+// IDs handed out by reserveIds() that no created record has used yet, with the user they went to
+const emptyReservations = (): Record<EntityType, Map<string, string | null>> => ({
+  item: new Map(), condition: new Map(), power: new Map()
+});
+let RESERVED_IDS = emptyReservations();
+
+// Reservations only live as long as this page load and are dropped by reset()
+const newReservationScope = () => `mock:${toHex(crypto.getRandomValues(new Uint8Array(8)))}`;
+let RESERVATION_SCOPE = newReservationScope();
+
+// Append-only change history, attributed to the user of the current session.
+// Kept until the app is reloaded: resetting the session data does not rewrite history.
+const MOCK_AUDIT: AuditEntry[] = [];
+
+// Label signing key of this mock backend, new on every page load (labels printed before a
+// reload no longer verify). A real backend keeps its key on the server.
+const LABEL_KEY = toHex(crypto.getRandomValues(new Uint8Array(32)));
+
+// 96 bits of the HMAC keep the QR code small while staying infeasible to guess
+const LABEL_SIGNATURE_LENGTH = 24;
+
+// Simulates network latency (800ms) to allow UI loading states to be visualized
+const simulateDelay = () => new Promise(resolve => setTimeout(resolve, 400));
+
+/**
+ * Resets all mock databases to their initial state. The audit log is kept.
+ */
+const reset = () => {
+  MOCK_DB = seed(INITIAL_ITEMS);
+  MOCK_CONDITIONS = seed(INITIAL_CONDITIONS);
+  MOCK_POWERS = seed(INITIAL_POWERS);
+  MOCK_PLAYERS = seed(INITIAL_PLAYERS);
+  RESERVED_IDS = emptyReservations();
+  RESERVATION_SCOPE = newReservationScope();
+};
+
+/**
+ * Appends an audit entry for a mutation. Updates that change nothing are not recorded.
+ */
+const recordAudit = (
+  type: EntityType,
+  id: string,
+  before: Item | Condition | Power | null,
+  after: Item | Condition | Power,
+  action?: AuditAction,
+  batchId?: string
+) => {
+  const changes = diffRecords(before, after);
+  if (before && changes.length === 0) return;
+  MOCK_AUDIT.push(buildAuditEntry(type, id, action || inferAuditAction(type, changes), changes, getApiSession().user, batchId));
+};
+
+/**
+ * Applies an update to `records[index]` in place.
+ * Rejects the write with 409 when `expectedVersion` no longer matches the stored record;
+ * otherwise bumps the version, stamps updatedAt and records the audit entry
+ * (with `action`, or the action inferred from the changes, and part of `batchId` if given).
+ */
+const applyUpdate = <T extends Item | Condition | Power>(
+  type: EntityType,
+  id: string,
+  records: T[],
+  index: number,
+  updates: Partial<T>,
+  options?: UpdateOptions,
+  action?: AuditAction,
+  batchId?: string
+): ApiResult<T> => {
+  const before = records[index];
+  const expected = options?.expectedVersion;
+  if (expected !== undefined && before.version !== expected) {
+    return {
+      success: false,
+      error: `${ID_RANGES[type].label} ${id} was changed by someone else (version ${before.version}, expected ${expected})`,
+      status: 409,
+      conflict: { ...before },
+    };
+  }
+
+  const { version, updatedAt, ...fields } = updates;
+  records[index] = { ...before, ...fields, version: (before.version || 0) + 1, updatedAt: Date.now() };
+  recordAudit(type, id, before, records[index], action, batchId);
+  return { success: true, data: records[index] };
+};
+
+const usedIds = (type: EntityType): Set<string> => {
+  if (type === 'item') return new Set(MOCK_DB.map(i => i.itin));
+  if (type === 'condition') return new Set(MOCK_CONDITIONS.map(c => c.coin));
+  return new Set(MOCK_POWERS.map(p => p.poin));
+};
+
+/**
+ * Resolves the ID for a new record.
+ * A requested ID (one from reserveIds, or kept from an imported file) must be in range,
+ * unused and not reserved for another user; otherwise the next free ID that is neither
+ * used nor reserved is allocated.
+ */
+const claimId = (type: EntityType, requested?: string): ApiResult<string> => {
+  const { label } = ID_RANGES[type];
+  if (requested) {
+    if (!isIdInRange(type, requested)) {
+      return { success: false, error: `${label} ${requested} is outside the allowed range` };
+    }
+    if (usedIds(type).has(requested)) {
+      return { success: false, error: `${label} ${requested} is already in use` };
+    }
+    const reservedFor = RESERVED_IDS[type].get(requested);
+    if (reservedFor !== undefined && reservedFor !== (getApiSession().user?.id ?? null)) {
+      return { success: false, error: `${label} ${requested} is reserved for another user` };
+    }
+    RESERVED_IDS[type].delete(requested);
+    return { success: true, data: requested };
+  }
+
+  const taken = new Set([...usedIds(type), ...RESERVED_IDS[type].keys()]);
+  const result = allocateIds(type, taken, 1);
+  if (!result.success || !result.data) return { success: false, error: result.error };
+  return { success: true, data: result.data[0] };
+};
+
+/**
+ * Creates a new inventory item.
+ * Uses the supplied (reserved) ITIN or assigns the next free one (1000-9999).
+ */
+const createItem = async ({ itin, ...item }: Omit<Item, 'itin'> & { itin?: string }): Promise<ApiResult<Item>> => {
+  await simulateDelay();
+  const claim = claimId('item', itin);
+  if (!claim.success || !claim.data) return { success: false, error: claim.error };
+  const newItem = { ...item, itin: claim.data, version: 1, updatedAt: Date.now() };
+  MOCK_DB.push(newItem);
+  recordAudit('item', newItem.itin, null, newItem, 'create');
+  return { success: true, data: newItem };
+};
+
+/**
+ * Search for an item by ITIN (Exact match).
+ */
+const searchItemByItin = async (itin: string): Promise<ApiResult<Item>> => {
+  await simulateDelay();
+  const item = MOCK_DB.find(i => i.itin === itin);
+  if (item) return { success: true, data: { ...item } };
+  return { success: false, error: 'Not found' };
+};
+
+/**
+ * Creates a new Condition (e.g., Disease, Buff).
+ * Uses the supplied (reserved) COIN or assigns the next free one (8000-9999).
+ */
+const createCondition = async ({ coin, ...cond }: Omit<Condition, 'coin'> & { coin?: string }): Promise<ApiResult<Condition>> => {
+  await simulateDelay();
+  const claim = claimId('condition', coin);
+  if (!claim.success || !claim.data) return { success: false, error: claim.error };
+  const newCondition = { ...cond, coin: claim.data, version: 1, updatedAt: Date.now() };
+  MOCK_CONDITIONS.push(newCondition);
+  recordAudit('condition', newCondition.coin, null, newCondition, 'create');
+  return { success: true, data: newCondition };
+};
+
+/**
+ * Search for a condition by COIN (Exact match).
+ */
+const searchConditionByCoin = async (coin: string): Promise<ApiResult<Condition>> => {
+  await simulateDelay();
+  const cond = MOCK_CONDITIONS.find(c => c.coin === coin);
+  if (cond) return { success: true, data: { ...cond } };
+  return { success: false, error: 'Condition not found' };
+};
+
+/**
+ * Creates a new Power/Ability.
+ * Uses the supplied (reserved) POIN or assigns the next free one (5000-7999).
+ */
+const createPower = async ({ poin, ...pow }: Omit<Power, 'poin'> & { poin?: string }): Promise<ApiResult<Power>> => {
+  await simulateDelay();
+  const claim = claimId('power', poin);
+  if (!claim.success || !claim.data) return { success: false, error: claim.error };
+  const newPower = { ...pow, poin: claim.data, version: 1, updatedAt: Date.now() };
+  MOCK_POWERS.push(newPower);
+  recordAudit('power', newPower.poin, null, newPower, 'create');
+  return { success: true, data: newPower };
+};
+
+/**
+ * Search for a power by POIN (Exact match).
+ */
+const searchPowerByPoin = async (poin: string): Promise<ApiResult<Power>> => {
+  await simulateDelay();
+  const power = MOCK_POWERS.find(p => p.poin === poin);
+  if (power) return { success: true, data: { ...power } };
+  return { success: false, error: 'Power not found' };
+};
+
+/**
+ * Updates an item's properties found by ITIN.
+ */
+const updateItem = async (itin: string, updates: Partial<Item>, options?: UpdateOptions): Promise<ApiResult<Item>> => {
+  await simulateDelay();
+  const index = MOCK_DB.findIndex(i => i.itin === itin);
+  if (index !== -1) {
+    return applyUpdate('item', itin, MOCK_DB, index, updates, options);
+  }
+  return { success: false, error: 'Item not found during update' };
+};
+
+/**
+ * Updates a condition's properties found by COIN.
+ */
+const updateCondition = async (coin: string, updates: Partial<Condition>, options?: UpdateOptions): Promise<ApiResult<Condition>> => {
+  await simulateDelay();
+  const index = MOCK_CONDITIONS.findIndex(c => c.coin === coin);
+  if (index !== -1) {
+    return applyUpdate('condition', coin, MOCK_CONDITIONS, index, updates, options);
+  }
+  return { success: false, error: 'Condition not found during update' };
+};
+
+/**
+ * Updates a power's properties found by POIN.
+ */
+const updatePower = async (poin: string, updates: Partial<Power>, options?: UpdateOptions): Promise<ApiResult<Power>> => {
+  await simulateDelay();
+  const index = MOCK_POWERS.findIndex(p => p.poin === poin);
+  if (index !== -1) {
+    return applyUpdate('power', poin, MOCK_POWERS, index, updates, options);
+  }
+  return { success: false, error: 'Power not found during update' };
+};
+
+/**
+ * Global Search aggregator.
+ * Queries Items, Conditions, and Powers simultaneously using a partial string match.
+ * Matches against Name, ID, or Owner PLIN.
+ */
+const searchGlobal = async (query: string): Promise<ApiResult<(Item | Condition | Power)[]>> => {
+  await simulateDelay();
+
+  const lowerQuery = query.toLowerCase();
+
+  // 1. Filter Items
+  const itemResults = MOCK_DB.filter(item => 
+    item.name.toLowerCase().includes(lowerQuery) ||
+    item.owner.toLowerCase().includes(lowerQuery) ||
+    item.itin.includes(query)
+  );
+
+  // 2. Filter Conditions (Checks deep inside assignment arrays for owner match)
+  const conditionResults = MOCK_CONDITIONS.filter(cond => 
+    cond.name.toLowerCase().includes(lowerQuery) ||
+    cond.assignments.some(a => a.plin.toLowerCase().includes(lowerQuery)) ||
+    cond.coin.includes(query)
+  );
+
+  // 3. Filter Powers (Checks deep inside assignment arrays for owner match)
+  const powerResults = MOCK_POWERS.filter(pow => 
+    pow.name.toLowerCase().includes(lowerQuery) ||
+    pow.assignments.some(a => a.plin.toLowerCase().includes(lowerQuery)) ||
+    pow.poin.includes(query)
+  );
+
+  // Combine all results
+  return { success: true, data: [...itemResults, ...conditionResults, ...powerResults] };
+};
+
+const PLIN_PATTERN = /^\d{1,4}#\d{1,2}$/;
+
+/**
+ * Registers a new player. The PLIN is chosen by the caller and must be unique.
+ */
+const createPlayer = async (player: Player): Promise<ApiResult<Player>> => {
+  await simulateDelay();
+  if (!PLIN_PATTERN.test(player.plin)) {
+    return { success: false, error: 'PLIN must be format 1234#12' };
+  }
+  if (!player.characterName.trim()) {
+    return { success: false, error: 'Character name is required' };
+  }
+  if (MOCK_PLAYERS.some(p => p.plin === player.plin)) {
+    return { success: false, error: `PLIN ${player.plin} is already registered` };
+  }
+  const newPlayer = { ...player, version: 1, updatedAt: Date.now() };
+  MOCK_PLAYERS.push(newPlayer);
+  return { success: true, data: { ...newPlayer } };
+};
+
+/**
+ * Search for a player by PLIN (Exact match).
+ */
+const searchPlayerByPlin = async (plin: string): Promise<ApiResult<Player>> => {
+  await simulateDelay();
+  const player = MOCK_PLAYERS.find(p => p.plin === plin);
+  if (player) return { success: true, data: { ...player } };
+  return { success: false, error: 'Player not found' };
+};
+
+/**
+ * Updates a player's profile found by PLIN.
+ * The PLIN itself cannot be changed; a stale `expectedVersion` is rejected with 409.
+ */
+const updatePlayer = async (plin: string, updates: Partial<Player>, options?: UpdateOptions): Promise<ApiResult<Player>> => {
+  await simulateDelay();
+  const index = MOCK_PLAYERS.findIndex(p => p.plin === plin);
+  if (index === -1) return { success: false, error: 'Player not found during update' };
+
+  const before = MOCK_PLAYERS[index];
+  const expected = options?.expectedVersion;
+  if (expected !== undefined && before.version !== expected) {
+    return {
+      success: false,
+      error: `PLIN ${plin} was changed by someone else (version ${before.version}, expected ${expected})`,
+      status: 409,
+      conflict: { ...before },
+    };
+  }
+  if (updates.characterName !== undefined && !updates.characterName.trim()) {
+    return { success: false, error: 'Character name is required' };
+  }
+
+  const { plin: _plin, version, updatedAt, ...fields } = updates;
+  MOCK_PLAYERS[index] = { ...before, ...fields, version: (before.version || 0) + 1, updatedAt: Date.now() };
+  return { success: true, data: { ...MOCK_PLAYERS[index] } };
+};
+
+/**
+ * Player search on PLIN, character name or player name (partial, case-insensitive).
+ */
+const searchPlayers = async (query: string): Promise<ApiResult<Player[]>> => {
+  await simulateDelay();
+  const lowerQuery = query.trim().toLowerCase();
+  const results = MOCK_PLAYERS.filter(p =>
+    !lowerQuery ||
+    p.plin.toLowerCase().includes(lowerQuery) ||
+    p.characterName.toLowerCase().includes(lowerQuery) ||
+    p.playerName.toLowerCase().includes(lowerQuery)
+  );
+  return { success: true, data: results.map(p => ({ ...p })) };
+};
+
+/**
+ * Collects everything linked to a PLIN (Exact match on owner / assignment PLIN).
+ * Works for unregistered PLINs too, so legacy owners can still be inspected.
+ */
+const getPlayerAssets = async (plin: string): Promise<ApiResult<PlayerAssets>> => {
+  await simulateDelay();
+  const data: PlayerAssets = {
+    items: MOCK_DB.filter(i => i.owner === plin),
+    conditions: MOCK_CONDITIONS.filter(c => c.assignments.some(a => a.plin === plin)),
+    powers: MOCK_POWERS.filter(p => p.assignments.some(a => a.plin === plin)),
+  };
+  return { success: true, data: JSON.parse(JSON.stringify(data)) };
+};
+
+/**
+ * Marks a character deceased as a single batch.
+ * Everything is validated before the first write, so the batch is applied completely or not at all:
+ * the player becomes 'dead', each owned item is kept, transferred or destroyed as requested,
+ * and every "until death" assignment of the PLIN ends on today's date.
+ * The player and each changed record get a 'death' audit entry, all with the same batch ID.
+ */
+const markPlayerDeceased = async (plin: string, request: DeathRequest): Promise<ApiResult<DeathOutcome>> => {
+  await simulateDelay();
+  const playerIndex = MOCK_PLAYERS.findIndex(p => p.plin === plin);
+  if (playerIndex === -1) return { success: false, error: 'Player not found' };
+
+  const player = MOCK_PLAYERS[playerIndex];
+  const expected = request.expectedVersion;
+  if (expected !== undefined && player.version !== expected) {
+    return {
+      success: false,
+      error: `PLIN ${plin} was changed by someone else (version ${player.version}, expected ${expected})`,
+      status: 409,
+    };
+  }
+  if (player.status === 'dead') {
+    return { success: false, error: `PLIN ${plin} is already marked deceased` };
+  }
+
+  const validationError = validateDeathChoices(plin, MOCK_DB.filter(i => i.owner === plin), request.items);
+  if (validationError) return { success: false, error: validationError };
+
+  const dateOfDeath = formatDeathDate(new Date());
+  const outcome: DeathOutcome = { player, items: [], conditions: [], powers: [] };
+  const batchId = `death-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+  request.items.forEach(choice => {
+    const updates = itemDeathUpdate(choice, dateOfDeath);
+    if (!updates) return;
+    const index = MOCK_DB.findIndex(i => i.itin === choice.itin);
+    const result = applyUpdate('item', choice.itin, MOCK_DB, index, updates, undefined, 'death', batchId);
+    if (result.data) outcome.items.push({ ...result.data });
+  });
+
+  MOCK_CONDITIONS.forEach((cond, index) => {
+    if (!hasUntilDeathAssignment(cond, plin)) return;
+    const assignments = endUntilDeathAssignments(cond.assignments, plin, dateOfDeath);
+    const result = applyUpdate('condition', cond.coin, MOCK_CONDITIONS, index, { assignments }, undefined, 'death', batchId);
+    if (result.data) outcome.conditions.push(JSON.parse(JSON.stringify(result.data)));
+  });
+
+  MOCK_POWERS.forEach((pow, index) => {
+    if (!hasUntilDeathAssignment(pow, plin)) return;
+    const assignments = endUntilDeathAssignments(pow.assignments, plin, dateOfDeath);
+    const result = applyUpdate('power', pow.poin, MOCK_POWERS, index, { assignments }, undefined, 'death', batchId);
+    if (result.data) outcome.powers.push(JSON.parse(JSON.stringify(result.data)));
+  });
+
+  MOCK_PLAYERS[playerIndex] = { ...player, status: 'dead', version: (player.version || 0) + 1, updatedAt: Date.now() };
+  outcome.player = { ...MOCK_PLAYERS[playerIndex] };
+  MOCK_AUDIT.push(buildAuditEntry('player', plin, 'death', [{ field: 'status', before: player.status, after: 'dead' }], getApiSession().user, batchId));
+  return { success: true, data: outcome };
+};
+
+/**
+ * Returns a copy of every record in the mock database.
+ */
+const exportAll = async (): Promise<ApiResult<DatabaseSnapshot>> => {
+  await simulateDelay();
+  const data: DatabaseSnapshot = { items: MOCK_DB, conditions: MOCK_CONDITIONS, powers: MOCK_POWERS, players: MOCK_PLAYERS };
+  return { success: true, data: JSON.parse(JSON.stringify(data)) };
+};
+
+/**
+ * Reserves the next `count` free IDs of a type for later (offline) creation.
+ */
+const reserveIds = async (type: EntityType, count: number): Promise<ApiResult<string[]>> => {
+  await simulateDelay();
+  const taken = new Set([...usedIds(type), ...RESERVED_IDS[type].keys()]);
+  const result = allocateIds(type, taken, count);
+  if (result.success && result.data) {
+    const userId = getApiSession().user?.id ?? null;
+    result.data.forEach(id => RESERVED_IDS[type].set(id, userId));
+  }
+  return result;
+};
+
+const reservationScope = () => RESERVATION_SCOPE;
+
+/**
+ * Returns the audit trail of one record, newest first.
+ */
+const getHistory = async (type: AuditEntityType, id: string): Promise<ApiResult<AuditEntry[]>> => {
+  await simulateDelay();
+  const entries = MOCK_AUDIT
+    .filter(e => e.entityType === type && e.entityId === id)
+    .reverse();
+  return { success: true, data: JSON.parse(JSON.stringify(entries)) };
+};
+
+const labelSignature = ({ type, id, expiry }: LabelRef): string =>
+  hmacSha256Hex(LABEL_KEY, `${type}|${id}|${expiry}`).slice(0, LABEL_SIGNATURE_LENGTH);
+
+/**
+ * Signs labels over type, ID and expiry.
+ */
+const signLabels = async (labels: LabelRef[]): Promise<ApiResult<string[]>> => {
+  await simulateDelay();
+  return { success: true, data: labels.map(labelSignature) };
+};
+
+const verifyLabel = async (label: LabelRef, signature: string): Promise<ApiResult<boolean>> => {
+  await simulateDelay();
+  return { success: true, data: constantTimeEqual(signature.toLowerCase(), labelSignature(label)) };
+};
+
+/**
+ * In-memory implementation of the DataSource contract.
+ * Default backend for development, demos and tests.
+ */
+export const mockDataSource: DataSource = {
+  createItem,
+  searchItemByItin,
+  updateItem,
+  createCondition,
+  searchConditionByCoin,
+  updateCondition,
+  createPower,
+  searchPowerByPoin,
+  updatePower,
+  searchGlobal,
+  createPlayer,
+  searchPlayerByPlin,
+  updatePlayer,
+  searchPlayers,
+  getPlayerAssets,
+  markPlayerDeceased,
+  exportAll,
+  reserveIds,
+  reservationScope,
+  getHistory,
+  signLabels,
+  verifyLabel,
+  reset
+};
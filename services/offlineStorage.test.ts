@@ -1,32 +1,74 @@
 import { describe, expect, test, beforeEach, afterEach, jest } from '@jest/globals';
 import {
   getStoredChanges,
+  countStoredChanges,
   saveStoredChange,
   deleteStoredChange,
   getNotes,
+  getNotesLinkedTo,
+  countNotes,
   saveNote,
   deleteNote,
+  closeOfflineDatabase,
   StoredChange
 } from './offlineStorage';
+import { DRAFT_SCHEMA_VERSION } from './draftSchema';
+import { announceChange } from './tabSync';
+import { setApiSession } from './session';
+import { User } from '../types';
+
+jest.mock('./tabSync', () => ({
+  announceChange: jest.fn(),
+}));
+
+const REFEREE: User = { id: 'ref-1', name: 'Referee', email: 'ref@example.com', avatar: '', role: 'referee' };
+const OTHER_REFEREE: User = { ...REFEREE, id: 'ref-2' };
 
 const MOCK_CHANGE: StoredChange = {
   id: 'test-1',
   type: 'item',
   action: 'create',
-  data: { name: 'Test' },
+  data: { name: 'Test', description: '', owner: '', expiryDate: '', remarks: '', csRemarks: '' },
   timestamp: 12345,
   title: 'Test Title',
   subtitle: 'Test Sub',
   isPinned: true,
+  schemaVersion: DRAFT_SCHEMA_VERSION,
+  userId: 'ref-1',
 };
 
+const putRawDraft = (draft: unknown) => new Promise<void>((resolve, reject) => {
+  const request = indexedDB.open('voiddex');
+  request.onsuccess = () => {
+    const tx = request.result.transaction('drafts', 'readwrite');
+    tx.objectStore('drafts').put(draft);
+    tx.oncomplete = () => {
+      request.result.close();
+      resolve();
+    };
+    tx.onerror = () => reject(tx.error);
+  };
+  request.onerror = () => reject(request.error);
+});
+
+const deleteDatabase = () => new Promise<void>((resolve, reject) => {
+  const request = indexedDB.deleteDatabase('voiddex');
+  request.onsuccess = () => resolve();
+  request.onerror = () => reject(request.error);
+});
+
 describe('Offline Storage Service', () => {
   let originalConsoleError: typeof console.error;
 
-  beforeEach(() => {
+  beforeEach(async () => {
+    // Every test starts from a fresh install
+    await closeOfflineDatabase();
+    await deleteDatabase();
     localStorage.clear();
+    setApiSession({ token: 't', user: REFEREE });
     originalConsoleError = console.error;
     console.error = jest.fn();
+    jest.mocked(announceChange).mockClear();
   });
 
   afterEach(() => {
@@ -35,42 +77,42 @@ describe('Offline Storage Service', () => {
   });
 
   describe('Drafts (StoredChanges)', () => {
-    test('seeds mock data if storage is empty', () => {
-      const changes = getStoredChanges();
+    test('seeds mock data on a fresh install', async () => {
+      const changes = await getStoredChanges();
       expect(changes.length).toBeGreaterThan(0);
       expect(changes[0].title).toBeDefined();
-
-      // Also ensure it actually wrote to localStorage
-      const raw = localStorage.getItem('voiddex_stored_changes');
-      expect(raw).toBeTruthy();
+      expect(await countStoredChanges()).toBe(changes.length);
     });
 
-    test('does not reseed when storage already populated', () => {
-      const first = getStoredChanges();
-      const len1 = first.length;
+    test('does not reseed when storage already populated', async () => {
+      await deleteStoredChange(...(await getStoredChanges()).map(c => c.id));
+      await closeOfflineDatabase();
 
-      // Second call should just read existing; length should not shrink to 0 or explode
-      const second = getStoredChanges();
-      expect(second.length).toBe(len1);
+      expect(await getStoredChanges()).toEqual([]);
     });
 
-    test('saves a new draft', () => {
-      // Initialize mocks first (seeds)
-      getStoredChanges();
+    test('returns drafts oldest first', async () => {
+      await saveStoredChange({ ...MOCK_CHANGE, id: 'newer', timestamp: Date.now() + 1000 });
+      await saveStoredChange({ ...MOCK_CHANGE, id: 'oldest', timestamp: 1 });
+
+      const ids = (await getStoredChanges()).map(c => c.id);
+      expect(ids[0]).toBe('oldest');
+      expect(ids[ids.length - 1]).toBe('newer');
+    });
 
-      saveStoredChange(MOCK_CHANGE);
-      const changes = getStoredChanges();
+    test('saves a new draft', async () => {
+      await saveStoredChange(MOCK_CHANGE);
+      const changes = await getStoredChanges();
       expect(changes).toContainEqual(MOCK_CHANGE);
     });
 
-    test('updates an existing draft and does not duplicate it', () => {
-      getStoredChanges();
-      saveStoredChange(MOCK_CHANGE);
+    test('updates an existing draft and does not duplicate it', async () => {
+      await saveStoredChange(MOCK_CHANGE);
 
       const updatedChange: StoredChange = { ...MOCK_CHANGE, title: 'Updated Title' };
-      saveStoredChange(updatedChange);
+      await saveStoredChange(updatedChange);
 
-      const changes = getStoredChanges();
+      const changes = await getStoredChanges();
       const found = changes.find(c => c.id === 'test-1');
 
       expect(found?.title).toBe('Updated Title');
@@ -78,66 +120,84 @@ describe('Offline Storage Service', () => {
       expect(changes.filter(c => c.id === 'test-1').length).toBe(1);
     });
 
-    test('preserves isPinned when updating a draft unless explicitly changed', () => {
-      getStoredChanges();
-      saveStoredChange(MOCK_CHANGE);
+    test('preserves isPinned when updating a draft unless explicitly changed', async () => {
+      await saveStoredChange(MOCK_CHANGE);
 
       // Update without changing isPinned
       const updated = { ...MOCK_CHANGE, title: 'Pinned, but updated' };
-      saveStoredChange(updated);
+      await saveStoredChange(updated);
 
-      const after = getStoredChanges();
+      const after = await getStoredChanges();
       const found = after.find(c => c.id === 'test-1');
       expect(found?.isPinned).toBe(true);
     });
 
-    test('deletes a draft by id', () => {
-      getStoredChanges();
-      saveStoredChange(MOCK_CHANGE);
+    test('deletes drafts by id', async () => {
+      await saveStoredChange(MOCK_CHANGE);
+      await saveStoredChange({ ...MOCK_CHANGE, id: 'test-2' });
 
-      deleteStoredChange('test-1');
-      const changes = getStoredChanges();
+      await deleteStoredChange('test-1', 'test-2');
+      const changes = await getStoredChanges();
       expect(changes.find(c => c.id === 'test-1')).toBeUndefined();
+      expect(changes.find(c => c.id === 'test-2')).toBeUndefined();
     });
 
-    test('deleteStoredChange on unknown id is a no-op', () => {
-      getStoredChanges();
-      const before = getStoredChanges();
-      deleteStoredChange('non-existent-id');
-      const after = getStoredChanges();
+    test('stamps the current schema version on save', async () => {
+      const { schemaVersion, ...draft } = MOCK_CHANGE;
+      await saveStoredChange(draft);
 
-      expect(after.length).toBe(before.length);
+      expect((await getStoredChanges()).find(c => c.id === 'test-1')?.schemaVersion).toBe(schemaVersion);
     });
 
-    test('handles malformed stored JSON for drafts gracefully', () => {
-      localStorage.setItem('voiddex_stored_changes', 'not-json');
-      const changes = getStoredChanges();
+    test('skips drafts that fail validation', async () => {
+      await getStoredChanges();
+      await putRawDraft({ ...MOCK_CHANGE, id: 'broken', type: 'condition', action: 'assign', data: { condition: 'nope' } });
+      await putRawDraft({ ...MOCK_CHANGE, id: 'future', schemaVersion: DRAFT_SCHEMA_VERSION + 1 });
 
-      expect(changes).toEqual([]);
+      const changes = await getStoredChanges();
+      expect(changes.find(c => c.id === 'broken' || c.id === 'future')).toBeUndefined();
+      expect(await countStoredChanges()).toBe(changes.length);
       expect(console.error).toHaveBeenCalled();
     });
-  });
-
-  describe('Notes', () => {
-    test('seeds mock notes if empty', () => {
-      const notes = getNotes();
-      expect(notes.length).toBeGreaterThan(0);
 
-      const raw = localStorage.getItem('voiddex_notes');
-      expect(raw).toBeTruthy();
+    test('upgrades drafts saved before versioning', async () => {
+      await getStoredChanges();
+      await putRawDraft({
+        id: 'old-extend',
+        type: 'power',
+        action: 'extend',
+        data: { power: { poin: '5002', name: 'Warp', description: 'Biotic Warp ability.' }, expiryDate: '31/12/2029' },
+        timestamp: 1,
+        title: 'Warp',
+        subtitle: 'Extend POIN: 5002',
+      });
+
+      const upgraded = (await getStoredChanges()).find(c => c.id === 'old-extend');
+      expect(upgraded?.schemaVersion).toBe(DRAFT_SCHEMA_VERSION);
+      expect(upgraded?.data).toEqual({
+        power: { poin: '5002', name: 'Warp', description: 'Biotic Warp ability.', assignments: [] },
+        expiryDate: '31/12/2029',
+        selectedPlins: [],
+      });
     });
 
-    test('does not reseed notes when already populated', () => {
-      const first = getNotes();
-      const len1 = first.length;
+    test('deleteStoredChange on unknown id is a no-op', async () => {
+      const before = await getStoredChanges();
+      await deleteStoredChange('non-existent-id');
+      const after = await getStoredChanges();
 
-      const second = getNotes();
-      expect(second.length).toBe(len1);
+      expect(after.length).toBe(before.length);
     });
+  });
 
-    test('saves and deletes a note', () => {
-      getNotes(); // Seed
+  describe('Notes', () => {
+    test('seeds mock notes on a fresh install', async () => {
+      const notes = await getNotes();
+      expect(notes.length).toBeGreaterThan(0);
+      expect(await countNotes()).toBe(notes.length);
+    });
 
+    test('saves and deletes a note', async () => {
       const newNote = {
         id: 'note-99',
         title: 'My Note',
@@ -146,18 +206,16 @@ describe('Offline Storage Service', () => {
         timestamp: 111,
       };
 
-      saveNote(newNote);
-      let notes = getNotes();
-      expect(notes).toContainEqual(newNote);
+      await saveNote(newNote);
+      let notes = await getNotes();
+      expect(notes).toContainEqual({ ...newNote, userId: 'ref-1' });
 
-      deleteNote('note-99');
-      notes = getNotes();
+      await deleteNote('note-99');
+      notes = await getNotes();
       expect(notes.find(n => n.id === 'note-99')).toBeUndefined();
     });
 
-    test('saveNote updates existing note instead of duplicating', () => {
-      getNotes();
-
+    test('saveNote updates existing note instead of duplicating', async () => {
       const note = {
         id: 'note-update',
         title: 'Original',
@@ -166,21 +224,100 @@ describe('Offline Storage Service', () => {
         timestamp: 1,
       };
 
-      saveNote(note);
-      saveNote({ ...note, title: 'Updated Title' });
+      await saveNote(note);
+      await saveNote({ ...note, title: 'Updated Title' });
 
-      const notes = getNotes();
+      const notes = await getNotes();
       const matches = notes.filter(n => n.id === 'note-update');
       expect(matches.length).toBe(1);
       expect(matches[0].title).toBe('Updated Title');
     });
 
-    test('handles malformed stored JSON for notes gracefully', () => {
-      localStorage.setItem('voiddex_notes', 'not-json');
-      const notes = getNotes();
+    test('looks up notes by linked record', async () => {
+      await saveNote({ id: 'note-a', title: 'A', content: '', linkedIds: ['ITIN:2002', 'PLIN:1001#01'], timestamp: 1 });
+      await saveNote({ id: 'note-b', title: 'B', content: '', linkedIds: ['ITIN:2002'], timestamp: 2 });
+
+      expect((await getNotesLinkedTo('ITIN:2002')).map(n => n.id)).toEqual(['note-a', 'note-b']);
+      expect((await getNotesLinkedTo('PLIN:1001#01')).map(n => n.id)).toEqual(['note-a']);
+      expect(await getNotesLinkedTo('COIN:9999')).toEqual([]);
+    });
+  });
+
+  describe('Ownership', () => {
+    test('keeps drafts and notes private to the user who saved them', async () => {
+      // The demo data goes to the first reader as well
+      await getStoredChanges();
+      await getNotes();
+      await saveStoredChange(MOCK_CHANGE);
+      await saveNote({ id: 'note-private', title: 'Mine', content: '', linkedIds: ['ITIN:2002'], timestamp: 1 });
+
+      setApiSession({ token: 't', user: OTHER_REFEREE });
+      expect(await getStoredChanges()).toEqual([]);
+      expect(await getNotes()).toEqual([]);
+      expect(await getNotesLinkedTo('ITIN:2002')).toEqual([]);
+      expect(await countNotes()).toBe(0);
+
+      setApiSession({ token: 't', user: REFEREE });
+      expect((await getStoredChanges()).map(c => c.id)).toContain('test-1');
+      expect((await getNotes()).map(n => n.id)).toContain('note-private');
+    });
+
+    test('gives unowned records to the first user who reads them', async () => {
+      await getStoredChanges();
+      const { userId, ...unowned } = MOCK_CHANGE;
+      await putRawDraft({ ...unowned, id: 'unowned' });
+
+      expect((await getStoredChanges()).find(c => c.id === 'unowned')?.userId).toBe('ref-1');
+      setApiSession({ token: 't', user: OTHER_REFEREE });
+      expect((await getStoredChanges()).find(c => c.id === 'unowned')).toBeUndefined();
+    });
+
+    test('reads nothing while signed out', async () => {
+      setApiSession({ token: null, user: null });
+
+      expect(await getStoredChanges()).toEqual([]);
+      expect(await getNotes()).toEqual([]);
+    });
+  });
+
+  test('tells other tabs which store a write changed', async () => {
+    await saveStoredChange(MOCK_CHANGE);
+    await deleteNote('note-mock-1');
+
+    expect(jest.mocked(announceChange).mock.calls).toEqual([['drafts'], ['notes']]);
+  });
+
+  describe('Migration from LocalStorage', () => {
+    test('moves existing drafts and notes into the database once', async () => {
+      const note = { id: 'note-legacy', title: 'Legacy', content: '', linkedIds: ['ITIN:1001'], timestamp: 5 };
+      const { schemaVersion, userId, ...legacyDraft } = MOCK_CHANGE;
+      localStorage.setItem('voiddex_stored_changes', JSON.stringify([legacyDraft]));
+      localStorage.setItem('voiddex_notes', JSON.stringify([note]));
+
+      expect(await getStoredChanges()).toEqual([MOCK_CHANGE]);
+      expect(await getNotes()).toEqual([{ ...note, userId }]);
+      expect(localStorage.getItem('voiddex_stored_changes')).toBeNull();
+      expect(localStorage.getItem('voiddex_notes')).toBeNull();
+
+      // Data written to the old keys afterwards is not imported again
+      localStorage.setItem('voiddex_notes', '[]');
+      await closeOfflineDatabase();
+      expect(await getNotes()).toEqual([{ ...note, userId }]);
+    });
+
+    test('keeps an empty list empty instead of seeding demo data', async () => {
+      localStorage.setItem('voiddex_stored_changes', '[]');
+
+      expect(await getStoredChanges()).toEqual([]);
+      expect((await getNotes()).length).toBeGreaterThan(0);
+    });
+
+    test('leaves malformed legacy data in place and logs it', async () => {
+      localStorage.setItem('voiddex_stored_changes', 'not-json');
 
-      expect(notes).toEqual([]);
+      expect(await getStoredChanges()).toEqual([]);
       expect(console.error).toHaveBeenCalled();
+      expect(localStorage.getItem('voiddex_stored_changes')).toBe('not-json');
     });
   });
 });
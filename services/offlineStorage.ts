@@ -1,286 +1,428 @@
 import { Note } from '../types';
+import { StoredChange, NewStoredChange, DRAFT_SCHEMA_VERSION, upgradeStoredChange } from './draftSchema';
+import { SyncTopic, announceChange } from './tabSync';
+import { getApiSession } from './session';
 
-export interface StoredChange {
-  id: string;
-  type: 'item' | 'condition' | 'power';
-  action: 'create' | 'recharge' | 'assign' | 'extend';
-  data: any; // Flexible payload depending on the action type
-  timestamp: number;
-  title: string;
-  subtitle: string;
-  isPinned?: boolean;
-}
+export type { StoredChange, NewStoredChange } from './draftSchema';
 
-const STORAGE_KEY = 'voiddex_stored_changes';
-const NOTES_STORAGE_KEY = 'voiddex_notes';
+// Everything lives in one IndexedDB database; records are keyed by their `id`.
+// Indexes let callers query without loading whole stores.
+// Drafts and notes belong to the user who saved them (`userId`); everyone signed in on the
+// same device only ever reads their own.
+const DB_NAME = 'voiddex';
+const DB_VERSION = 1;
+const DRAFTS_STORE = 'drafts';
+const NOTES_STORE = 'notes';
 
-/**
- * Retrieves the list of saved drafts from LocalStorage.
- * Initializes with mock data if storage is empty for demonstration purposes.
- */
-export const getStoredChanges = (): StoredChange[] => {
-  try {
-    const stored = localStorage.getItem(STORAGE_KEY);
-    if (!stored) {
-      // Seed with mock data for demonstration if empty
-      const mocks: StoredChange[] = [
-        // --- ITEMS ---
-        {
-          id: 'draft-item-create',
-          type: 'item',
-          action: 'create',
-          data: { 
-              name: 'Advanced Medkit', 
-              description: 'Heals critical wounds instantly. Restricted access.', 
-              owner: '1005#22', 
-              expiryDate: '31/12/2026', 
-              remarks: 'Prototype unit.',
-              csRemarks: ''
-          },
-          timestamp: Date.now() - 900000,
-          title: 'Advanced Medkit',
-          subtitle: 'Create Item',
-          isPinned: true
-        },
-        {
-          id: 'draft-item-recharge',
-          type: 'item',
-          action: 'recharge',
-          data: {
-              item: {
-                  itin: '1001',
-                  name: 'Plasma Rifle',
-                  description: 'Standard issue Plasma Rifle.',
-                  owner: '1001#01',
-                  expiryDate: '31/12/2025'
-              },
-              expiryDate: '31/12/2030'
+// Where drafts and notes were kept before IndexedDB; read once by the migration
+const LEGACY_DRAFTS_KEY = 'voiddex_stored_changes';
+const LEGACY_NOTES_KEY = 'voiddex_notes';
+
+// Demo data for a fresh install, so the lists are not empty on first use
+const demoDrafts = (): StoredChange[] => ([
+    // --- ITEMS ---
+    {
+      id: 'draft-item-create',
+      type: 'item',
+      action: 'create',
+      data: { 
+          name: 'Advanced Medkit', 
+          description: 'Heals critical wounds instantly. Restricted access.', 
+          owner: '1005#22', 
+          expiryDate: '31/12/2026', 
+          remarks: 'Prototype unit.',
+          csRemarks: ''
+      },
+      timestamp: Date.now() - 900000,
+      title: 'Advanced Medkit',
+      subtitle: 'Create Item',
+      isPinned: true
+    },
+    {
+      id: 'draft-item-recharge',
+      type: 'item',
+      action: 'recharge',
+      data: {
+          item: {
+              itin: '1001',
+              name: 'Plasma Rifle',
+              description: 'Standard issue Plasma Rifle.',
+              owner: '1001#01',
+              expiryDate: '31/12/2025'
           },
-          timestamp: Date.now() - 800000,
-          title: 'Plasma Rifle',
-          subtitle: 'Recharge ITIN: 1001'
-        },
-        {
-          id: 'draft-item-assign',
-          type: 'item',
-          action: 'assign',
-          data: {
-              item: {
-                  itin: '1002',
-                  name: 'Medigel Pack',
-                  description: 'Standard issue Medigel.',
-                  owner: '1002#01'
-              },
-              owner: '5555#55'
+          expiryDate: '31/12/2030'
+      },
+      timestamp: Date.now() - 800000,
+      title: 'Plasma Rifle',
+      subtitle: 'Recharge ITIN: 1001'
+    },
+    {
+      id: 'draft-item-assign',
+      type: 'item',
+      action: 'assign',
+      data: {
+          item: {
+              itin: '1002',
+              name: 'Medigel Pack',
+              description: 'Standard issue Medigel.',
+              owner: '1002#01',
+              expiryDate: '31/12/2025'
           },
-          timestamp: Date.now() - 700000,
-          title: 'Medigel Pack',
-          subtitle: 'Assign ITIN: 1002'
-        },
+          owner: '5555#55'
+      },
+      timestamp: Date.now() - 700000,
+      title: 'Medigel Pack',
+      subtitle: 'Assign ITIN: 1002'
+    },
 
-        // --- CONDITIONS ---
-        {
-            id: 'draft-cond-create',
-            type: 'condition',
-            action: 'create',
-            data: {
-                name: 'Nano-Virus',
-                description: 'Slowly consumes organic matter.',
-                owner: '',
-                expiryDate: 'until death',
-                remarks: 'Quarantine immediately.',
-                csRemarks: ''
-            },
-            timestamp: Date.now() - 600000,
-            title: 'Nano-Virus',
-            subtitle: 'Create Condition'
+    // --- CONDITIONS ---
+    {
+        id: 'draft-cond-create',
+        type: 'condition',
+        action: 'create',
+        data: {
+            name: 'Nano-Virus',
+            description: 'Slowly consumes organic matter.',
+            owner: '',
+            expiryDate: 'until death',
+            remarks: 'Quarantine immediately.',
+            csRemarks: ''
         },
-        {
-            id: 'draft-cond-extend',
-            type: 'condition',
-            action: 'extend',
-            data: {
-                condition: {
-                    coin: '8005',
-                    name: 'Frozen',
-                    description: 'Status effect: Frozen',
-                    assignments: [
-                        { plin: '1005#01', expiryDate: '31/12/2025' },
-                        { plin: '1006#01', expiryDate: '31/12/2025' }
-                    ]
-                },
-                expiryDate: '01/01/2028',
-                selectedPlins: ['1005#01', '1006#01']
+        timestamp: Date.now() - 600000,
+        title: 'Nano-Virus',
+        subtitle: 'Create Condition'
+    },
+    {
+        id: 'draft-cond-extend',
+        type: 'condition',
+        action: 'extend',
+        data: {
+            condition: {
+                coin: '8005',
+                name: 'Frozen',
+                description: 'Status effect: Frozen',
+                assignments: [
+                    { plin: '1005#01', expiryDate: '31/12/2025' },
+                    { plin: '1006#01', expiryDate: '31/12/2025' }
+                ]
             },
-            timestamp: Date.now() - 500000,
-            title: 'Frozen',
-            subtitle: 'Extend COIN: 8005'
+            expiryDate: '01/01/2028',
+            selectedPlins: ['1005#01', '1006#01']
         },
-        {
-            id: 'draft-cond-assign',
-            type: 'condition',
-            action: 'assign',
-            data: { 
-                condition: { 
-                    coin: '8006', 
-                    name: 'Burning', 
-                    description: 'Status effect: Burning', 
-                    assignments: [
-                        { plin: '2001#01', expiryDate: '01/01/2025' }
-                    ]
-                },
-                newOwner: '5555#55',
-                newExpiry: '01/01/2026',
-                selectedRemovePlins: []
+        timestamp: Date.now() - 500000,
+        title: 'Frozen',
+        subtitle: 'Extend COIN: 8005'
+    },
+    {
+        id: 'draft-cond-assign',
+        type: 'condition',
+        action: 'assign',
+        data: { 
+            condition: { 
+                coin: '8006', 
+                name: 'Burning', 
+                description: 'Status effect: Burning', 
+                assignments: [
+                    { plin: '2001#01', expiryDate: '01/01/2025' }
+                ]
             },
-            timestamp: Date.now() - 400000,
-            title: 'Burning',
-            subtitle: 'Assign COIN: 8006'
+            newOwner: '5555#55',
+            newExpiry: '01/01/2026',
+            selectedRemovePlins: []
         },
+        timestamp: Date.now() - 400000,
+        title: 'Burning',
+        subtitle: 'Assign COIN: 8006'
+    },
 
-        // --- POWERS ---
-        {
-            id: 'draft-power-create',
-            type: 'power',
-            action: 'create',
-            data: { 
-                name: 'Solar Flare', 
-                description: 'Emits a blinding burst of light affecting all targets in line of sight.', 
-                owner: 'SYSTEM', 
-                expiryDate: 'until death',
-                remarks: '',
-                csRemarks: ''
-            },
-            timestamp: Date.now() - 300000,
-            title: 'Solar Flare',
-            subtitle: 'Create Power'
+    // --- POWERS ---
+    {
+        id: 'draft-power-create',
+        type: 'power',
+        action: 'create',
+        data: { 
+            name: 'Solar Flare', 
+            description: 'Emits a blinding burst of light affecting all targets in line of sight.', 
+            owner: 'SYSTEM', 
+            expiryDate: 'until death',
+            remarks: '',
+            csRemarks: ''
         },
-        {
-            id: 'draft-power-extend',
-            type: 'power',
-            action: 'extend',
-            data: {
-                power: {
-                    poin: '5002',
-                    name: 'Warp',
-                    description: 'Biotic Warp ability.',
-                    assignments: [{ plin: '1002#01', expiryDate: '31/12/2025' }]
-                },
-                expiryDate: '31/12/2029',
-                selectedPlins: ['1002#01']
+        timestamp: Date.now() - 300000,
+        title: 'Solar Flare',
+        subtitle: 'Create Power'
+    },
+    {
+        id: 'draft-power-extend',
+        type: 'power',
+        action: 'extend',
+        data: {
+            power: {
+                poin: '5002',
+                name: 'Warp',
+                description: 'Biotic Warp ability.',
+                assignments: [{ plin: '1002#01', expiryDate: '31/12/2025' }]
             },
-            timestamp: Date.now() - 200000,
-            title: 'Warp',
-            subtitle: 'Extend POIN: 5002'
+            expiryDate: '31/12/2029',
+            selectedPlins: ['1002#01']
         },
-        {
-            id: 'draft-power-assign',
-            type: 'power',
-            action: 'assign',
-            data: {
-                power: {
-                    poin: '5005',
-                    name: 'Shockwave',
-                    description: 'Biotic Shockwave.',
-                    assignments: []
-                },
-                newOwner: '9999#99',
-                newExpiry: '01/01/2030',
-                selectedRemovePlins: []
+        timestamp: Date.now() - 200000,
+        title: 'Warp',
+        subtitle: 'Extend POIN: 5002'
+    },
+    {
+        id: 'draft-power-assign',
+        type: 'power',
+        action: 'assign',
+        data: {
+            power: {
+                poin: '5005',
+                name: 'Shockwave',
+                description: 'Biotic Shockwave.',
+                assignments: []
             },
-            timestamp: Date.now() - 100000,
-            title: 'Shockwave',
-            subtitle: 'Assign POIN: 5005'
-        }
-      ];
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(mocks));
-      return mocks;
+            newOwner: '9999#99',
+            newExpiry: '01/01/2030',
+            selectedRemovePlins: []
+        },
+        timestamp: Date.now() - 100000,
+        title: 'Shockwave',
+        subtitle: 'Assign POIN: 5005'
     }
-    return JSON.parse(stored);
+] as NewStoredChange[]).map(draft => ({ ...draft, schemaVersion: DRAFT_SCHEMA_VERSION }));
+
+const demoNotes = (): Note[] => [
+    {
+        id: 'note-mock-1',
+        title: 'Rifle Maintenance',
+        content: 'The plasma rifle (ITIN 1001) is jamming when overheated. Needs a new thermal clip connector.',
+        linkedIds: ['ITIN:1001'],
+        timestamp: Date.now() - 86400000, // 1 day ago
+        isPinned: true
+    },
+    {
+        id: 'note-mock-2',
+        title: 'Quarantine Protocol',
+        content: 'Subject exhibiting signs of Radiation Sickness (COIN 8001). Isolate immediately.',
+        linkedIds: ['COIN:8001'],
+        timestamp: Date.now() - 172800000 // 2 days ago
+    },
+    {
+        id: 'note-mock-3',
+        title: 'Biotic Training',
+        content: 'Reviewing Biotic Throw (POIN 5001) technique. Assignments pending for new recruits.',
+        linkedIds: ['POIN:5001'],
+        timestamp: Date.now() - 259200000 // 3 days ago
+    }
+];
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+/**
+ * Copies drafts and notes from LocalStorage into the new stores (part of the upgrade
+ * transaction, so it happens exactly once). Without legacy data the demo data is seeded.
+ * Returns the keys that were migrated; they are removed once the upgrade has committed.
+ * Unreadable legacy data is logged and left in LocalStorage rather than thrown away.
+ */
+const migrateFromLocalStorage = (tx: IDBTransaction): string[] => {
+  const migrated: string[] = [];
+  const sources: [string, string, () => unknown[]][] = [
+    [LEGACY_DRAFTS_KEY, DRAFTS_STORE, demoDrafts],
+    [LEGACY_NOTES_KEY, NOTES_STORE, demoNotes],
+  ];
+
+  sources.forEach(([key, storeName, demo]) => {
+    const stored = localStorage.getItem(key);
+    let records: unknown[];
+    try {
+      records = stored ? JSON.parse(stored) : demo();
+    } catch (e) {
+      console.error(`Failed to migrate ${key}`, e);
+      return;
+    }
+    const store = tx.objectStore(storeName);
+    // A record without an ID would abort the whole upgrade
+    records
+      .filter(record => typeof (record as { id?: unknown })?.id === 'string')
+      .forEach(record => store.put(record));
+    if (stored) migrated.push(key);
+  });
+
+  return migrated;
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      let migratedKeys: string[] = [];
+
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        if (event.oldVersion < 1) {
+          const drafts = db.createObjectStore(DRAFTS_STORE, { keyPath: 'id' });
+          drafts.createIndex('type', 'type');
+          drafts.createIndex('action', 'action');
+          drafts.createIndex('timestamp', 'timestamp');
+
+          const notes = db.createObjectStore(NOTES_STORE, { keyPath: 'id' });
+          notes.createIndex('timestamp', 'timestamp');
+          // One index entry per linked ID ("ITIN:1001"), so notes can be looked up by record
+          notes.createIndex('linkedIds', 'linkedIds', { multiEntry: true });
+
+          migratedKeys = migrateFromLocalStorage(request.transaction!);
+        }
+      };
+
+      request.onsuccess = () => {
+        const db = request.result;
+        migratedKeys.forEach(key => localStorage.removeItem(key));
+        // Another tab is upgrading the schema: let it, and reopen on next use
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+/**
+ * Closes the database connection; the next call reopens it. Used by tests.
+ */
+export const closeOfflineDatabase = async () => {
+  if (!dbPromise) return;
+  const pending = dbPromise;
+  dbPromise = null;
+  try {
+    (await pending).close();
   } catch (e) {
-    console.error("Failed to parse stored changes", e);
+    // Never opened; nothing to close
+  }
+};
+
+/**
+ * All records of a store in index order. Read failures are logged and give an empty list,
+ * so a broken database never takes the page down with it.
+ */
+const readAll = async <T>(storeName: string, indexName: string, query?: IDBValidKey | IDBKeyRange): Promise<T[]> => {
+  try {
+    const db = await openDatabase();
+    return await requestResult(db.transaction(storeName).objectStore(storeName).index(indexName).getAll(query));
+  } catch (e) {
+    console.error(`Failed to read ${storeName}`, e);
     return [];
   }
 };
 
+// Store names double as the tab sync topics: other open tabs reload the store after a write
+const write = async (storeName: SyncTopic, apply: (store: IDBObjectStore) => void): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(storeName, 'readwrite');
+  apply(tx.objectStore(storeName));
+  await transactionDone(tx);
+  announceChange(storeName);
+};
+
+const currentUserId = (): string | null => getApiSession().user?.id ?? null;
+
+type Owned = { userId?: unknown };
+
+/**
+ * The signed-in user's records; nothing without a signed-in user. Records from before owners
+ * were stored (and the demo data) go to the first user who reads them.
+ */
+const ownRecords = async <T>(storeName: SyncTopic, records: T[]): Promise<T[]> => {
+  const userId = currentUserId();
+  if (!userId) return [];
+  const unowned = records.filter(record => !(record as Owned).userId);
+  if (unowned.length > 0) {
+    try {
+      await write(storeName, store => unowned.forEach(record => store.put({ ...record, userId })));
+    } catch (e) {
+      console.error(`Failed to claim ${storeName}`, e);
+    }
+  }
+  return records
+    .map(record => ((record as Owned).userId ? record : { ...record, userId }))
+    .filter(record => (record as Owned).userId === userId);
+};
+
 /**
- * Saves a draft to LocalStorage.
- * If a draft with the same ID exists, it updates it. Otherwise, it appends a new one.
+ * Retrieves the saved drafts, oldest first, upgraded to the current schema version.
+ * Drafts that fail validation are logged and skipped (but kept in the database).
  */
-export const saveStoredChange = (change: StoredChange) => {
-    let changes = getStoredChanges();
-    const index = changes.findIndex(c => c.id === change.id);
-    if (index >= 0) {
-        changes[index] = change;
+export const getStoredChanges = async (): Promise<StoredChange[]> => {
+  const records = await ownRecords(DRAFTS_STORE, await readAll<unknown>(DRAFTS_STORE, 'timestamp'));
+  const changes: StoredChange[] = [];
+  records.forEach(record => {
+    const change = upgradeStoredChange(record);
+    if (change) {
+      changes.push(change);
     } else {
-        changes.push(change);
+      console.error("Skipping unreadable draft", record);
     }
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(changes));
+  });
+  return changes;
 };
 
+// Counts the usable drafts only, so the Dashboard badge matches the list
+export const countStoredChanges = async (): Promise<number> => (await getStoredChanges()).length;
+
 /**
- * Permanently removes a draft from LocalStorage by ID.
+ * Saves a draft with the current schema version, for the signed-in user unless it names its
+ * owner. If a draft with the same ID exists, it is replaced.
  */
-export const deleteStoredChange = (id: string) => {
-    let changes = getStoredChanges();
-    changes = changes.filter(c => c.id !== id);
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(changes));
+export const saveStoredChange = (change: NewStoredChange): Promise<void> => {
+  const userId = change.userId || currentUserId() || undefined;
+  return write(DRAFTS_STORE, store => store.put({ ...change, userId, schemaVersion: DRAFT_SCHEMA_VERSION }));
 };
 
+/**
+ * Permanently removes drafts by ID. Unknown IDs are ignored.
+ */
+export const deleteStoredChange = (...ids: string[]): Promise<void> =>
+  write(DRAFTS_STORE, store => ids.forEach(id => store.delete(id)));
+
 // --- NOTES STORAGE ---
 
-export const getNotes = (): Note[] => {
-  try {
-    const stored = localStorage.getItem(NOTES_STORAGE_KEY);
-    if (!stored) {
-      // Seed mock notes if empty
-      const mockNotes: Note[] = [
-        {
-            id: 'note-mock-1',
-            title: 'Rifle Maintenance',
-            content: 'The plasma rifle (ITIN 1001) is jamming when overheated. Needs a new thermal clip connector.',
-            linkedIds: ['ITIN:1001'],
-            timestamp: Date.now() - 86400000, // 1 day ago
-            isPinned: true
-        },
-        {
-            id: 'note-mock-2',
-            title: 'Quarantine Protocol',
-            content: 'Subject exhibiting signs of Radiation Sickness (COIN 8001). Isolate immediately.',
-            linkedIds: ['COIN:8001'],
-            timestamp: Date.now() - 172800000 // 2 days ago
-        },
-        {
-            id: 'note-mock-3',
-            title: 'Biotic Training',
-            content: 'Reviewing Biotic Throw (POIN 5001) technique. Assignments pending for new recruits.',
-            linkedIds: ['POIN:5001'],
-            timestamp: Date.now() - 259200000 // 3 days ago
-        }
-      ];
-      localStorage.setItem(NOTES_STORAGE_KEY, JSON.stringify(mockNotes));
-      return mockNotes;
-    }
-    return JSON.parse(stored);
-  } catch (e) {
-    console.error("Failed to parse notes", e);
-    return [];
-  }
-};
+/**
+ * Retrieves the signed-in user's notes, oldest first.
+ */
+export const getNotes = async (): Promise<Note[]> =>
+  ownRecords(NOTES_STORE, await readAll<Note>(NOTES_STORE, 'timestamp'));
 
-export const saveNote = (note: Note) => {
-  let notes = getNotes();
-  const index = notes.findIndex(n => n.id === note.id);
-  if (index >= 0) {
-    notes[index] = note;
-  } else {
-    notes.push(note);
-  }
-  localStorage.setItem(NOTES_STORAGE_KEY, JSON.stringify(notes));
+/**
+ * The signed-in user's notes linked to a record, e.g. "ITIN:1001" or "PLIN:1001#01".
+ */
+export const getNotesLinkedTo = async (linkedId: string): Promise<Note[]> =>
+  ownRecords(NOTES_STORE, await readAll<Note>(NOTES_STORE, 'linkedIds', linkedId));
+
+export const countNotes = async (): Promise<number> => (await getNotes()).length;
+
+export const saveNote = (note: Note): Promise<void> => {
+  const userId = note.userId || currentUserId() || undefined;
+  return write(NOTES_STORE, store => store.put({ ...note, userId }));
 };
 
-export const deleteNote = (id: string) => {
-  let notes = getNotes();
-  notes = notes.filter(n => n.id !== id);
-  localStorage.setItem(NOTES_STORAGE_KEY, JSON.stringify(notes));
-};
\ No newline at end of file
+export const deleteNote = (...ids: string[]): Promise<void> =>
+  write(NOTES_STORE, store => ids.forEach(id => store.delete(id)));
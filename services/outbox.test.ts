@@ -0,0 +1,241 @@
+import { describe, expect, test, jest, beforeEach } from '@jest/globals';
+// @ts-ignore – module is mocked below
+import * as api from './api';
+import { getStoredChanges, deleteStoredChange, NewStoredChange } from './offlineStorage';
+import { DRAFT_SCHEMA_VERSION } from './draftSchema';
+import { setApiSession } from './session';
+import { submitChange, syncOutbox, getOutbox, getPendingCounts, subscribeToOutbox, enqueueChange, moveOutboxToDrafts, OutboxOperation } from './outbox';
+
+jest.mock('./api', () => ({
+  createItem: jest.fn(),
+  createCondition: jest.fn(),
+  createPower: jest.fn(),
+  updateItem: jest.fn(),
+  updateCondition: jest.fn(),
+  updatePower: jest.fn(),
+  getReservationScope: jest.fn(() => 'mock:a'),
+}));
+
+const apiMock = api as jest.Mocked<typeof api>;
+
+const item = { itin: '1001', name: 'Plasma Rifle', description: '', owner: '1001#01', expiryDate: '01/01/2026', version: 3 };
+const unreachable = { success: false, error: 'Network error', status: 0 };
+
+const draftFor = (id: string): NewStoredChange => ({
+  id,
+  type: 'item',
+  action: 'recharge',
+  data: { item, expiryDate: '01/01/2030' },
+  timestamp: 1,
+  title: 'Plasma Rifle',
+  subtitle: 'Recharge ITIN: 1001',
+});
+
+const createDraft = (id: string, type: NewStoredChange['type']): NewStoredChange => ({
+  id,
+  type,
+  action: 'create',
+  data: { name: 'Medkit', description: '', owner: '', expiryDate: '', remarks: '', csRemarks: '' },
+  timestamp: 1,
+  title: 'Medkit',
+  subtitle: 'Create',
+});
+
+const referee = { id: 'ref-1', name: 'Referee Rita', email: 'rita@example.com', avatar: '', role: 'referee' as const };
+const otherReferee = { ...referee, id: 'ref-2', name: 'Referee Rob' };
+
+const recharge: OutboxOperation = { type: 'item', id: '1001', changes: { expiryDate: '01/01/2030' }, expectedVersion: 3 };
+
+describe('outbox', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    localStorage.clear();
+    setApiSession({ token: 't', user: referee });
+    // Start without drafts (a fresh database is seeded with demo ones)
+    await deleteStoredChange(...(await getStoredChanges()).map(change => change.id));
+  });
+
+  test('sends changes straight away when the data source is reachable', async () => {
+    apiMock.updateItem.mockResolvedValue({ success: true, data: { ...item, version: 4 } });
+
+    const result = await submitChange(recharge, draftFor('draft-1'));
+
+    expect(result).toEqual({ success: true, data: { ...item, version: 4 } });
+    expect(apiMock.updateItem).toHaveBeenCalledWith('1001', { expiryDate: '01/01/2030' }, { expectedVersion: 3 });
+    expect(getOutbox()).toEqual([]);
+  });
+
+  test('queues changes when the data source is unreachable', async () => {
+    apiMock.updateItem.mockResolvedValue(unreachable);
+    const listener = jest.fn();
+    const unsubscribe = subscribeToOutbox(listener);
+
+    const result = await submitChange(recharge, draftFor('draft-1'));
+    unsubscribe();
+
+    expect(result.queued).toBe(true);
+    expect(getOutbox()).toMatchObject([{ operation: recharge, draft: { id: 'draft-1' } }]);
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  test('gives queued creates a reserved ID', async () => {
+    localStorage.setItem('voiddex_reserved_ids', JSON.stringify({ owner: 'mock:a|ref-1', ids: { item: ['1026', '1027'] } }));
+    apiMock.createItem.mockResolvedValue(unreachable);
+
+    const result = await submitChange({ type: 'item', changes: { name: 'Medkit' } }, createDraft('draft-1', 'item'));
+
+    expect(result.queued).toBe(true);
+    expect(getOutbox()).toMatchObject([{
+      operation: { changes: { name: 'Medkit', itin: '1026' } },
+      draft: { data: { name: 'Medkit', itin: '1026' } },
+    }]);
+    expect(JSON.parse(localStorage.getItem('voiddex_reserved_ids')!).ids.item).toEqual(['1027']);
+  });
+
+  test.each([502, 503, 504])('keeps changes queued while a gateway answers %i', async status => {
+    apiMock.updateItem.mockResolvedValue({ success: false, error: 'Server error', status });
+
+    expect((await submitChange(recharge, draftFor('draft-1'))).queued).toBe(true);
+    expect(await syncOutbox()).toEqual({ synced: 0, failed: 0, remaining: 1 });
+    expect(await getStoredChanges()).toEqual([]);
+  });
+
+  test('does not let new changes overtake queued ones', async () => {
+    apiMock.updateItem.mockResolvedValue(unreachable);
+    enqueueChange(recharge, draftFor('draft-1'));
+
+    const result = await submitChange({ type: 'item', id: '1001', changes: { owner: '' }, expectedVersion: 3 }, draftFor('draft-2'));
+
+    expect(result.queued).toBe(true);
+    expect(getOutbox().map(entry => entry.draft.id)).toEqual(['draft-1', 'draft-2']);
+    // The only call is the sync attempt for the first change, which stays queued
+    await syncOutbox();
+    expect(apiMock.updateItem).toHaveBeenCalledTimes(1);
+    expect(apiMock.updateItem).toHaveBeenCalledWith('1001', { expiryDate: '01/01/2030' }, { expectedVersion: 3 });
+  });
+
+  test('replays in order and moves rejected changes back into the drafts', async () => {
+    enqueueChange({ type: 'item', changes: { name: 'Medkit' } }, createDraft('draft-1', 'item'));
+    enqueueChange(recharge, draftFor('draft-2'));
+    enqueueChange({ type: 'power', id: '5001', changes: { assignments: [] } }, createDraft('draft-3', 'power'));
+    apiMock.createItem.mockResolvedValue({ success: true, data: { ...item, itin: '1100', name: 'Medkit' } });
+    apiMock.updateItem.mockResolvedValue({ success: false, error: 'Conflict', status: 409 });
+    apiMock.updatePower.mockResolvedValue({ success: true, data: { poin: '5001', name: 'Warp', description: '', assignments: [] } });
+
+    const summary = await syncOutbox();
+
+    expect(summary).toEqual({ synced: 2, failed: 1, remaining: 0 });
+    expect(apiMock.createItem.mock.invocationCallOrder[0]).toBeLessThan(apiMock.updateItem.mock.invocationCallOrder[0]);
+    expect(apiMock.updateItem.mock.invocationCallOrder[0]).toBeLessThan(apiMock.updatePower.mock.invocationCallOrder[0]);
+    expect(getOutbox()).toEqual([]);
+    expect(await getStoredChanges()).toEqual([
+      { ...draftFor('draft-2'), userId: 'ref-1', syncError: 'Conflict', schemaVersion: DRAFT_SCHEMA_VERSION },
+    ]);
+  });
+
+  test('stops at the first change that still cannot be delivered', async () => {
+    enqueueChange(recharge, draftFor('draft-1'));
+    enqueueChange({ type: 'condition', id: '8001', changes: { assignments: [] } }, draftFor('draft-2'));
+    apiMock.updateItem.mockResolvedValue(unreachable);
+
+    const summary = await syncOutbox();
+
+    expect(summary).toEqual({ synced: 0, failed: 0, remaining: 2 });
+    expect(apiMock.updateCondition).not.toHaveBeenCalled();
+    expect(await getStoredChanges()).toEqual([]);
+  });
+
+  test('bases later changes to the same record on the version the replay produced', async () => {
+    enqueueChange(recharge, draftFor('draft-1'));
+    enqueueChange({ type: 'item', id: '1001', changes: { owner: '2002#01' }, expectedVersion: 3 }, draftFor('draft-2'));
+    apiMock.updateItem
+      .mockResolvedValueOnce({ success: true, data: { ...item, expiryDate: '01/01/2030', version: 4 } })
+      .mockResolvedValueOnce({ success: true, data: { ...item, owner: '2002#01', version: 5 } });
+
+    await syncOutbox();
+
+    expect(apiMock.updateItem).toHaveBeenLastCalledWith('1001', { owner: '2002#01' }, { expectedVersion: 4 });
+  });
+
+  test('counts pending changes per dashboard action', () => {
+    enqueueChange(recharge, draftFor('draft-1'));
+    enqueueChange(recharge, draftFor('draft-2'));
+    enqueueChange({ type: 'item', changes: {} }, createDraft('draft-3', 'item'));
+
+    expect(getPendingCounts()).toEqual({ 'item-recharge': 2, 'item-create': 1 });
+  });
+
+  test('only replays the changes of the user who made them', async () => {
+    enqueueChange(recharge, draftFor('draft-1'));
+    setApiSession({ token: 't', user: otherReferee });
+    apiMock.updateItem.mockResolvedValue({ success: true, data: { ...item, version: 4 } });
+
+    expect(getPendingCounts()).toEqual({});
+    expect(await syncOutbox()).toEqual({ synced: 0, failed: 0, remaining: 0 });
+    expect(apiMock.updateItem).not.toHaveBeenCalled();
+
+    // Not queued behind someone else's change either
+    expect((await submitChange(recharge, draftFor('draft-2'))).success).toBe(true);
+    expect(getOutbox().map(entry => entry.draft.id)).toEqual(['draft-1']);
+  });
+
+  test('does not try to sync while the browser is offline', async () => {
+    enqueueChange(recharge, draftFor('draft-1'));
+    const onLine = jest.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+    try {
+      expect((await submitChange(recharge, draftFor('draft-2'))).queued).toBe(true);
+    } finally {
+      onLine.mockRestore();
+    }
+    expect(apiMock.updateItem).not.toHaveBeenCalled();
+  });
+
+  test('leaves the replay to the tab holding the sync lease', async () => {
+    apiMock.updateItem.mockResolvedValue({ success: true, data: { ...item, version: 4 } });
+    enqueueChange(recharge, draftFor('draft-1'));
+    localStorage.setItem('voiddex_outbox_sync', JSON.stringify({ tab: 'other-tab', expiresAt: Date.now() + 10000 }));
+
+    expect(await syncOutbox()).toEqual({ synced: 0, failed: 0, remaining: 1 });
+    expect(apiMock.updateItem).not.toHaveBeenCalled();
+
+    // A lease the other tab did not renew in time is taken over, and released afterwards
+    localStorage.setItem('voiddex_outbox_sync', JSON.stringify({ tab: 'other-tab', expiresAt: Date.now() - 1 }));
+    expect(await syncOutbox()).toEqual({ synced: 1, failed: 0, remaining: 0 });
+    expect(localStorage.getItem('voiddex_outbox_sync')).toBeNull();
+  });
+
+  test('uses the Web Locks API where the browser has it', async () => {
+    apiMock.updateItem.mockResolvedValue({ success: true, data: { ...item, version: 4 } });
+    enqueueChange(recharge, draftFor('draft-1'));
+    let held = true;
+    const request = jest.fn(async (_name: string, _options: LockOptions, callback: LockGrantedCallback) =>
+      callback(held ? null : ({ name: 'voiddex_outbox_sync', mode: 'exclusive' } as Lock)));
+    Object.defineProperty(navigator, 'locks', { configurable: true, value: { request } });
+    try {
+      expect(await syncOutbox()).toEqual({ synced: 0, failed: 0, remaining: 1 });
+      expect(request).toHaveBeenCalledWith('voiddex_outbox_sync', { ifAvailable: true }, expect.any(Function));
+      expect(apiMock.updateItem).not.toHaveBeenCalled();
+
+      held = false;
+      expect(await syncOutbox()).toEqual({ synced: 1, failed: 0, remaining: 0 });
+    } finally {
+      delete (navigator as any).locks;
+    }
+  });
+
+  test('moves the queued changes into the drafts on logout', async () => {
+    enqueueChange(recharge, draftFor('draft-1'));
+    setApiSession({ token: 't', user: otherReferee });
+    enqueueChange(recharge, draftFor('draft-2'));
+
+    expect(await moveOutboxToDrafts(referee.id)).toBe(1);
+
+    expect(getOutbox()).toMatchObject([{ userId: 'ref-2', draft: { id: 'draft-2' } }]);
+    // The drafts are only listed for the user who made the changes
+    expect(await getStoredChanges()).toEqual([]);
+    setApiSession({ token: 't', user: referee });
+    expect(await getStoredChanges()).toEqual([
+      { ...draftFor('draft-1'), userId: 'ref-1', syncError: 'Not sent before signing out', schemaVersion: DRAFT_SCHEMA_VERSION },
+    ]);
+  });
+});
@@ -0,0 +1,318 @@
+import { ApiResult, EntityType, Item, Condition, Power } from '../types';
+import { createItem, createCondition, createPower, updateItem, updateCondition, updatePower } from './api';
+import { NewStoredChange, saveStoredChange } from './offlineStorage';
+import { takeReservedId } from './idReservations';
+import { getApiSession } from './session';
+
+/**
+ * A create or update as sent to the data source: `id` is the record to update,
+ * without it `changes` is the full record to create.
+ */
+export interface OutboxOperation {
+  type: EntityType;
+  id?: string;
+  changes: Record<string, any>;
+  expectedVersion?: number;
+}
+
+/**
+ * A change made while the data source was unreachable, waiting to be replayed.
+ * `draft` is what the page would have saved as a draft; it goes back into the
+ * drafts list (with `syncError`) if the server rejects the change on replay.
+ * Only `userId`, who made the change, replays it: the queue is shared by everyone on the device.
+ */
+export interface OutboxEntry {
+  id: string;
+  userId: string | null;
+  timestamp: number;
+  operation: OutboxOperation;
+  draft: NewStoredChange;
+}
+
+export type OutboxResult<T> = ApiResult<T> & { queued?: boolean };
+
+export const QUEUED_MESSAGE = 'Offline: change saved on this device and will sync when the connection returns.';
+
+const OUTBOX_KEY = 'voiddex_outbox';
+
+// Retry interval while changes are waiting; the 'online' event usually triggers a sync sooner
+const SYNC_INTERVAL_MS = 60 * 1000;
+
+// Every tab reads the same outbox, so only the tab holding this lock replays it
+const SYNC_LOCK_KEY = 'voiddex_outbox_sync';
+// Lifetime of the LocalStorage lease used without the Web Locks API; renewed per change sent
+const SYNC_LEASE_MS = 30 * 1000;
+const TAB_ID = Math.random().toString(36).slice(2, 10);
+
+type OutboxListener = (entries: OutboxEntry[]) => void;
+const listeners = new Set<OutboxListener>();
+
+/**
+ * Queued changes from LocalStorage, oldest first (replay order).
+ */
+export const getOutbox = (): OutboxEntry[] => {
+  try {
+    const stored = localStorage.getItem(OUTBOX_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (e) {
+    console.error("Failed to parse outbox", e);
+    return [];
+  }
+};
+
+const currentUserId = (): string | null => getApiSession().user?.id ?? null;
+
+/**
+ * The signed-in user's queued changes, oldest first.
+ */
+export const getOwnOutbox = (): OutboxEntry[] => {
+  const userId = currentUserId();
+  return userId ? getOutbox().filter(entry => entry.userId === userId) : [];
+};
+
+const writeOutbox = (entries: OutboxEntry[]) => {
+  localStorage.setItem(OUTBOX_KEY, JSON.stringify(entries));
+  listeners.forEach(listener => listener(entries));
+};
+
+/**
+ * Subscribes to outbox changes (queued, synced or failed). Returns the unsubscribe function.
+ */
+export const subscribeToOutbox = (listener: OutboxListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Number of the signed-in user's queued changes per Dashboard action, keyed `type-action`
+ * (e.g. "item-recharge").
+ */
+export const getPendingCounts = (entries: OutboxEntry[] = getOutbox()): Record<string, number> => {
+  const userId = currentUserId();
+  const counts: Record<string, number> = {};
+  entries.filter(entry => entry.userId === userId).forEach(({ draft }) => {
+    const key = `${draft.type}-${draft.action}`;
+    counts[key] = (counts[key] || 0) + 1;
+  });
+  return counts;
+};
+
+const ID_KEYS: Record<EntityType, 'itin' | 'coin' | 'poin'> = { item: 'itin', condition: 'coin', power: 'poin' };
+
+/**
+ * Queues a change. A create without an ID takes one from the reserved pool (when there is
+ * one left), so the record keeps the same ID in the draft and on the server.
+ */
+export const enqueueChange = (operation: OutboxOperation, draft: NewStoredChange): OutboxEntry => {
+  const timestamp = Date.now();
+  const idKey = ID_KEYS[operation.type];
+  const reservedId = operation.id === undefined && !operation.changes[idKey] ? takeReservedId(operation.type) : null;
+  const entry: OutboxEntry = {
+    id: `outbox-${timestamp}-${Math.random().toString(36).slice(2, 8)}`,
+    userId: currentUserId(),
+    timestamp,
+    operation: reservedId ? { ...operation, changes: { ...operation.changes, [idKey]: reservedId } } : operation,
+    draft: reservedId ? { ...draft, data: { ...draft.data, [idKey]: reservedId } } as NewStoredChange : draft,
+  };
+  writeOutbox([...getOutbox(), entry]);
+  return entry;
+};
+
+const sendOperation = ({ type, id, changes, expectedVersion }: OutboxOperation): Promise<ApiResult<Item | Condition | Power>> => {
+  if (id === undefined) {
+    if (type === 'condition') return createCondition(changes as Omit<Condition, 'coin'>);
+    if (type === 'power') return createPower(changes as Omit<Power, 'poin'>);
+    return createItem(changes as Omit<Item, 'itin'>);
+  }
+  const options = { expectedVersion };
+  if (type === 'condition') return updateCondition(id, changes, options);
+  if (type === 'power') return updatePower(id, changes, options);
+  return updateItem(id, changes, options);
+};
+
+// No connection (0), or a proxy or gateway answering for a server that is down or restarting
+const RETRYABLE_STATUSES = [0, 502, 503, 504];
+
+/**
+ * Whether a failed write never reached the data source, so it can be sent again unchanged.
+ */
+export const isUnreachable = (result: ApiResult<unknown>) =>
+  !result.success && result.status !== undefined && RETRYABLE_STATUSES.includes(result.status);
+
+/**
+ * Sends a change, or queues it when the data source cannot be reached.
+ * While older changes are still queued, new ones queue behind them so they reach
+ * the server in the order they were made. Queued results have `queued: true`.
+ */
+export const submitChange = async <T extends Item | Condition | Power>(
+  operation: OutboxOperation,
+  draft: NewStoredChange
+): Promise<OutboxResult<T>> => {
+  if (getOwnOutbox().length > 0 || !navigator.onLine) {
+    enqueueChange(operation, draft);
+    if (navigator.onLine) syncOutbox().catch(e => console.error("Outbox sync failed", e));
+    return { success: false, queued: true, status: 0, error: 'Queued for sync' };
+  }
+
+  const result = await sendOperation(operation) as ApiResult<T>;
+  if (isUnreachable(result)) {
+    enqueueChange(operation, draft);
+    return { ...result, queued: true };
+  }
+  return result;
+};
+
+export interface SyncSummary {
+  synced: number;
+  failed: number;
+  remaining: number;
+}
+
+/**
+ * Replays the outbox while `keepLock` confirms this tab still holds the sync lock.
+ */
+const replayOutbox = async (keepLock: () => boolean): Promise<SyncSummary> => {
+  let synced = 0;
+  let failed = 0;
+  // Record versions the replay itself produced: a later queued change to the same record
+  // was based on the version before the earlier one, not on someone else's edit
+  const replayedVersions = new Map<string, { from?: number; to?: number }>();
+
+  let entries = getOwnOutbox();
+  while (entries.length > 0 && keepLock()) {
+    const entry = entries[0];
+    const operation = { ...entry.operation };
+    const key = `${operation.type}:${operation.id}`;
+    const replayed = replayedVersions.get(key);
+    if (operation.id !== undefined && replayed && replayed.from === operation.expectedVersion) {
+      operation.expectedVersion = replayed.to;
+    }
+
+    let result: ApiResult<Item | Condition | Power>;
+    try {
+      result = await sendOperation(operation);
+    } catch (e) {
+      console.error("Outbox replay error", e);
+      break;
+    }
+    // Still unreachable: keep this change and everything after it for the next attempt
+    if (isUnreachable(result)) break;
+
+    if (result.success) {
+      synced++;
+      if (operation.id !== undefined) {
+        replayedVersions.set(key, { from: entry.operation.expectedVersion, to: result.data?.version });
+      }
+    } else {
+      failed++;
+      await saveStoredChange({ ...entry.draft, userId: entry.userId || undefined, syncError: result.error || 'Sync failed' });
+    }
+
+    // Re-read: changes may have been queued while this one was in flight
+    writeOutbox(getOutbox().filter(e => e.id !== entry.id));
+    entries = getOwnOutbox();
+  }
+
+  return { synced, failed, remaining: entries.length };
+};
+
+interface SyncLease {
+  tab: string;
+  expiresAt: number;
+}
+
+const readSyncLease = (): SyncLease | null => {
+  try {
+    return JSON.parse(localStorage.getItem(SYNC_LOCK_KEY) || 'null');
+  } catch (e) {
+    return null;
+  }
+};
+
+/**
+ * Takes or renews the LocalStorage lease. Reading it back settles two tabs writing at once:
+ * only the tab whose write landed last goes ahead.
+ */
+const takeSyncLease = (): boolean => {
+  const lease = readSyncLease();
+  if (lease && lease.tab !== TAB_ID && lease.expiresAt > Date.now()) return false;
+  const next: SyncLease = { tab: TAB_ID, expiresAt: Date.now() + SYNC_LEASE_MS };
+  localStorage.setItem(SYNC_LOCK_KEY, JSON.stringify(next));
+  return readSyncLease()?.tab === TAB_ID;
+};
+
+const releaseSyncLease = () => {
+  if (readSyncLease()?.tab === TAB_ID) localStorage.removeItem(SYNC_LOCK_KEY);
+};
+
+/**
+ * Replays under the cross-tab lock: the Web Locks API where the browser has it, else the lease.
+ * While another tab holds the lock nothing is sent here.
+ */
+const replayWithLock = async (): Promise<SyncSummary> => {
+  const skipped = (): SyncSummary => ({ synced: 0, failed: 0, remaining: getOwnOutbox().length });
+
+  if (typeof navigator.locks !== 'undefined') {
+    return navigator.locks.request(SYNC_LOCK_KEY, { ifAvailable: true }, lock =>
+      (lock ? replayOutbox(() => true) : skipped()));
+  }
+
+  if (!takeSyncLease()) return skipped();
+  try {
+    return await replayOutbox(takeSyncLease);
+  } finally {
+    releaseSyncLease();
+  }
+};
+
+let activeSync: Promise<SyncSummary> | null = null;
+
+/**
+ * Replays queued changes in order. Changes the server rejects (conflict, validation)
+ * are moved to the drafts list with the error; replay continues with the next one.
+ * Concurrent calls share the sync in progress; other tabs wait for it to finish.
+ */
+export const syncOutbox = (): Promise<SyncSummary> => {
+  if (!activeSync) {
+    activeSync = replayWithLock().finally(() => {
+      activeSync = null;
+    });
+  }
+  return activeSync;
+};
+
+/**
+ * Syncs now, whenever the browser comes back online, and periodically while changes are
+ * waiting (the network can be up while the server is not). Returns the cleanup function.
+ */
+export const startOutboxSync = (): (() => void) => {
+  const sync = () => {
+    if (navigator.onLine && getOwnOutbox().length > 0) syncOutbox().catch(e => console.error("Outbox sync failed", e));
+  };
+
+  sync();
+  window.addEventListener('online', sync);
+  const intervalId = setInterval(sync, SYNC_INTERVAL_MS);
+
+  return () => {
+    window.removeEventListener('online', sync);
+    clearInterval(intervalId);
+  };
+};
+
+/**
+ * Moves a user's queued changes (and any without an owner) back into their drafts list,
+ * so nobody who signs in after them replays or reads their changes. Called on logout.
+ */
+export const moveOutboxToDrafts = async (userId: string): Promise<number> => {
+  const moved = getOutbox().filter(entry => !entry.userId || entry.userId === userId);
+  if (moved.length === 0) return 0;
+  for (const entry of moved) {
+    await saveStoredChange({ ...entry.draft, userId, syncError: 'Not sent before signing out' });
+  }
+  const movedIds = new Set(moved.map(entry => entry.id));
+  writeOutbox(getOutbox().filter(entry => !movedIds.has(entry.id)));
+  return moved.length;
+};
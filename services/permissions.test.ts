@@ -0,0 +1,38 @@
+import { describe, expect, test } from '@jest/globals';
+import { hasPermission, isUserRole } from './permissions';
+import { User } from '../types';
+
+const userWith = (role: User['role']): User => ({ id: 'u1', name: 'Test', email: 't@example.com', avatar: '', role });
+
+describe('permissions', () => {
+  test('players can only look records up', () => {
+    const player = userWith('player');
+    expect(hasPermission(player, 'create-records')).toBe(false);
+    expect(hasPermission(player, 'update-records')).toBe(false);
+    expect(hasPermission(player, 'cs-remarks')).toBe(false);
+  });
+
+  test('referees manage records and players but not CS remarks, imports or deaths', () => {
+    const referee = userWith('referee');
+    expect(hasPermission(referee, 'create-records')).toBe(true);
+    expect(hasPermission(referee, 'manage-players')).toBe(true);
+    expect(hasPermission(referee, 'print-labels')).toBe(true);
+    expect(hasPermission(referee, 'import-data')).toBe(false);
+    expect(hasPermission(referee, 'cs-remarks')).toBe(false);
+    expect(hasPermission(referee, 'mark-deceased')).toBe(false);
+  });
+
+  test('Character Services may do everything', () => {
+    const cs = userWith('cs');
+    expect(hasPermission(cs, 'import-data')).toBe(true);
+    expect(hasPermission(cs, 'cs-remarks')).toBe(true);
+    expect(hasPermission(cs, 'mark-deceased')).toBe(true);
+  });
+
+  test('nothing is allowed without a user or with an unknown role', () => {
+    expect(hasPermission(null, 'create-records')).toBe(false);
+    expect(hasPermission({ ...userWith('cs'), role: 'admin' as User['role'] }, 'create-records')).toBe(false);
+    expect(isUserRole('admin')).toBe(false);
+    expect(isUserRole('referee')).toBe(true);
+  });
+});
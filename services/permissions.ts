@@ -0,0 +1,34 @@
+import { User, UserRole } from '../types';
+
+/**
+ * What each role may do. Checked by App's route guards and the pages (to hide actions) and
+ * again by the data layer in api.ts, which refuses the call and redacts CS remarks.
+ */
+export type Permission =
+  | 'create-records' // Create items, conditions and powers
+  | 'update-records' // Recharge, assign, extend and bulk update them
+  | 'manage-players' // Register and edit players
+  | 'mark-deceased' // Mark characters deceased and decide what happens to their items
+  | 'view-all-records' // Without it, only records linked to the user's own PLINs
+  | 'print-labels'
+  | 'export-data'
+  | 'import-data'
+  | 'cs-remarks'; // Read and write CS remarks
+
+// Least to most privileged
+export const USER_ROLES: UserRole[] = ['player', 'referee', 'cs'];
+
+const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  // Looks up their own characters and keeps notes
+  player: [],
+  referee: ['create-records', 'update-records', 'manage-players', 'view-all-records', 'print-labels', 'export-data'],
+  cs: ['create-records', 'update-records', 'manage-players', 'mark-deceased', 'view-all-records', 'print-labels', 'export-data', 'import-data', 'cs-remarks'],
+};
+
+export const isUserRole = (value: unknown): value is UserRole => USER_ROLES.includes(value as UserRole);
+
+/**
+ * Whether the user may do this; without a signed-in user, nothing is allowed.
+ */
+export const hasPermission = (user: User | null | undefined, permission: Permission): boolean =>
+  !!user && (ROLE_PERMISSIONS[user.role] ?? []).includes(permission);
@@ -0,0 +1,111 @@
+import { describe, expect, test } from '@jest/globals';
+import { encodeQr, qrToSvg, reedSolomonRemainder, formatInfoBits, deepLinkUrl, QrMatrix, QrErrorCorrection } from './qrCode';
+
+const MASKS: ((x: number, y: number) => boolean)[] = [
+  (x, y) => (x + y) % 2 === 0,
+  (_x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+];
+
+/**
+ * Independent reader for small single-block symbols (versions 1-3 at level M):
+ * reads the format info, unmasks, walks the zigzag and splits data from EC codewords.
+ */
+const readSymbol = (modules: QrMatrix) => {
+  const size = modules.length;
+  const version = (size - 17) / 4;
+
+  let format = 0;
+  const formatCells: [number, number][] = [
+    [0, 8], [1, 8], [2, 8], [3, 8], [4, 8], [5, 8], [7, 8], [8, 8], [8, 7], [8, 5], [8, 4], [8, 3], [8, 2], [8, 1], [8, 0],
+  ];
+  formatCells.forEach(([y, x], i) => { if (modules[y][x]) format |= 1 << i; });
+  let ecl: QrErrorCorrection = 'M';
+  let mask = -1;
+  (['L', 'M', 'Q', 'H'] as QrErrorCorrection[]).forEach(level => {
+    for (let m = 0; m < 8; m++) {
+      if (formatInfoBits(level, m) === format) {
+        ecl = level;
+        mask = m;
+      }
+    }
+  });
+
+  const align = version >= 2 ? size - 7 : -100;
+  const isFunction = (x: number, y: number) =>
+    (x < 9 && y < 9) || (x >= size - 8 && y < 9) || (x < 9 && y >= size - 8) || x === 6 || y === 6 ||
+    (Math.abs(x - align) <= 2 && Math.abs(y - align) <= 2);
+
+  const bits: number[] = [];
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    for (let vert = 0; vert < size; vert++) {
+      for (let j = 0; j < 2; j++) {
+        const x = right - j;
+        const y = ((right + 1) & 2) === 0 ? size - 1 - vert : vert;
+        if (!isFunction(x, y)) bits.push(modules[y][x] !== MASKS[mask](x, y) ? 1 : 0);
+      }
+    }
+  }
+  const codewords: number[] = [];
+  for (let i = 0; i + 8 <= bits.length; i += 8) codewords.push(bits.slice(i, i + 8).reduce((a, b) => (a << 1) | b, 0));
+
+  const eccLength = [0, 10, 16, 26][version];
+  const data = codewords.slice(0, codewords.length - eccLength);
+  const ecc = codewords.slice(codewords.length - eccLength);
+  const length = ((data[0] & 0x0F) << 4) | (data[1] >> 4);
+  const bytes = Array.from({ length }, (_, i) => ((data[1 + i] & 0x0F) << 4) | (data[2 + i] >> 4));
+  return { ecl, mode: data[0] >> 4, text: new TextDecoder().decode(new Uint8Array(bytes)), data, ecc, eccLength };
+};
+
+describe('QR code generator', () => {
+  test('computes Reed-Solomon codewords (HELLO WORLD 1-M reference)', () => {
+    const data = [32, 91, 11, 120, 209, 114, 220, 77, 67, 64, 236, 17, 236, 17, 236, 17];
+    expect(reedSolomonRemainder(data, 10)).toEqual([196, 35, 39, 119, 235, 215, 231, 226, 93, 23]);
+  });
+
+  test('computes format information', () => {
+    expect(formatInfoBits('M', 0)).toBe(0b101010000010010);
+    expect(formatInfoBits('L', 0)).toBe(0b111011111000100);
+  });
+
+  test('picks the smallest version and draws finder patterns', () => {
+    expect(encodeQr('ITIN 1234')).toHaveLength(21);
+    const url = 'https://voiddex.app/conditions/8001';
+    const modules = encodeQr(url);
+    expect(modules).toHaveLength(29);
+
+    // Finder ring: dark border, light separator, dark 3x3 core
+    expect(modules[0].slice(0, 8)).toEqual([true, true, true, true, true, true, true, false]);
+    expect(modules[1].slice(0, 7)).toEqual([true, false, false, false, false, false, true]);
+    expect(modules[3][3]).toBe(true);
+    // Always-dark module next to the bottom-left finder
+    expect(modules[29 - 8][8]).toBe(true);
+
+    expect(() => encodeQr('x'.repeat(300))).toThrow('Text is too long for a QR label');
+  });
+
+  test('encodes the text so a reader recovers it with valid error correction', () => {
+    for (const text of ['https://voiddex.app/items/1234', 'POIN 5001', 'Möbius']) {
+      const symbol = readSymbol(encodeQr(text));
+      expect(symbol.ecl).toBe('M');
+      expect(symbol.mode).toBe(0x4);
+      expect(symbol.text).toBe(text);
+      expect(reedSolomonRemainder(symbol.data, symbol.eccLength)).toEqual(symbol.ecc);
+    }
+  });
+
+  test('renders SVG with a quiet zone and builds deep links', () => {
+    const svg = qrToSvg(encodeQr('COIN 8001'));
+    expect(svg).toContain('viewBox="0 0 29 29"');
+    expect(svg).toContain('M4,4h1v1h-1z');
+
+    expect(deepLinkUrl('item', '1234')).toBe(`${window.location.origin}/items/1234`);
+    expect(deepLinkUrl('power', '5001')).toMatch(/\/powers\/5001$/);
+  });
+});
@@ -0,0 +1,340 @@
+import { EntityType } from '../types';
+import { getAppConfig } from './config';
+
+/**
+ * Minimal QR Code generator (ISO/IEC 18004), byte mode only, versions 1-10.
+ * Labels only ever carry short deep-link URLs, which fit comfortably in that range,
+ * so the larger versions and the other segment modes are left out.
+ */
+
+export type QrErrorCorrection = 'L' | 'M' | 'Q' | 'H';
+
+/** A square grid of modules; `true` is dark. Indexed as `modules[y][x]`. */
+export type QrMatrix = boolean[][];
+
+const MAX_VERSION = 10;
+
+// Per level: 2-bit format value and, per version (index 0 unused), EC codewords per block / block count
+const ECC_LEVELS: Record<QrErrorCorrection, { formatBits: number, codewordsPerBlock: number[], blocks: number[] }> = {
+  L: { formatBits: 1, codewordsPerBlock: [-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18], blocks: [-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4] },
+  M: { formatBits: 0, codewordsPerBlock: [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26], blocks: [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5] },
+  Q: { formatBits: 3, codewordsPerBlock: [-1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24], blocks: [-1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8] },
+  H: { formatBits: 2, codewordsPerBlock: [-1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28], blocks: [-1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8] },
+};
+
+const getBit = (value: number, index: number): boolean => ((value >>> index) & 1) !== 0;
+
+/** Modules available for data + EC codewords (everything but function patterns). */
+const numRawDataModules = (version: number): number => {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const numAlign = Math.floor(version / 7) + 2;
+    result -= (25 * numAlign - 10) * numAlign - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+};
+
+const numDataCodewords = (version: number, ecl: QrErrorCorrection): number =>
+  Math.floor(numRawDataModules(version) / 8) - ECC_LEVELS[ecl].codewordsPerBlock[version] * ECC_LEVELS[ecl].blocks[version];
+
+const alignmentPositions = (version: number): number[] => {
+  if (version === 1) return [];
+  const size = version * 4 + 17;
+  const numAlign = Math.floor(version / 7) + 2;
+  const step = Math.ceil((version * 4 + 4) / (numAlign * 2 - 2)) * 2;
+  const result = [6];
+  for (let pos = size - 7; result.length < numAlign; pos -= step) result.splice(1, 0, pos);
+  return result;
+};
+
+// --- Reed-Solomon over GF(2^8) with polynomial 0x11D ---
+
+const gfMultiply = (x: number, y: number): number => {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11D);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+};
+
+const rsDivisor = (degree: number): number[] => {
+  const result = new Array(degree - 1).fill(0).concat([1]);
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < result.length) result[j] ^= result[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+};
+
+/** Error correction codewords for one block of data codewords. */
+export const reedSolomonRemainder = (data: number[], degree: number): number[] => {
+  const divisor = rsDivisor(degree);
+  const result = divisor.map(() => 0);
+  for (const b of data) {
+    const factor = b ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coef, i) => { result[i] ^= gfMultiply(coef, factor); });
+  }
+  return result;
+};
+
+/** Splits data into blocks, appends EC codewords to each and interleaves them. */
+const addEccAndInterleave = (data: number[], version: number, ecl: QrErrorCorrection): number[] => {
+  const numBlocks = ECC_LEVELS[ecl].blocks[version];
+  const blockEccLen = ECC_LEVELS[ecl].codewordsPerBlock[version];
+  const rawCodewords = Math.floor(numRawDataModules(version) / 8);
+  const numShortBlocks = numBlocks - (rawCodewords % numBlocks);
+  const shortBlockLen = Math.floor(rawCodewords / numBlocks);
+
+  const blocks: number[][] = [];
+  for (let i = 0, k = 0; i < numBlocks; i++) {
+    const dat = data.slice(k, k + shortBlockLen - blockEccLen + (i < numShortBlocks ? 0 : 1));
+    k += dat.length;
+    const ecc = reedSolomonRemainder(dat, blockEccLen);
+    if (i < numShortBlocks) dat.push(0);
+    blocks.push(dat.concat(ecc));
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      // Skip the padding byte of short blocks
+      if (i !== shortBlockLen - blockEccLen || j >= numShortBlocks) result.push(block[i]);
+    });
+  }
+  return result;
+};
+
+/** Byte-mode bit stream, terminated and padded to the version's data capacity. */
+const encodeData = (bytes: number[], version: number, ecl: QrErrorCorrection): number[] => {
+  const bits: number[] = [];
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+  append(0x4, 4);
+  append(bytes.length, version <= 9 ? 8 : 16);
+  bytes.forEach(b => append(b, 8));
+
+  const capacityBits = numDataCodewords(version, ecl) * 8;
+  append(0, Math.min(4, capacityBits - bits.length));
+  append(0, (8 - (bits.length % 8)) % 8);
+  for (let pad = 0xEC; bits.length < capacityBits; pad ^= 0xEC ^ 0x11) append(pad, 8);
+
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((acc, bit) => (acc << 1) | bit, 0));
+  }
+  return codewords;
+};
+
+const MASKS: ((x: number, y: number) => boolean)[] = [
+  (x, y) => (x + y) % 2 === 0,
+  (_x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+];
+
+/** 15-bit format information (EC level + mask, BCH protected and XOR-masked). */
+export const formatInfoBits = (ecl: QrErrorCorrection, mask: number): number => {
+  const data = (ECC_LEVELS[ecl].formatBits << 3) | mask;
+  let rem = data;
+  for (let i = 0; i < 10; i++) rem = (rem << 1) ^ ((rem >>> 9) * 0x537);
+  return ((data << 10) | rem) ^ 0x5412;
+};
+
+/**
+ * Penalty score of a finished symbol (lower is better), used to pick the mask.
+ * Covers the four rules of the standard: long runs, 2x2 blocks, finder-like patterns, dark balance.
+ */
+const penaltyScore = (modules: QrMatrix): number => {
+  const size = modules.length;
+  let result = 0;
+  const lines: boolean[][] = [];
+  for (let i = 0; i < size; i++) {
+    lines.push(modules[i]);
+    lines.push(modules.map(row => row[i]));
+  }
+
+  const finderLike = [true, false, true, true, true, false, true];
+  for (const line of lines) {
+    let runLength = 1;
+    for (let i = 1; i <= size; i++) {
+      if (i < size && line[i] === line[i - 1]) {
+        runLength++;
+      } else {
+        if (runLength >= 5) result += runLength - 2;
+        runLength = 1;
+      }
+    }
+    for (let i = 0; i + 7 <= size; i++) {
+      if (!finderLike.every((dark, k) => line[i + k] === dark)) continue;
+      const lightBefore = [1, 2, 3, 4].every(k => i - k < 0 || !line[i - k]);
+      const lightAfter = [0, 1, 2, 3].every(k => i + 7 + k >= size || !line[i + 7 + k]);
+      if (lightBefore || lightAfter) result += 40;
+    }
+  }
+
+  let dark = 0;
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      if (modules[y][x]) dark++;
+      if (x < size - 1 && y < size - 1) {
+        const color = modules[y][x];
+        if (color === modules[y][x + 1] && color === modules[y + 1][x] && color === modules[y + 1][x + 1]) result += 3;
+      }
+    }
+  }
+  const total = size * size;
+  result += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10;
+  return result;
+};
+
+/**
+ * Encodes text (as UTF-8) into a QR symbol using the smallest version that fits.
+ * Throws if the text does not fit into version 10 at the requested level.
+ */
+export const encodeQr = (text: string, ecl: QrErrorCorrection = 'M'): QrMatrix => {
+  const bytes = Array.from(new TextEncoder().encode(text));
+  let version = 1;
+  for (; version <= MAX_VERSION; version++) {
+    const neededBits = 4 + (version <= 9 ? 8 : 16) + bytes.length * 8;
+    if (neededBits <= numDataCodewords(version, ecl) * 8) break;
+  }
+  if (version > MAX_VERSION) throw new Error('Text is too long for a QR label');
+
+  const size = version * 4 + 17;
+  const modules: QrMatrix = Array.from({ length: size }, () => new Array(size).fill(false));
+  const isFunction: boolean[][] = Array.from({ length: size }, () => new Array(size).fill(false));
+  const setFunction = (x: number, y: number, dark: boolean) => {
+    modules[y][x] = dark;
+    isFunction[y][x] = true;
+  };
+
+  // Timing patterns, then finders (with separators) on top
+  for (let i = 0; i < size; i++) {
+    setFunction(6, i, i % 2 === 0);
+    setFunction(i, 6, i % 2 === 0);
+  }
+  for (const [cx, cy] of [[3, 3], [size - 4, 3], [3, size - 4]]) {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const dist = Math.max(Math.abs(dx), Math.abs(dy));
+        const x = cx + dx, y = cy + dy;
+        if (x >= 0 && x < size && y >= 0 && y < size) setFunction(x, y, dist !== 2 && dist !== 4);
+      }
+    }
+  }
+
+  const aligns = alignmentPositions(version);
+  aligns.forEach((ay, i) => aligns.forEach((ax, j) => {
+    // The three corners are taken by finder patterns
+    if ((i === 0 && j === 0) || (i === 0 && j === aligns.length - 1) || (i === aligns.length - 1 && j === 0)) return;
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) setFunction(ax + dx, ay + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+    }
+  }));
+
+  const drawFormatBits = (mask: number) => {
+    const bits = formatInfoBits(ecl, mask);
+    for (let i = 0; i <= 5; i++) setFunction(8, i, getBit(bits, i));
+    setFunction(8, 7, getBit(bits, 6));
+    setFunction(8, 8, getBit(bits, 7));
+    setFunction(7, 8, getBit(bits, 8));
+    for (let i = 9; i < 15; i++) setFunction(14 - i, 8, getBit(bits, i));
+    for (let i = 0; i < 8; i++) setFunction(size - 1 - i, 8, getBit(bits, i));
+    for (let i = 8; i < 15; i++) setFunction(8, size - 15 + i, getBit(bits, i));
+    setFunction(8, size - 8, true);
+  };
+  drawFormatBits(0); // Reserves the format areas; redrawn once the mask is chosen
+
+  if (version >= 7) {
+    let rem = version;
+    for (let i = 0; i < 12; i++) rem = (rem << 1) ^ ((rem >>> 11) * 0x1F25);
+    const bits = (version << 12) | rem;
+    for (let i = 0; i < 18; i++) {
+      const a = size - 11 + (i % 3), b = Math.floor(i / 3);
+      setFunction(a, b, getBit(bits, i));
+      setFunction(b, a, getBit(bits, i));
+    }
+  }
+
+  // Codewords in the zigzag order: two-module columns from the right, alternating up and down
+  const codewords = addEccAndInterleave(encodeData(bytes, version, ecl), version, ecl);
+  let bitIndex = 0;
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    for (let vert = 0; vert < size; vert++) {
+      for (let j = 0; j < 2; j++) {
+        const x = right - j;
+        const upward = ((right + 1) & 2) === 0;
+        const y = upward ? size - 1 - vert : vert;
+        if (!isFunction[y][x] && bitIndex < codewords.length * 8) {
+          modules[y][x] = getBit(codewords[bitIndex >>> 3], 7 - (bitIndex & 7));
+          bitIndex++;
+        }
+      }
+    }
+  }
+
+  const applyMask = (mask: number) => {
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        if (!isFunction[y][x] && MASKS[mask](x, y)) modules[y][x] = !modules[y][x];
+      }
+    }
+  };
+
+  let bestMask = 0;
+  let bestPenalty = Infinity;
+  for (let mask = 0; mask < MASKS.length; mask++) {
+    applyMask(mask);
+    drawFormatBits(mask);
+    const penalty = penaltyScore(modules);
+    if (penalty < bestPenalty) {
+      bestMask = mask;
+      bestPenalty = penalty;
+    }
+    applyMask(mask); // XOR again to undo
+  }
+  applyMask(bestMask);
+  drawFormatBits(bestMask);
+  return modules;
+};
+
+/**
+ * Renders a symbol as a standalone SVG (one path, dark modules on white)
+ * with the 4-module quiet zone the standard requires.
+ */
+export const qrToSvg = (modules: QrMatrix, border: number = 4): string => {
+  const dim = modules.length + border * 2;
+  const parts: string[] = [];
+  modules.forEach((row, y) => row.forEach((dark, x) => {
+    if (dark) parts.push(`M${x + border},${y + border}h1v1h-1z`);
+  }));
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${dim} ${dim}" shape-rendering="crispEdges">`
+    + `<rect width="100%" height="100%" fill="#FFFFFF"/><path d="${parts.join('')}" fill="#000000"/></svg>`;
+};
+
+const COLLECTIONS: Record<EntityType, string> = { item: 'items', condition: 'conditions', power: 'powers' };
+
+/** In-app route of a record's deep link, e.g. "/items/1234". */
+export const deepLinkPath = (type: EntityType, id: string): string => `/${COLLECTIONS[type]}/${encodeURIComponent(id)}`;
+
+/**
+ * The URL a label encodes for a record, e.g. "https://voiddex.app/items/1234".
+ * Uses the configured app URL, falling back to the current origin.
+ */
+export const deepLinkUrl = (type: EntityType, id: string): string => {
+  const base = (getAppConfig().appUrl || window.location.origin).replace(/\/+$/, '');
+  return `${base}${deepLinkPath(type, id)}`;
+};
@@ -0,0 +1,80 @@
+import { describe, expect, test, jest, beforeEach } from '@jest/globals';
+import { Html5Qrcode, Html5QrcodeScannerState } from 'html5-qrcode';
+import { createHtml5QrScanner, createQrScanner, setQrScannerFactory, QrScanner } from './qrScanner';
+
+jest.mock('html5-qrcode', () => {
+  const actual = jest.requireActual('html5-qrcode') as typeof import('html5-qrcode');
+  return {
+    Html5QrcodeScannerState: actual.Html5QrcodeScannerState,
+    Html5Qrcode: jest.fn(),
+  };
+});
+
+describe('qrScanner', () => {
+  let state: Html5QrcodeScannerState;
+  const engine = {
+    start: jest.fn((..._args: unknown[]) => Promise.resolve(null)),
+    stop: jest.fn(() => Promise.resolve()),
+    clear: jest.fn(),
+    pause: jest.fn(),
+    resume: jest.fn(),
+    scanFile: jest.fn((..._args: unknown[]) => Promise.resolve('https://voiddex.app/items/1234')),
+    getState: jest.fn(() => state),
+    isScanning: false,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    state = Html5QrcodeScannerState.NOT_STARTED;
+    (Html5Qrcode as unknown as jest.Mock).mockImplementation(() => engine);
+  });
+
+  test('starts the rear camera and forwards decoded codes', async () => {
+    const onDecode = jest.fn();
+    await createHtml5QrScanner('reader').start(onDecode);
+
+    expect(Html5Qrcode).toHaveBeenCalledWith('reader', false);
+    const [camera, , onSuccess] = engine.start.mock.calls[0];
+    expect(camera).toEqual({ facingMode: 'environment' });
+    (onSuccess as (text: string) => void)('https://voiddex.app/items/1234');
+    expect(onDecode).toHaveBeenCalledWith('https://voiddex.app/items/1234');
+  });
+
+  test('only pauses, resumes and stops in the matching state', async () => {
+    const scanner = createHtml5QrScanner('reader');
+
+    scanner.pause();
+    scanner.resume();
+    await scanner.stop();
+    expect(engine.pause).not.toHaveBeenCalled();
+    expect(engine.resume).not.toHaveBeenCalled();
+    expect(engine.stop).not.toHaveBeenCalled();
+    expect(engine.clear).toHaveBeenCalled();
+
+    state = Html5QrcodeScannerState.SCANNING;
+    scanner.pause();
+    expect(engine.pause).toHaveBeenCalledWith(true);
+
+    state = Html5QrcodeScannerState.PAUSED;
+    scanner.resume();
+    await scanner.stop();
+    expect(engine.resume).toHaveBeenCalled();
+    expect(engine.stop).toHaveBeenCalled();
+  });
+
+  test('decodes image files', async () => {
+    const file = new File(['png'], 'label.png', { type: 'image/png' });
+    await expect(createHtml5QrScanner('qr-file-reader').scanFile(file)).resolves.toBe('https://voiddex.app/items/1234');
+    expect(engine.scanFile).toHaveBeenCalledWith(file, false);
+  });
+
+  test('uses the configured factory', () => {
+    const fake = { isScanning: false } as QrScanner;
+    const factory = jest.fn(() => fake);
+    const previous = setQrScannerFactory(factory);
+
+    expect(createQrScanner('reader')).toBe(fake);
+    expect(factory).toHaveBeenCalledWith('reader');
+    expect(setQrScannerFactory(previous)).toBe(factory);
+  });
+});
@@ -0,0 +1,70 @@
+import { Html5Qrcode, Html5QrcodeScannerState } from 'html5-qrcode';
+
+/**
+ * Camera QR scanning engine as used by the Scanner page.
+ * The app talks to this interface only, so the engine is bundled (works offline in the
+ * installed PWA) and tests can swap in a fake with setQrScannerFactory.
+ */
+export interface QrScanner {
+  /** Starts the rear camera; `onDecode` is called for every frame that contains a code. */
+  start(onDecode: (decodedText: string) => void): Promise<void>;
+  /** Stops the camera and releases it. Safe to call when not running. */
+  stop(): Promise<void>;
+  /** Stops reporting codes (and freezes the video) without releasing the camera. */
+  pause(): void;
+  resume(): void;
+  /** Decodes a code from an image file instead of the camera. */
+  scanFile(file: File): Promise<string>;
+  readonly isScanning: boolean;
+}
+
+/** Creates a scanner that renders into the element with the given ID. */
+export type QrScannerFactory = (elementId: string) => QrScanner;
+
+/**
+ * html5-qrcode adapter. The library throws on pause/resume/stop in the wrong state,
+ * so every lifecycle call checks the current state first.
+ */
+export const createHtml5QrScanner: QrScannerFactory = (elementId) => {
+  const engine = new Html5Qrcode(elementId, false);
+
+  return {
+    get isScanning() {
+      return engine.isScanning;
+    },
+    start: async (onDecode) => {
+      await engine.start(
+        { facingMode: 'environment' }, // Rear camera on mobile
+        { fps: 10, qrbox: { width: 250, height: 250 }, aspectRatio: 1.0 },
+        (decodedText) => onDecode(decodedText),
+        () => {
+          // Ignore frame scan errors (they happen constantly when no QR is in view)
+        }
+      );
+    },
+    stop: async () => {
+      if (engine.getState() !== Html5QrcodeScannerState.NOT_STARTED) await engine.stop();
+      engine.clear();
+    },
+    pause: () => {
+      if (engine.getState() === Html5QrcodeScannerState.SCANNING) engine.pause(true);
+    },
+    resume: () => {
+      if (engine.getState() === Html5QrcodeScannerState.PAUSED) engine.resume();
+    },
+    scanFile: (file) => engine.scanFile(file, false),
+  };
+};
+
+let activeFactory: QrScannerFactory = createHtml5QrScanner;
+
+export const createQrScanner = (elementId: string): QrScanner => activeFactory(elementId);
+
+/**
+ * Overrides the scanning engine (tests, or an alternative engine). Returns the previous factory.
+ */
+export const setQrScannerFactory = (factory: QrScannerFactory): QrScannerFactory => {
+  const previous = activeFactory;
+  activeFactory = factory;
+  return previous;
+};
@@ -0,0 +1,254 @@
+/**
+ * @jest-environment node
+ */
+import { describe, expect, test, beforeAll, afterAll, beforeEach } from '@jest/globals';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { createRestDataSource } from './restDataSource';
+
+// --- LOCAL STUB SERVER ---
+// A tiny HTTP server standing in for the real game database API.
+// Each test programs the next response and inspects the captured request.
+
+interface CapturedRequest {
+  method?: string;
+  url?: string;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+let server: http.Server;
+let baseUrl = '';
+let lastRequest: CapturedRequest | null = null;
+let nextResponse: { status: number; body?: unknown } = { status: 200 };
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      lastRequest = { method: req.method, url: req.url, headers: req.headers, body };
+      res.writeHead(nextResponse.status, { 'Content-Type': 'application/json' });
+      res.end(nextResponse.body !== undefined ? JSON.stringify(nextResponse.body) : '');
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+  const { port } = server.address() as AddressInfo;
+  baseUrl = `http://127.0.0.1:${port}/api`;
+});
+
+afterAll(async () => {
+  await new Promise<void>(resolve => server.close(() => resolve()));
+});
+
+const mockItem = {
+  itin: '1234',
+  name: 'Plasma Rifle',
+  description: 'Desc',
+  owner: '1234#12',
+  expiryDate: '01/01/2030',
+};
+
+describe('REST Data Source', () => {
+  let token: string | null;
+
+  const source = () => createRestDataSource({ baseUrl, getToken: () => token });
+
+  beforeEach(() => {
+    token = 'test-token';
+    lastRequest = null;
+    nextResponse = { status: 200 };
+  });
+
+  test('fetches an item by ITIN and sends the bearer token', async () => {
+    nextResponse = { status: 200, body: mockItem };
+
+    const result = await source().searchItemByItin('1234');
+
+    expect(result).toEqual({ success: true, data: mockItem });
+    expect(lastRequest?.method).toBe('GET');
+    expect(lastRequest?.url).toBe('/api/items/1234');
+    expect(lastRequest?.headers.authorization).toBe('Bearer test-token');
+  });
+
+  test('omits the Authorization header when there is no token', async () => {
+    token = null;
+    nextResponse = { status: 200, body: mockItem };
+
+    await source().searchItemByItin('1234');
+
+    expect(lastRequest?.headers.authorization).toBeUndefined();
+  });
+
+  test('posts new records as JSON', async () => {
+    nextResponse = { status: 201, body: { coin: '8100', name: 'Flu', description: 'Cough', assignments: [] } };
+
+    const result = await source().createCondition({ name: 'Flu', description: 'Cough', assignments: [] });
+
+    expect(result.success).toBe(true);
+    expect(result.data?.coin).toBe('8100');
+    expect(lastRequest?.method).toBe('POST');
+    expect(lastRequest?.url).toBe('/api/conditions');
+    expect(lastRequest?.headers['content-type']).toBe('application/json');
+    expect(JSON.parse(lastRequest!.body)).toEqual({ name: 'Flu', description: 'Cough', assignments: [] });
+  });
+
+  test('keeps reserved IDs per server', () => {
+    expect(source().reservationScope()).toBe(`rest:${baseUrl}`);
+    expect(createRestDataSource({ baseUrl: 'https://other.example.org/api', getToken: () => token }).reservationScope()).not.toBe(source().reservationScope());
+  });
+
+  test('leaves signing and checking labels to the server', async () => {
+    const label = { type: 'item' as const, id: '1234', expiry: '01/01/2030' };
+    nextResponse = { status: 200, body: ['abc123'] };
+
+    expect((await source().signLabels([label])).data).toEqual(['abc123']);
+    expect(lastRequest?.url).toBe('/api/labels/sign');
+    expect(JSON.parse(lastRequest!.body)).toEqual({ labels: [label] });
+
+    nextResponse = { status: 200, body: false };
+    expect(await source().verifyLabel(label, 'abc123')).toEqual({ success: true, data: false });
+    expect(lastRequest?.url).toBe('/api/labels/verify');
+    expect(JSON.parse(lastRequest!.body)).toEqual({ label, signature: 'abc123' });
+  });
+
+  test('patches updates and URL-encodes the ID', async () => {
+    nextResponse = { status: 200, body: { poin: '5001', name: 'Warp', description: '', assignments: [] } };
+
+    await source().updatePower('50#01', { name: 'Warp' });
+
+    expect(lastRequest?.method).toBe('PATCH');
+    expect(lastRequest?.url).toBe('/api/powers/50%2301');
+    expect(JSON.parse(lastRequest!.body)).toEqual({ name: 'Warp' });
+  });
+
+  test('sends the expected version as If-Match and surfaces the current record on 409', async () => {
+    nextResponse = { status: 200, body: { ...mockItem, version: 4 } };
+    await source().updateItem('1234', { expiryDate: '01/01/2031' }, { expectedVersion: 3 });
+    expect(lastRequest?.headers['if-match']).toBe('"3"');
+
+    await source().updateItem('1234', { expiryDate: '01/01/2031' });
+    expect(lastRequest?.headers['if-match']).toBeUndefined();
+
+    nextResponse = { status: 409, body: { error: 'Stale version', current: { ...mockItem, version: 5 } } };
+    const result = await source().updateItem('1234', { expiryDate: '01/01/2031' }, { expectedVersion: 3 });
+    expect(result).toEqual({
+      success: false,
+      error: 'Stale version',
+      status: 409,
+      conflict: { ...mockItem, version: 5 },
+    });
+  });
+
+  test('posts a death batch with the player version as If-Match', async () => {
+    nextResponse = { status: 200, body: { player: { plin: '1001#01' }, items: [], conditions: [], powers: [] } };
+
+    await source().markPlayerDeceased('1001#01', { items: [{ itin: '1234', disposition: 'destroy' }], expectedVersion: 2 });
+
+    expect(lastRequest?.method).toBe('POST');
+    expect(lastRequest?.url).toBe('/api/players/1001%2301/death');
+    expect(lastRequest?.headers['if-match']).toBe('"2"');
+    expect(JSON.parse(lastRequest!.body)).toEqual({ items: [{ itin: '1234', disposition: 'destroy' }] });
+  });
+
+  test('encodes the global search query', async () => {
+    nextResponse = { status: 200, body: [mockItem] };
+
+    const result = await source().searchGlobal('1001#01');
+
+    expect(lastRequest?.url).toBe('/api/search?q=1001%2301');
+    expect(result.data).toEqual([mockItem]);
+  });
+
+  test('maps HTTP errors into ApiResult, preferring the server message', async () => {
+    nextResponse = { status: 404 };
+    expect(await source().searchItemByItin('0000')).toEqual({ success: false, error: 'Not found', status: 404 });
+
+    nextResponse = { status: 409, body: { error: 'Item was changed by someone else' } };
+    expect(await source().updateItem('1234', { expiryDate: '01/01/2031' })).toEqual({
+      success: false,
+      error: 'Item was changed by someone else',
+      status: 409,
+    });
+
+    nextResponse = { status: 503 };
+    const serverError = await source().searchGlobal('x');
+    expect(serverError.success).toBe(false);
+    expect(serverError.error).toBe('Server error (503)');
+  });
+
+  test('maps unreachable servers to a network error', async () => {
+    const offline = createRestDataSource({ baseUrl: 'http://127.0.0.1:1/api', getToken: () => null });
+
+    const result = await offline.searchItemByItin('1234');
+
+    expect(result).toEqual({ success: false, error: 'Network error', status: 0 });
+  });
+
+  test('uses an injected fetch implementation when provided', async () => {
+    const calls: string[] = [];
+    const fakeFetch = (async (url: string) => {
+      calls.push(url);
+      return new Response(JSON.stringify(mockItem), { status: 200 });
+    }) as unknown as typeof fetch;
+
+    const result = await createRestDataSource({ baseUrl: 'https://db.example.org/', getToken: () => null, fetchFn: fakeFetch })
+      .searchItemByItin('1234');
+
+    expect(calls).toEqual(['https://db.example.org/items/1234']);
+    expect(result.data).toEqual(mockItem);
+  });
+
+  describe('expired tokens', () => {
+    // Answers 401 to any token but the fresh one, and records the tokens it was sent
+    const sentTokens: (string | null)[] = [];
+    const authFetch = (async (_url: string, init: RequestInit) => {
+      const auth = (init.headers as Record<string, string>).Authorization || null;
+      sentTokens.push(auth);
+      return auth === 'Bearer fresh-token'
+        ? new Response(JSON.stringify(mockItem), { status: 200 })
+        : new Response(JSON.stringify({ error: 'Token expired' }), { status: 401 });
+    }) as unknown as typeof fetch;
+
+    beforeEach(() => {
+      sentTokens.length = 0;
+      token = 'expired-token';
+    });
+
+    test('retries once with the refreshed token', async () => {
+      const refreshToken = async () => {
+        token = 'fresh-token';
+        return true;
+      };
+
+      const result = await createRestDataSource({ baseUrl, getToken: () => token, refreshToken, fetchFn: authFetch })
+        .searchItemByItin('1234');
+
+      expect(result).toEqual({ success: true, data: mockItem });
+      expect(sentTokens).toEqual(['Bearer expired-token', 'Bearer fresh-token']);
+    });
+
+    test('returns the 401 when the token could not be refreshed', async () => {
+      const result = await createRestDataSource({ baseUrl, getToken: () => token, refreshToken: async () => false, fetchFn: authFetch })
+        .searchItemByItin('1234');
+
+      expect(result).toEqual({ success: false, error: 'Token expired', status: 401 });
+      expect(sentTokens).toEqual(['Bearer expired-token']);
+    });
+
+    test('does not retry more than once', async () => {
+      let refreshes = 0;
+      const refreshToken = async () => {
+        refreshes++;
+        return true;
+      };
+
+      const result = await createRestDataSource({ baseUrl, getToken: () => token, refreshToken, fetchFn: authFetch })
+        .searchItemByItin('1234');
+
+      expect(result.status).toBe(401);
+      expect(refreshes).toBe(1);
+      expect(sentTokens).toHaveLength(2);
+    });
+  });
+});
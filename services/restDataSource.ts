@@ -0,0 +1,170 @@
+import { Item, Condition, Power, Player, PlayerAssets, ApiResult, EntityType, AuditEntityType, AuditEntry, UpdateOptions, DeathOutcome, DatabaseSnapshot, LabelRef } from '../types';
+import { DataSource } from './dataSource';
+
+export interface RestDataSourceOptions {
+  /** Base URL of the game database API, e.g. "https://db.example.org/api". */
+  baseUrl: string;
+  /** Returns the current access token (sent as a Bearer header when present). */
+  getToken: () => string | null;
+  /**
+   * Called when the server answers 401; resolves to true once a new token is available,
+   * and the request is then sent once more with it.
+   */
+  refreshToken?: () => Promise<boolean>;
+  /** Injectable for tests; defaults to the global fetch. */
+  fetchFn?: typeof fetch;
+}
+
+type HttpMethod = 'GET' | 'POST' | 'PATCH';
+
+// URL collection per entity type
+const COLLECTIONS: Record<EntityType, string> = {
+  item: 'items',
+  condition: 'conditions',
+  power: 'powers',
+};
+
+// Fallback messages when the server does not provide its own error text
+const STATUS_MESSAGES: Record<number, string> = {
+  400: 'Invalid request',
+  401: 'Unauthorized',
+  403: 'Forbidden',
+  404: 'Not found',
+  409: 'Conflict',
+};
+
+const readJson = async (response: Response): Promise<any> => {
+  const text = await response.text();
+  if (!text) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch (e) {
+    return undefined;
+  }
+};
+
+const describeError = (status: number, payload: any): string => {
+  if (payload && typeof payload.error === 'string') return payload.error;
+  if (payload && typeof payload.message === 'string') return payload.message;
+  if (STATUS_MESSAGES[status]) return STATUS_MESSAGES[status];
+  return status >= 500 ? `Server error (${status})` : `Request failed (${status})`;
+};
+
+/**
+ * HTTP implementation of the DataSource contract.
+ *
+ * Expected endpoints (JSON in, JSON out, record returned as the response body):
+ *   POST  /items             GET /items/:itin        PATCH /items/:itin
+ *   POST  /conditions        GET /conditions/:coin   PATCH /conditions/:coin
+ *   POST  /powers            GET /powers/:poin       PATCH /powers/:poin
+ *   GET   /search?q=...
+ *   POST  /players           GET /players/:plin      PATCH /players/:plin
+ *   GET   /players?q=...     GET /players/:plin/assets  -> PlayerAssets
+ *   POST  /players/:plin/death  { items }  -> DeathOutcome
+ *   GET   /export  -> DatabaseSnapshot
+ *   POST  /ids/:type/reserve  { count }   -> string[]
+ *   GET   /items/:itin/history (same for conditions, powers and players)  -> AuditEntry[]
+ *   POST  /labels/sign  { labels }  -> string[]     POST /labels/verify  { label, signature }  -> boolean
+ *
+ * A 401 is retried once after `refreshToken` got a new access token.
+ *
+ * PATCH (and death) requests with an expected version send it as `If-Match: "<version>"`.
+ * A stale version must be answered with 409 and `{ error, current }`, where
+ * `current` is the record as stored now; it is passed on as `conflict`.
+ *
+ * Every failure (HTTP error or network error) is mapped into the standard
+ * ApiResult shape, so pages never have to catch transport exceptions.
+ */
+export const createRestDataSource = ({ baseUrl, getToken, refreshToken, fetchFn }: RestDataSourceOptions): DataSource => {
+  const root = baseUrl.replace(/\/+$/, '');
+
+  const request = async <T>(
+    method: HttpMethod,
+    path: string,
+    body?: unknown,
+    extraHeaders: Record<string, string> = {},
+    isRetry = false
+  ): Promise<ApiResult<T>> => {
+    const headers: Record<string, string> = { Accept: 'application/json', ...extraHeaders };
+    const token = getToken();
+    if (token) headers.Authorization = `Bearer ${token}`;
+    if (body !== undefined) headers['Content-Type'] = 'application/json';
+
+    let response: Response;
+    try {
+      const doFetch = fetchFn || fetch;
+      response = await doFetch(`${root}${path}`, {
+        method,
+        headers,
+        body: body !== undefined ? JSON.stringify(body) : undefined,
+      });
+    } catch (e) {
+      return { success: false, error: 'Network error', status: 0 };
+    }
+
+    if (response.status === 401 && refreshToken && !isRetry && await refreshToken()) {
+      return request<T>(method, path, body, extraHeaders, true);
+    }
+
+    const payload = await readJson(response);
+    if (!response.ok) {
+      const failure: ApiResult<T> = { success: false, error: describeError(response.status, payload), status: response.status };
+      if (response.status === 409 && payload && payload.current) failure.conflict = payload.current as T;
+      return failure;
+    }
+    return { success: true, data: payload as T };
+  };
+
+  const segment = (id: string) => encodeURIComponent(id);
+
+  const versionHeaders = (options?: UpdateOptions): Record<string, string> =>
+    options?.expectedVersion !== undefined ? { 'If-Match': `"${options.expectedVersion}"` } : {};
+
+  return {
+    createItem: (item) => request<Item>('POST', '/items', item),
+    searchItemByItin: (itin) => request<Item>('GET', `/items/${segment(itin)}`),
+    updateItem: (itin, updates, options) =>
+      request<Item>('PATCH', `/items/${segment(itin)}`, updates, versionHeaders(options)),
+
+    createCondition: (cond) => request<Condition>('POST', '/conditions', cond),
+    searchConditionByCoin: (coin) => request<Condition>('GET', `/conditions/${segment(coin)}`),
+    updateCondition: (coin, updates, options) =>
+      request<Condition>('PATCH', `/conditions/${segment(coin)}`, updates, versionHeaders(options)),
+
+    createPower: (pow) => request<Power>('POST', '/powers', pow),
+    searchPowerByPoin: (poin) => request<Power>('GET', `/powers/${segment(poin)}`),
+    updatePower: (poin, updates, options) =>
+      request<Power>('PATCH', `/powers/${segment(poin)}`, updates, versionHeaders(options)),
+
+    searchGlobal: async (query) => {
+      const result = await request<(Item | Condition | Power)[]>('GET', `/search?q=${encodeURIComponent(query)}`);
+      if (result.success && !Array.isArray(result.data)) {
+        return { ...result, data: [] };
+      }
+      return result;
+    },
+
+    createPlayer: (player) => request<Player>('POST', '/players', player),
+    searchPlayerByPlin: (plin) => request<Player>('GET', `/players/${segment(plin)}`),
+    updatePlayer: (plin, updates, options) =>
+      request<Player>('PATCH', `/players/${segment(plin)}`, updates, versionHeaders(options)),
+    searchPlayers: (query) => request<Player[]>('GET', `/players?q=${encodeURIComponent(query)}`),
+    getPlayerAssets: (plin) => request<PlayerAssets>('GET', `/players/${segment(plin)}/assets`),
+    markPlayerDeceased: (plin, { items, expectedVersion }) =>
+      request<DeathOutcome>('POST', `/players/${segment(plin)}/death`, { items }, versionHeaders({ expectedVersion })),
+
+    exportAll: () => request<DatabaseSnapshot>('GET', '/export'),
+
+    reserveIds: (type: EntityType, count: number) =>
+      request<string[]>('POST', `/ids/${type}/reserve`, { count }),
+
+    reservationScope: () => `rest:${baseUrl}`,
+
+    getHistory: (type: AuditEntityType, id: string) =>
+      request<AuditEntry[]>('GET', `/${type === 'player' ? 'players' : COLLECTIONS[type]}/${segment(id)}/history`),
+
+    signLabels: (labels: LabelRef[]) => request<string[]>('POST', '/labels/sign', { labels }),
+    verifyLabel: (label: LabelRef, signature: string) =>
+      request<boolean>('POST', '/labels/verify', { label, signature }),
+  };
+};
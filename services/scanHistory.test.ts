@@ -0,0 +1,36 @@
+import { describe, expect, test, jest, beforeEach } from '@jest/globals';
+import { addScanRecord, getScanHistory, clearScanHistory, SCAN_HISTORY_LIMIT } from './scanHistory';
+
+describe('scan history', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  test('stores scans newest first', () => {
+    const first = addScanRecord({ rawText: 'items/1001', source: 'camera', type: 'item', entityId: '1001', result: 'found' });
+    addScanRecord({ rawText: 'ITIN 1999', source: 'manual', type: 'item', entityId: '1999', result: 'not-found' });
+
+    const history = getScanHistory();
+    expect(history.map(r => r.rawText)).toEqual(['ITIN 1999', 'items/1001']);
+    expect(history[1]).toEqual(first);
+    expect(first.id).toMatch(/^scan-/);
+  });
+
+  test('keeps only the most recent scans', () => {
+    for (let i = 0; i < SCAN_HISTORY_LIMIT + 5; i++) {
+      addScanRecord({ rawText: `scan ${i}`, source: 'camera', result: 'error' });
+    }
+    const history = getScanHistory();
+    expect(history).toHaveLength(SCAN_HISTORY_LIMIT);
+    expect(history[0].rawText).toBe(`scan ${SCAN_HISTORY_LIMIT + 4}`);
+
+    clearScanHistory();
+    expect(getScanHistory()).toEqual([]);
+  });
+
+  test('survives corrupt storage', () => {
+    localStorage.setItem('voiddex_scan_history', '{nope');
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    expect(getScanHistory()).toEqual([]);
+  });
+});
@@ -0,0 +1,60 @@
+import { EntityType } from '../types';
+
+/**
+ * Outcome of a scan. `forged`, `outdated`, `unsigned` and `unverified` come from label
+ * verification (see checkLabel); `found` / `not-found` from looking the record up.
+ */
+export type ScanResult = 'found' | 'not-found' | 'forged' | 'outdated' | 'unsigned' | 'unverified' | 'error';
+
+/** Where the code came from; `link` is a deep link opened from outside the app. */
+export type ScanSource = 'camera' | 'image' | 'manual' | 'batch' | 'link';
+
+export interface ScanRecord {
+  id: string;
+  timestamp: number;
+  rawText: string;
+  source: ScanSource;
+  type?: EntityType;
+  entityId?: string;
+  name?: string;
+  result: ScanResult;
+}
+
+/**
+ * What the scanner hands to DeepLinkHandler in `state.scan`, so the lookup there
+ * can be logged with the original decoded text.
+ */
+export interface ScanContext {
+  rawText: string;
+  source: ScanSource;
+}
+
+const SCAN_HISTORY_KEY = 'voiddex_scan_history';
+
+// Oldest entries are dropped beyond this, keeping LocalStorage use bounded over a long event
+export const SCAN_HISTORY_LIMIT = 500;
+
+/**
+ * Scan history from LocalStorage, newest first.
+ */
+export const getScanHistory = (): ScanRecord[] => {
+  try {
+    const stored = localStorage.getItem(SCAN_HISTORY_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (e) {
+    console.error("Failed to parse scan history", e);
+    return [];
+  }
+};
+
+export const addScanRecord = (entry: Omit<ScanRecord, 'id' | 'timestamp'>): ScanRecord => {
+  const timestamp = Date.now();
+  const record: ScanRecord = { id: `scan-${timestamp}-${Math.random().toString(36).slice(2, 8)}`, timestamp, ...entry };
+  const history = [record, ...getScanHistory()].slice(0, SCAN_HISTORY_LIMIT);
+  localStorage.setItem(SCAN_HISTORY_KEY, JSON.stringify(history));
+  return record;
+};
+
+export const clearScanHistory = () => {
+  localStorage.removeItem(SCAN_HISTORY_KEY);
+};
@@ -0,0 +1,92 @@
+import { describe, expect, test, jest, beforeEach, afterEach } from '@jest/globals';
+
+type ServiceWorkerModule = typeof import('./serviceWorker');
+
+class FakeWorker extends EventTarget {
+  state = 'installing';
+  postMessage = jest.fn();
+
+  install() {
+    this.state = 'installed';
+    this.dispatchEvent(new Event('statechange'));
+  }
+}
+
+describe('serviceWorker', () => {
+  let sw: ServiceWorkerModule;
+  let registration: EventTarget & { installing: FakeWorker | null; waiting: FakeWorker | null; update: jest.Mock };
+  let container: EventTarget & { controller: object | null; register: jest.Mock };
+
+  beforeEach(() => {
+    // Fresh module state (waiting worker, listeners) for every test
+    jest.isolateModules(() => {
+      sw = require('./serviceWorker');
+    });
+    (globalThis as any).__VOIDDEX_CONFIG__ = { serviceWorker: true };
+
+    registration = Object.assign(new EventTarget(), { installing: null, waiting: null, update: jest.fn(() => Promise.resolve()) });
+    container = Object.assign(new EventTarget(), { controller: {}, register: jest.fn(() => Promise.resolve(registration)) });
+    Object.defineProperty(navigator, 'serviceWorker', { configurable: true, value: container });
+  });
+
+  afterEach(() => {
+    delete (globalThis as any).__VOIDDEX_CONFIG__;
+    delete (navigator as any).serviceWorker;
+  });
+
+  test('does nothing unless enabled for the build', async () => {
+    delete (globalThis as any).__VOIDDEX_CONFIG__;
+    expect(await sw.registerServiceWorker()).toBeNull();
+    expect(container.register).not.toHaveBeenCalled();
+  });
+
+  test('registers the worker', async () => {
+    expect(await sw.registerServiceWorker()).toBe(registration);
+    expect(container.register).toHaveBeenCalledWith('/sw.js');
+    expect(sw.isUpdateAvailable()).toBe(false);
+  });
+
+  test('reports a new version once it has installed', async () => {
+    const listener = jest.fn();
+    sw.subscribeToUpdates(listener);
+    await sw.registerServiceWorker();
+
+    const worker = new FakeWorker();
+    registration.installing = worker;
+    registration.dispatchEvent(new Event('updatefound'));
+    expect(sw.isUpdateAvailable()).toBe(false);
+
+    worker.install();
+    expect(sw.isUpdateAvailable()).toBe(true);
+    expect(listener).toHaveBeenCalledWith(true);
+
+    sw.applyUpdate();
+    expect(worker.postMessage).toHaveBeenCalledWith({ type: 'SKIP_WAITING' });
+  });
+
+  test('reports a version that was already waiting', async () => {
+    registration.waiting = new FakeWorker();
+    await sw.registerServiceWorker();
+    expect(sw.isUpdateAvailable()).toBe(true);
+  });
+
+  test('does not treat the first install as an update', async () => {
+    container.controller = null;
+    await sw.registerServiceWorker();
+
+    const worker = new FakeWorker();
+    registration.installing = worker;
+    registration.dispatchEvent(new Event('updatefound'));
+    worker.install();
+
+    expect(sw.isUpdateAvailable()).toBe(false);
+  });
+
+  test('stops notifying after unsubscribing', async () => {
+    const listener = jest.fn();
+    sw.subscribeToUpdates(listener)();
+    registration.waiting = new FakeWorker();
+    await sw.registerServiceWorker();
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,82 @@
+import { getAppConfig } from './config';
+
+/**
+ * Registration of the offline service worker (sw.js, emitted by production builds) and the
+ * "new version available" flow. A new version installs in the background and waits; it only
+ * takes over once the user accepts the prompt, so nobody loses a half-filled form to a reload.
+ */
+
+type UpdateListener = (updateAvailable: boolean) => void;
+
+let waitingWorker: ServiceWorker | null = null;
+let reloadOnTakeover = false;
+const listeners = new Set<UpdateListener>();
+
+const setWaitingWorker = (worker: ServiceWorker | null) => {
+  waitingWorker = worker;
+  listeners.forEach(listener => listener(worker !== null));
+};
+
+export const isUpdateAvailable = (): boolean => waitingWorker !== null;
+
+/**
+ * Subscribes to update availability. Returns the unsubscribe function.
+ */
+export const subscribeToUpdates = (listener: UpdateListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Activates the waiting version; the page reloads once it has taken over.
+ */
+export const applyUpdate = () => {
+  if (!waitingWorker) return;
+  reloadOnTakeover = true;
+  waitingWorker.postMessage({ type: 'SKIP_WAITING' });
+};
+
+export const registerServiceWorker = async (): Promise<ServiceWorkerRegistration | null> => {
+  if (!getAppConfig().serviceWorker || !('serviceWorker' in navigator)) return null;
+
+  try {
+    const registration = await navigator.serviceWorker.register('/sw.js');
+
+    // Without a controller this is the first install, not an update
+    const trackInstalling = (worker: ServiceWorker | null) => {
+      worker?.addEventListener('statechange', () => {
+        if (worker.state === 'installed' && navigator.serviceWorker.controller) {
+          setWaitingWorker(worker);
+        }
+      });
+    };
+
+    if (registration.waiting && navigator.serviceWorker.controller) {
+      setWaitingWorker(registration.waiting);
+    }
+    trackInstalling(registration.installing);
+    registration.addEventListener('updatefound', () => trackInstalling(registration.installing));
+
+    navigator.serviceWorker.addEventListener('controllerchange', () => {
+      if (!reloadOnTakeover) return;
+      reloadOnTakeover = false;
+      window.location.reload();
+    });
+
+    // Devices stay open for a whole event, so check for a new deploy whenever the app comes back
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'visible' && navigator.onLine) {
+        registration.update().catch(() => {
+          // Offline or server unreachable: try again next time
+        });
+      }
+    });
+
+    return registration;
+  } catch (e) {
+    console.error("Service worker registration failed", e);
+    return null;
+  }
+};
@@ -0,0 +1,94 @@
+import { describe, expect, test, jest, beforeEach } from '@jest/globals';
+import {
+  setApiSession,
+  getApiSession,
+  refreshApiSession,
+  subscribeToSessionRefresh,
+  subscribeToSessionExpiry,
+} from './session';
+import { authService } from './auth';
+
+jest.mock('./auth', () => ({
+  authService: {
+    refreshSession: jest.fn(),
+  },
+}));
+
+const refreshSessionMock = jest.mocked(authService.refreshSession);
+
+const user = { id: 'u1', name: 'Test User', email: 'test@example.com', avatar: '', role: 'cs' as const };
+
+describe('API session', () => {
+  const onRefresh = jest.fn();
+  const onExpiry = jest.fn();
+  let unsubscribe: (() => void)[] = [];
+
+  beforeEach(() => {
+    refreshSessionMock.mockReset();
+    onRefresh.mockClear();
+    onExpiry.mockClear();
+    unsubscribe.forEach(fn => fn());
+    unsubscribe = [subscribeToSessionRefresh(onRefresh), subscribeToSessionExpiry(onExpiry)];
+    setApiSession({ token: 'old-token', user, refreshToken: 'refresh-1', expiresAt: 1000 });
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  test('stores the refreshed tokens and tells the listeners', async () => {
+    refreshSessionMock.mockResolvedValue({ token: 'new-token', refreshToken: 'refresh-2', expiresAt: 5000 });
+
+    expect(await refreshApiSession()).toBe(true);
+
+    const expected = { token: 'new-token', user, refreshToken: 'refresh-2', expiresAt: 5000 };
+    expect(refreshSessionMock).toHaveBeenCalledWith('refresh-1');
+    expect(getApiSession()).toEqual(expected);
+    expect(onRefresh).toHaveBeenCalledWith(expected);
+    expect(onExpiry).not.toHaveBeenCalled();
+  });
+
+  test('shares one refresh between concurrent callers', async () => {
+    refreshSessionMock.mockResolvedValue({ token: 'new-token', refreshToken: 'refresh-2' });
+
+    const results = await Promise.all([refreshApiSession(), refreshApiSession()]);
+
+    expect(results).toEqual([true, true]);
+    expect(refreshSessionMock).toHaveBeenCalledTimes(1);
+    expect(getApiSession().expiresAt).toBeNull();
+  });
+
+  test('ends the session when the refresh token is rejected', async () => {
+    refreshSessionMock.mockResolvedValue(null);
+
+    expect(await refreshApiSession()).toBe(false);
+
+    expect(onExpiry).toHaveBeenCalledTimes(1);
+    expect(getApiSession().token).toBe('old-token');
+  });
+
+  test('ends the session when there is no refresh token', async () => {
+    setApiSession({ token: 'old-token', user, refreshToken: null, expiresAt: 1000 });
+
+    expect(await refreshApiSession()).toBe(false);
+
+    expect(refreshSessionMock).not.toHaveBeenCalled();
+    expect(onExpiry).toHaveBeenCalledTimes(1);
+  });
+
+  test('keeps the session when the provider cannot be reached', async () => {
+    refreshSessionMock.mockRejectedValue(new Error('Failed to fetch'));
+
+    expect(await refreshApiSession()).toBe(false);
+
+    expect(onExpiry).not.toHaveBeenCalled();
+    expect(onRefresh).not.toHaveBeenCalled();
+    expect(getApiSession().refreshToken).toBe('refresh-1');
+  });
+
+  test('stops notifying after unsubscribing', async () => {
+    unsubscribe.forEach(fn => fn());
+    refreshSessionMock.mockResolvedValue(null);
+
+    await refreshApiSession();
+
+    expect(onExpiry).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,88 @@
+import { User } from '../types';
+import { authService } from './auth';
+
+/**
+ * The authenticated session as seen by the data layer.
+ * Kept in sync with AuthContext by App.tsx; remote data sources read the token,
+ * the mock data source reads the user to attribute audit entries.
+ */
+export interface ApiSession {
+  token: string | null;
+  user: User | null;
+  refreshToken?: string | null;
+  expiresAt?: number | null; // ms since epoch; null when the provider did not say
+}
+
+let session: ApiSession = { token: null, user: null };
+
+export const setApiSession = (next: ApiSession) => {
+  session = next;
+};
+
+export const getApiSession = (): ApiSession => session;
+
+type RefreshListener = (session: ApiSession) => void;
+type ExpiryListener = () => void;
+
+const refreshListeners = new Set<RefreshListener>();
+const expiryListeners = new Set<ExpiryListener>();
+
+let refreshing: Promise<boolean> | null = null;
+
+const refresh = async (): Promise<boolean> => {
+  const { refreshToken } = session;
+  let tokens = null;
+  if (refreshToken) {
+    try {
+      tokens = await authService.refreshSession(refreshToken);
+    } catch (e) {
+      // Provider unreachable (offline): keep the session and let the caller try again later
+      console.warn('Could not refresh the session:', e);
+      return false;
+    }
+  }
+
+  if (!tokens) {
+    expiryListeners.forEach(listener => listener());
+    return false;
+  }
+
+  session = { ...session, token: tokens.token, refreshToken: tokens.refreshToken, expiresAt: tokens.expiresAt ?? null };
+  refreshListeners.forEach(listener => listener(session));
+  return true;
+};
+
+/**
+ * Gets a new access token with the session's refresh token. Resolves to true once the session
+ * holds the new token. When there is no refresh token or the provider rejects it, the session
+ * is over and the expiry listeners are told; when the provider cannot be reached it resolves
+ * to false and nothing changes. Concurrent calls share one refresh.
+ */
+export const refreshApiSession = (): Promise<boolean> => {
+  if (!refreshing) {
+    refreshing = refresh().finally(() => {
+      refreshing = null;
+    });
+  }
+  return refreshing;
+};
+
+/**
+ * Calls the listener with the new session after every successful refresh. Returns the unsubscribe function.
+ */
+export const subscribeToSessionRefresh = (listener: RefreshListener): (() => void) => {
+  refreshListeners.add(listener);
+  return () => {
+    refreshListeners.delete(listener);
+  };
+};
+
+/**
+ * Calls the listener when the session has expired and cannot be refreshed. Returns the unsubscribe function.
+ */
+export const subscribeToSessionExpiry = (listener: ExpiryListener): (() => void) => {
+  expiryListeners.add(listener);
+  return () => {
+    expiryListeners.delete(listener);
+  };
+};
@@ -0,0 +1,18 @@
+import { describe, expect, test } from '@jest/globals';
+import { detectSmartPrefix } from './smartSearch';
+
+describe('smart search prefixes', () => {
+  test('detects prefixed IDs with or without a space', () => {
+    expect(detectSmartPrefix('ITIN 1234')).toEqual({ prefix: 'ITIN', value: '1234' });
+    expect(detectSmartPrefix('coin8001')).toEqual({ prefix: 'COIN', value: '8001' });
+    expect(detectSmartPrefix(' poin  5001 ')).toEqual({ prefix: 'POIN', value: '5001' });
+    expect(detectSmartPrefix('PLIN#12')).toEqual({ prefix: 'PLIN', value: '#12' });
+  });
+
+  test('ignores words that merely start with a prefix', () => {
+    expect(detectSmartPrefix('Itinerant')).toBeNull();
+    expect(detectSmartPrefix('ITIN:1234')).toBeNull();
+    expect(detectSmartPrefix('ITIN ')).toBeNull();
+    expect(detectSmartPrefix('1234')).toBeNull();
+  });
+});
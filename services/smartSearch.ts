@@ -0,0 +1,19 @@
+export type SmartPrefix = 'ITIN' | 'COIN' | 'POIN' | 'PLIN';
+
+/**
+ * Detects a leading ID prefix in free text, as typed into the Dashboard search.
+ * "ITIN 1234", "itin1234" and "PLIN #12" trigger; "ITIN:1234" or "Itinerant" do not,
+ * since text directly after a compact prefix must start with a digit or "#".
+ * Returns null when there is no prefix or nothing after it.
+ */
+export const detectSmartPrefix = (text: string): { prefix: SmartPrefix; value: string } | null => {
+  const match = text.trim().match(/^(POIN|COIN|ITIN|PLIN)(\s*)(.*)/i);
+  if (!match) return null;
+
+  const [, prefix, separator, rest] = match;
+  const isCompact = separator.length === 0;
+  if (isCompact && !/^[\d#]/.test(rest)) return null;
+
+  const value = rest.trim();
+  return value ? { prefix: prefix.toUpperCase() as SmartPrefix, value } : null;
+};
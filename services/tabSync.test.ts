@@ -0,0 +1,95 @@
+import { describe, expect, test, jest, beforeEach, afterEach } from '@jest/globals';
+
+type TabSyncModule = typeof import('./tabSync');
+
+// In-memory stand-in for BroadcastChannel (jsdom has none): delivers to every other instance
+class FakeChannel {
+  static open: FakeChannel[] = [];
+  onmessage: ((event: MessageEvent) => void) | null = null;
+
+  constructor(public name: string) {
+    FakeChannel.open.push(this);
+  }
+
+  postMessage(data: unknown) {
+    FakeChannel.open
+      .filter(other => other !== this && other.name === this.name)
+      .forEach(other => other.onmessage?.({ data } as MessageEvent));
+  }
+}
+
+describe('tabSync', () => {
+  let tabSync: TabSyncModule;
+
+  beforeEach(() => {
+    FakeChannel.open = [];
+    (globalThis as any).BroadcastChannel = FakeChannel;
+    // Fresh module state (channel, listeners) for every test
+    jest.isolateModules(() => {
+      tabSync = require('./tabSync');
+    });
+  });
+
+  afterEach(() => {
+    delete (globalThis as any).BroadcastChannel;
+  });
+
+  test('notifies listeners when another tab announces a change', () => {
+    const onDrafts = jest.fn();
+    const onNotes = jest.fn();
+    tabSync.subscribeToTabChanges('drafts', onDrafts);
+    tabSync.subscribeToTabChanges('notes', onNotes);
+
+    // Another tab
+    new FakeChannel('voiddex-sync').postMessage({ topic: 'drafts' });
+
+    expect(onDrafts).toHaveBeenCalledTimes(1);
+    expect(onNotes).not.toHaveBeenCalled();
+  });
+
+  test('announces changes to the other tabs only', () => {
+    const otherTab = new FakeChannel('voiddex-sync');
+    const received = jest.fn();
+    otherTab.onmessage = received;
+    const ownListener = jest.fn();
+    tabSync.subscribeToTabChanges('notes', ownListener);
+
+    tabSync.announceChange('notes');
+
+    expect(received).toHaveBeenCalledWith({ data: { topic: 'notes' } });
+    expect(ownListener).not.toHaveBeenCalled();
+  });
+
+  test('stops notifying after unsubscribing', () => {
+    const listener = jest.fn();
+    tabSync.subscribeToTabChanges('drafts', listener)();
+
+    new FakeChannel('voiddex-sync').postMessage({ topic: 'drafts' });
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  test('does nothing without BroadcastChannel', () => {
+    delete (globalThis as any).BroadcastChannel;
+    jest.isolateModules(() => {
+      tabSync = require('./tabSync');
+    });
+
+    expect(() => tabSync.announceChange('drafts')).not.toThrow();
+    expect(typeof tabSync.subscribeToTabChanges('drafts', jest.fn())).toBe('function');
+  });
+
+  test('reports writes to the watched LocalStorage keys', () => {
+    const listener = jest.fn();
+    const unsubscribe = tabSync.subscribeToStorageKeys(['theme'], listener);
+
+    window.dispatchEvent(new StorageEvent('storage', { key: 'appTheme' }));
+    window.dispatchEvent(new StorageEvent('storage', { key: 'theme' }));
+    // LocalStorage cleared in another tab
+    window.dispatchEvent(new StorageEvent('storage', { key: null }));
+    unsubscribe();
+    window.dispatchEvent(new StorageEvent('storage', { key: 'theme' }));
+
+    expect(listener.mock.calls).toEqual([['theme'], [null]]);
+  });
+});
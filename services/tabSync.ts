@@ -0,0 +1,61 @@
+/**
+ * Keeps VoidDex tabs of the same browser in step. State kept in LocalStorage (session, theme)
+ * arrives through the browser's `storage` event; IndexedDB has no such event, so offlineStorage
+ * announces its writes to the other tabs on a BroadcastChannel.
+ */
+
+/** Stores whose contents other tabs should reload when they change. */
+export type SyncTopic = 'drafts' | 'notes';
+
+const CHANNEL_NAME = 'voiddex-sync';
+
+type TopicListener = () => void;
+const listeners = new Set<{ topic: SyncTopic; listener: TopicListener }>();
+
+let channel: BroadcastChannel | null = null;
+
+// Opened on first use; browsers without BroadcastChannel simply do not sync drafts and notes
+const getChannel = (): BroadcastChannel | null => {
+  if (!channel && typeof BroadcastChannel !== 'undefined') {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = (event: MessageEvent) => {
+      const topic = event.data?.topic;
+      listeners.forEach(entry => {
+        if (entry.topic === topic) entry.listener();
+      });
+    };
+  }
+  return channel;
+};
+
+/**
+ * Tells the other tabs that a store changed. The tab that made the change is not notified;
+ * it already knows.
+ */
+export const announceChange = (topic: SyncTopic) => {
+  getChannel()?.postMessage({ topic });
+};
+
+/**
+ * Calls the listener whenever another tab changes the store. Returns the unsubscribe function.
+ */
+export const subscribeToTabChanges = (topic: SyncTopic, listener: TopicListener): (() => void) => {
+  getChannel();
+  const entry = { topic, listener };
+  listeners.add(entry);
+  return () => {
+    listeners.delete(entry);
+  };
+};
+
+/**
+ * Calls the listener whenever another tab writes one of the LocalStorage keys
+ * (`key` is null when that tab cleared LocalStorage). Returns the unsubscribe function.
+ */
+export const subscribeToStorageKeys = (keys: string[], listener: (key: string | null) => void): (() => void) => {
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key === null || keys.includes(event.key)) listener(event.key);
+  };
+  window.addEventListener('storage', handleStorage);
+  return () => window.removeEventListener('storage', handleStorage);
+};
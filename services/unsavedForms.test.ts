@@ -0,0 +1,37 @@
+import { describe, expect, test, jest } from '@jest/globals';
+import { registerUnsavedForm, saveUnsavedForms } from './unsavedForms';
+
+describe('unsavedForms', () => {
+  test('saves every registered form until it is unregistered', async () => {
+    const first = jest.fn(async () => {});
+    const second = jest.fn(async () => {});
+    const unregisterFirst = registerUnsavedForm(first);
+    const unregisterSecond = registerUnsavedForm(second);
+
+    expect(await saveUnsavedForms()).toBe(2);
+
+    unregisterFirst();
+    expect(await saveUnsavedForms()).toBe(1);
+    expect(first).toHaveBeenCalledTimes(1);
+    expect(second).toHaveBeenCalledTimes(2);
+
+    unregisterSecond();
+    expect(await saveUnsavedForms()).toBe(0);
+  });
+
+  test('keeps saving the other forms when one fails', async () => {
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const saved = jest.fn(async () => {});
+    const unregister = [
+      registerUnsavedForm(async () => { throw new Error('Quota exceeded'); }),
+      registerUnsavedForm(saved),
+    ];
+
+    expect(await saveUnsavedForms()).toBe(1);
+    expect(saved).toHaveBeenCalled();
+    expect(errorSpy).toHaveBeenCalled();
+
+    unregister.forEach(fn => fn());
+    errorSpy.mockRestore();
+  });
+});
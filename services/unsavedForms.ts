@@ -0,0 +1,31 @@
+/**
+ * Forms with changes that are not saved anywhere yet. Pages register their "save draft" action
+ * while they have unsaved changes, so that when the session expires App can keep the work as
+ * drafts before sending the user back to the login page.
+ */
+
+type SaveForm = () => Promise<void>;
+
+const forms = new Set<SaveForm>();
+
+/**
+ * Registers the page's save action. Returns the function to call once the form is saved or left.
+ */
+export const registerUnsavedForm = (save: SaveForm): (() => void) => {
+  forms.add(save);
+  return () => {
+    forms.delete(save);
+  };
+};
+
+/**
+ * Saves every registered form. Resolves to how many were saved; a form that fails to save
+ * is logged and does not stop the others.
+ */
+export const saveUnsavedForms = async (): Promise<number> => {
+  const results = await Promise.allSettled(Array.from(forms, save => save()));
+  results.forEach(result => {
+    if (result.status === 'rejected') console.error('Could not keep unsaved form as a draft:', result.reason);
+  });
+  return results.filter(result => result.status === 'fulfilled').length;
+};
@@ -0,0 +1,108 @@
+/**
+ * VoidDex service worker. Precaches the built app shell, icons and Google Fonts so the
+ * installed app starts without network, e.g. in a field or a basement during an event.
+ *
+ * Not served in development: the `serviceWorker` plugin in vite.config.ts emits it on build
+ * and replaces the placeholder below with the files to precache and a build version.
+ *
+ * What is cached:
+ * - Every file of the build and of public/ (the shell cache, one per build version; older
+ *   versions are dropped on activation). They are served cache first, and page navigations
+ *   are answered with the cached index.html.
+ * - The Google Fonts stylesheets and the font files they list, plus any other request to
+ *   the font hosts, cached on first use and kept across versions.
+ * Nothing else is touched: API calls and other requests go straight to the network. Drafts
+ * and notes live in IndexedDB and unsent changes in the outbox (see services/).
+ */
+
+const PRECACHE = self.__VOIDDEX_PRECACHE__;
+
+const SHELL_CACHE = `voiddex-shell-${PRECACHE.version}`;
+// Fonts are kept across versions; they only change when the font URLs in index.html do
+const FONT_CACHE = 'voiddex-fonts';
+const FONT_HOSTS = ['fonts.googleapis.com', 'fonts.gstatic.com'];
+
+/**
+ * Google Fonts serves a stylesheet tailored to the browser, so the font files can only be
+ * found by reading it. Failures are logged rather than failing the install: the app still
+ * works offline with fallback fonts.
+ */
+const precacheFonts = async () => {
+  const cache = await caches.open(FONT_CACHE);
+  await Promise.all(PRECACHE.fontStylesheets.map(async (url) => {
+    try {
+      const response = await fetch(url);
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      const css = await response.clone().text();
+      await cache.put(url, response);
+
+      const fontUrls = [...css.matchAll(/url\((https:\/\/fonts\.gstatic\.com\/[^)]+)\)/g)].map(match => match[1]);
+      await cache.addAll(fontUrls);
+    } catch (e) {
+      console.error('Failed to precache fonts', url, e);
+    }
+  }));
+};
+
+self.addEventListener('install', (event) => {
+  // No skipWaiting here: the new version waits until the user accepts the update prompt
+  event.waitUntil((async () => {
+    const cache = await caches.open(SHELL_CACHE);
+    await cache.addAll(PRECACHE.urls);
+    await precacheFonts();
+  })());
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const keys = await caches.keys();
+    await Promise.all(
+      keys
+        .filter(key => key.startsWith('voiddex-shell-') && key !== SHELL_CACHE)
+        .map(key => caches.delete(key))
+    );
+    await self.clients.claim();
+  })());
+});
+
+self.addEventListener('message', (event) => {
+  if (event.data && event.data.type === 'SKIP_WAITING') {
+    self.skipWaiting();
+  }
+});
+
+const cacheFirst = async (request, cacheName) => {
+  const cached = await caches.match(request, { ignoreVary: true });
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (cacheName && (response.ok || response.type === 'opaque')) {
+    const cache = await caches.open(cacheName);
+    cache.put(request, response.clone());
+  }
+  return response;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+
+  // Routing happens inside the app, so every page load is served by the cached shell
+  if (request.mode === 'navigate' && url.origin === self.location.origin) {
+    event.respondWith(
+      caches.match('/index.html').then(cached => cached || fetch(request))
+    );
+    return;
+  }
+
+  if (FONT_HOSTS.includes(url.hostname)) {
+    event.respondWith(cacheFirst(request, FONT_CACHE));
+    return;
+  }
+
+  if (url.origin === self.location.origin && PRECACHE.urls.includes(url.pathname)) {
+    event.respondWith(cacheFirst(request));
+  }
+});
@@ -1,15 +1,21 @@
 import React from 'react';
 import { render } from '@testing-library/react';
 import { MemoryRouter, Routes, Route } from 'react-router-dom';
+import { AuthContext } from './App';
+import { User } from './types';
+
+// Character Services may do everything, so pages render with all their actions by default
+export const TEST_USER: User = { id: 'test-user', name: 'Test User', email: 'test@example.com', avatar: '', role: 'cs' };
 
 /**
- * Renders a component wrapped in a MemoryRouter with a specific route and state.
+ * Renders a component wrapped in a MemoryRouter with a specific route and state, signed in as the given user.
  * Handles paths with query parameters correctly by splitting pathname and search.
  */
 export const renderWithRouter = (
     component: React.ReactElement,
     path: string = '/',
-    state: any = null
+    state: any = null,
+    user: User = TEST_USER
 ) => {
   const [pathname, search] = path.split('?');
 
@@ -20,11 +26,13 @@ export const renderWithRouter = (
   };
 
   return render(
-      <MemoryRouter initialEntries={[initialEntry]}>
-        <Routes>
-          <Route path={pathname} element={component} />
-          {pathname !== '/' && <Route path="/" element={<div>Dashboard</div>} />}
-        </Routes>
-      </MemoryRouter>
+      <AuthContext.Provider value={{ user, token: 'test-token', login: () => {}, logout: () => {}, lock: () => {} }}>
+        <MemoryRouter initialEntries={[initialEntry]}>
+          <Routes>
+            <Route path={pathname} element={component} />
+            {pathname !== '/' && <Route path="/" element={<div>Dashboard</div>} />}
+          </Routes>
+        </MemoryRouter>
+      </AuthContext.Provider>
   );
 };
\ No newline at end of file
@@ -1,4 +1,10 @@
 
+/**
+ * What a user is allowed to do (see services/permissions.ts):
+ * players look up their own characters, referees run the game, CS (character services) also administer the data.
+ */
+export type UserRole = 'player' | 'referee' | 'cs';
+
 /**
  * Represents the authenticated user profile.
  */
@@ -7,8 +13,15 @@ export interface User {
   name: string;
   email: string;
   avatar: string;
+  role: UserRole;
+  plins?: string[]; // Characters the user plays; players only see the records linked to these
 }
 
+/**
+ * The three kinds of tracked game objects.
+ */
+export type EntityType = 'item' | 'condition' | 'power';
+
 /**
  * Represents a physical Inventory Item.
  * Identified by ITIN (Item Identification Number).
@@ -21,6 +34,9 @@ export interface Item {
   expiryDate: string; // Format: dd/mm/yyyy
   remarks?: string;
   csRemarks?: string;
+  destroyed?: boolean; // Set when the item is destroyed (e.g. on its owner's death)
+  version?: number; // Incremented by the backend on every write
+  updatedAt?: number; // Timestamp of the last write
 }
 
 /**
@@ -42,6 +58,8 @@ export interface Condition {
   assignments: Assignment[]; // Can be assigned to multiple players
   remarks?: string;
   csRemarks?: string;
+  version?: number; // Incremented by the backend on every write
+  updatedAt?: number; // Timestamp of the last write
 }
 
 /**
@@ -55,6 +73,78 @@ export interface Power {
   assignments: Assignment[]; // Can be assigned to multiple players
   remarks?: string;
   csRemarks?: string;
+  version?: number; // Incremented by the backend on every write
+  updatedAt?: number; // Timestamp of the last write
+}
+
+/**
+ * Whether a player's character is still in play.
+ */
+export type PlayerStatus = 'alive' | 'dead';
+
+/**
+ * Represents a registered player character.
+ * Identified by PLIN (Player ID Number), e.g. "1234#12".
+ */
+export interface Player {
+  plin: string;
+  characterName: string;
+  playerName: string; // Real name of the person playing the character
+  status: PlayerStatus;
+  notes?: string;
+  version?: number; // Incremented by the backend on every write
+  updatedAt?: number; // Timestamp of the last write
+}
+
+/**
+ * Everything currently linked to one PLIN: owned items plus every
+ * condition/power with an assignment for that player.
+ */
+export interface PlayerAssets {
+  items: Item[];
+  conditions: Condition[];
+  powers: Power[];
+}
+
+/**
+ * Every record held by the backend, as returned for a full export.
+ */
+export interface DatabaseSnapshot {
+  items: Item[];
+  conditions: Condition[];
+  powers: Power[];
+  players: Player[];
+}
+
+/**
+ * What happens to an owned item when its owner's character dies.
+ */
+export type ItemDisposition = 'keep' | 'transfer' | 'destroy';
+
+export interface ItemDeathChoice {
+  itin: string;
+  disposition: ItemDisposition;
+  newOwner?: string; // PLIN receiving the item, required for 'transfer'
+}
+
+/**
+ * Input for marking a character deceased.
+ * Owned items without a choice are kept. With `expectedVersion` set, the request
+ * is rejected (409) if the player has been written since that version was read.
+ */
+export interface DeathRequest {
+  items: ItemDeathChoice[];
+  expectedVersion?: number;
+}
+
+/**
+ * Result of a death batch: the updated player and every record the batch changed.
+ */
+export interface DeathOutcome {
+  player: Player;
+  items: Item[];
+  conditions: Condition[];
+  powers: Power[];
 }
 
 /**
@@ -67,6 +157,51 @@ export interface Note {
   linkedIds: string[]; // List of ITINs, COINs, or POINs
   timestamp: number;
   isPinned?: boolean;
+  userId?: string; // Who wrote it; notes are private to them (set when saved)
+}
+
+/**
+ * Kind of mutation recorded in the audit trail.
+ * 'update' covers edits that are none of the named workflow actions.
+ */
+export type AuditAction = 'create' | 'recharge' | 'assign' | 'extend' | 'unassign' | 'death' | 'update';
+
+/**
+ * A single field difference within an audit entry.
+ * Values are display strings; null means the field (or assignment) did not exist on that side.
+ */
+export interface FieldChange {
+  field: string;
+  before: string | null;
+  after: string | null;
+}
+
+/**
+ * What the audit trail records changes of: the records, plus players (marked deceased).
+ */
+export type AuditEntityType = EntityType | 'player';
+
+/**
+ * Append-only record of one mutation on an Item, Condition, Power or Player.
+ */
+export interface AuditEntry {
+  id: string;
+  entityType: AuditEntityType;
+  entityId: string; // ITIN, COIN, POIN or PLIN
+  action: AuditAction;
+  actor: { id: string; name: string } | null; // null when no user was signed in
+  timestamp: number;
+  changes: FieldChange[];
+  batchId?: string; // Shared by the entries of one batch, e.g. everything a character's death changed
+}
+
+/**
+ * What a QR label signature covers: the record and the expiry printed on the label.
+ */
+export interface LabelRef {
+  type: EntityType;
+  id: string; // ITIN, COIN or POIN
+  expiry: string; // '' when the label shows no expiry
 }
 
 /**
@@ -76,6 +211,17 @@ export type ApiResult<T> = {
   success: boolean;
   data?: T;
   error?: string;
+  status?: number; // HTTP status of a failed remote call (0 = network unreachable)
+  conflict?: T; // Current record when an update was rejected as stale (status 409)
+}
+
+/**
+ * Options for updateItem/updateCondition/updatePower.
+ * With `expectedVersion` set, the update is rejected (409) if the record
+ * has been written since that version was read.
+ */
+export interface UpdateOptions {
+  expectedVersion?: number;
 }
 
 /**
@@ -84,4 +230,6 @@ export type ApiResult<T> = {
 export interface AuthResponse {
   token: string;
   user: User;
+  refreshToken?: string; // Absent when the provider does not issue one
+  expiresAt?: number; // When the token expires (ms since epoch); absent when the provider does not say
 }
\ No newline at end of file
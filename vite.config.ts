@@ -1,11 +1,85 @@
-import { defineConfig } from 'vite'
+import { defineConfig, loadEnv, Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
+import { createHash } from 'node:crypto'
+import { existsSync, readdirSync, readFileSync } from 'node:fs'
+import { join } from 'node:path'
+
+/**
+ * Emits sw.js (from the source in the project root) with the list of built files to precache.
+ * The version is a hash of the build output, so every deploy that changes anything is
+ * picked up as an update by installed apps.
+ */
+const serviceWorker = (): Plugin => {
+  let publicDir = '';
+
+  return {
+    name: 'voiddex-service-worker',
+    apply: 'build',
+    // After the HTML plugin, so index.html is part of the bundle
+    enforce: 'post',
+    configResolved(config) {
+      publicDir = config.publicDir;
+    },
+    generateBundle(_options, bundle) {
+      const hash = createHash('sha256');
+      const urls: string[] = [];
+
+      for (const file of Object.values(bundle)) {
+        if (file.fileName.endsWith('.map')) continue;
+        urls.push(`/${file.fileName}`);
+        hash.update(file.type === 'chunk' ? file.code : file.source);
+      }
+
+      const publicFiles = existsSync(publicDir) ? readdirSync(publicDir, { recursive: true, withFileTypes: true }) : [];
+      for (const entry of publicFiles) {
+        if (!entry.isFile()) continue;
+        const path = join(entry.parentPath, entry.name);
+        urls.push(`/${path.slice(publicDir.length + 1).split('\\').join('/')}`);
+        hash.update(readFileSync(path));
+      }
+
+      const html = bundle['index.html'];
+      const htmlSource = html?.type === 'asset' ? String(html.source) : '';
+      const fontStylesheets = [...htmlSource.matchAll(/href="(https:\/\/fonts\.googleapis\.com\/[^"]+)"/g)].map(match => match[1]);
+
+      const precache = { version: hash.digest('hex').slice(0, 12), urls: urls.sort(), fontStylesheets };
+      this.emitFile({
+        type: 'asset',
+        fileName: 'sw.js',
+        source: readFileSync('sw.js', 'utf-8').replace('self.__VOIDDEX_PRECACHE__', JSON.stringify(precache)),
+      });
+    },
+  };
+};
 
 // https://vitejs.dev/config/
-export default defineConfig({
-  plugins: [react()],
-  server: {
-    port: 3000,
-    open: false
+export default defineConfig(({ command, mode }) => {
+  // Only VOIDDEX_* variables are exposed to the client bundle
+  const env = loadEnv(mode, process.cwd(), 'VOIDDEX_');
+
+  return {
+    plugins: [react(), serviceWorker()],
+    define: {
+      __VOIDDEX_CONFIG__: JSON.stringify({
+        dataSource: env.VOIDDEX_DATA_SOURCE,
+        apiBaseUrl: env.VOIDDEX_API_URL,
+        appUrl: env.VOIDDEX_APP_URL,
+        labelSigning: env.VOIDDEX_LABEL_SIGNING === 'true',
+        serviceWorker: command === 'build',
+        authProvider: env.VOIDDEX_AUTH_PROVIDER,
+        oidcAuthorizationUrl: env.VOIDDEX_OIDC_AUTHORIZATION_URL,
+        oidcTokenUrl: env.VOIDDEX_OIDC_TOKEN_URL,
+        oidcClientId: env.VOIDDEX_OIDC_CLIENT_ID,
+        oidcScope: env.VOIDDEX_OIDC_SCOPE,
+        oidcRedirectUrl: env.VOIDDEX_OIDC_REDIRECT_URL,
+        oidcRoleClaim: env.VOIDDEX_OIDC_ROLE_CLAIM,
+        oidcPlinClaim: env.VOIDDEX_OIDC_PLIN_CLAIM,
+        inactivityTimeoutMinutes: env.VOIDDEX_INACTIVITY_TIMEOUT_MINUTES ? Number(env.VOIDDEX_INACTIVITY_TIMEOUT_MINUTES) : undefined
+      })
+    },
+    server: {
+      port: 3000,
+      open: false
+    }
   }
-})
\ No newline at end of file
+})